@@ -43,15 +43,31 @@ async function build() {
         content: join(root, 'src/content.ts'),
         injected: join(root, 'src/injected.ts'),
         background: join(root, 'src/background.ts'),
+        devtools: join(root, 'src/devtools.ts'),
+        'devtools-panel': join(root, 'src/devtoolsPanel.ts'),
       },
       outdir: dist,
     });
+    // 纯数据的快照对比，供 MCP 在 Node 端直接对比两个文件
+    const nodeCtx = await esbuild.context({
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      target: ['node18'],
+      logLevel: 'info',
+      entryPoints: { 'scene-diff': join(root, 'src/cocos3/sceneDiffCore.ts') },
+      outExtension: { '.js': '.mjs' },
+      outdir: dist,
+    });
     if (watch) {
       await ctx.watch();
+      await nodeCtx.watch();
       console.log('watching…');
     } else {
       await ctx.rebuild();
       await ctx.dispose();
+      await nodeCtx.rebuild();
+      await nodeCtx.dispose();
     }
   } else {
     console.log('本地未安装 esbuild，使用 npx esbuild…');
@@ -62,6 +78,8 @@ async function build() {
       ['content', 'src/content.ts'],
       ['injected', 'src/injected.ts'],
       ['background', 'src/background.ts'],
+      ['devtools', 'src/devtools.ts'],
+      ['devtools-panel', 'src/devtoolsPanel.ts'],
     ]) {
       const r = spawnSync(
         'npx',
@@ -79,12 +97,29 @@ async function build() {
       );
       if (r.status !== 0) process.exit(r.status ?? 1);
     }
+    const r = spawnSync(
+      'npx',
+      [
+        '--yes',
+        'esbuild',
+        'src/cocos3/sceneDiffCore.ts',
+        '--bundle',
+        '--outfile=dist/scene-diff.mjs',
+        '--format=esm',
+        '--platform=node',
+      ],
+      { cwd: root, stdio: 'inherit', shell: true }
+    );
+    if (r.status !== 0) process.exit(r.status ?? 1);
   }
 
   copyFileSync(
     join(root, 'src/styles/inspector.css'),
     join(dist, 'inspector.css')
   );
+  for (const page of ['devtools.html', 'devtools-panel.html']) {
+    copyFileSync(join(root, 'src/pages', page), join(dist, page));
+  }
   console.log('build ok → dist/');
 }
 
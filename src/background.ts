@@ -292,6 +292,24 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     sendResponse(getMcpStatusPayload());
     return true;
   }
+  // DevTools 面板：转发到被检查标签页，走与 MCP 相同的 cocos-api-call 路径
+  const call = message as {
+    type?: string;
+    tabId?: number;
+    method?: string;
+    args?: unknown[];
+  } | null;
+  if (call?.type === 'cocos-devtools-call' && typeof call.tabId === 'number' && call.method) {
+    void callApiViaContent(call.tabId, call.method, call.args ?? [])
+      .then((result) => sendResponse({ ok: true, result }))
+      .catch((e) =>
+        sendResponse({
+          ok: false,
+          error: e instanceof Error ? e.message : String(e),
+        })
+      );
+    return true;
+  }
   return false;
 });
 
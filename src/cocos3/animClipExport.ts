@@ -0,0 +1,646 @@
+import JSZip from 'jszip';
+import { getComponentName, getNodeComponents } from './componentAccess';
+import { findNodeById, getSceneRoot } from './sceneTree';
+import {
+  extractAtlasFramePixels,
+  resolveDisplaySize,
+  resolveFrameRect,
+  type SpriteFrameRuntime,
+} from './textureExtract';
+import { textureResultToPngBlob, triggerBlobDownload } from './texturePng';
+
+type CompRecord = Record<string, unknown>;
+
+export interface AnimClipExportFileEntry {
+  path: string;
+  bytes: number;
+  method?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface AnimClipExportResult {
+  ok: boolean;
+  zipName: string;
+  zipBlob?: Blob;
+  files: AnimClipExportFileEntry[];
+  log: string[];
+  error?: string;
+}
+
+/** 轨道路径段：属性名 / 子节点路径 / 组件类名 */
+type PathSeg = string | { hierarchy: string } | { component: string };
+
+interface RealKey {
+  value: number;
+  interpolationMode: number;
+  tangentWeightMode: number;
+  rightTangent: number;
+  rightTangentWeight: number;
+  leftTangent: number;
+  leftTangentWeight: number;
+  easingMethod: number;
+}
+
+interface RealChannel {
+  times: number[];
+  keys: RealKey[];
+  preExtrapolation: number;
+  postExtrapolation: number;
+}
+
+/** 导出前的中间轨道：数值类轨道按分量拆成 RealCurve，SpriteFrame 为 ObjectCurve */
+type ExportTrack =
+  | { kind: 'vector'; path: PathSeg[]; channels: RealChannel[] }
+  | { kind: 'color' | 'size' | 'real'; path: PathSeg[]; channels: RealChannel[] }
+  | { kind: 'object'; path: PathSeg[]; times: number[]; frames: unknown[] };
+
+// RealInterpolationMode.LINEAR / ExtrapolationMode.CLAMP
+const LINEAR = 0;
+const CONSTANT = 1;
+const CLAMP = 1;
+const RAD2DEG = 180 / Math.PI;
+
+const sanitize = (name: string): string =>
+  name.replace(/[<>:"/\\|?*\s]+/g, '_').replace(/_+/g, '_') || 'anim';
+
+const isAnimationComp = (comp: unknown): boolean =>
+  /(^|\.)(Skeletal)?Animation$/.test(getComponentName(comp));
+
+const getAnimationComponents = (node: cc.Node): CompRecord[] => {
+  return getNodeComponents(node).filter(isAnimationComp) as CompRecord[];
+};
+
+const toArray = (v: unknown): unknown[] => {
+  if (Array.isArray(v)) return v;
+  if (ArrayBuffer.isView(v)) return Array.from(v as unknown as ArrayLike<number>);
+  return [];
+};
+
+const num = (v: unknown, fallback = 0): number => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const assetName = (asset: unknown): string => {
+  const r = asset as { name?: string; _name?: string } | null | undefined;
+  return String(r?.name || r?._name || '');
+};
+
+const isSpriteFrame = (v: unknown): boolean =>
+  !!v && typeof v === 'object' && /SpriteFrame/.test(getComponentName(v));
+
+// ---------- 运行时轨道（3.3+ _tracks） ----------
+
+const describePath = (path: PathSeg[]): string =>
+  path
+    .map((seg) =>
+      typeof seg === 'string' ? seg : 'component' in seg ? `[${seg.component}]` : seg.hierarchy
+    )
+    .join('/');
+
+const readPathSegs = (track: CompRecord): PathSeg[] => {
+  const binding = (track._binding ?? track.binding) as CompRecord | undefined;
+  const path = binding?.path as CompRecord | undefined;
+  return toArray(path?._paths ?? path?.paths).map((seg): PathSeg => {
+    if (typeof seg === 'string' || typeof seg === 'number') return String(seg);
+    const s = seg as CompRecord;
+    if (typeof s.component === 'string') return { component: s.component };
+    return { hierarchy: String(s.path ?? '') };
+  });
+};
+
+const readRealCurve = (curve: CompRecord | null | undefined): RealChannel => {
+  const times = toArray(curve?._times).map((t) => num(t));
+  const keys = toArray(curve?._values).map((k): RealKey => {
+    const v = k as CompRecord;
+    return {
+      value: num(v.value),
+      interpolationMode: num(v.interpolationMode, LINEAR),
+      tangentWeightMode: num(v.tangentWeightMode),
+      rightTangent: num(v.rightTangent),
+      rightTangentWeight: num(v.rightTangentWeight, 1),
+      leftTangent: num(v.leftTangent),
+      leftTangentWeight: num(v.leftTangentWeight, 1),
+      easingMethod: num(v.easingMethod),
+    };
+  });
+  return {
+    times,
+    keys,
+    preExtrapolation: num(curve?.preExtrapolation, CLAMP),
+    postExtrapolation: num(curve?.postExtrapolation, CLAMP),
+  };
+};
+
+const linearKey = (value: number, constant = false): RealKey => ({
+  value,
+  interpolationMode: constant ? CONSTANT : LINEAR,
+  tangentWeightMode: 0,
+  rightTangent: 0,
+  rightTangentWeight: 1,
+  leftTangent: 0,
+  leftTangentWeight: 1,
+  easingMethod: 0,
+});
+
+/** Quat → 欧拉角（与引擎 Quat.toEuler 相同公式，单位度） */
+const quatToEuler = (q: CompRecord): [number, number, number] => {
+  const x = num(q.x);
+  const y = num(q.y);
+  const z = num(q.z);
+  const w = num(q.w, 1);
+  const test = x * y + z * w;
+  let bank = 0;
+  let heading = 0;
+  let attitude = 0;
+  if (test > 0.499999) {
+    heading = 2 * Math.atan2(x, w);
+    attitude = Math.PI / 2;
+  } else if (test < -0.499999) {
+    heading = -2 * Math.atan2(x, w);
+    attitude = -Math.PI / 2;
+  } else {
+    bank = Math.atan2(2 * x * w - 2 * y * z, 1 - 2 * x * x - 2 * z * z);
+    heading = Math.atan2(2 * y * w - 2 * x * z, 1 - 2 * y * y - 2 * z * z);
+    attitude = Math.asin(2 * test);
+  }
+  return [bank * RAD2DEG, heading * RAD2DEG, attitude * RAD2DEG];
+};
+
+/** 四元数关键帧拆成 eulerAngles 三条线性曲线（编辑器旋转轨道即 eulerAngles） */
+const quatKeysToEulerChannels = (times: number[], quats: CompRecord[]): RealChannel[] => {
+  const eulers = quats.map(quatToEuler);
+  return [0, 1, 2].map((axis) => ({
+    times: times.slice(),
+    keys: eulers.map((e) => linearKey(Math.round(e[axis] * 1000) / 1000)),
+    preExtrapolation: CLAMP,
+    postExtrapolation: CLAMP,
+  }));
+};
+
+const replaceLastSeg = (path: PathSeg[], prop: string): PathSeg[] =>
+  path.length && typeof path[path.length - 1] === 'string'
+    ? [...path.slice(0, -1), prop]
+    : [...path, prop];
+
+const readTrack = (track: CompRecord, log: string[]): ExportTrack | null => {
+  const type = getComponentName(track);
+  const path = readPathSegs(track);
+  const channelsOf = (): CompRecord[] => {
+    const list = track.channels;
+    const fromFn =
+      typeof list === 'function' ? toArray((list as () => unknown).call(track)) : [];
+    return (fromFn.length ? fromFn : toArray(track._channels)) as CompRecord[];
+  };
+  const singleChannel = (): CompRecord | undefined =>
+    (typeof track.channel === 'function'
+      ? (track.channel as () => unknown).call(track)
+      : track._channel) as CompRecord | undefined;
+  const curveOf = (ch: CompRecord | undefined): CompRecord | undefined =>
+    (ch?.curve ?? ch?._curve) as CompRecord | undefined;
+
+  if (/VectorTrack/.test(type)) {
+    const n = num(track._nComponents ?? track.componentsCount, 3);
+    const channels = channelsOf()
+      .slice(0, n)
+      .map((ch) => readRealCurve(curveOf(ch)));
+    return { kind: 'vector', path, channels };
+  }
+  if (/ColorTrack/.test(type)) {
+    return { kind: 'color', path, channels: channelsOf().map((ch) => readRealCurve(curveOf(ch))) };
+  }
+  if (/SizeTrack/.test(type)) {
+    return { kind: 'size', path, channels: channelsOf().map((ch) => readRealCurve(curveOf(ch))) };
+  }
+  if (/RealTrack/.test(type)) {
+    return { kind: 'real', path, channels: [readRealCurve(curveOf(singleChannel()))] };
+  }
+  if (/QuatTrack/.test(type)) {
+    const curve = curveOf(singleChannel());
+    const times = toArray(curve?._times).map((t) => num(t));
+    const quats = toArray(curve?._values).map((k) => ((k as CompRecord).value ?? k) as CompRecord);
+    return {
+      kind: 'vector',
+      path: replaceLastSeg(path, 'eulerAngles'),
+      channels: quatKeysToEulerChannels(times, quats),
+    };
+  }
+  if (/ObjectTrack/.test(type)) {
+    const curve = curveOf(singleChannel());
+    const times = toArray(curve?._times).map((t) => num(t));
+    const frames = toArray(curve?._values);
+    if (!frames.every((f) => f === null || isSpriteFrame(f))) {
+      log.push(`跳过 ObjectTrack（非 SpriteFrame 值）: ${describePath(path)}`);
+      return null;
+    }
+    return { kind: 'object', path, times, frames };
+  }
+  log.push(`跳过不支持的轨道 ${type}: ${describePath(path)}`);
+  return null;
+};
+
+// ---------- 旧版曲线（3.0~3.2 curves + keys） ----------
+
+const readLegacyTracks = (clip: CompRecord, log: string[]): ExportTrack[] => {
+  const sharedKeys = toArray(clip.keys ?? clip._keys).map((k) => toArray(k).map((t) => num(t)));
+  const out: ExportTrack[] = [];
+  for (const raw of toArray(clip.curves ?? clip._curves)) {
+    const curve = raw as CompRecord;
+    const path = toArray(curve.modifiers).map((seg): PathSeg => {
+      if (typeof seg === 'string') return seg;
+      const s = seg as CompRecord;
+      if (typeof s.component === 'string') return { component: s.component };
+      return { hierarchy: String(s.path ?? '') };
+    });
+    const data = (curve.data ?? {}) as CompRecord;
+    const times = sharedKeys[num(data.keys, -1)] ?? [];
+    const values = toArray(data.values);
+    if (!values.length || values.length !== times.length) {
+      log.push(`跳过旧版曲线（关键帧数不一致）: ${describePath(path)}`);
+      continue;
+    }
+    const first = values[0] as CompRecord | number;
+    const constant = data.interpolate === false;
+    const channel = (pick: (v: CompRecord) => unknown): RealChannel => ({
+      times: times.slice(),
+      keys: values.map((v) => linearKey(num(pick(v as CompRecord)), constant)),
+      preExtrapolation: CLAMP,
+      postExtrapolation: CLAMP,
+    });
+
+    if (typeof first === 'number') {
+      out.push({
+        kind: 'real',
+        path,
+        channels: [{
+          times: times.slice(),
+          keys: values.map((v) => linearKey(num(v), constant)),
+          preExtrapolation: CLAMP,
+          postExtrapolation: CLAMP,
+        }],
+      });
+    } else if (isSpriteFrame(first)) {
+      out.push({ kind: 'object', path, times, frames: values });
+    } else if (first && 'w' in first && 'x' in first) {
+      out.push({
+        kind: 'vector',
+        path: replaceLastSeg(path, 'eulerAngles'),
+        channels: quatKeysToEulerChannels(times, values as CompRecord[]),
+      });
+    } else if (first && 'r' in first && 'a' in first) {
+      const channels = ['r', 'g', 'b', 'a'].map((k) => channel((v) => v[k]));
+      out.push({ kind: 'color', path, channels });
+    } else if (first && 'width' in first) {
+      const channels = ['width', 'height'].map((k) => channel((v) => v[k]));
+      out.push({ kind: 'size', path, channels });
+    } else if (first && 'x' in first) {
+      const axes = 'z' in first ? ['x', 'y', 'z'] : ['x', 'y'];
+      out.push({ kind: 'vector', path, channels: axes.map((k) => channel((v) => v[k])) });
+    } else {
+      log.push(`跳过旧版曲线（未知值类型）: ${describePath(path)}`);
+    }
+  }
+  return out;
+};
+
+// ---------- .anim 序列化 ----------
+
+/** Creator 3.x 序列化格式：对象数组 + __id__ 引用 */
+class AnimSerializer {
+  readonly objects: CompRecord[] = [];
+
+  add(obj: CompRecord): { __id__: number } {
+    this.objects.push(obj);
+    return { __id__: this.objects.length - 1 };
+  }
+
+  realCurve(ch: RealChannel): { __id__: number } {
+    return this.add({
+      __type__: 'cc.RealCurve',
+      _times: ch.times,
+      _values: ch.keys.map((k) => ({
+        __type__: 'cc.RealKeyframeValue',
+        interpolationMode: k.interpolationMode,
+        tangentWeightMode: k.tangentWeightMode,
+        value: k.value,
+        rightTangent: k.rightTangent,
+        rightTangentWeight: k.rightTangentWeight,
+        leftTangent: k.leftTangent,
+        leftTangentWeight: k.leftTangentWeight,
+        easingMethod: k.easingMethod,
+        __editorExtras__: null,
+      })),
+      preExtrapolation: ch.preExtrapolation,
+      postExtrapolation: ch.postExtrapolation,
+    });
+  }
+
+  binding(path: PathSeg[]): CompRecord {
+    const paths = path.map((seg) => {
+      if (typeof seg === 'string') return seg;
+      if ('component' in seg) {
+        return this.add({ __type__: 'cc.animation.ComponentPath', component: seg.component });
+      }
+      return this.add({ __type__: 'cc.animation.HierarchyPath', path: seg.hierarchy });
+    });
+    return {
+      __type__: 'cc.animation.TrackBinding',
+      path: this.add({ __type__: 'cc.animation.TrackPath', _paths: paths }),
+      proxy: null,
+    };
+  }
+
+  channel(curve: { __id__: number }): { __id__: number } {
+    return this.add({ __type__: 'cc.animation.Channel', _curve: curve });
+  }
+}
+
+const TRACK_TYPES: Record<Exclude<ExportTrack['kind'], 'object'>, string> = {
+  vector: 'cc.animation.VectorTrack',
+  color: 'cc.animation.ColorTrack',
+  size: 'cc.animation.SizeTrack',
+  real: 'cc.animation.RealTrack',
+};
+
+const buildAnimJson = (
+  clip: CompRecord,
+  name: string,
+  tracks: ExportTrack[],
+  frameUuid: (frame: unknown) => string | null
+): CompRecord[] => {
+  const s = new AnimSerializer();
+  const root: CompRecord = {
+    __type__: 'cc.AnimationClip',
+    _name: name,
+    _objFlags: 0,
+    __editorExtras__: { embeddedPlayerGroups: [] },
+    _native: '',
+    sample: num(clip.sample, 60),
+    speed: num(clip.speed, 1),
+    wrapMode: num(clip.wrapMode, 1),
+    enableTrsBlending: clip.enableTrsBlending === true,
+    _duration: num(clip.duration ?? clip._duration),
+    _hash: 0,
+    _tracks: [],
+    _exoticAnimation: null,
+    _events: toArray(clip.events ?? clip._events).map((e) => {
+      const ev = e as CompRecord;
+      return {
+        frame: num(ev.frame),
+        func: String(ev.func ?? ''),
+        params: toArray(ev.params).map((p) => String(p)),
+      };
+    }),
+    _embeddedPlayers: [],
+    _additiveSettings: null,
+    _auxiliaryCurveEntries: [],
+  };
+  s.add(root);
+
+  const trackIds: { __id__: number }[] = [];
+  for (const t of tracks) {
+    const trackObj: CompRecord = { __type__: '', _binding: s.binding(t.path) };
+    const id = s.add(trackObj);
+    if (t.kind === 'object') {
+      trackObj.__type__ = 'cc.animation.ObjectTrack';
+      const curve = s.add({
+        __type__: 'cc.ObjectCurve',
+        _times: t.times,
+        _values: t.frames.map((f) => {
+          const uuid = f ? frameUuid(f) : null;
+          return uuid ? { __uuid__: uuid, __expectedType__: 'cc.SpriteFrame' } : null;
+        }),
+      });
+      trackObj._channel = s.channel(curve);
+    } else if (t.kind === 'real') {
+      trackObj.__type__ = TRACK_TYPES.real;
+      trackObj._channel = s.channel(s.realCurve(t.channels[0]));
+    } else {
+      trackObj.__type__ = TRACK_TYPES[t.kind];
+      trackObj._channels = t.channels.map((ch) => s.channel(s.realCurve(ch)));
+      if (t.kind === 'vector') trackObj._nComponents = t.channels.length;
+    }
+    trackIds.push(id);
+  }
+  root._tracks = trackIds;
+  root._additiveSettings = s.add({
+    __type__: 'cc.AnimationClipAdditiveSettings',
+    enabled: false,
+    refClip: null,
+  });
+  return s.objects;
+};
+
+const newUuid = (): string => {
+  const c = (window as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (typeof c?.randomUUID === 'function') return c.randomUUID();
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (ch) => {
+    const r = (Math.random() * 16) | 0;
+    return (ch === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+/** 最小 image .meta：Creator 保留 uuid 并按固定 id 生成 texture(6c48a) / spriteFrame(f9941) 子资源 */
+const buildPngMeta = (uuid: string): string =>
+  `${JSON.stringify(
+    {
+      ver: '1.0.26',
+      importer: 'image',
+      imported: true,
+      uuid,
+      files: ['.json', '.png'],
+      subMetas: {},
+      userData: {
+        type: 'sprite-frame',
+        hasAlpha: true,
+        fixAlphaTransparencyArtifacts: false,
+        redirect: `${uuid}@6c48a`,
+      },
+    },
+    null,
+    2
+  )}\n`;
+
+export const exportAnimClipsFromNode = async (
+  nodeId: string,
+  animIndex = 0
+): Promise<AnimClipExportResult> => {
+  const log: string[] = [];
+  const files: AnimClipExportFileEntry[] = [];
+
+  try {
+    const scene = getSceneRoot();
+    if (!scene) {
+      return { ok: false, zipName: '', files, log, error: '场景未就绪' };
+    }
+
+    const node = findNodeById(scene, nodeId);
+    if (!node) {
+      return { ok: false, zipName: '', files, log, error: '节点不存在' };
+    }
+
+    const comp = getAnimationComponents(node)[animIndex];
+    if (!comp) {
+      return { ok: false, zipName: '', files, log, error: '节点无 Animation 组件' };
+    }
+
+    const clips = toArray(comp.clips ?? comp._clips).filter(Boolean) as CompRecord[];
+    if (clips.length === 0) {
+      return { ok: false, zipName: '', files, log, error: 'Animation 未绑定任何剪辑' };
+    }
+
+    const nodeName = node.name || 'node';
+    const baseName = sanitize(nodeName);
+    const zipName = `${baseName}_anim.zip`;
+    const zip = new JSZip();
+    const prefix = `${baseName}/`;
+
+    log.push(`节点 ${nodeName}(${nodeId}) · ${getComponentName(comp)} · ${clips.length} 个剪辑`);
+
+    // 先读全部剪辑轨道，收集引用到的帧
+    const clipNames = new Set<string>();
+    const prepared: { clip: CompRecord; name: string; tracks: ExportTrack[]; legacy: boolean }[] =
+      [];
+    const frameFiles = new Map<unknown, { file: string; uuid: string; ok: boolean }>();
+    const usedNames = new Set<string>();
+    for (const clip of clips) {
+      let name = sanitize(assetName(clip) || 'clip');
+      for (let i = 2; clipNames.has(name); i++) name = `${sanitize(assetName(clip))}_${i}`;
+      clipNames.add(name);
+
+      const rawTracks = toArray(clip._tracks);
+      const tracks = rawTracks.length
+        ? (rawTracks
+            .map((t) => readTrack(t as CompRecord, log))
+            .filter(Boolean) as ExportTrack[])
+        : readLegacyTracks(clip, log);
+      if (clip._exoticAnimation) {
+        log.push(`警告: ${name} 含骨骼（exotic）动画数据，未导出`);
+      }
+      prepared.push({ clip, name, tracks, legacy: rawTracks.length === 0 });
+
+      for (const t of tracks) {
+        if (t.kind !== 'object') continue;
+        for (const frame of t.frames) {
+          if (!frame || frameFiles.has(frame)) continue;
+          const base = sanitize(assetName(frame) || 'frame');
+          let file = base;
+          for (let i = 2; usedNames.has(file); i++) file = `${base}_${i}`;
+          usedNames.add(file);
+          frameFiles.set(frame, { file, uuid: newUuid(), ok: false });
+        }
+      }
+    }
+
+    // 帧图：按帧显示尺寸导出 PNG，附带固定 uuid 的 .meta
+    for (const [frame, entry] of Array.from(frameFiles.entries())) {
+      const sf = frame as SpriteFrameRuntime;
+      const texture = sf.texture ?? sf._texture;
+      if (!texture) {
+        log.push(`警告: 帧 ${entry.file} 无纹理，.anim 中该关键帧留空`);
+        continue;
+      }
+      const texW = Math.floor(texture.width ?? 0);
+      const texH = Math.floor(texture.height ?? 0);
+      const display = resolveDisplaySize(sf, resolveFrameRect(sf, texW, texH));
+      const result = await extractAtlasFramePixels(sf, { w: texW, h: texH }, display);
+      const png = result ? textureResultToPngBlob(result) : null;
+      if (!result || !png) {
+        log.push(`警告: 帧 ${entry.file} 像素提取失败，.anim 中该关键帧留空`);
+        continue;
+      }
+      entry.ok = true;
+      const pngPath = `${prefix}frames/${entry.file}.png`;
+      const meta = buildPngMeta(entry.uuid);
+      zip.file(pngPath, png);
+      zip.file(`${pngPath}.meta`, meta);
+      const { width, height } = result.imageData;
+      files.push({ path: pngPath, bytes: png.size, method: result.method, width, height });
+      files.push({ path: `${pngPath}.meta`, bytes: meta.length });
+      log.push(`帧 ${pngPath} ${width}×${height} · ${result.method}`);
+    }
+
+    // 只引用成功导出的帧，避免 Creator 里出现丢失资源
+    const frameUuid = (frame: unknown): string | null => {
+      const entry = frameFiles.get(frame);
+      return entry?.ok ? `${entry.uuid}@f9941` : null;
+    };
+
+    const manifestClips: CompRecord[] = [];
+    for (const { clip, name, tracks, legacy } of prepared) {
+      const json = JSON.stringify(buildAnimJson(clip, name, tracks, frameUuid), null, 2);
+      const animPath = `${prefix}${name}.anim`;
+      zip.file(animPath, json);
+      files.push({ path: animPath, bytes: json.length, method: legacy ? 'legacy' : 'tracks' });
+      manifestClips.push({
+        name,
+        duration: num(clip.duration ?? clip._duration),
+        sample: num(clip.sample, 60),
+        wrapMode: num(clip.wrapMode, 1),
+        tracks: tracks.map((t) => `${t.kind}:${describePath(t.path)}`),
+      });
+      log.push(`剪辑 ${animPath} · ${tracks.length} 条轨道`);
+    }
+
+    const manifest = {
+      exporter: 'cocos-inspector-anim-v1',
+      engineVersion: window.cc?.ENGINE_VERSION ?? '3.x',
+      nodeId,
+      nodeName,
+      component: getComponentName(comp),
+      defaultClip: assetName(comp.defaultClip ?? comp._defaultClip) || null,
+      clips: manifestClips,
+      frames: Array.from(frameFiles.values())
+        .filter((f) => f.ok)
+        .map((f) => ({ file: `frames/${f.file}.png`, spriteFrameUuid: `${f.uuid}@f9941` })),
+      exportedAt: new Date().toISOString(),
+      files,
+      log,
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    const readmeLines = [
+      'Cocos Inspector — AnimationClip 导出包',
+      '',
+      '目录结构（整个文件夹拷到 Creator 3.x 工程 assets 下）：',
+      `  ${baseName}/<剪辑名>.anim`,
+      `  ${baseName}/frames/<帧名>.png + .png.meta`,
+      '',
+      'Creator 导入：',
+      '  1. 连同 .png.meta 一起拷入，不要单独拖入 png（.meta 中的 uuid 与 .anim 的帧引用一致）',
+      '  2. 导入后给节点添加 Animation 组件，把 .anim 拖到 Clips',
+      '  3. 轨道路径相对 Animation 所在节点；复刻场景的子节点名需与原场景一致',
+      '',
+      '注：四元数旋转轨道转为 eulerAngles 线性曲线；骨骼（exotic）动画、',
+      '非 SpriteFrame 的对象轨道不导出，见 manifest.json 的 log。',
+    ];
+    zip.file('IMPORT_README.txt', readmeLines.join('\n'));
+
+    const zipBlob = await zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+    });
+
+    const frameCount = Array.from(frameFiles.values()).filter((f) => f.ok).length;
+    console.log(`[动画导出] ${nodeName}(${nodeId}) · ${clips.length} 剪辑 · ${frameCount} 帧`);
+
+    return { ok: true, zipName, zipBlob, files, log };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error('[动画导出] exportAnimClipsFromNode 失败', error);
+    return { ok: false, zipName: '', files, log, error: msg };
+  }
+};
+
+export const downloadAnimClipExport = async (
+  nodeId: string,
+  animIndex = 0
+): Promise<AnimClipExportResult> => {
+  const result = await exportAnimClipsFromNode(nodeId, animIndex);
+  if (result.ok && result.zipBlob && result.zipName) {
+    triggerBlobDownload(result.zipBlob, result.zipName);
+  }
+  return result;
+};
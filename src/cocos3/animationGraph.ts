@@ -0,0 +1,767 @@
+import { getComponentName, getNodeComponents, shortTypeName } from './componentAccess';
+import { buildNodePathForSnapshot, resolveSnapshotRoot } from './sceneSnapshot';
+import { getNodeId } from './sceneTree';
+import { subscribeAfterUpdate } from './timelineRecorder';
+
+export type AnimationComponentKind = 'animation' | 'controller' | 'spine';
+
+export interface AnimationClipInfo {
+  name: string;
+  duration: number | null;
+  /** 无法判断（如 Spine 动画本身不带循环信息）为 null */
+  loop: boolean | null;
+  /** 动画帧事件回调名（cc.Animation） */
+  events?: string[];
+}
+
+export interface AnimationGraphState {
+  name: string;
+  /** Spine 轨道 / AnimationController 层；cc.Animation 恒为 0 */
+  track: number;
+  /** 状态机状态类型：motion / empty / entry / exit / any / sub */
+  kind?: string;
+  /** 捕获期间进入次数 */
+  plays: number;
+  /** 捕获期间累计播放毫秒数 */
+  totalMs: number;
+}
+
+export interface AnimationGraphTransition {
+  /** null 表示从空闲开始 / 回到空闲 */
+  from: string | null;
+  to: string | null;
+  track: number;
+  /** graph：AnimationController 状态机中定义；observed：运行时捕获 */
+  source: 'graph' | 'observed';
+  /** 捕获期间发生次数（仅定义未发生为 0） */
+  count: number;
+  conditions?: string[];
+}
+
+export interface AnimationComponentGraph {
+  /** nodeId#组件下标 */
+  key: string;
+  nodeId: string;
+  nodeName: string;
+  path: string;
+  component: string;
+  kind: AnimationComponentKind;
+  clips: AnimationClipInfo[];
+  defaultClip: string | null;
+  skins?: string[];
+  currentSkin?: string | null;
+  /** Spine 骨架级事件名 */
+  skeletonEvents?: string[];
+  /** 提取时各轨道 / 层正在播放的动画 */
+  playing: { track: number; name: string; loop: boolean | null }[];
+  /** AnimationController 的层 */
+  layers?: { index: number; name: string }[];
+  states: AnimationGraphState[];
+  transitions: AnimationGraphTransition[];
+}
+
+export interface AnimationPlayEvent {
+  /** 相对捕获开始的毫秒数 */
+  t: number;
+  key: string;
+  track: number;
+  from: string | null;
+  to: string | null;
+}
+
+export interface AnimationStateGraph {
+  version: 1;
+  extractedAt: string;
+  pageUrl: string;
+  sceneName: string;
+  root: { id: string; path: string };
+  capture: { recording: boolean; durationMs: number; frames: number } | null;
+  components: AnimationComponentGraph[];
+  /** 捕获到的播放顺序（按时间） */
+  events: AnimationPlayEvent[];
+  eventsTruncated: boolean;
+}
+
+export interface AnimationGraphOptions {
+  rootId?: string;
+  rootPath?: string;
+  /** 最多提取组件数，默认 200 */
+  maxComponents?: number;
+}
+
+export interface AnimationCaptureOptions extends AnimationGraphOptions {
+  /** 最多记录播放事件数，默认 5000 */
+  maxEvents?: number;
+}
+
+export interface AnimationCaptureStatus {
+  recording: boolean;
+  rootPath: string | null;
+  components: number;
+  events: number;
+  durationMs: number;
+}
+
+type Rec = Record<string, unknown>;
+
+type AnimComponentRef = {
+  key: string;
+  node: cc.Node;
+  comp: Rec;
+  typeName: string;
+  kind: AnimationComponentKind;
+};
+
+/** 每条轨道当前播放的动画名（null 为空闲） */
+type TrackMap = Map<number, string | null>;
+
+type CaptureSession = {
+  rootNode: cc.Node;
+  rootPath: string;
+  startedAt: number;
+  frames: number;
+  maxEvents: number;
+  maxComponents: number;
+  refs: Map<string, AnimComponentRef>;
+  current: Map<string, TrackMap>;
+  /** key|track|name → 进入时间，用于累计播放时长 */
+  enteredAt: Map<string, number>;
+  totals: Map<string, number>;
+  events: AnimationPlayEvent[];
+  eventsTruncated: boolean;
+  /** 停止时写入的总时长 */
+  durationMs: number;
+  stopSampling: () => void;
+};
+
+const RESCAN_INTERVAL = 30;
+const SPINE_PROBE_TRACKS = 4;
+const BINARY_OPERATORS = ['==', '!=', '<', '<=', '>', '>='];
+
+/** JS 数组或 wasm vector（size/get）统一为数组 */
+const toList = (v: unknown): unknown[] => {
+  if (Array.isArray(v)) return v;
+  const vec = v as { size?: () => number; get?: (i: number) => unknown } | null | undefined;
+  if (typeof vec?.size === 'function' && typeof vec.get === 'function') {
+    const out: unknown[] = [];
+    const n = vec.size();
+    for (let i = 0; i < n; i++) out.push(vec.get(i));
+    return out;
+  }
+  return [];
+};
+
+/** 迭代器方法（states() / transitions()）或数组字段 */
+const iterList = (owner: Rec | null | undefined, method: string, field: string): Rec[] => {
+  if (!owner) return [];
+  try {
+    const fn = owner[method];
+    if (typeof fn === 'function') {
+      return Array.from((fn as () => Iterable<unknown>).call(owner)) as Rec[];
+    }
+  } catch {
+    /* 迭代失败时退回内部字段 */
+  }
+  return toList(owner[field]).filter(Boolean) as Rec[];
+};
+
+const numOrNull = (v: unknown): number | null =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.round(v * 1000) / 1000 : null;
+
+const nameOf = (v: unknown): string => {
+  const r = v as { name?: string; _name?: string } | null | undefined;
+  return String(r?.name ?? r?._name ?? '');
+};
+
+const componentKind = (typeName: string): AnimationComponentKind | null => {
+  if (/AnimationController/.test(typeName)) return 'controller';
+  if (/SkeletalAnimation|(^|\.)Animation$/.test(typeName)) return 'animation';
+  if (/Skeleton/.test(typeName) && !/SkeletonData/.test(typeName)) return 'spine';
+  return null;
+};
+
+const collectAnimComponents = (root: cc.Node, limit: number): AnimComponentRef[] => {
+  const out: AnimComponentRef[] = [];
+  const walk = (node: cc.Node) => {
+    if (out.length >= limit) return;
+    getNodeComponents(node).forEach((comp, index) => {
+      if (!comp || out.length >= limit) return;
+      const typeName = getComponentName(comp);
+      const kind = componentKind(typeName);
+      if (!kind) return;
+      out.push({ key: `${getNodeId(node)}#${index}`, node, comp: comp as Rec, typeName, kind });
+    });
+    for (const child of node.children ?? []) {
+      if (child) walk(child);
+    }
+  };
+  walk(root);
+  return out;
+};
+
+// ---------- cc.Animation ----------
+
+const readAnimationClips = (c: Rec): AnimationClipInfo[] =>
+  toList(c.clips ?? c._clips)
+    .filter(Boolean)
+    .map((clip) => {
+      const r = clip as Rec;
+      const wrapMode = Number(r.wrapMode ?? 0);
+      const events = toList(r.events)
+        .map((e) => String((e as Rec).func ?? ''))
+        .filter(Boolean);
+      return {
+        name: nameOf(r),
+        duration: numOrNull(r.duration),
+        // WrapModeMask.Loop = 1 << 1
+        loop: r.wrapMode === undefined ? null : (wrapMode & 2) !== 0,
+        ...(events.length ? { events } : {}),
+      };
+    });
+
+const readAnimationTracks = (c: Rec, clips: AnimationClipInfo[]): TrackMap => {
+  const tracks: TrackMap = new Map();
+  const getState = c.getState as ((name: string) => Rec | null) | undefined;
+  let best: { name: string; time: number } | null = null;
+  for (const clip of clips) {
+    let state: Rec | null = null;
+    try {
+      state = typeof getState === 'function' ? getState.call(c, clip.name) : null;
+    } catch {
+      state = null;
+    }
+    if (!state || !state.isPlaying || state.isPaused) continue;
+    // 交叉淡入时取最近开始播放（time 最小）的状态
+    const time = Number(state.time ?? 0);
+    if (!best || time < best.time) best = { name: clip.name, time };
+  }
+  tracks.set(0, best ? best.name : null);
+  return tracks;
+};
+
+// ---------- sp.Skeleton ----------
+
+const readSpineData = (
+  c: Rec
+): {
+  clips: AnimationClipInfo[];
+  skins: string[];
+  currentSkin: string | null;
+  events: string[];
+} => {
+  const asset = (c.skeletonData ?? c._skeletonData) as Rec | null | undefined;
+  let runtime: Rec | null = null;
+  try {
+    const getRuntimeData = asset?.getRuntimeData as ((quiet?: boolean) => Rec) | undefined;
+    runtime = typeof getRuntimeData === 'function' ? getRuntimeData.call(asset, true) : null;
+  } catch {
+    runtime = null;
+  }
+  const skeleton = c._skeleton as Rec | undefined;
+  runtime = runtime ?? ((skeleton?.data as Rec | undefined) ?? null);
+
+  const events = toList(runtime?.events).map(nameOf).filter(Boolean);
+  const clips = toList(runtime?.animations).map((a) => ({
+    name: nameOf(a),
+    duration: numOrNull((a as Rec).duration),
+    loop: null,
+  }));
+  const skins = toList(runtime?.skins).map(nameOf).filter(Boolean);
+  const skinName = nameOf(skeleton?.skin);
+  const currentSkin = skinName || (c.defaultSkin ? String(c.defaultSkin) : null);
+  return { clips, skins, currentSkin, events };
+};
+
+const readSpineTracks = (c: Rec): Map<number, { name: string | null; loop: boolean | null }> => {
+  const out = new Map<number, { name: string | null; loop: boolean | null }>();
+  const state = c._state as Rec | undefined;
+  let entries: unknown[] = toList(state?.tracks);
+  if (!entries.length && typeof c.getCurrent === 'function') {
+    const getCurrent = c.getCurrent as (i: number) => unknown;
+    entries = [];
+    for (let i = 0; i < SPINE_PROBE_TRACKS; i++) {
+      try {
+        entries.push(getCurrent.call(c, i));
+      } catch {
+        entries.push(null);
+      }
+    }
+  }
+  entries.forEach((entry, i) => {
+    const e = entry as Rec | null;
+    const name = e ? nameOf(e.animation) || null : null;
+    // 空轨道只在之前有过动画时有意义，由调用方补 null
+    if (name) out.set(i, { name, loop: typeof e?.loop === 'boolean' ? e.loop : null });
+  });
+  return out;
+};
+
+// ---------- AnimationController ----------
+
+const describeOperand = (v: unknown): string => {
+  const r = v as Rec | null | undefined;
+  if (r && typeof r === 'object') {
+    const variable = r.variable ?? r.variableName ?? (r.binding as Rec | undefined)?.variableName;
+    if (variable) return String(variable);
+    if ('value' in r) return String(r.value);
+  }
+  return String(v);
+};
+
+const describeCondition = (cond: Rec): string => {
+  if (cond.trigger !== undefined) return `trigger ${String(cond.trigger)}`;
+  if ('rhs' in cond || 'rhsBinding' in cond) {
+    const op = BINARY_OPERATORS[Number(cond.operator)] ?? `op${String(cond.operator)}`;
+    return `${describeOperand(cond.lhsBinding ?? cond.lhs)} ${op} ${describeOperand(
+      cond.rhsBinding ?? cond.rhs
+    )}`;
+  }
+  if ('operand' in cond || 'operator' in cond) {
+    const negate = Number(cond.operator) === 1 ? '!' : '';
+    return `${negate}${describeOperand(cond.operandBinding ?? cond.operand)}`;
+  }
+  return getComponentName(cond);
+};
+
+type ControllerGraph = {
+  layers: { index: number; name: string }[];
+  states: AnimationGraphState[];
+  transitions: AnimationGraphTransition[];
+  clips: AnimationClipInfo[];
+};
+
+const readControllerGraph = (c: Rec): ControllerGraph => {
+  const out: ControllerGraph = { layers: [], states: [], transitions: [], clips: [] };
+  const rawGraph = c.graph as Rec | null | undefined;
+  // AnimationGraphVariant 指向 original
+  const graph = ((rawGraph?.original as Rec | undefined) ?? rawGraph) || null;
+  const clipSeen = new Set<string>();
+
+  toList(graph?.layers ?? graph?._layers).forEach((layerRaw, layerIndex) => {
+    const layer = layerRaw as Rec;
+    out.layers.push({ index: layerIndex, name: nameOf(layer) || `Layer ${layerIndex}` });
+
+    const walk = (sm: Rec | null | undefined, prefix: string) => {
+      if (!sm) return;
+      const names = new Map<unknown, string>();
+      const special: [string, string][] = [
+        ['entryState', 'entry'],
+        ['exitState', 'exit'],
+        ['anyState', 'any'],
+      ];
+      for (const [field, kind] of special) {
+        if (sm[field]) names.set(sm[field], `${prefix}[${kind}]`);
+      }
+      for (const state of iterList(sm, 'states', '_states')) {
+        if (names.has(state)) continue;
+        const name = `${prefix}${nameOf(state) || '(unnamed)'}`;
+        names.set(state, name);
+        const sub = (state.stateMachine ?? state._stateMachine) as Rec | undefined;
+        const motion = state.motion as Rec | undefined;
+        const clip = motion?.clip as Rec | undefined;
+        const kind = sub ? 'sub' : motion ? 'motion' : 'empty';
+        out.states.push({ name, track: layerIndex, kind, plays: 0, totalMs: 0 });
+        if (clip && !clipSeen.has(nameOf(clip))) {
+          clipSeen.add(nameOf(clip));
+          out.clips.push({
+            name: nameOf(clip),
+            duration: numOrNull(clip.duration),
+            loop: clip.wrapMode === undefined ? null : (Number(clip.wrapMode) & 2) !== 0,
+          });
+        }
+        if (sub) walk(sub, `${name}/`);
+      }
+      for (const t of iterList(sm, 'transitions', '_transitions')) {
+        const conditions = toList(t.conditions ?? t._conditions).map((cond) =>
+          describeCondition(cond as Rec)
+        );
+        out.transitions.push({
+          from: names.get(t.from) ?? nameOf(t.from) ?? null,
+          to: names.get(t.to) ?? nameOf(t.to) ?? null,
+          track: layerIndex,
+          source: 'graph',
+          count: 0,
+          ...(conditions.length ? { conditions } : {}),
+        });
+      }
+    };
+    walk((layer.stateMachine ?? layer._stateMachine) as Rec | undefined, '');
+  });
+  return out;
+};
+
+const readControllerTracks = (c: Rec, layerCount: number): TrackMap => {
+  const tracks: TrackMap = new Map();
+  const getStatus = c.getCurrentStateStatus as ((layer: number) => Rec | null) | undefined;
+  const getClips = c.getCurrentClipStatuses as ((layer: number) => Iterable<Rec>) | undefined;
+  for (let i = 0; i < Math.max(1, layerCount); i++) {
+    let name: string | null = null;
+    try {
+      const status = typeof getStatus === 'function' ? getStatus.call(c, i) : null;
+      // __DEBUG_ID__ 仅调试构建有，发布包退回权重最大的剪辑名
+      if (status?.__DEBUG_ID__) name = String(status.__DEBUG_ID__);
+      if (!name && typeof getClips === 'function') {
+        let weight = -1;
+        for (const clipStatus of Array.from(getClips.call(c, i))) {
+          const w = Number(clipStatus.weight ?? 0);
+          if (w > weight) {
+            weight = w;
+            name = nameOf(clipStatus.clip) || null;
+          }
+        }
+      }
+    } catch {
+      name = null;
+    }
+    tracks.set(i, name);
+  }
+  return tracks;
+};
+
+// ---------- 提取 ----------
+
+const readTracks = (ref: AnimComponentRef): TrackMap => {
+  if (ref.kind === 'spine') {
+    const tracks: TrackMap = new Map();
+    readSpineTracks(ref.comp).forEach((v, i) => tracks.set(i, v.name));
+    return tracks;
+  }
+  if (ref.kind === 'controller') {
+    const layers = toList(
+      ((ref.comp.graph as Rec | undefined)?.original as Rec | undefined)?.layers ??
+        (ref.comp.graph as Rec | undefined)?.layers
+    );
+    return readControllerTracks(ref.comp, layers.length);
+  }
+  return readAnimationTracks(ref.comp, readAnimationClips(ref.comp));
+};
+
+const buildComponentGraph = (scene: cc.Node, ref: AnimComponentRef): AnimationComponentGraph => {
+  const c = ref.comp;
+  const base = {
+    key: ref.key,
+    nodeId: getNodeId(ref.node),
+    nodeName: ref.node.name || '(unnamed)',
+    path: buildNodePathForSnapshot(scene, ref.node),
+    component: shortTypeName(ref.typeName),
+    kind: ref.kind,
+  };
+
+  if (ref.kind === 'spine') {
+    const data = readSpineData(c);
+    const playing: AnimationComponentGraph['playing'] = [];
+    readSpineTracks(c).forEach((v, track) => {
+      if (v.name) playing.push({ track, name: v.name, loop: v.loop });
+    });
+    return Object.assign(base, {
+      clips: data.clips,
+      defaultClip: c.defaultAnimation ? String(c.defaultAnimation) : null,
+      skins: data.skins,
+      currentSkin: data.currentSkin,
+      ...(data.events.length ? { skeletonEvents: data.events } : {}),
+      playing,
+      states: data.clips.map((clip) => ({ name: clip.name, track: 0, plays: 0, totalMs: 0 })),
+      transitions: [],
+    });
+  }
+
+  if (ref.kind === 'controller') {
+    const graph = readControllerGraph(c);
+    const playing: AnimationComponentGraph['playing'] = [];
+    readControllerTracks(c, graph.layers.length).forEach((name, track) => {
+      if (name) playing.push({ track, name, loop: null });
+    });
+    return Object.assign(base, {
+      clips: graph.clips,
+      defaultClip: null,
+      playing,
+      layers: graph.layers,
+      states: graph.states,
+      transitions: graph.transitions,
+    });
+  }
+
+  const clips = readAnimationClips(c);
+  const playing: AnimationComponentGraph['playing'] = [];
+  readAnimationTracks(c, clips).forEach((name, track) => {
+    if (name) {
+      const clip = clips.find((x) => x.name === name);
+      playing.push({ track, name, loop: clip?.loop ?? null });
+    }
+  });
+  return Object.assign(base, {
+    clips,
+    defaultClip: nameOf(c.defaultClip) || null,
+    playing,
+    states: clips.map((clip) => ({ name: clip.name, track: 0, plays: 0, totalMs: 0 })),
+    transitions: [],
+  });
+};
+
+let capture: CaptureSession | null = null;
+let lastCapture: CaptureSession | null = null;
+
+/** 把捕获到的播放事件合并进组件图：状态进入次数 / 时长、观察到的转换 */
+const mergeCapture = (graph: AnimationComponentGraph, s: CaptureSession, now: number): void => {
+  const stateOf = (name: string, track: number): AnimationGraphState => {
+    let st = graph.states.find((x) => x.name === name && x.track === track);
+    if (!st) {
+      // Spine 多轨道 / 状态机里的剪辑名与状态名不同时补状态
+      st = { name, track, plays: 0, totalMs: 0 };
+      graph.states.push(st);
+    }
+    return st;
+  };
+
+  for (const e of s.events) {
+    if (e.key !== graph.key) continue;
+    if (e.to) stateOf(e.to, e.track).plays += 1;
+    const hit = graph.transitions.find(
+      (t) => t.track === e.track && t.from === e.from && t.to === e.to
+    );
+    if (hit) {
+      hit.count += 1;
+    } else {
+      graph.transitions.push({
+        from: e.from,
+        to: e.to,
+        track: e.track,
+        source: 'observed',
+        count: 1,
+      });
+    }
+  }
+
+  const prefix = `${graph.key}|`;
+  const totals = new Map(s.totals);
+  // 仍在播放的状态计到当前时刻
+  s.enteredAt.forEach((at, k) => totals.set(k, (totals.get(k) ?? 0) + (now - at)));
+  totals.forEach((ms, k) => {
+    if (k.indexOf(prefix) !== 0) return;
+    const rest = k.slice(prefix.length);
+    const sep = rest.indexOf('|');
+    const track = Number(rest.slice(0, sep));
+    stateOf(rest.slice(sep + 1), track).totalMs += Math.round(ms);
+  });
+};
+
+/**
+ * 提取子树（默认整个场景）内 cc.Animation / AnimationController / sp.Skeleton 的状态图。
+ * 存在捕获（进行中或最近一次）时合并其播放顺序与转换计数。
+ */
+export const extractAnimationGraph = (
+  options: AnimationGraphOptions = {}
+): { ok: true; graph: AnimationStateGraph } | { ok: false; error: string } => {
+  const resolved = resolveSnapshotRoot(options);
+  if (!resolved.ok) return resolved;
+  const { scene, root } = resolved;
+
+  try {
+    const refs = collectAnimComponents(root, Math.max(1, options.maxComponents ?? 200));
+    const s = capture ?? lastCapture;
+    const now = capture ? performance.now() - capture.startedAt : (s?.durationMs ?? 0);
+    const components = refs.map((ref) => {
+      const g = buildComponentGraph(scene, ref);
+      if (s) mergeCapture(g, s, now);
+      return g;
+    });
+    const keys = new Set(components.map((g) => g.key));
+    const events = s ? s.events.filter((e) => keys.has(e.key)) : [];
+
+    return {
+      ok: true,
+      graph: {
+        version: 1,
+        extractedAt: new Date().toISOString(),
+        pageUrl: window.location.href,
+        sceneName: scene.name || 'Scene',
+        root: { id: getNodeId(root), path: buildNodePathForSnapshot(scene, root) },
+        capture: s
+          ? { recording: s === capture, durationMs: Math.round(now), frames: s.frames }
+          : null,
+        components,
+        events,
+        eventsTruncated: s?.eventsTruncated ?? false,
+      },
+    };
+  } catch (e) {
+    console.error('[动画状态图] 提取失败', e);
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+const sampleCapture = (s: CaptureSession): void => {
+  if ((s.rootNode as cc.Node & Rec).isValid === false) {
+    console.warn('[动画状态图] 根节点已销毁，停止捕获');
+    stopAnimationCapture();
+    return;
+  }
+  if (s.frames % RESCAN_INTERVAL === 0) {
+    // 定期重扫，捕获运行中新生成的动画节点（中奖特效等）
+    for (const ref of collectAnimComponents(s.rootNode, s.maxComponents)) {
+      if (!s.refs.has(ref.key)) s.refs.set(ref.key, ref);
+    }
+  }
+  s.frames += 1;
+  const t = Math.round(performance.now() - s.startedAt);
+
+  s.refs.forEach((ref, key) => {
+    if ((ref.node as cc.Node & Rec).isValid === false) return;
+    let next: TrackMap;
+    try {
+      next = readTracks(ref);
+    } catch {
+      return;
+    }
+    const prev = s.current.get(key) ?? new Map<number, string | null>();
+    const trackIds = new Set<number>();
+    prev.forEach((_v, i) => trackIds.add(i));
+    next.forEach((_v, i) => trackIds.add(i));
+
+    trackIds.forEach((track) => {
+      const from = prev.get(track) ?? null;
+      const to = next.get(track) ?? null;
+      if (from === to) return;
+      if (from) {
+        const k = `${key}|${track}|${from}`;
+        const at = s.enteredAt.get(k);
+        if (at !== undefined) {
+          s.totals.set(k, (s.totals.get(k) ?? 0) + (t - at));
+          s.enteredAt.delete(k);
+        }
+      }
+      if (to) s.enteredAt.set(`${key}|${track}|${to}`, t);
+      if (s.events.length < s.maxEvents) {
+        s.events.push({ t, key, track, from, to });
+      } else {
+        s.eventsTruncated = true;
+      }
+    });
+    s.current.set(key, next);
+  });
+};
+
+/** 开始捕获播放顺序：每帧 director after-update 后读取各组件当前动画 */
+export const startAnimationCapture = (
+  options: AnimationCaptureOptions = {}
+): { ok: true; rootPath: string; components: number } | { ok: false; error: string } => {
+  if (capture) return { ok: false, error: '正在捕获中' };
+  const resolved = resolveSnapshotRoot(options);
+  if (!resolved.ok) return resolved;
+  const { scene, root } = resolved;
+
+  const maxComponents = Math.max(1, options.maxComponents ?? 200);
+  const refs = new Map<string, AnimComponentRef>();
+  for (const ref of collectAnimComponents(root, maxComponents)) refs.set(ref.key, ref);
+
+  const s: CaptureSession = {
+    rootNode: root,
+    rootPath: buildNodePathForSnapshot(scene, root),
+    startedAt: performance.now(),
+    frames: 0,
+    maxEvents: Math.max(1, options.maxEvents ?? 5000),
+    maxComponents,
+    refs,
+    current: new Map(),
+    enteredAt: new Map(),
+    totals: new Map(),
+    events: [],
+    eventsTruncated: false,
+    durationMs: 0,
+    stopSampling: () => undefined,
+  };
+  capture = s;
+  s.stopSampling = subscribeAfterUpdate(() => {
+    if (capture !== s) return;
+    try {
+      sampleCapture(s);
+    } catch (e) {
+      console.error('[动画状态图] 采样失败，停止捕获', e);
+      stopAnimationCapture();
+    }
+  });
+  console.log(`[动画状态图] 开始捕获 ${root.name}(${getNodeId(root)}) · ${refs.size} 个动画组件`);
+  return { ok: true, rootPath: s.rootPath, components: refs.size };
+};
+
+/** 停止捕获并返回合并后的状态图 */
+export const stopAnimationCapture = ():
+  | { ok: true; graph: AnimationStateGraph }
+  | { ok: false; error: string } => {
+  const s = capture;
+  if (!s) return { ok: false, error: '没有正在进行的捕获' };
+  s.stopSampling();
+  const end = Math.round(performance.now() - s.startedAt);
+  // 未结束的状态计到停止时刻
+  s.enteredAt.forEach((at, k) => s.totals.set(k, (s.totals.get(k) ?? 0) + (end - at)));
+  s.enteredAt.clear();
+  s.durationMs = end;
+  capture = null;
+  lastCapture = s;
+  console.log(`[动画状态图] 停止捕获 · ${s.frames} 帧 · ${s.events.length} 次切换`);
+  return extractAnimationGraph({ rootId: getNodeId(s.rootNode) });
+};
+
+export const getAnimationCaptureStatus = (): AnimationCaptureStatus => {
+  const s = capture ?? lastCapture;
+  return {
+    recording: !!capture,
+    rootPath: s?.rootPath ?? null,
+    components: s?.refs.size ?? 0,
+    events: s?.events.length ?? 0,
+    durationMs: capture
+      ? Math.round(performance.now() - capture.startedAt)
+      : (s?.durationMs ?? 0),
+  };
+};
+
+// ---------- Mermaid ----------
+
+const mermaidLabel = (text: string): string => text.replace(/"/g, "'").replace(/[\r\n]+/g, ' ');
+
+/** 状态图转 Mermaid stateDiagram-v2：每个组件一个复合状态，边上标注捕获次数 / 条件 */
+export const animationGraphToMermaid = (graph: AnimationStateGraph): string => {
+  const lines = ['stateDiagram-v2'];
+  graph.components.forEach((comp, ci) => {
+    const cid = `c${ci}`;
+    const ids = new Map<string, string>();
+    const multiTrack =
+      comp.states.some((s) => s.track > 0) || comp.transitions.some((t) => t.track > 0);
+    const stateId = (name: string, track: number): string => {
+      const k = `${track}|${name}`;
+      let id = ids.get(k);
+      if (!id) {
+        id = `${cid}_s${ids.size}`;
+        ids.set(k, id);
+      }
+      return id;
+    };
+    const label = (name: string, track: number): string =>
+      mermaidLabel(multiTrack ? `${track}: ${name}` : name);
+
+    lines.push(`  state "${mermaidLabel(`${comp.nodeName} (${comp.component})`)}" as ${cid} {`);
+    for (const st of comp.states) {
+      const extra = st.plays ? ` ×${st.plays}` : '';
+      const id = stateId(st.name, st.track);
+      lines.push(`    state "${label(st.name, st.track)}${extra}" as ${id}`);
+    }
+    for (const t of comp.transitions) {
+      // 空闲用 [*]；entry / exit 伪状态直接作为普通状态显示
+      const from = t.from === null ? '[*]' : stateId(t.from, t.track);
+      const to = t.to === null ? '[*]' : stateId(t.to, t.track);
+      if (t.to !== null && !comp.states.some((s) => s.name === t.to && s.track === t.track)) {
+        lines.push(`    state "${label(t.to, t.track)}" as ${to}`);
+      }
+      const parts: string[] = [];
+      if (t.count) parts.push(`${t.count}×`);
+      if (t.conditions?.length) parts.push(mermaidLabel(t.conditions.join(' && ')));
+      lines.push(`    ${from} --> ${to}${parts.length ? ` : ${parts.join(' ')}` : ''}`);
+    }
+    if (comp.transitions.length === 0 && comp.defaultClip) {
+      const first = comp.states.find((s) => s.name === comp.defaultClip);
+      if (first) lines.push(`    [*] --> ${stateId(first.name, first.track)}`);
+    }
+    lines.push('  }');
+  });
+  return lines.join('\n');
+};
@@ -4,6 +4,7 @@ import {
   type AssetLoadState,
   type AssetRecord,
 } from './assetInventory';
+import { escapeHtml, FloatingPanel } from './floatingPanel';
 
 const STATE_LABEL: Record<AssetLoadState, string> = {
   loaded: '已加载',
@@ -12,46 +13,25 @@ const STATE_LABEL: Record<AssetLoadState, string> = {
   unknown: '未知',
 };
 
-const escapeHtml = (text: string): string =>
-  text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
-
-export class AssetFloatingPanel {
-  private root: HTMLElement | null = null;
+export class AssetFloatingPanel extends FloatingPanel {
   private bodyEl: HTMLElement | null = null;
   private summaryEl: HTMLElement | null = null;
   private searchInput: HTMLInputElement | null = null;
-  private tab: 'assets' | 'bundles' = 'assets';
+  private tab: AssetInventoryTab = 'assets';
   private searchQuery = '';
-  private visible = false;
   private refreshTimer: number | null = null;
-  private dragState: { x: number; y: number; left: number; top: number } | null =
-    null;
-
-  toggle(): void {
-    if (this.visible) {
-      this.close();
-    } else {
-      this.open();
-    }
+
+  constructor() {
+    super('', '资源加载状态');
   }
 
-  open(): void {
-    if (!this.root) this.create();
-    if (!this.root) return;
-    this.visible = true;
-    this.root.style.display = 'flex';
+  protected onOpen(): void {
     this.refresh();
     this.startAutoRefresh();
   }
 
-  close(): void {
-    this.visible = false;
+  protected onClose(): void {
     this.stopAutoRefresh();
-    if (this.root) this.root.style.display = 'none';
   }
 
   destroy(): void {
@@ -64,22 +44,7 @@ export class AssetFloatingPanel {
     this.visible = false;
   }
 
-  private create(): void {
-    const panel = document.createElement('div');
-    panel.className = 'asset-float-panel';
-    panel.style.display = 'none';
-
-    const header = document.createElement('div');
-    header.className = 'asset-float-header';
-
-    const title = document.createElement('span');
-    title.className = 'asset-float-title';
-    title.textContent = '资源加载状态';
-    header.appendChild(title);
-
-    const headerActions = document.createElement('div');
-    headerActions.className = 'asset-float-header-actions';
-
+  protected build(panel: HTMLElement, headerActions: HTMLElement): void {
     const refreshBtn = document.createElement('button');
     refreshBtn.type = 'button';
     refreshBtn.className = 'asset-float-icon-btn';
@@ -88,19 +53,6 @@ export class AssetFloatingPanel {
     refreshBtn.addEventListener('click', () => this.refresh());
     headerActions.appendChild(refreshBtn);
 
-    const closeBtn = document.createElement('button');
-    closeBtn.type = 'button';
-    closeBtn.className = 'asset-float-icon-btn';
-    closeBtn.textContent = '×';
-    closeBtn.title = '关闭';
-    closeBtn.addEventListener('click', () => this.close());
-    headerActions.appendChild(closeBtn);
-
-    header.appendChild(headerActions);
-    panel.appendChild(header);
-
-    this.bindDrag(header, panel);
-
     this.summaryEl = document.createElement('div');
     this.summaryEl.className = 'asset-float-summary';
     panel.appendChild(this.summaryEl);
@@ -140,14 +92,12 @@ export class AssetFloatingPanel {
     this.bodyEl.className = 'asset-float-body';
     panel.appendChild(this.bodyEl);
 
-    document.body.appendChild(panel);
-    this.root = panel;
     this.lastInventory = null;
   }
 
   private lastInventory: AssetInventory | null = null;
 
-  private setTab(tab: 'assets' | 'bundles'): void {
+  private setTab(tab: AssetInventoryTab): void {
     this.tab = tab;
     this.root?.querySelectorAll('.asset-float-tab').forEach((el) => {
       el.classList.toggle(
@@ -158,41 +108,6 @@ export class AssetFloatingPanel {
     this.renderLastInventory();
   }
 
-  private bindDrag(header: HTMLElement, panel: HTMLElement): void {
-    header.addEventListener('mousedown', (ev) => {
-      if ((ev.target as HTMLElement).closest('button')) return;
-      ev.preventDefault();
-      const rect = panel.getBoundingClientRect();
-      this.dragState = {
-        x: ev.clientX,
-        y: ev.clientY,
-        left: rect.left,
-        top: rect.top,
-      };
-      panel.style.right = 'auto';
-      panel.style.bottom = 'auto';
-      panel.style.left = `${rect.left}px`;
-      panel.style.top = `${rect.top}px`;
-
-      const onMove = (e: MouseEvent) => {
-        if (!this.dragState) return;
-        const dx = e.clientX - this.dragState.x;
-        const dy = e.clientY - this.dragState.y;
-        panel.style.left = `${this.dragState.left + dx}px`;
-        panel.style.top = `${this.dragState.top + dy}px`;
-      };
-
-      const onUp = () => {
-        this.dragState = null;
-        window.removeEventListener('mousemove', onMove);
-        window.removeEventListener('mouseup', onUp);
-      };
-
-      window.addEventListener('mousemove', onMove);
-      window.addEventListener('mouseup', onUp);
-    });
-  }
-
   private startAutoRefresh(): void {
     this.stopAutoRefresh();
     this.refreshTimer = window.setInterval(() => {
@@ -221,12 +136,8 @@ export class AssetFloatingPanel {
       return;
     }
 
-    const s = inv.summary;
     if (this.summaryEl) {
-      this.summaryEl.textContent =
-        `资源 ${s.assetCount} · Bundle ${s.bundleCount} · 已加载 ${s.loadedCount}` +
-        (s.loadingCount > 0 ? ` · 加载中 ${s.loadingCount}` : '') +
-        (s.pipelineTasks > 0 ? ` · 管线 ${s.pipelineTasks}` : '');
+      this.summaryEl.textContent = formatAssetSummary(inv);
     }
 
     this.renderInventory(inv);
@@ -238,81 +149,95 @@ export class AssetFloatingPanel {
 
   private renderInventory(inv: AssetInventory): void {
     if (!this.bodyEl) return;
+    this.bodyEl.innerHTML = renderAssetInventoryHtml(inv, this.tab, this.searchQuery);
+  }
+}
 
-    if (this.tab === 'bundles') {
-      this.bodyEl.innerHTML = this.renderBundlesHtml(inv);
-      return;
-    }
+export type AssetInventoryTab = 'assets' | 'bundles';
 
-    const filtered = this.filterAssets(inv.assets);
-    if (filtered.length === 0) {
-      this.bodyEl.innerHTML = '<div class="asset-float-empty">无匹配资源</div>';
-      return;
-    }
+/** 汇总行文本（浮窗与 DevTools 面板共用） */
+export const formatAssetSummary = (inv: AssetInventory): string => {
+  const s = inv.summary;
+  return (
+    `资源 ${s.assetCount} · Bundle ${s.bundleCount} · 已加载 ${s.loadedCount}` +
+    (s.loadingCount > 0 ? ` · 加载中 ${s.loadingCount}` : '') +
+    (s.pipelineTasks > 0 ? ` · 管线 ${s.pipelineTasks}` : '')
+  );
+};
 
-    const rows = filtered
-      .slice(0, 500)
-      .map((a) => this.renderAssetRow(a))
-      .join('');
-    const more =
-      filtered.length > 500
-        ? `<div class="asset-float-more">仅显示前 500 条，共 ${filtered.length} 条</div>`
-        : '';
-    this.bodyEl.innerHTML = `<table class="asset-float-table"><thead><tr>
+/** 资源 / Bundle 表格 HTML；query 为小写搜索词 */
+export const renderAssetInventoryHtml = (
+  inv: AssetInventory,
+  tab: AssetInventoryTab,
+  query: string
+): string => {
+  if (tab === 'bundles') return renderBundlesHtml(inv, query);
+
+  const filtered = filterAssets(inv.assets, query);
+  if (filtered.length === 0) {
+    return '<div class="asset-float-empty">无匹配资源</div>';
+  }
+
+  const rows = filtered
+    .slice(0, 500)
+    .map((a) => renderAssetRow(a))
+    .join('');
+  const more =
+    filtered.length > 500
+      ? `<div class="asset-float-more">仅显示前 500 条，共 ${filtered.length} 条</div>`
+      : '';
+  return `<table class="asset-float-table"><thead><tr>
       <th>名称</th><th>类型</th><th>状态</th><th>引用</th><th>Bundle</th>
     </tr></thead><tbody>${rows}</tbody></table>${more}`;
-  }
+};
 
-  private filterAssets(assets: AssetRecord[]): AssetRecord[] {
-    if (!this.searchQuery) return assets;
-    const q = this.searchQuery;
-    return assets.filter(
-      (a) =>
-        a.name.toLowerCase().includes(q) ||
-        a.uuid.toLowerCase().includes(q) ||
-        a.bundle.toLowerCase().includes(q) ||
-        a.type.toLowerCase().includes(q)
-    );
-  }
+const filterAssets = (assets: AssetRecord[], q: string): AssetRecord[] => {
+  if (!q) return assets;
+  return assets.filter(
+    (a) =>
+      a.name.toLowerCase().includes(q) ||
+      a.uuid.toLowerCase().includes(q) ||
+      a.bundle.toLowerCase().includes(q) ||
+      a.type.toLowerCase().includes(q)
+  );
+};
 
-  private renderAssetRow(a: AssetRecord): string {
-    const stateClass = `asset-state-${a.state}`;
-    return `<tr class="${stateClass}" title="${escapeHtml(a.uuid)}">
+const renderAssetRow = (a: AssetRecord): string => {
+  const stateClass = `asset-state-${a.state}`;
+  return `<tr class="${stateClass}" title="${escapeHtml(a.uuid)}">
       <td class="asset-col-name">${escapeHtml(a.name)}</td>
       <td>${escapeHtml(a.type)}</td>
       <td><span class="asset-state-badge ${stateClass}">${STATE_LABEL[a.state]}</span></td>
       <td class="asset-col-num">${a.refCount}</td>
       <td>${escapeHtml(a.bundle || '-')}</td>
     </tr>`;
-  }
+};
 
-  private renderBundlesHtml(inv: AssetInventory): string {
-    const q = this.searchQuery;
-    const bundles = q
-      ? inv.bundles.filter(
-          (b) =>
-            b.name.toLowerCase().includes(q) ||
-            b.base.toLowerCase().includes(q)
-        )
-      : inv.bundles;
-
-    if (bundles.length === 0) {
-      return '<div class="asset-float-empty">无匹配 Bundle</div>';
-    }
+const renderBundlesHtml = (inv: AssetInventory, q: string): string => {
+  const bundles = q
+    ? inv.bundles.filter(
+        (b) =>
+          b.name.toLowerCase().includes(q) ||
+          b.base.toLowerCase().includes(q)
+      )
+    : inv.bundles;
+
+  if (bundles.length === 0) {
+    return '<div class="asset-float-empty">无匹配 Bundle</div>';
+  }
 
-    const rows = bundles
-      .map(
-        (b) => `<tr>
+  const rows = bundles
+    .map(
+      (b) => `<tr>
         <td>${escapeHtml(b.name)}</td>
         <td class="asset-col-path">${escapeHtml(b.base || '-')}</td>
         <td class="asset-col-num">${b.assetCount}</td>
         <td>${escapeHtml(b.deps.join(', ') || '-')}</td>
       </tr>`
-      )
-      .join('');
+    )
+    .join('');
 
-    return `<table class="asset-float-table"><thead><tr>
+  return `<table class="asset-float-table"><thead><tr>
       <th>名称</th><th>Base</th><th>资源数</th><th>依赖</th>
     </tr></thead><tbody>${rows}</tbody></table>`;
-  }
-}
+};
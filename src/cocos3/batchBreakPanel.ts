@@ -0,0 +1,186 @@
+import {
+  analyzeBatchBreaks,
+  type BatchBreak,
+  type BatchBreakCause,
+  type BatchBreakGroup,
+  type BatchBreakReport,
+} from './batchBreaks';
+import { escapeHtml, FloatingPanel } from './floatingPanel';
+import { HookManager } from './propertyHook';
+import { resolveSnapshotRoot } from './sceneSnapshot';
+
+const CAUSE_LABEL: Record<BatchBreakCause, string> = {
+  texture: '贴图',
+  material: '材质',
+  font: '字体',
+  mask: 'Mask',
+  graphics: 'Graphics',
+  spine: 'Spine',
+  standalone: '单独提交',
+};
+
+const CAUSES = Object.keys(CAUSE_LABEL) as BatchBreakCause[];
+const VIEW_LIMIT = 500;
+
+/** 断批分析浮窗：选中子树（未选中为整个场景）按渲染顺序列出断批点及原因 */
+export class BatchBreakFloatingPanel extends FloatingPanel {
+  private bodyEl: HTMLElement | null = null;
+  private summaryEl: HTMLElement | null = null;
+  private tabsEl: HTMLElement | null = null;
+  private filter: BatchBreakCause | 'all' = 'all';
+  private lastReport: BatchBreakReport | null = null;
+
+  constructor(
+    private readonly getSelectedNodeId: () => string | null,
+    private readonly onSelectNode?: (nodeId: string) => void
+  ) {
+    super('batch-break-panel', '断批分析');
+  }
+
+  protected onOpen(): void {
+    if (!this.lastReport) {
+      this.analyze();
+    } else {
+      this.render();
+    }
+  }
+
+  protected build(panel: HTMLElement): void {
+    this.summaryEl = document.createElement('div');
+    this.summaryEl.className = 'asset-float-summary';
+    panel.appendChild(this.summaryEl);
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'asset-float-toolbar';
+
+    const analyzeBtn = document.createElement('button');
+    analyzeBtn.type = 'button';
+    analyzeBtn.className = 'asset-float-tab active';
+    analyzeBtn.textContent = '分析';
+    analyzeBtn.title = '分析选中子树（未选中时为整个场景）';
+    analyzeBtn.addEventListener('click', () => this.analyze());
+    toolbar.appendChild(analyzeBtn);
+
+    const copyBtn = document.createElement('button');
+    copyBtn.type = 'button';
+    copyBtn.className = 'asset-float-tab';
+    copyBtn.textContent = '复制 JSON';
+    copyBtn.addEventListener('click', () => {
+      if (!this.lastReport) return;
+      void navigator.clipboard
+        ?.writeText(JSON.stringify(this.lastReport, null, 2))
+        .catch((e) => console.warn('[断批分析] 复制失败', e));
+    });
+    toolbar.appendChild(copyBtn);
+
+    panel.appendChild(toolbar);
+
+    this.tabsEl = document.createElement('div');
+    this.tabsEl.className = 'asset-float-toolbar batch-break-tabs';
+    this.tabsEl.addEventListener('click', (ev) => {
+      const tab = (ev.target as HTMLElement).closest('[data-cause]') as HTMLElement | null;
+      if (!tab) return;
+      this.filter = tab.dataset.cause as BatchBreakCause | 'all';
+      this.render();
+    });
+    panel.appendChild(this.tabsEl);
+
+    this.bodyEl = document.createElement('div');
+    this.bodyEl.className = 'asset-float-body';
+    this.bodyEl.addEventListener('click', (ev) => {
+      const item = (ev.target as HTMLElement).closest('[data-node-id]') as HTMLElement | null;
+      const nodeId = item?.dataset.nodeId;
+      if (nodeId) this.onSelectNode?.(nodeId);
+    });
+    panel.appendChild(this.bodyEl);
+  }
+
+  private analyze(): void {
+    const resolved = resolveSnapshotRoot({ rootId: this.getSelectedNodeId() ?? undefined });
+    if (!resolved.ok) {
+      if (this.summaryEl) this.summaryEl.textContent = resolved.error;
+      return;
+    }
+    this.filter = 'all';
+    this.lastReport = HookManager.getInstance().runSilently(() =>
+      analyzeBatchBreaks(resolved.root)
+    );
+    this.render();
+  }
+
+  private render(): void {
+    if (!this.bodyEl || !this.summaryEl || !this.tabsEl) return;
+    const report = this.lastReport;
+    if (!report) {
+      this.summaryEl.textContent = '';
+      this.tabsEl.innerHTML = '';
+      this.bodyEl.innerHTML = '<div class="asset-float-empty">点击「分析」查看断批原因</div>';
+      return;
+    }
+
+    const total = Math.max(0, report.batches - 1);
+    this.summaryEl.textContent =
+      `${report.groupRoot.name} · ${report.units} 渲染单元 · ${report.batches} 批 · ` +
+      `断批 ${total}` +
+      (report.truncated ? ' · 单元已截断' : '');
+
+    this.tabsEl.innerHTML = [
+      `<button type="button" class="asset-float-tab${
+        this.filter === 'all' ? ' active' : ''
+      }" data-cause="all">全部 ${total}</button>`,
+      ...CAUSES.filter((c) => (report.byCause[c] ?? 0) > 0).map(
+        (c) =>
+          `<button type="button" class="asset-float-tab${
+            this.filter === c ? ' active' : ''
+          }" data-cause="${c}">${CAUSE_LABEL[c]} ${report.byCause[c]}</button>`
+      ),
+    ].join('');
+
+    let shown = 0;
+    let hidden = 0;
+    const sections: string[] = [];
+    for (const group of report.groups) {
+      const list = group.breaks.filter((b) => this.filter === 'all' || b.cause === this.filter);
+      if (list.length === 0 && this.filter !== 'all') continue;
+      const room = Math.max(0, VIEW_LIMIT - shown);
+      shown += Math.min(room, list.length);
+      hidden += Math.max(0, list.length - room);
+      sections.push(this.renderGroup(group, list.slice(0, room)));
+    }
+    if (sections.length === 0) {
+      this.bodyEl.innerHTML = '<div class="asset-float-empty">无断批</div>';
+      return;
+    }
+    const more =
+      hidden > 0
+        ? `<div class="asset-float-more">仅显示前 ${VIEW_LIMIT} 条，共 ${shown + hidden} 条</div>`
+        : '';
+    this.bodyEl.innerHTML = sections.join('') + more;
+  }
+
+  private renderGroup(group: BatchBreakGroup, list: BatchBreak[]): string {
+    return `<div class="batch-break-group" data-node-id="${escapeHtml(group.nodeId)}">
+      <span class="batch-break-group-name" title="${escapeHtml(group.path)}">${escapeHtml(
+        group.name
+      )}</span>
+      <span class="batch-break-group-stats">${group.units} 单元 · ${group.batches} 批 · 断批 ${
+        group.breaks.length
+      }</span>
+    </div>${list.map((b) => this.renderBreak(b)).join('')}`;
+  }
+
+  private renderBreak(b: BatchBreak): string {
+    return `<div class="batch-break-item batch-break-${b.cause}" data-node-id="${escapeHtml(
+      b.next.nodeId
+    )}">
+      <div class="batch-break-head">
+        <span class="batch-break-cause">${CAUSE_LABEL[b.cause]}</span>
+        <span class="batch-break-index">#${b.batch}</span>
+        <span class="batch-break-nodes" title="${escapeHtml(b.next.path)}">${escapeHtml(
+          `${b.prev.name} → ${b.next.name}（${b.next.component}）`
+        )}</span>
+      </div>
+      <div class="batch-break-detail">${escapeHtml(b.detail)}</div>
+    </div>`;
+  }
+}
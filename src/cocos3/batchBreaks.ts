@@ -0,0 +1,210 @@
+import { buildStablePath } from './nodeBookmarks';
+import { assignBatchIndices, collectRenderUnits, type RenderUnit } from './renderBatch';
+import { getNodeId } from './sceneTree';
+
+export type BatchBreakCause =
+  'texture' | 'material' | 'font' | 'mask' | 'graphics' | 'spine' | 'standalone';
+
+export interface BatchBreakUnit {
+  nodeId: string;
+  name: string;
+  path: string;
+  component: string;
+}
+
+/** 一处断批：next 开始新的一批，原因由 prev → next 的差异推断 */
+export interface BatchBreak {
+  /** next 所在批次序号（从 0 开始） */
+  batch: number;
+  cause: BatchBreakCause;
+  detail: string;
+  prev: BatchBreakUnit;
+  next: BatchBreakUnit;
+}
+
+export interface BatchBreakGroup {
+  nodeId: string;
+  name: string;
+  path: string;
+  units: number;
+  /** 组内单元涉及的批次数 */
+  batches: number;
+  breaks: BatchBreak[];
+  byCause: Partial<Record<BatchBreakCause, number>>;
+}
+
+export interface BatchBreakReport {
+  rootId: string;
+  rootName: string;
+  /** 分组所依据的节点：从 root 往下跳过只有一个子节点的空壳（如 Scene → Canvas） */
+  groupRoot: { nodeId: string; name: string; path: string };
+  units: number;
+  batches: number;
+  byCause: Partial<Record<BatchBreakCause, number>>;
+  /** 按 groupRoot 的直接子节点分组（groupRoot 自身的单元单独一组），渲染顺序 */
+  groups: BatchBreakGroup[];
+  truncated: boolean;
+}
+
+const SPINE_RE = /Skeleton|ArmatureDisplay|DragonBones/;
+
+const soloCause = (component: string): BatchBreakCause => {
+  if (SPINE_RE.test(component)) return 'spine';
+  if (component === 'Graphics') return 'graphics';
+  if (component === 'Mask') return 'mask';
+  return 'standalone';
+};
+
+const ownsUnit = (node: cc.Node, ids: Set<string>): boolean => ids.has(getNodeId(node));
+
+const activeChildren = (node: cc.Node): cc.Node[] =>
+  (node.children ?? []).filter((c) => c && c.active !== false);
+
+/** 单元所在节点自身带 Mask（3.6+ 的 Mask 节点以 Graphics 画模板） */
+const ownsMask = (u: RenderUnit): boolean => u.maskId === u.nodeId;
+
+/** 推断 prev → next 断批的原因；检查顺序即优先级 */
+const classifyBreak = (
+  prev: RenderUnit,
+  next: RenderUnit,
+  nameOf: (id: string) => string
+): { cause: BatchBreakCause; detail: string } => {
+  const a = prev.batch;
+  const b = next.batch;
+  if (ownsMask(next)) {
+    return { cause: 'mask', detail: `Mask ${next.nodeName} 的模板（${b.component}）单独提交` };
+  }
+  if (ownsMask(prev)) {
+    return { cause: 'mask', detail: `前一单元 Mask ${prev.nodeName} 的模板提交后重新起批` };
+  }
+  if (prev.maskId !== next.maskId) {
+    let detail = '离开 Mask 模板范围';
+    if (prev.maskId && next.maskId) {
+      detail = `Mask ${nameOf(prev.maskId)} → ${nameOf(next.maskId)}`;
+    } else if (next.maskId) {
+      detail = `进入 Mask ${nameOf(next.maskId)} 的模板范围`;
+    }
+    return { cause: 'mask', detail };
+  }
+  if (b.standalone) return { cause: soloCause(b.component), detail: b.standalone };
+  if (a.standalone) {
+    return {
+      cause: soloCause(a.component),
+      detail: `前一单元 ${prev.nodeName}（${a.component}）单独提交后重新起批`,
+    };
+  }
+  if (a.materialId !== b.materialId || a.blend !== b.blend) {
+    const parts: string[] = [];
+    if (a.materialId !== b.materialId) parts.push(`材质 ${a.materialName} → ${b.materialName}`);
+    if (a.blend !== b.blend) parts.push(`混合 ${a.blend ?? '-'} → ${b.blend ?? '-'}`);
+    return { cause: 'material', detail: parts.join('，') };
+  }
+  if (a.component === 'Label' && b.component === 'Label') {
+    if (a.fontName !== b.fontName) {
+      return { cause: 'font', detail: `字体 ${a.fontName ?? '-'} → ${b.fontName ?? '-'}` };
+    }
+    // 同字体仍换贴图：TTF Label 每个实例各自生成文字贴图
+    return {
+      cause: 'texture',
+      detail: `Label 文字贴图不同（${b.fontName ?? '-'}，可改用 BITMAP / CHAR 缓存）`,
+    };
+  }
+  return { cause: 'texture', detail: `贴图 ${a.textureName} → ${b.textureName}` };
+};
+
+/** 子树内按渲染顺序的断批点及原因，按子树分组；单元数达到 limit 时截断 */
+export const analyzeBatchBreaks = (root: cc.Node, limit = 5000): BatchBreakReport => {
+  const units = collectRenderUnits(root, limit);
+  const indices = assignBatchIndices(units);
+  const unitIds = new Set(units.map((u) => u.nodeId));
+
+  let groupRoot = root;
+  for (;;) {
+    const children = activeChildren(groupRoot);
+    if (children.length !== 1 || ownsUnit(groupRoot, unitIds)) break;
+    groupRoot = children[0];
+  }
+
+  // 节点 id → 所属分组序号，同时记下节点以便取路径
+  const nodes = new Map<string, cc.Node>();
+  const groupOf = new Map<string, number>();
+  const groups: BatchBreakGroup[] = [];
+  const addGroup = (node: cc.Node): number => {
+    groups.push({
+      nodeId: getNodeId(node),
+      name: node.name || '(unnamed)',
+      path: buildStablePath(node),
+      units: 0,
+      batches: 0,
+      breaks: [],
+      byCause: {},
+    });
+    return groups.length - 1;
+  };
+  const mark = (node: cc.Node, group: number): void => {
+    if (node.active === false) return;
+    const id = getNodeId(node);
+    nodes.set(id, node);
+    groupOf.set(id, group);
+    for (const child of node.children ?? []) {
+      if (child) mark(child, group);
+    }
+  };
+  if (ownsUnit(groupRoot, unitIds)) {
+    const id = getNodeId(groupRoot);
+    nodes.set(id, groupRoot);
+    groupOf.set(id, addGroup(groupRoot));
+  }
+  for (const child of activeChildren(groupRoot)) mark(child, addGroup(child));
+
+  const nameOf = (id: string): string => nodes.get(id)?.name || id;
+  const describe = (u: RenderUnit): BatchBreakUnit => {
+    const node = nodes.get(u.nodeId);
+    return {
+      nodeId: u.nodeId,
+      name: u.nodeName,
+      path: node ? buildStablePath(node) : u.nodeName,
+      component: u.batch.component,
+    };
+  };
+
+  const byCause: Partial<Record<BatchBreakCause, number>> = {};
+  const lastBatch = new Map<BatchBreakGroup, number>();
+  units.forEach((unit, i) => {
+    const g = groupOf.get(unit.nodeId);
+    const group = g === undefined ? null : groups[g];
+    if (group) {
+      group.units += 1;
+      if (lastBatch.get(group) !== indices[i]) group.batches += 1;
+      lastBatch.set(group, indices[i]);
+    }
+    if (i === 0 || indices[i] === indices[i - 1]) return;
+    const prev = units[i - 1];
+    const { cause, detail } = classifyBreak(prev, unit, nameOf);
+    byCause[cause] = (byCause[cause] ?? 0) + 1;
+    if (!group) return;
+    group.byCause[cause] = (group.byCause[cause] ?? 0) + 1;
+    group.breaks.push({
+      batch: indices[i],
+      cause,
+      detail,
+      prev: describe(prev),
+      next: describe(unit),
+    });
+  });
+
+  return {
+    rootId: getNodeId(root),
+    rootName: root.name || '(unnamed)',
+    groupRoot: {
+      nodeId: getNodeId(groupRoot),
+      name: groupRoot.name || '(unnamed)',
+      path: buildStablePath(groupRoot),
+    },
+    units: units.length,
+    batches: indices.length > 0 ? indices[indices.length - 1] + 1 : 0,
+    byCause,
+    groups: groups.filter((g) => g.units > 0),
+    truncated: units.length >= limit,
+  };
+};
@@ -0,0 +1,169 @@
+import { escapeHtml, FloatingPanel } from './floatingPanel';
+import { BookmarkStore, type ResolvedBookmark, type WatchValue } from './nodeBookmarks';
+
+/** 监视值变化后高亮保持的时长 */
+const CHANGE_HIGHLIGHT_MS = 1500;
+const REFRESH_MS = 250;
+
+/** 书签 / 监视浮窗：书签点击定位节点，监视列表实时显示属性值并高亮变化 */
+export class BookmarkFloatingPanel extends FloatingPanel {
+  private bodyEl: HTMLElement | null = null;
+  private summaryEl: HTMLElement | null = null;
+  private refreshTimer: number | null = null;
+  private lastHash = '';
+
+  constructor(private readonly onReveal: (nodeId: string) => void) {
+    super('bookmark-float-panel', '书签 / 监视');
+  }
+
+  protected onOpen(): void {
+    this.refresh(true);
+    this.startAutoRefresh();
+  }
+
+  protected onClose(): void {
+    this.stopAutoRefresh();
+  }
+
+  protected build(panel: HTMLElement): void {
+    this.summaryEl = document.createElement('div');
+    this.summaryEl.className = 'asset-float-summary';
+    panel.appendChild(this.summaryEl);
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'asset-float-toolbar';
+
+    const hint = document.createElement('span');
+    hint.className = 'hook-float-label';
+    hint.textContent = 'Inspector 中 ☆ 加书签，◉ 加监视';
+    toolbar.appendChild(hint);
+
+    const spacer = document.createElement('span');
+    spacer.style.flex = '1';
+    toolbar.appendChild(spacer);
+
+    const clearBtn = document.createElement('button');
+    clearBtn.type = 'button';
+    clearBtn.className = 'asset-float-tab';
+    clearBtn.textContent = '清空监视';
+    clearBtn.addEventListener('click', () => {
+      BookmarkStore.getInstance().clearWatches();
+      this.refresh(true);
+    });
+    toolbar.appendChild(clearBtn);
+
+    panel.appendChild(toolbar);
+
+    this.bodyEl = document.createElement('div');
+    this.bodyEl.className = 'asset-float-body';
+    this.bodyEl.addEventListener('click', (ev) => {
+      const target = ev.target as HTMLElement;
+      const store = BookmarkStore.getInstance();
+
+      const removeBookmark = target.closest('.bookmark-remove-btn') as HTMLElement | null;
+      if (removeBookmark?.dataset.path) {
+        store.removeBookmark(removeBookmark.dataset.path);
+        this.refresh(true);
+        return;
+      }
+      const removeWatch = target.closest('.watch-remove-btn') as HTMLElement | null;
+      if (removeWatch?.dataset.watchId) {
+        store.removeWatch(removeWatch.dataset.watchId);
+        this.refresh(true);
+        return;
+      }
+      const row = target.closest('[data-node-id]') as HTMLElement | null;
+      if (row?.dataset.nodeId) this.onReveal(row.dataset.nodeId);
+    });
+    panel.appendChild(this.bodyEl);
+  }
+
+  private startAutoRefresh(): void {
+    this.stopAutoRefresh();
+    this.refreshTimer = window.setInterval(() => {
+      if (this.visible) this.refresh(false);
+    }, REFRESH_MS);
+  }
+
+  private stopAutoRefresh(): void {
+    if (this.refreshTimer !== null) {
+      window.clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  refresh(force = false): void {
+    if (!this.visible || !this.bodyEl) return;
+    const store = BookmarkStore.getInstance();
+    const bookmarks = store.listBookmarks();
+    const watches = store.readWatches();
+    const now = Date.now();
+
+    const hash = [
+      bookmarks.map((b) => `${b.path}:${b.nodeId ?? ''}`).join('|'),
+      watches
+        .map((w) => `${w.id}:${w.value}:${now - w.changedAt < CHANGE_HIGHLIGHT_MS ? 1 : 0}`)
+        .join('|'),
+    ].join('#');
+    if (!force && hash === this.lastHash) return;
+    this.lastHash = hash;
+
+    if (this.summaryEl) {
+      const missing = bookmarks.filter((b) => !b.nodeId).length;
+      this.summaryEl.textContent =
+        `书签 ${bookmarks.length}${missing > 0 ? `（${missing} 个未找到）` : ''}` +
+        ` · 监视 ${watches.length}`;
+    }
+    this.bodyEl.innerHTML =
+      this.renderBookmarksHtml(bookmarks) + this.renderWatchesHtml(watches, now);
+  }
+
+  private renderBookmarksHtml(bookmarks: ResolvedBookmark[]): string {
+    if (bookmarks.length === 0) {
+      return '<div class="asset-float-empty">暂无书签：在 Inspector 的 Node 区块点击 ☆</div>';
+    }
+    const rows = bookmarks
+      .map((b) => {
+        const attr = b.nodeId ? ` data-node-id="${escapeHtml(b.nodeId)}"` : '';
+        const cls = b.nodeId ? 'bookmark-row' : 'bookmark-row bookmark-missing';
+        return `<tr class="${cls}"${attr} title="${escapeHtml(b.path)}">
+        <td class="asset-col-name">★ ${escapeHtml(b.name)}</td>
+        <td class="bookmark-path">${escapeHtml(b.path)}</td>
+        <td><button type="button" class="asset-float-icon-btn bookmark-remove-btn"
+          data-path="${escapeHtml(b.path)}" title="删除书签">×</button></td>
+      </tr>`;
+      })
+      .join('');
+    return `<table class="asset-float-table"><thead><tr>
+      <th>书签</th><th>路径</th><th></th>
+    </tr></thead><tbody>${rows}</tbody></table>`;
+  }
+
+  private renderWatchesHtml(watches: WatchValue[], now: number): string {
+    if (watches.length === 0) {
+      return '<div class="asset-float-more">暂无监视：在 Inspector 可编辑属性行点击 ◉</div>';
+    }
+    const rows = watches
+      .map((w) => {
+        const changed = now - w.changedAt < CHANGE_HIGHLIGHT_MS;
+        const cls = ['watch-row', changed ? 'watch-changed' : '', w.nodeId ? '' : 'watch-missing']
+          .filter(Boolean)
+          .join(' ');
+        const attr = w.nodeId ? ` data-node-id="${escapeHtml(w.nodeId)}"` : '';
+        const nodeName = w.path.split('/').pop() ?? w.path;
+        const value = w.value ?? `（${w.error ?? '不可读'}）`;
+        return `<tr class="${cls}"${attr} title="${escapeHtml(w.path)}">
+        <td class="asset-col-name">${escapeHtml(nodeName)}</td>
+        <td>${escapeHtml(`${w.component}.${w.prop}`)}</td>
+        <td class="watch-value">${escapeHtml(value)}</td>
+        <td class="asset-col-num">${w.changes}</td>
+        <td><button type="button" class="asset-float-icon-btn watch-remove-btn"
+          data-watch-id="${escapeHtml(w.id)}" title="移除监视">×</button></td>
+      </tr>`;
+      })
+      .join('');
+    return `<table class="asset-float-table watch-table"><thead><tr>
+      <th>节点</th><th>属性</th><th>值</th><th>变化</th><th></th>
+    </tr></thead><tbody>${rows}</tbody></table>`;
+  }
+}
@@ -0,0 +1,51 @@
+/** 组件类名（__classname__ 优先，压缩包里 constructor.name 可能被混淆） */
+export const getComponentName = (comp: unknown): string => {
+  const rec = comp as {
+    __classname__?: string;
+    constructor?: { name?: string };
+  };
+  return rec.__classname__ ?? rec.constructor?.name ?? 'Component';
+};
+
+/** cc.Label → Label，sp.Skeleton → Skeleton */
+export const shortTypeName = (full: string): string => {
+  const base = full.replace(/^cc\./, '');
+  const parts = base.split('.');
+  return parts[parts.length - 1] ?? base;
+};
+
+/** 组件是否启用（没有 enabled 字段的视为启用） */
+export const isComponentEnabled = (comp: unknown): boolean =>
+  (comp as { enabled?: boolean }).enabled !== false;
+
+/** 按短类型名取第一个启用的组件，如 findEnabledComponent(comps, 'UITransform') */
+export const findEnabledComponent = (comps: unknown[], shortName: string): unknown | null =>
+  comps.find((c) => isComponentEnabled(c) && shortTypeName(getComponentName(c)) === shortName) ??
+  null;
+
+/** 节点全部组件：_components 优先，回退 getComponents(cc.Component) */
+export const getNodeComponents = (node: cc.Node): unknown[] => {
+  const n = node as cc.Node & {
+    _components?: unknown[];
+    getComponents?: (type: unknown) => unknown[];
+  };
+  if (Array.isArray(n._components) && n._components.length > 0) {
+    return n._components;
+  }
+  const Component = (window.cc as { Component?: unknown }).Component;
+  if (typeof n.getComponents === 'function' && Component) {
+    try {
+      const list = n.getComponents(Component);
+      if (Array.isArray(list) && list.length > 0) return list;
+    } catch {
+      /* getComponents 不可用 */
+    }
+  }
+  return n._components ?? [];
+};
+
+/** 组件在 Inspector 中的稳定 id（无 uuid 时用下标） */
+export const getCompId = (comp: unknown, index: number): string => {
+  const rec = comp as { uuid?: string; _id?: string };
+  return rec.uuid ?? rec._id ?? `idx-${index}`;
+};
@@ -0,0 +1,461 @@
+import { getComponentName, shortTypeName } from './componentAccess';
+import { getEnumOptions } from './propertyEdit';
+import { buildNodePath, getNodeId } from './sceneTree';
+
+/**
+ * 快照中的结构化属性值（SceneSnapshot version 2 的 `props`）。
+ * 对象值均带 `type` 标签，重建脚本按标签还原，不再解析展示字符串。
+ */
+export type SnapshotPropValue =
+  | number
+  | boolean
+  | string
+  | null
+  | { type: 'color'; r: number; g: number; b: number; a: number }
+  | { type: 'vec2'; x: number; y: number }
+  | { type: 'vec3'; x: number; y: number; z: number }
+  | { type: 'size'; width: number; height: number }
+  | { type: 'enum'; value: number; name?: string }
+  | { type: 'asset'; assetType: string; uuid: string; name: string }
+  /** 节点或组件引用；component 为被引用组件类名 */
+  | { type: 'ref'; nodeId: string; path: string; component?: string }
+  /** cc.EventHandler（Button.clickEvents 等） */
+  | {
+      type: 'eventHandler';
+      target: { nodeId: string; path: string } | null;
+      component: string;
+      handler: string;
+      customEventData: string;
+    }
+  | SnapshotPropValue[];
+
+export type SnapshotProps = Record<string, SnapshotPropValue>;
+
+type PropKind =
+  | 'number'
+  | 'boolean'
+  | 'string'
+  | 'color'
+  | 'vec2'
+  | 'vec3'
+  | 'size'
+  | 'enum'
+  | 'asset'
+  | 'assets'
+  | 'ref'
+  | 'events';
+
+type Rec = Record<string, unknown>;
+
+const BUTTON_PROPS: Array<[string, PropKind]> = [
+  ['interactable', 'boolean'],
+  ['transition', 'enum'],
+  ['target', 'ref'],
+  ['normalColor', 'color'],
+  ['pressedColor', 'color'],
+  ['hoverColor', 'color'],
+  ['disabledColor', 'color'],
+  ['duration', 'number'],
+  ['zoomScale', 'number'],
+  ['normalSprite', 'asset'],
+  ['pressedSprite', 'asset'],
+  ['hoverSprite', 'asset'],
+  ['disabledSprite', 'asset'],
+  ['clickEvents', 'events'],
+];
+
+/** 按组件短名列出需要还原的属性；未列出的组件走 collectGenericProps */
+const COMPONENT_PROPS: Record<string, Array<[string, PropKind]>> = {
+  UITransform: [
+    ['contentSize', 'size'],
+    ['anchorPoint', 'vec2'],
+    ['priority', 'number'],
+  ],
+  Sprite: [
+    ['spriteFrame', 'asset'],
+    ['spriteAtlas', 'asset'],
+    ['customMaterial', 'asset'],
+    ['type', 'enum'],
+    ['sizeMode', 'enum'],
+    ['trim', 'boolean'],
+    ['grayscale', 'boolean'],
+    ['color', 'color'],
+    ['fillType', 'enum'],
+    ['fillCenter', 'vec2'],
+    ['fillStart', 'number'],
+    ['fillRange', 'number'],
+  ],
+  Label: [
+    ['string', 'string'],
+    ['horizontalAlign', 'enum'],
+    ['verticalAlign', 'enum'],
+    ['fontSize', 'number'],
+    ['lineHeight', 'number'],
+    ['spacingX', 'number'],
+    ['overflow', 'enum'],
+    ['enableWrapText', 'boolean'],
+    ['font', 'asset'],
+    ['useSystemFont', 'boolean'],
+    ['fontFamily', 'string'],
+    ['cacheMode', 'enum'],
+    ['isBold', 'boolean'],
+    ['isItalic', 'boolean'],
+    ['isUnderline', 'boolean'],
+    ['underlineHeight', 'number'],
+    ['color', 'color'],
+    // 3.8+ 内置描边 / 阴影
+    ['enableOutline', 'boolean'],
+    ['outlineColor', 'color'],
+    ['outlineWidth', 'number'],
+    ['enableShadow', 'boolean'],
+    ['shadowColor', 'color'],
+    ['shadowOffset', 'vec2'],
+    ['shadowBlur', 'number'],
+  ],
+  LabelOutline: [
+    ['color', 'color'],
+    ['width', 'number'],
+  ],
+  LabelShadow: [
+    ['color', 'color'],
+    ['offset', 'vec2'],
+    ['blur', 'number'],
+  ],
+  RichText: [
+    ['string', 'string'],
+    ['horizontalAlign', 'enum'],
+    ['verticalAlign', 'enum'],
+    ['fontSize', 'number'],
+    ['fontColor', 'color'],
+    ['fontFamily', 'string'],
+    ['font', 'asset'],
+    ['useSystemFont', 'boolean'],
+    ['cacheMode', 'enum'],
+    ['maxWidth', 'number'],
+    ['lineHeight', 'number'],
+    ['imageAtlas', 'asset'],
+    ['handleTouchEvent', 'boolean'],
+  ],
+  Mask: [
+    ['type', 'enum'],
+    ['inverted', 'boolean'],
+    ['segments', 'number'],
+    ['alphaThreshold', 'number'],
+    ['spriteFrame', 'asset'],
+  ],
+  Widget: [
+    ['alignFlags', 'number'],
+    ['isAlignTop', 'boolean'],
+    ['isAlignBottom', 'boolean'],
+    ['isAlignLeft', 'boolean'],
+    ['isAlignRight', 'boolean'],
+    ['isAlignVerticalCenter', 'boolean'],
+    ['isAlignHorizontalCenter', 'boolean'],
+    ['top', 'number'],
+    ['bottom', 'number'],
+    ['left', 'number'],
+    ['right', 'number'],
+    ['horizontalCenter', 'number'],
+    ['verticalCenter', 'number'],
+    ['isAbsoluteTop', 'boolean'],
+    ['isAbsoluteBottom', 'boolean'],
+    ['isAbsoluteLeft', 'boolean'],
+    ['isAbsoluteRight', 'boolean'],
+    ['isAbsoluteHorizontalCenter', 'boolean'],
+    ['isAbsoluteVerticalCenter', 'boolean'],
+    ['alignMode', 'enum'],
+    ['target', 'ref'],
+  ],
+  Layout: [
+    ['type', 'enum'],
+    ['resizeMode', 'enum'],
+    ['cellSize', 'size'],
+    ['startAxis', 'enum'],
+    ['paddingLeft', 'number'],
+    ['paddingRight', 'number'],
+    ['paddingTop', 'number'],
+    ['paddingBottom', 'number'],
+    ['spacingX', 'number'],
+    ['spacingY', 'number'],
+    ['horizontalDirection', 'enum'],
+    ['verticalDirection', 'enum'],
+    ['constraint', 'enum'],
+    ['constraintNum', 'number'],
+    ['affectedByScale', 'boolean'],
+    ['alignHorizontal', 'boolean'],
+    ['alignVertical', 'boolean'],
+  ],
+  Button: BUTTON_PROPS,
+  Toggle: [
+    ...BUTTON_PROPS,
+    ['isChecked', 'boolean'],
+    ['checkMark', 'ref'],
+    ['checkEvents', 'events'],
+  ],
+  ToggleContainer: [
+    ['allowSwitchOff', 'boolean'],
+    ['checkEvents', 'events'],
+  ],
+  UIOpacity: [['opacity', 'number']],
+  Graphics: [
+    ['lineWidth', 'number'],
+    ['lineJoin', 'enum'],
+    ['lineCap', 'enum'],
+    ['miterLimit', 'number'],
+    ['strokeColor', 'color'],
+    ['fillColor', 'color'],
+  ],
+  ProgressBar: [
+    ['barSprite', 'ref'],
+    ['mode', 'enum'],
+    ['totalLength', 'number'],
+    ['progress', 'number'],
+    ['reverse', 'boolean'],
+  ],
+  Slider: [
+    ['handle', 'ref'],
+    ['direction', 'enum'],
+    ['progress', 'number'],
+    ['slideEvents', 'events'],
+  ],
+  ScrollView: [
+    ['content', 'ref'],
+    ['horizontal', 'boolean'],
+    ['vertical', 'boolean'],
+    ['inertia', 'boolean'],
+    ['brake', 'number'],
+    ['elastic', 'boolean'],
+    ['bounceDuration', 'number'],
+    ['horizontalScrollBar', 'ref'],
+    ['verticalScrollBar', 'ref'],
+    ['cancelInnerEvents', 'boolean'],
+    ['scrollEvents', 'events'],
+  ],
+  EditBox: [
+    ['string', 'string'],
+    ['placeholder', 'string'],
+    ['inputFlag', 'enum'],
+    ['inputMode', 'enum'],
+    ['returnType', 'enum'],
+    ['maxLength', 'number'],
+    ['backgroundImage', 'asset'],
+    ['textLabel', 'ref'],
+    ['placeholderLabel', 'ref'],
+  ],
+  Canvas: [
+    ['cameraComponent', 'ref'],
+    ['alignCanvasWithScreen', 'boolean'],
+  ],
+  Skeleton: [
+    ['skeletonData', 'asset'],
+    ['defaultSkin', 'string'],
+    ['defaultAnimation', 'string'],
+    ['loop', 'boolean'],
+    ['premultipliedAlpha', 'boolean'],
+    ['timeScale', 'number'],
+    ['color', 'color'],
+  ],
+  Animation: [
+    ['clips', 'assets'],
+    ['defaultClip', 'asset'],
+    ['playOnLoad', 'boolean'],
+  ],
+  ParticleSystem2D: [
+    ['file', 'asset'],
+    ['spriteFrame', 'asset'],
+    ['custom', 'boolean'],
+    ['playOnLoad', 'boolean'],
+    ['autoRemoveOnFinish', 'boolean'],
+    ['totalParticles', 'number'],
+    ['duration', 'number'],
+    ['emissionRate', 'number'],
+  ],
+};
+
+const GENERIC_SKIP = ['node', '__eventTargets', '_objFlags', '_enabled', 'enabled', '__prefab'];
+const GENERIC_LIMIT = 32;
+const ARRAY_LIMIT = 64;
+
+const num = (v: unknown, fallback = 0): number => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const readProp = (c: Rec, prop: string): unknown => {
+  const v = c[prop];
+  return v !== undefined ? v : c[`_${prop}`];
+};
+
+const isNodeLike = (v: Rec): boolean =>
+  Array.isArray(v._components) || (typeof v.uuid === 'string' && Array.isArray(v.children));
+
+const isComponentLike = (v: Rec): boolean =>
+  !!v.node && typeof v.node === 'object' && isNodeLike(v.node as Rec);
+
+const isAssetLike = (v: Rec): boolean =>
+  typeof v._uuid === 'string' && !isNodeLike(v) && !isComponentLike(v);
+
+const nodePathOf = (scene: cc.Node, node: cc.Node): string => {
+  const id = getNodeId(node);
+  return buildNodePath(scene, id) || node.name || id;
+};
+
+const toAsset = (raw: unknown): SnapshotPropValue => {
+  if (!raw || typeof raw !== 'object') return null;
+  const a = raw as Rec;
+  return {
+    type: 'asset',
+    assetType: shortTypeName(getComponentName(a)),
+    uuid: String(a._uuid ?? a.uuid ?? ''),
+    name: String(a.name || a._name || ''),
+  };
+};
+
+/** 节点 / 组件引用 → { nodeId, path, component? } */
+const toRef = (raw: unknown, scene: cc.Node): SnapshotPropValue => {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Rec;
+  if (isNodeLike(r)) {
+    const node = r as unknown as cc.Node;
+    return { type: 'ref', nodeId: getNodeId(node), path: nodePathOf(scene, node) };
+  }
+  if (isComponentLike(r)) {
+    const node = r.node as cc.Node;
+    return {
+      type: 'ref',
+      nodeId: getNodeId(node),
+      path: nodePathOf(scene, node),
+      component: getComponentName(r),
+    };
+  }
+  return null;
+};
+
+const toEvents = (raw: unknown, scene: cc.Node): SnapshotPropValue => {
+  if (!Array.isArray(raw)) return [];
+  return raw.slice(0, ARRAY_LIMIT).map((h): SnapshotPropValue => {
+    const e = (h ?? {}) as Rec;
+    const target = e.target as cc.Node | null | undefined;
+    return {
+      type: 'eventHandler',
+      target: target ? { nodeId: getNodeId(target), path: nodePathOf(scene, target) } : null,
+      component: String(e.component ?? e._componentName ?? ''),
+      handler: String(e.handler ?? ''),
+      customEventData: String(e.customEventData ?? ''),
+    };
+  });
+};
+
+const toValue = (
+  raw: unknown,
+  kind: PropKind,
+  typeShort: string,
+  prop: string,
+  scene: cc.Node
+): SnapshotPropValue => {
+  const o = (raw ?? {}) as Rec;
+  switch (kind) {
+    case 'number':
+      return typeof raw === 'number' && Number.isFinite(raw) ? raw : null;
+    case 'boolean':
+      return typeof raw === 'boolean' ? raw : null;
+    case 'string':
+      return raw == null ? null : String(raw);
+    case 'color':
+      if (!raw || typeof raw !== 'object') return null;
+      return { type: 'color', r: num(o.r), g: num(o.g), b: num(o.b), a: num(o.a, 255) };
+    case 'vec2':
+      if (!raw || typeof raw !== 'object') return null;
+      return { type: 'vec2', x: num(o.x), y: num(o.y) };
+    case 'vec3':
+      if (!raw || typeof raw !== 'object') return null;
+      return { type: 'vec3', x: num(o.x), y: num(o.y), z: num(o.z) };
+    case 'size':
+      if (!raw || typeof raw !== 'object') return null;
+      return { type: 'size', width: num(o.width ?? o.x), height: num(o.height ?? o.y) };
+    case 'enum': {
+      if (typeof raw !== 'number') return null;
+      const option = (getEnumOptions(typeShort, prop) ?? []).filter((p) => p.value === raw)[0];
+      return option
+        ? { type: 'enum', value: raw, name: option.label }
+        : { type: 'enum', value: raw };
+    }
+    case 'asset':
+      return toAsset(raw);
+    case 'assets':
+      return Array.isArray(raw) ? raw.slice(0, ARRAY_LIMIT).map(toAsset) : [];
+    case 'ref':
+      return toRef(raw, scene);
+    case 'events':
+      return toEvents(raw, scene);
+  }
+};
+
+/** 未知值推断类型（自定义脚本组件） */
+const inferValue = (raw: unknown, scene: cc.Node, depth = 0): SnapshotPropValue | undefined => {
+  if (raw === null) return null;
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw === 'boolean' || typeof raw === 'string') return raw;
+  if (!raw || typeof raw !== 'object') return undefined;
+  if (Array.isArray(raw)) {
+    if (depth > 0) return undefined;
+    const out: SnapshotPropValue[] = [];
+    for (const item of raw.slice(0, ARRAY_LIMIT)) {
+      const v = inferValue(item, scene, depth + 1);
+      if (v !== undefined) out.push(v);
+    }
+    return out;
+  }
+  const o = raw as Rec;
+  if (isNodeLike(o) || isComponentLike(o)) return toRef(o, scene);
+  if (isAssetLike(o)) return toAsset(o);
+  if ('r' in o && 'g' in o && 'b' in o) return toValue(o, 'color', '', '', scene);
+  if ('x' in o && 'y' in o && 'z' in o) return toValue(o, 'vec3', '', '', scene);
+  if ('x' in o && 'y' in o) return toValue(o, 'vec2', '', '', scene);
+  if ('width' in o && 'height' in o) return toValue(o, 'size', '', '', scene);
+  return undefined;
+};
+
+const collectGenericProps = (c: Rec, scene: cc.Node): SnapshotProps => {
+  const props: SnapshotProps = {};
+  let count = 0;
+  for (const key of Object.keys(c)) {
+    if (key.charAt(0) === '_' || GENERIC_SKIP.indexOf(key) >= 0) continue;
+    if (typeof c[key] === 'function') continue;
+    const v = inferValue(c[key], scene);
+    if (v === undefined) continue;
+    props[key] = v;
+    if (++count >= GENERIC_LIMIT) break;
+  }
+  return props;
+};
+
+/**
+ * 组件结构化属性：已知组件按 COMPONENT_PROPS 读取，其余按公开字段推断。
+ * 读取失败的属性跳过，不影响其它字段。
+ */
+export const collectComponentProps = (comp: unknown, scene: cc.Node): SnapshotProps => {
+  if (!comp || typeof comp !== 'object') return {};
+  const c = comp as Rec;
+  const typeShort = shortTypeName(getComponentName(comp));
+  const schema = COMPONENT_PROPS[typeShort];
+  if (!schema) {
+    try {
+      return collectGenericProps(c, scene);
+    } catch {
+      return {};
+    }
+  }
+
+  const props: SnapshotProps = {};
+  for (const [prop, kind] of schema) {
+    try {
+      const raw = readProp(c, prop);
+      if (raw === undefined) continue;
+      props[prop] = toValue(raw, kind, typeShort, prop, scene);
+    } catch {
+      // getter 抛错（组件已销毁等）时跳过该属性
+    }
+  }
+  return props;
+};
@@ -0,0 +1,84 @@
+/**
+ * 页面侧读写 chrome.storage.local：injected 运行在页面主世界，无 chrome.storage，
+ * 经 content script 转发。content 未响应时（如单独注入 injected.js）退回 localStorage。
+ * content 运行在所有页面，只放行当前页面自己的键，页面不能读写其它页面的数据。
+ */
+
+export const STORAGE_REQUEST_MESSAGE = 'cocos-storage-request';
+export const STORAGE_RESPONSE_MESSAGE = 'cocos-storage-response';
+
+const PAGE_STORAGE_PREFIX = 'cocos-inspector:page:';
+
+/** 当前页面的存储键（origin + pathname，不含 query）；content 与页面各自按 location 计算 */
+export const pageStorageKey = (): string =>
+  `${PAGE_STORAGE_PREFIX}${location.origin}${location.pathname}`;
+
+const STORAGE_TIMEOUT_MS = 1500;
+const LOCAL_FALLBACK_PREFIX = 'cocos-inspector-storage:';
+
+type StorageOp = 'get' | 'set';
+
+let contentAvailable: boolean | null = null;
+
+const localGet = <T>(key: string): T | undefined => {
+  try {
+    const raw = localStorage.getItem(LOCAL_FALLBACK_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const localSet = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(LOCAL_FALLBACK_PREFIX + key, JSON.stringify(value));
+  } catch {
+    /* 隐私模式等无 localStorage */
+  }
+};
+
+const request = (op: StorageOp, key: string, value?: unknown): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const requestId = `st_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    const timer = window.setTimeout(() => {
+      window.removeEventListener('message', onResponse);
+      reject(new Error('content script 未响应'));
+    }, STORAGE_TIMEOUT_MS);
+
+    const onResponse = (ev: MessageEvent): void => {
+      if (ev.source !== window || ev.data?.type !== STORAGE_RESPONSE_MESSAGE) return;
+      if (ev.data.requestId !== requestId) return;
+      window.clearTimeout(timer);
+      window.removeEventListener('message', onResponse);
+      if (ev.data.error) reject(new Error(String(ev.data.error)));
+      else resolve(ev.data.value);
+    };
+
+    window.addEventListener('message', onResponse);
+    window.postMessage({ type: STORAGE_REQUEST_MESSAGE, requestId, op, key, value }, '*');
+  });
+
+/** 读取扩展存储；首次超时后本会话改用 localStorage */
+export const storageGet = async <T>(key: string): Promise<T | undefined> => {
+  if (contentAvailable === false) return localGet<T>(key);
+  try {
+    const value = (await request('get', key)) as T | undefined;
+    contentAvailable = true;
+    return value;
+  } catch (error) {
+    if (contentAvailable === null) {
+      contentAvailable = false;
+      console.warn('[存储] 扩展存储不可用，改用 localStorage', error);
+      return localGet<T>(key);
+    }
+    throw error;
+  }
+};
+
+export const storageSet = async (key: string, value: unknown): Promise<void> => {
+  if (contentAvailable === false) {
+    localSet(key, value);
+    return;
+  }
+  await request('set', key, value);
+};
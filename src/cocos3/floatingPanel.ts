@@ -0,0 +1,118 @@
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * 页内浮窗基类：可拖动标题栏、关闭按钮与显示 / 隐藏。
+ * 子类在 build 中追加工具栏与正文，在 onOpen / onClose 中启停刷新
+ */
+export abstract class FloatingPanel {
+  protected root: HTMLElement | null = null;
+  protected visible = false;
+  private dragState: { x: number; y: number; left: number; top: number } | null = null;
+
+  constructor(
+    private readonly panelClass: string,
+    private readonly panelTitle: string
+  ) {}
+
+  toggle(): void {
+    if (this.visible) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  open(): void {
+    if (!this.root) this.create();
+    if (!this.root) return;
+    this.visible = true;
+    this.root.style.display = 'flex';
+    this.onOpen();
+  }
+
+  close(): void {
+    this.visible = false;
+    this.onClose();
+    if (this.root) this.root.style.display = 'none';
+  }
+
+  /** 追加标题栏之后的内容；headerActions 中的按钮排在关闭按钮之前 */
+  protected abstract build(panel: HTMLElement, headerActions: HTMLElement): void;
+
+  protected onOpen(): void {}
+
+  protected onClose(): void {}
+
+  private create(): void {
+    const panel = document.createElement('div');
+    panel.className = `asset-float-panel ${this.panelClass}`.trim();
+    panel.style.display = 'none';
+
+    const header = document.createElement('div');
+    header.className = 'asset-float-header';
+
+    const title = document.createElement('span');
+    title.className = 'asset-float-title';
+    title.textContent = this.panelTitle;
+    header.appendChild(title);
+
+    const headerActions = document.createElement('div');
+    headerActions.className = 'asset-float-header-actions';
+    header.appendChild(headerActions);
+    panel.appendChild(header);
+    this.bindDrag(header, panel);
+
+    this.build(panel, headerActions);
+
+    const closeBtn = document.createElement('button');
+    closeBtn.type = 'button';
+    closeBtn.className = 'asset-float-icon-btn';
+    closeBtn.textContent = '×';
+    closeBtn.title = '关闭';
+    closeBtn.addEventListener('click', () => this.close());
+    headerActions.appendChild(closeBtn);
+
+    document.body.appendChild(panel);
+    this.root = panel;
+  }
+
+  private bindDrag(header: HTMLElement, panel: HTMLElement): void {
+    header.addEventListener('mousedown', (ev) => {
+      if ((ev.target as HTMLElement).closest('button')) return;
+      ev.preventDefault();
+      const rect = panel.getBoundingClientRect();
+      this.dragState = {
+        x: ev.clientX,
+        y: ev.clientY,
+        left: rect.left,
+        top: rect.top,
+      };
+      panel.style.right = 'auto';
+      panel.style.bottom = 'auto';
+      panel.style.left = `${rect.left}px`;
+      panel.style.top = `${rect.top}px`;
+
+      const onMove = (e: MouseEvent) => {
+        if (!this.dragState) return;
+        const dx = e.clientX - this.dragState.x;
+        const dy = e.clientY - this.dragState.y;
+        panel.style.left = `${this.dragState.left + dx}px`;
+        panel.style.top = `${this.dragState.top + dy}px`;
+      };
+
+      const onUp = () => {
+        this.dragState = null;
+        window.removeEventListener('mousemove', onMove);
+        window.removeEventListener('mouseup', onUp);
+      };
+
+      window.addEventListener('mousemove', onMove);
+      window.addEventListener('mouseup', onUp);
+    });
+  }
+}
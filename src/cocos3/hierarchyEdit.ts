@@ -0,0 +1,357 @@
+import { findNodeByPathSuffix } from './nodeBoundsOverlay';
+import { findNodeById, getNodeId, getSceneRoot } from './sceneTree';
+
+/** 层级编辑操作 */
+export type HierarchyOp = 'reparent' | 'reorder' | 'duplicate' | 'delete';
+
+/** 拖放落点：目标行上沿 / 下沿为插到其前后，中部为成为其子节点 */
+export type DropPosition = 'before' | 'after' | 'inside';
+
+export type HierarchyEditResult =
+  | {
+      ok: true;
+      op: HierarchyOp;
+      /** 被操作的节点；duplicate 为新副本 */
+      nodeId: string;
+      nodeName: string;
+      /** 操作后的父节点；delete 为原父节点 */
+      parentId: string;
+      /** 操作后在父节点 children 中的位置（引擎顺序）；delete 为原位置 */
+      index: number;
+      /** 撤销结果为 true，此时 op 为被撤销的操作 */
+      undone?: boolean;
+    }
+  | { ok: false; error: string };
+
+type Vec3Like = { x: number; y: number; z: number };
+type QuatLike = Vec3Like & { w: number };
+
+/** cc.Node 上层级编辑用到的方法（3.x 均有，旧版按属性赋值兜底） */
+type EditableNode = cc.Node & {
+  position?: Vec3Like;
+  rotation?: QuatLike;
+  scale?: Vec3Like;
+  setParent?: (parent: cc.Node | null, keepWorldTransform?: boolean) => void;
+  setSiblingIndex?: (index: number) => void;
+  removeFromParent?: () => void;
+  setPosition?: (x: number, y: number, z: number) => void;
+  setRotation?: (x: number, y: number, z: number, w: number) => void;
+  setScale?: (x: number, y: number, z: number) => void;
+  destroy?: () => boolean;
+  isValid?: boolean;
+};
+
+interface LocalTransform {
+  position: Vec3Like | null;
+  rotation: QuatLike | null;
+  scale: Vec3Like | null;
+}
+
+interface HierarchyUndoEntry {
+  op: HierarchyOp;
+  node: EditableNode;
+  /** 操作前的父节点与位置；duplicate 无需记录 */
+  parent: cc.Node | null;
+  index: number;
+  transform: LocalTransform | null;
+}
+
+const UNDO_LIMIT = 50;
+const undoStack: HierarchyUndoEntry[] = [];
+
+const siblingIndexOf = (node: cc.Node): number =>
+  node.parent ? (node.parent.children ?? []).indexOf(node) : -1;
+
+const isAncestorOf = (ancestor: cc.Node, node: cc.Node): boolean => {
+  let cur: cc.Node | null = node;
+  while (cur) {
+    if (cur === ancestor) return true;
+    cur = cur.parent;
+  }
+  return false;
+};
+
+const readTransform = (node: EditableNode): LocalTransform => {
+  const vec = (v?: Vec3Like): Vec3Like | null => (v ? { x: v.x, y: v.y, z: v.z } : null);
+  const q = node.rotation;
+  return {
+    position: vec(node.position),
+    rotation: q ? { x: q.x, y: q.y, z: q.z, w: q.w } : null,
+    scale: vec(node.scale),
+  };
+};
+
+const writeTransform = (node: EditableNode, t: LocalTransform): void => {
+  if (t.position) node.setPosition?.(t.position.x, t.position.y, t.position.z);
+  if (t.rotation) node.setRotation?.(t.rotation.x, t.rotation.y, t.rotation.z, t.rotation.w);
+  if (t.scale) node.setScale?.(t.scale.x, t.scale.y, t.scale.z);
+};
+
+/** 挂到 parent 并放到 index（越界取末尾） */
+const placeNode = (
+  node: EditableNode,
+  parent: cc.Node,
+  index: number,
+  keepWorldTransform: boolean
+): void => {
+  if (node.parent !== parent) {
+    if (typeof node.setParent === 'function') {
+      node.setParent(parent, keepWorldTransform);
+    } else {
+      node.parent = parent;
+    }
+  }
+  const last = (parent.children ?? []).length - 1;
+  const target = index < 0 || index > last ? last : index;
+  if (siblingIndexOf(node) !== target) node.setSiblingIndex?.(target);
+};
+
+const detachNode = (node: EditableNode): void => {
+  if (typeof node.removeFromParent === 'function') {
+    node.removeFromParent();
+  } else if (typeof node.setParent === 'function') {
+    node.setParent(null);
+  } else {
+    node.parent = null;
+  }
+};
+
+const pushUndo = (entry: HierarchyUndoEntry): void => {
+  undoStack.push(entry);
+  if (undoStack.length <= UNDO_LIMIT) return;
+  // 移出撤销栈的已删除节点不会再挂回场景，此时才真正销毁
+  const dropped = undoStack.shift();
+  if (dropped?.op === 'delete' && !dropped.node.parent) dropped.node.destroy?.();
+};
+
+const okResult = (
+  op: HierarchyOp,
+  node: cc.Node,
+  parent: cc.Node,
+  index: number,
+  undone?: boolean
+): HierarchyEditResult => ({
+  ok: true,
+  op,
+  nodeId: getNodeId(node),
+  nodeName: node.name || '(unnamed)',
+  parentId: getNodeId(parent),
+  index,
+  ...(undone ? { undone } : {}),
+});
+
+const failWith = (label: string, node: cc.Node, error: unknown): HierarchyEditResult => {
+  console.error(`[层级编辑] ${label} ${node.name}(${getNodeId(node)}) 失败`, error);
+  return { ok: false, error: error instanceof Error ? error.message : String(error) };
+};
+
+/** 可编辑的非场景根节点 */
+const resolveMovable = (
+  nodeId: string
+): { ok: true; scene: cc.Node; node: EditableNode } | { ok: false; error: string } => {
+  const scene = getSceneRoot();
+  if (!scene) return { ok: false, error: '场景未就绪' };
+  const node = findNodeById(scene, nodeId) as EditableNode | null;
+  if (!node) return { ok: false, error: `未找到节点 ${nodeId}` };
+  if (node === scene || !node.parent) return { ok: false, error: '不能编辑场景根节点' };
+  return { ok: true, scene, node };
+};
+
+/**
+ * 把节点挂到 parentId 下的 index 位置（省略或 -1 为末尾）。
+ * 默认保持世界坐标（与编辑器拖拽一致），撤销时还原原本地变换。
+ */
+export const reparentNode = (
+  nodeId: string,
+  parentId: string,
+  index = -1,
+  keepWorldTransform = true
+): HierarchyEditResult => {
+  const resolved = resolveMovable(nodeId);
+  if (!resolved.ok) return resolved;
+  const { scene, node } = resolved;
+  const parent = findNodeById(scene, parentId);
+  if (!parent) return { ok: false, error: `未找到父节点 ${parentId}` };
+  if (isAncestorOf(node, parent)) {
+    return { ok: false, error: '不能挂到自身或自己的子孙节点下' };
+  }
+
+  const prevParent = node.parent as cc.Node;
+  const prevIndex = siblingIndexOf(node);
+  const op: HierarchyOp = prevParent === parent ? 'reorder' : 'reparent';
+  try {
+    const transform = readTransform(node);
+    placeNode(node, parent, index, keepWorldTransform);
+    pushUndo({ op, node, parent: prevParent, index: prevIndex, transform });
+    const at = siblingIndexOf(node);
+    console.log(`[层级编辑] ${op} ${node.name}(${nodeId}) → ${parent.name}[${at}]`);
+    return okResult(op, node, parent, at);
+  } catch (error) {
+    return failWith(op, node, error);
+  }
+};
+
+/** 兄弟间调整顺序：index 为目标位置（引擎 children 顺序） */
+export const reorderNode = (nodeId: string, index: number): HierarchyEditResult => {
+  const resolved = resolveMovable(nodeId);
+  if (!resolved.ok) return resolved;
+  return reparentNode(nodeId, getNodeId(resolved.node.parent as cc.Node), index);
+};
+
+/** 兄弟间上移 / 下移 delta 位 */
+export const moveNodeBy = (nodeId: string, delta: number): HierarchyEditResult => {
+  const resolved = resolveMovable(nodeId);
+  if (!resolved.ok) return resolved;
+  const { node } = resolved;
+  const count = (node.parent?.children ?? []).length;
+  const target = Math.max(0, Math.min(count - 1, siblingIndexOf(node) + delta));
+  if (target === siblingIndexOf(node)) {
+    return { ok: false, error: delta < 0 ? '已是第一个子节点' : '已是最后一个子节点' };
+  }
+  return reorderNode(nodeId, target);
+};
+
+/** 树面板拖放：落到目标行前后为同级插入，落在中部为挂到目标下（末尾） */
+export const dropNode = (
+  nodeId: string,
+  targetId: string,
+  position: DropPosition
+): HierarchyEditResult => {
+  if (nodeId === targetId) return { ok: false, error: '不能拖到自身' };
+  if (position === 'inside') return reparentNode(nodeId, targetId);
+
+  const target = resolveMovable(targetId);
+  if (!target.ok) return { ok: false, error: '只能放入场景根节点内部' };
+  const moving = resolveMovable(nodeId);
+  if (!moving.ok) return moving;
+
+  const parent = target.node.parent as cc.Node;
+  let index = siblingIndexOf(target.node) + (position === 'after' ? 1 : 0);
+  // 同一父节点内向后移动时，先摘下自身会让目标位置前移一位
+  if (moving.node.parent === parent && siblingIndexOf(moving.node) < index) index -= 1;
+  return reparentNode(nodeId, getNodeId(parent), index);
+};
+
+/** cc.instantiate 复制节点，副本插在原节点之后 */
+export const duplicateNode = (nodeId: string): HierarchyEditResult => {
+  const resolved = resolveMovable(nodeId);
+  if (!resolved.ok) return resolved;
+  const { node } = resolved;
+  const instantiate = (window.cc as { instantiate?: (n: cc.Node) => cc.Node }).instantiate;
+  if (typeof instantiate !== 'function') {
+    return { ok: false, error: 'cc.instantiate 不可用' };
+  }
+
+  const parent = node.parent as cc.Node;
+  try {
+    const copy = instantiate(node) as EditableNode;
+    placeNode(copy, parent, siblingIndexOf(node) + 1, false);
+    pushUndo({ op: 'duplicate', node: copy, parent: null, index: -1, transform: null });
+    const at = siblingIndexOf(copy);
+    console.log(`[层级编辑] duplicate ${node.name}(${nodeId}) → ${getNodeId(copy)}`);
+    return okResult('duplicate', copy, parent, at);
+  } catch (error) {
+    return failWith('duplicate', node, error);
+  }
+};
+
+/**
+ * 删除节点：先从场景摘下保留在撤销栈中，撤销即挂回原位；
+ * 超出撤销栈上限后才 destroy。
+ */
+export const deleteNode = (nodeId: string): HierarchyEditResult => {
+  const resolved = resolveMovable(nodeId);
+  if (!resolved.ok) return resolved;
+  const { node } = resolved;
+  const parent = node.parent as cc.Node;
+  const index = siblingIndexOf(node);
+  try {
+    const transform = readTransform(node);
+    detachNode(node);
+    pushUndo({ op: 'delete', node, parent, index, transform });
+    console.log(`[层级编辑] delete ${node.name}(${nodeId}) from ${parent.name}[${index}]`);
+    return okResult('delete', node, parent, index);
+  } catch (error) {
+    return failWith('delete', node, error);
+  }
+};
+
+/** 撤销最近一次层级编辑；失败时条目留在栈顶 */
+export const undoHierarchyEdit = (): HierarchyEditResult => {
+  const entry = undoStack[undoStack.length - 1];
+  if (!entry) return { ok: false, error: '没有可撤销的层级编辑' };
+  const { op, node } = entry;
+  if (node.isValid === false) return { ok: false, error: `节点 ${node.name} 已被销毁` };
+
+  try {
+    if (op === 'duplicate') {
+      const parent = node.parent;
+      if (!parent) return { ok: false, error: '副本已不在场景中' };
+      const index = siblingIndexOf(node);
+      detachNode(node);
+      node.destroy?.();
+      undoStack.pop();
+      console.log(`[层级编辑] 撤销 duplicate ${node.name}(${getNodeId(node)})`);
+      return okResult(op, node, parent, index, true);
+    }
+
+    const parent = entry.parent;
+    if (!parent || (parent as EditableNode).isValid === false) {
+      return { ok: false, error: '原父节点已不存在' };
+    }
+    placeNode(node, parent, entry.index, false);
+    if (entry.transform) writeTransform(node, entry.transform);
+    undoStack.pop();
+    console.log(`[层级编辑] 撤销 ${op} ${node.name}(${getNodeId(node)})`);
+    return okResult(op, node, parent, siblingIndexOf(node), true);
+  } catch (error) {
+    return failWith(`撤销 ${op}`, node, error);
+  }
+};
+
+export const getHierarchyUndoDepth = (): number => undoStack.length;
+
+/** MCP 参数：节点用 nodeId 或路径后缀定位 */
+export interface HierarchyEditRequest {
+  op: HierarchyOp | 'undo';
+  nodeId?: string;
+  path?: string;
+  /** reparent：新父节点 */
+  parentId?: string;
+  parentPath?: string;
+  /** reparent / reorder：目标位置（引擎 children 顺序），省略为末尾 */
+  index?: number;
+  /** reparent：是否保持世界坐标，默认 true */
+  keepWorldTransform?: boolean;
+}
+
+const idFromRequest = (id?: string, path?: string): string | null => {
+  if (id) return id;
+  if (!path) return null;
+  const node = findNodeByPathSuffix(path);
+  return node ? getNodeId(node) : null;
+};
+
+/** MCP 入口：按 op 分派 */
+export const applyHierarchyEdit = (req: HierarchyEditRequest): HierarchyEditResult => {
+  if (req.op === 'undo') return undoHierarchyEdit();
+  const nodeId = idFromRequest(req.nodeId, req.path);
+  if (!nodeId) return { ok: false, error: `未找到节点 ${req.path ?? ''}` };
+
+  switch (req.op) {
+    case 'reparent': {
+      const parentId = idFromRequest(req.parentId, req.parentPath);
+      if (!parentId) return { ok: false, error: `未找到父节点 ${req.parentPath ?? ''}` };
+      return reparentNode(nodeId, parentId, req.index ?? -1, req.keepWorldTransform !== false);
+    }
+    case 'reorder':
+      if (typeof req.index !== 'number') return { ok: false, error: 'reorder 需要 index' };
+      return reorderNode(nodeId, req.index);
+    case 'duplicate':
+      return duplicateNode(nodeId);
+    case 'delete':
+      return deleteNode(nodeId);
+    default:
+      return { ok: false, error: `未知操作 ${String(req.op)}` };
+  }
+};
@@ -0,0 +1,211 @@
+import { escapeHtml, FloatingPanel } from './floatingPanel';
+import {
+  HookManager,
+  type HookCallLogEntry,
+  type HookInfo,
+  type HookType,
+} from './propertyHook';
+
+const HOOK_TYPE_LABEL: Record<HookType, string> = {
+  get: '读',
+  set: '写',
+  both: '读写',
+};
+
+const LOG_VIEW_LIMIT = 200;
+
+const formatTime = (ts: number): string => {
+  const d = new Date(ts);
+  const two = (n: number) => `0${n}`.slice(-2);
+  const ms = `00${d.getMilliseconds()}`.slice(-3);
+  return `${two(d.getHours())}:${two(d.getMinutes())}:${two(d.getSeconds())}.${ms}`;
+};
+
+/** 属性钩子浮窗：新钩子选项、活动钩子列表与调用日志 */
+export class HookFloatingPanel extends FloatingPanel {
+  private bodyEl: HTMLElement | null = null;
+  private summaryEl: HTMLElement | null = null;
+  private typeSelect: HTMLSelectElement | null = null;
+  private breakCheckbox: HTMLInputElement | null = null;
+  private refreshTimer: number | null = null;
+  private lastHash = '';
+
+  constructor() {
+    super('hook-float-panel', '属性钩子');
+  }
+
+  /** Inspector 行上的钩子按钮使用这里的类型与断点设置 */
+  getNewHookOptions(): { hookType: HookType; breakOnWrite: boolean } {
+    return {
+      hookType: (this.typeSelect?.value as HookType | undefined) ?? 'set',
+      breakOnWrite: !!this.breakCheckbox?.checked,
+    };
+  }
+
+  protected onOpen(): void {
+    this.refresh(true);
+    this.startAutoRefresh();
+  }
+
+  protected onClose(): void {
+    this.stopAutoRefresh();
+  }
+
+  protected build(panel: HTMLElement): void {
+    this.summaryEl = document.createElement('div');
+    this.summaryEl.className = 'asset-float-summary';
+    panel.appendChild(this.summaryEl);
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'asset-float-toolbar';
+
+    const typeLabel = document.createElement('span');
+    typeLabel.className = 'hook-float-label';
+    typeLabel.textContent = '新钩子';
+    toolbar.appendChild(typeLabel);
+
+    this.typeSelect = document.createElement('select');
+    this.typeSelect.className = 'hook-float-select';
+    (['set', 'get', 'both'] as HookType[]).forEach((t) => {
+      const opt = document.createElement('option');
+      opt.value = t;
+      opt.textContent = HOOK_TYPE_LABEL[t];
+      this.typeSelect?.appendChild(opt);
+    });
+    toolbar.appendChild(this.typeSelect);
+
+    const breakLabel = document.createElement('label');
+    breakLabel.className = 'hook-float-label';
+    this.breakCheckbox = document.createElement('input');
+    this.breakCheckbox.type = 'checkbox';
+    breakLabel.appendChild(this.breakCheckbox);
+    breakLabel.appendChild(document.createTextNode('写入时断点'));
+    breakLabel.title = '写入时执行 debugger（需打开 DevTools）';
+    toolbar.appendChild(breakLabel);
+
+    const spacer = document.createElement('span');
+    spacer.style.flex = '1';
+    toolbar.appendChild(spacer);
+
+    const clearLogBtn = document.createElement('button');
+    clearLogBtn.type = 'button';
+    clearLogBtn.className = 'asset-float-tab';
+    clearLogBtn.textContent = '清空日志';
+    clearLogBtn.addEventListener('click', () => {
+      HookManager.getInstance().clearCallLog();
+      this.refresh(true);
+    });
+    toolbar.appendChild(clearLogBtn);
+
+    const removeAllBtn = document.createElement('button');
+    removeAllBtn.type = 'button';
+    removeAllBtn.className = 'asset-float-tab';
+    removeAllBtn.textContent = '全部移除';
+    removeAllBtn.addEventListener('click', () => {
+      HookManager.getInstance().removeAll();
+      this.refresh(true);
+    });
+    toolbar.appendChild(removeAllBtn);
+
+    panel.appendChild(toolbar);
+
+    this.bodyEl = document.createElement('div');
+    this.bodyEl.className = 'asset-float-body';
+    this.bodyEl.addEventListener('click', (ev) => {
+      const btn = (ev.target as HTMLElement).closest(
+        '.hook-remove-btn'
+      ) as HTMLElement | null;
+      const hookId = btn?.dataset.hookId;
+      if (!hookId) return;
+      HookManager.getInstance().removeHook(hookId);
+      this.refresh(true);
+    });
+    panel.appendChild(this.bodyEl);
+  }
+
+  private startAutoRefresh(): void {
+    this.stopAutoRefresh();
+    this.refreshTimer = window.setInterval(() => {
+      if (this.visible) this.refresh(false);
+    }, 1000);
+  }
+
+  private stopAutoRefresh(): void {
+    if (this.refreshTimer !== null) {
+      window.clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  refresh(force = false): void {
+    if (!this.visible || !this.bodyEl) return;
+    const manager = HookManager.getInstance();
+    const hooks = manager.listHooks();
+    const log = manager.getCallLog({ limit: LOG_VIEW_LIMIT });
+
+    // 展开的调用栈 <details> 会被重绘折叠，日志无变化时跳过
+    const lastSeq = log.length ? log[log.length - 1].seq : 0;
+    const hookSig = hooks.map((h) => `${h.id}:${h.hits}`).join('|');
+    const hash = `${hookSig}#${lastSeq}:${log.length}`;
+    if (!force && hash === this.lastHash) return;
+    this.lastHash = hash;
+
+    if (this.summaryEl) {
+      this.summaryEl.textContent = `活动钩子 ${hooks.length} · 日志 ${log.length} 条`;
+    }
+    this.bodyEl.innerHTML = this.renderHooksHtml(hooks) + this.renderLogHtml(log);
+  }
+
+  private renderHooksHtml(hooks: HookInfo[]): string {
+    if (hooks.length === 0) {
+      return `<div class="asset-float-empty">
+        暂无钩子：在 Inspector 可编辑属性行点击 ⚓ 添加
+      </div>`;
+    }
+    const rows = hooks
+      .map(
+        (h) => `<tr>
+        <td class="asset-col-name" title="${escapeHtml(h.nodeId)}">${escapeHtml(
+          h.nodeName
+        )}</td>
+        <td>${escapeHtml(`${h.component}.${h.prop}`)}</td>
+        <td>${HOOK_TYPE_LABEL[h.hookType]}${h.breakOnWrite ? ' · 断点' : ''}</td>
+        <td class="asset-col-num">${h.hits}</td>
+        <td><button type="button" class="asset-float-icon-btn hook-remove-btn"
+          data-hook-id="${escapeHtml(h.id)}" title="移除钩子">×</button></td>
+      </tr>`
+      )
+      .join('');
+    return `<table class="asset-float-table"><thead><tr>
+      <th>节点</th><th>属性</th><th>类型</th><th>次数</th><th></th>
+    </tr></thead><tbody>${rows}</tbody></table>`;
+  }
+
+  private renderLogHtml(log: HookCallLogEntry[]): string {
+    if (log.length === 0) {
+      return '<div class="asset-float-more">暂无调用记录</div>';
+    }
+    const items = log
+      .slice()
+      .reverse()
+      .map((e) => {
+        const value =
+          e.access === 'set' ? `${e.oldValue ?? ''} → ${e.value}` : e.value;
+        return `<details class="hook-log-item hook-log-${e.access}">
+          <summary>
+            <span class="hook-log-time">${formatTime(e.timestamp)}</span>
+            <span class="hook-log-access">${e.access === 'set' ? '写' : '读'}</span>
+            <span class="hook-log-target">${escapeHtml(
+              `${e.nodeName}.${e.component}.${e.prop}`
+            )}</span>
+            <span class="hook-log-value">${escapeHtml(value)}</span>
+          </summary>
+          <pre class="hook-log-stack">${escapeHtml(
+            e.stack.join('\n') || '(无调用栈)'
+          )}</pre>
+        </details>`;
+      })
+      .join('');
+    return `<div class="hook-log-list">${items}</div>`;
+  }
+}
@@ -0,0 +1,519 @@
+import {
+  findEnabledComponent,
+  getComponentName,
+  getNodeComponents,
+  shortTypeName,
+} from './componentAccess';
+import { getGameCanvas, readNodeScreenRect } from './nodeBoundsOverlay';
+import { buildStablePath } from './nodeBookmarks';
+import { pickNodesAt } from './nodePick';
+import { HookManager } from './propertyHook';
+import { findNodeById, getNodeId, getSceneRoot } from './sceneTree';
+
+type CssRect = { left: number; top: number; width: number; height: number };
+
+export interface InputTraceNode {
+  id: string;
+  name: string;
+  path: string;
+  /** 记录时的页面 CSS 矩形；非 UI 节点为 null */
+  rect: CssRect | null;
+}
+
+/** 事件传播阶段：capture 自上而下、target 目标节点、bubble 自下而上 */
+export type InputPhase = 'capture' | 'target' | 'bubble';
+
+export interface InputListenerCall {
+  nodeId: string;
+  nodeName: string;
+  phase: InputPhase;
+  /** 监听回调的 this：组件短名（Button / 自定义脚本类名）、Node，或 null */
+  component: string | null;
+  /** 回调函数名，匿名函数为 (anonymous) */
+  callback: string;
+}
+
+export interface InputStop {
+  node: InputTraceNode;
+  phase: InputPhase;
+  /** stopPropagationImmediate：同节点后续监听也不再执行 */
+  immediate: boolean;
+  /** 该节点上执行的监听（停止传播的监听在其中） */
+  listeners: string[];
+  /** 节点带 BlockInputEvents */
+  blockInputEvents: boolean;
+}
+
+export interface InputTraceEntry {
+  seq: number;
+  timestamp: number;
+  /** 引擎事件类型，如 touch-start / touch-end / mouse-down */
+  type: string;
+  /** 最近一次 DOM 指针位置（页面 CSS 像素） */
+  screen: { x: number; y: number } | null;
+  /** 引擎 UI 坐标（getUILocation） */
+  uiLocation: { x: number; y: number } | null;
+  /** 命中测试后接收事件的节点；为 null 表示该点没有节点接收 */
+  target: InputTraceNode | null;
+  /** 传播路径：target 到场景根 */
+  path: InputTraceNode[];
+  /** 按执行顺序的监听回调 */
+  listeners: InputListenerCall[];
+  stoppedAt: InputStop | null;
+  /** 该点自上而下的渲染节点（不含 target），标出带触摸监听 / Button 的 */
+  underneath: Array<{ id: string; name: string; path: string; listens: boolean }>;
+  /** 可能导致「点了没反应」的提示 */
+  notes: string[];
+}
+
+export interface InputTraceOptions {
+  /** 同时记录 touch-move（量大，默认 false） */
+  includeMove?: boolean;
+}
+
+export interface InputTraceStatus {
+  tracing: boolean;
+  includeMove: boolean;
+  /** 能否枚举监听回调（找到 CallbacksInvoker）；否则只记录命中节点与停止位置 */
+  listenerHook: boolean;
+  entries: number;
+}
+
+type Rec = Record<string, unknown>;
+
+type EventLike = {
+  type?: string;
+  target?: cc.Node | null;
+  currentTarget?: cc.Node | null;
+  eventPhase?: number;
+  propagationStopped?: boolean;
+  propagationImmediateStopped?: boolean;
+  getUILocation?: () => { x: number; y: number };
+};
+
+type CallbackInfoLike = { callback?: unknown; target?: unknown } | null;
+
+type InvokerLike = {
+  emit: (key: unknown, ...args: unknown[]) => void;
+  _callbackTable?: Record<string, { callbackInfos?: CallbackInfoLike[] } | undefined>;
+};
+
+type ActiveDispatch = { event: EventLike; entry: InputTraceEntry };
+
+const LOG_LIMIT = 200;
+const UNDERNEATH_LIMIT = 8;
+/** DOM pointerdown 后这么久没有引擎分发，记为未命中 */
+const MISS_DELAY_MS = 200;
+const TRACE_TYPES = ['touch-start', 'touch-end', 'touch-cancel', 'mouse-down', 'mouse-up'];
+const PRESS_TYPES = ['touch-start', 'mouse-down'];
+const LISTEN_TYPES = ['touch-start', 'touch-end', 'mouse-down', 'mouse-up'];
+const PHASES: Record<number, InputPhase> = { 1: 'capture', 2: 'target', 3: 'bubble' };
+
+let tracing = false;
+let includeMove = false;
+let log: InputTraceEntry[] = [];
+let seq = 0;
+let active: ActiveDispatch[] = [];
+let listeners: Array<(entry: InputTraceEntry) => void> = [];
+let lastPointer: { x: number; y: number; time: number } | null = null;
+let restoreFns: Array<() => void> = [];
+let listenerHook = false;
+
+const nameOf = (node: cc.Node): string => node.name || '(unnamed)';
+
+const findComp = (node: cc.Node, short: string): Rec | null =>
+  findEnabledComponent(getNodeComponents(node), short) as Rec | null;
+
+const toTraceNode = (node: cc.Node): InputTraceNode => ({
+  id: getNodeId(node),
+  name: nameOf(node),
+  path: buildStablePath(node),
+  rect: readNodeScreenRect(node),
+});
+
+const listensTouch = (node: cc.Node): boolean => {
+  const has = (node as cc.Node & { hasEventListener?: (t: string) => boolean }).hasEventListener;
+  if (typeof has !== 'function') return false;
+  try {
+    return LISTEN_TYPES.some((t) => has.call(node, t));
+  } catch {
+    return false;
+  }
+};
+
+const callbackName = (fn: unknown): string => {
+  const name = typeof fn === 'function' ? fn.name.replace(/^bound /, '') : '';
+  return name || '(anonymous)';
+};
+
+const listenerOwner = (target: unknown): string | null => {
+  if (!target || typeof target !== 'object') return null;
+  const t = target as Rec;
+  if ('node' in t && t.node) return shortTypeName(getComponentName(target));
+  if ('children' in t && 'parent' in t) return 'Node';
+  return null;
+};
+
+const notify = (entry: InputTraceEntry): void => {
+  for (const fn of listeners) {
+    try {
+      fn(entry);
+    } catch (error) {
+      console.warn('[输入追踪] 回调失败', error);
+    }
+  }
+};
+
+const pushEntry = (entry: InputTraceEntry): void => {
+  log.push(entry);
+  if (log.length > LOG_LIMIT) log.splice(0, log.length - LOG_LIMIT);
+  notify(entry);
+};
+
+const recentPointer = (): { x: number; y: number } | null =>
+  lastPointer && Date.now() - lastPointer.time < 1000
+    ? { x: lastPointer.x, y: lastPointer.y }
+    : null;
+
+const readUnderneath = (
+  point: { x: number; y: number } | null,
+  skipId: string | null
+): InputTraceEntry['underneath'] => {
+  if (!point) return [];
+  const picked = pickNodesAt(point.x, point.y, { limit: UNDERNEATH_LIMIT + 1 });
+  if (!picked.ok) return [];
+  const scene = getSceneRoot();
+  return picked.candidates
+    .filter((c) => c.id !== skipId)
+    .slice(0, UNDERNEATH_LIMIT)
+    .map((c) => {
+      const node = scene ? findNodeById(scene, c.id) : null;
+      return {
+        id: c.id,
+        name: c.name,
+        path: c.path,
+        listens: !!node && (listensTouch(node) || !!findComp(node, 'Button')),
+      };
+    });
+};
+
+/** 路径上 Button 的状态、下方被挡住的可交互节点（停止传播见 stoppedAt） */
+const buildNotes = (entry: InputTraceEntry, chain: cc.Node[]): string[] => {
+  const notes: string[] = [];
+  for (const node of chain) {
+    const button = findComp(node, 'Button');
+    if (!button) continue;
+    if (button.enabled === false) notes.push(`Button ${nameOf(node)} 组件未启用`);
+    else if (button.interactable === false) {
+      notes.push(`Button ${nameOf(node)} 不可交互（interactable = false）`);
+    }
+  }
+  const covered = entry.underneath.find((u) => u.listens && !entry.path.some((p) => p.id === u.id));
+  if (covered && entry.target) {
+    notes.push(`下方的 ${covered.name} 也在监听触摸，但事件已被 ${entry.target.name} 接收`);
+  }
+  return notes;
+};
+
+const beginDispatch = (node: cc.Node, event: EventLike): ActiveDispatch => {
+  let ui: { x: number; y: number } | null = null;
+  try {
+    const loc = event.getUILocation?.();
+    if (loc) ui = { x: Math.round(loc.x * 100) / 100, y: Math.round(loc.y * 100) / 100 };
+  } catch {
+    /* 非触摸 / 鼠标事件 */
+  }
+  const path: InputTraceNode[] = [];
+  for (let cur: cc.Node | null = node; cur; cur = cur.parent) path.push(toTraceNode(cur));
+  seq += 1;
+  const entry: InputTraceEntry = {
+    seq,
+    timestamp: Date.now(),
+    type: String(event.type),
+    screen: recentPointer(),
+    uiLocation: ui,
+    target: path[0] ?? null,
+    path,
+    listeners: [],
+    stoppedAt: null,
+    underneath: [],
+    notes: [],
+  };
+  return { event, entry };
+};
+
+const finishDispatch = (d: ActiveDispatch, node: cc.Node): void => {
+  const { entry, event } = d;
+  // 找不到 CallbacksInvoker 时只能在分发结束后看标志位
+  if (!entry.stoppedAt && event.propagationStopped) {
+    const at = event.currentTarget ?? node;
+    entry.stoppedAt = {
+      node: toTraceNode(at),
+      phase: PHASES[event.eventPhase ?? 2] ?? 'target',
+      immediate: !!event.propagationImmediateStopped,
+      listeners: [],
+      blockInputEvents: !!findComp(at, 'BlockInputEvents'),
+    };
+  }
+  const chain: cc.Node[] = [];
+  for (let cur: cc.Node | null = node; cur; cur = cur.parent) chain.push(cur);
+  if (entry.type !== 'touch-move') {
+    entry.underneath = readUnderneath(entry.screen, entry.target?.id ?? null);
+  }
+  entry.notes = buildNotes(entry, chain);
+  pushEntry(entry);
+};
+
+/**
+ * 一次 emit 对应某节点某阶段的全部监听：记下执行了的回调，并看是否在此停止传播。
+ * 回调表临时换成代理数组，引擎按下标取回调时即知执行到第几个；
+ * stopPropagationImmediate 之后取到的回调不算执行。
+ */
+const traceEmit = (d: ActiveDispatch, invoker: InvokerLike, key: string, run: () => void): void => {
+  const { event, entry } = d;
+  const node = event.currentTarget;
+  const phase = PHASES[event.eventPhase ?? 2] ?? 'target';
+  const list = invoker._callbackTable?.[key];
+  const infos = list?.callbackInfos ?? [];
+  const immediate = (): boolean => !!event.propagationImmediateStopped;
+  const ran: CallbackInfoLike[] = [];
+  let observed = false;
+  let proxy: CallbackInfoLike[] | null = null;
+  if (list?.callbackInfos && node && !immediate()) {
+    proxy = new Proxy(infos, {
+      get(target, prop, receiver) {
+        if (typeof prop === 'string' && /^\d+$/.test(prop)) {
+          observed = true;
+          const info = target[Number(prop)];
+          if (!immediate() && info?.callback && ran.indexOf(info) < 0) ran.push(info);
+        }
+        return Reflect.get(target, prop, receiver);
+      },
+    });
+    list.callbackInfos = proxy;
+  }
+
+  const wasStopped = !!event.propagationStopped || immediate();
+  try {
+    run();
+  } finally {
+    if (list && proxy && list.callbackInfos === proxy) list.callbackInfos = infos;
+  }
+  const stopped = !!event.propagationStopped || immediate();
+
+  // 引擎没经代理读取回调表时（实现不同），按全部执行记录
+  const names: string[] = [];
+  if (node) {
+    for (const info of observed ? ran : infos) {
+      if (!info?.callback) continue;
+      const component = listenerOwner(info.target);
+      const callback = callbackName(info.callback);
+      names.push(component && component !== 'Node' ? `${component}.${callback}` : callback);
+      entry.listeners.push({
+        nodeId: getNodeId(node),
+        nodeName: nameOf(node),
+        phase,
+        component,
+        callback,
+      });
+    }
+  }
+  if (node && !wasStopped && stopped && !entry.stoppedAt) {
+    entry.stoppedAt = {
+      node: toTraceNode(node),
+      phase,
+      immediate: !!event.propagationImmediateStopped,
+      listeners: names,
+      blockInputEvents: !!findComp(node, 'BlockInputEvents'),
+    };
+  }
+};
+
+const isTraced = (type: unknown): boolean =>
+  typeof type === 'string' &&
+  (TRACE_TYPES.indexOf(type) >= 0 || (includeMove && type === 'touch-move'));
+
+/** 节点事件回调表的原型：cc.CallbacksInvoker，否则从场景中已注册监听的节点上找 */
+const findInvokerProto = (): InvokerLike | null => {
+  const ccg = window.cc as unknown as Rec;
+  const ctor = ccg.CallbacksInvoker as { prototype?: InvokerLike } | undefined;
+  if (typeof ctor?.prototype?.emit === 'function') return ctor.prototype;
+  const scene = getSceneRoot();
+  let found: InvokerLike | null = null;
+  const walk = (node: cc.Node): void => {
+    if (found) return;
+    const n = node as cc.Node & Rec;
+    const processor = (n.eventProcessor ?? n._eventProcessor) as Rec | undefined;
+    const target = (processor?.bubblingTarget ?? processor?.capturingTarget) as Rec | undefined;
+    // 3.0–3.3 为 EventTarget（回调表在 _callbackTable 上），之后直接是 CallbacksInvoker
+    const table = target?._callbackTable as Rec | undefined;
+    const invoker = (typeof table?.emit === 'function' ? table : target) as InvokerLike | undefined;
+    if (invoker && typeof invoker.emit === 'function' && invoker._callbackTable) {
+      found = Object.getPrototypeOf(invoker) as InvokerLike;
+      return;
+    }
+    for (const child of node.children ?? []) {
+      if (child) walk(child);
+    }
+  };
+  if (scene) walk(scene);
+  return found;
+};
+
+const onPointer = (e: PointerEvent): void => {
+  lastPointer = { x: e.clientX, y: e.clientY, time: Date.now() };
+  if (e.type !== 'pointerdown' || e.target !== getGameCanvas()) return;
+  const at = lastPointer;
+  window.setTimeout(() => {
+    if (!tracing) return;
+    const handled = log.some((x) => x.timestamp >= at.time && PRESS_TYPES.indexOf(x.type) >= 0);
+    if (handled) return;
+    seq += 1;
+    const entry: InputTraceEntry = {
+      seq,
+      timestamp: at.time,
+      type: e.pointerType === 'mouse' ? 'mouse-down' : 'touch-start',
+      screen: { x: at.x, y: at.y },
+      uiLocation: null,
+      target: null,
+      path: [],
+      listeners: [],
+      stoppedAt: null,
+      underneath: HookManager.getInstance().runSilently(() => readUnderneath(at, null)),
+      notes: [],
+    };
+    entry.notes.push(
+      entry.underneath.length > 0
+        ? '该点的节点都没有触摸监听（或节点不在 UI 相机可命中的范围）'
+        : '该点没有可命中的节点'
+    );
+    pushEntry(entry);
+  }, MISS_DELAY_MS);
+};
+
+const install = (): boolean => {
+  const NodeCtor = (window.cc as unknown as Rec).Node as { prototype?: Rec } | undefined;
+  const nodeProto = NodeCtor?.prototype;
+  const originalDispatch = nodeProto?.dispatchEvent as
+    ((this: cc.Node, event: EventLike) => void) | undefined;
+  if (!nodeProto || typeof originalDispatch !== 'function') return false;
+
+  const dispatchEvent = function (this: cc.Node, event: EventLike): void {
+    if (!tracing || !event || !isTraced(event.type)) {
+      originalDispatch.call(this, event);
+      return;
+    }
+    const hm = HookManager.getInstance();
+    const d = hm.runSilently(() => beginDispatch(this, event));
+    active.push(d);
+    try {
+      originalDispatch.call(this, event);
+    } finally {
+      active.splice(active.indexOf(d), 1);
+      hm.runSilently(() => finishDispatch(d, this));
+    }
+  };
+  nodeProto.dispatchEvent = dispatchEvent;
+  restoreFns.push(() => {
+    if (nodeProto.dispatchEvent === dispatchEvent) nodeProto.dispatchEvent = originalDispatch;
+  });
+
+  const invokerProto = findInvokerProto();
+  listenerHook = !!invokerProto;
+  if (invokerProto) {
+    const originalEmit = invokerProto.emit;
+    const emit = function (this: InvokerLike, key: unknown, ...args: unknown[]): void {
+      const d = active.length > 0 ? active[active.length - 1] : null;
+      if (!d || args[0] !== d.event || typeof key !== 'string') {
+        originalEmit.call(this, key, ...args);
+        return;
+      }
+      traceEmit(d, this, key, () => originalEmit.call(this, key, ...args));
+    };
+    invokerProto.emit = emit;
+    restoreFns.push(() => {
+      if (invokerProto.emit === emit) invokerProto.emit = originalEmit;
+    });
+  }
+
+  window.addEventListener('pointerdown', onPointer, true);
+  window.addEventListener('pointermove', onPointer, true);
+  window.addEventListener('pointerup', onPointer, true);
+  restoreFns.push(() => {
+    window.removeEventListener('pointerdown', onPointer, true);
+    window.removeEventListener('pointermove', onPointer, true);
+    window.removeEventListener('pointerup', onPointer, true);
+  });
+  return true;
+};
+
+/** 开始追踪输入：拦截节点事件分发，记录命中节点、传播路径、监听回调与停止位置 */
+export const startInputTrace = (
+  options?: InputTraceOptions
+): { ok: true; status: InputTraceStatus } | { ok: false; error: string } => {
+  includeMove = !!options?.includeMove;
+  if (tracing) return { ok: true, status: getInputTraceStatus() };
+  if (!window.cc) return { ok: false, error: '引擎未就绪' };
+  if (!install()) {
+    stopInputTrace();
+    return { ok: false, error: '找不到 cc.Node.prototype.dispatchEvent，无法追踪输入' };
+  }
+  tracing = true;
+  console.log(
+    `[输入追踪] 开始${listenerHook ? '' : '（未找到 CallbacksInvoker，不记录监听回调）'}`
+  );
+  return { ok: true, status: getInputTraceStatus() };
+};
+
+export const stopInputTrace = (): InputTraceStatus => {
+  restoreFns.reverse().forEach((fn) => fn());
+  restoreFns = [];
+  active = [];
+  if (tracing) console.log('[输入追踪] 停止');
+  tracing = false;
+  return getInputTraceStatus();
+};
+
+export const getInputTraceStatus = (): InputTraceStatus => ({
+  tracing,
+  includeMove,
+  listenerHook,
+  entries: log.length,
+});
+
+export const getInputTraceLog = (options?: {
+  limit?: number;
+  since?: number;
+}): InputTraceEntry[] => {
+  const list = options?.since != null ? log.filter((e) => e.timestamp > options.since!) : log;
+  return list.slice(-(options?.limit ?? 50));
+};
+
+export const clearInputTraceLog = (): { cleared: number } => {
+  const cleared = log.length;
+  log = [];
+  return { cleared };
+};
+
+/** 订阅新记录；返回取消订阅 */
+export const onInputTrace = (fn: (entry: InputTraceEntry) => void): (() => void) => {
+  listeners.push(fn);
+  return () => {
+    listeners = listeners.filter((f) => f !== fn);
+  };
+};
+
+/** 状态栏 / 叠加图例用的一行摘要 */
+export const formatInputTraceEntry = (entry: InputTraceEntry): string => {
+  if (!entry.target) return `${entry.type} → 无节点接收`;
+  const parts = [`${entry.type} → ${entry.target.name}`, `${entry.listeners.length} 个监听`];
+  if (entry.stoppedAt) {
+    parts.push(
+      entry.stoppedAt.blockInputEvents
+        ? `被 ${entry.stoppedAt.node.name} 的 BlockInputEvents 拦截`
+        : `在 ${entry.stoppedAt.node.name} 停止传播`
+    );
+  }
+  if (entry.notes.length > 0) parts.push(entry.notes[0]);
+  return parts.join(' · ');
+};
@@ -0,0 +1,209 @@
+import {
+  formatInputTraceEntry,
+  getInputTraceLog,
+  onInputTrace,
+  type InputTraceEntry,
+  type InputTraceNode,
+} from './inputTrace';
+
+/** 记录在画面上保留多久（逐渐变淡） */
+const FADE_MS = 2500;
+const REFRESH_MS = 100;
+const LEGEND_LINES = 5;
+
+const TARGET_COLOR = '#69f0ae';
+const LISTENER_COLOR = '#40c4ff';
+const STOP_COLOR = '#ff5252';
+
+let canvas: HTMLCanvasElement | null = null;
+let timer: number | null = null;
+let unsubscribe: (() => void) | null = null;
+
+const ensureCanvas = (): HTMLCanvasElement => {
+  if (canvas?.isConnected) return canvas;
+  canvas = document.createElement('canvas');
+  canvas.id = 'cocos-inspector-input-trace';
+  canvas.style.cssText = [
+    'position:fixed',
+    'left:0',
+    'top:0',
+    'width:100vw',
+    'height:100vh',
+    'pointer-events:none',
+    'z-index:2147483645',
+  ].join(';');
+  document.body.appendChild(canvas);
+  return canvas;
+};
+
+const centerOf = (n: InputTraceNode): { x: number; y: number } | null =>
+  n.rect ? { x: n.rect.left + n.rect.width / 2, y: n.rect.top + n.rect.height / 2 } : null;
+
+const drawTag = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number): void => {
+  ctx.font = '11px monospace';
+  const w = ctx.measureText(text).width + 6;
+  ctx.fillStyle = 'rgba(0,0,0,0.65)';
+  ctx.fillRect(x, y - 14, w, 14);
+  ctx.fillStyle = '#fff';
+  ctx.fillText(text, x + 3, y - 3);
+};
+
+const strokeNode = (
+  ctx: CanvasRenderingContext2D,
+  n: InputTraceNode,
+  color: string,
+  width: number
+): void => {
+  if (!n.rect) return;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = width;
+  ctx.strokeRect(n.rect.left, n.rect.top, n.rect.width, n.rect.height);
+};
+
+/** 一次分发：触点 → 目标 → 依次执行监听的节点，停止传播处标红 */
+const drawEntry = (ctx: CanvasRenderingContext2D, entry: InputTraceEntry, alpha: number): void => {
+  ctx.globalAlpha = alpha;
+  const point = entry.screen;
+
+  if (!entry.target) {
+    if (!point) return;
+    ctx.strokeStyle = STOP_COLOR;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(point.x - 8, point.y - 8);
+    ctx.lineTo(point.x + 8, point.y + 8);
+    ctx.moveTo(point.x + 8, point.y - 8);
+    ctx.lineTo(point.x - 8, point.y + 8);
+    ctx.stroke();
+    drawTag(ctx, `${entry.type} 无节点接收`, point.x + 10, point.y - 6);
+    return;
+  }
+
+  // 执行过监听的节点按首次执行顺序编号
+  const order: string[] = [];
+  for (const l of entry.listeners) {
+    if (order.indexOf(l.nodeId) < 0) order.push(l.nodeId);
+  }
+  const byId = new Map(entry.path.map((n) => [n.id, n] as [string, InputTraceNode]));
+
+  const route: Array<{ x: number; y: number }> = [];
+  if (point) route.push(point);
+  const targetCenter = centerOf(entry.target);
+  if (targetCenter) route.push(targetCenter);
+  for (const id of order) {
+    const n = byId.get(id);
+    const c = n && id !== entry.target.id ? centerOf(n) : null;
+    if (c) route.push(c);
+  }
+  if (route.length > 1) {
+    ctx.strokeStyle = LISTENER_COLOR;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([5, 3]);
+    ctx.beginPath();
+    route.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  order.forEach((id, i) => {
+    const n = byId.get(id);
+    if (!n || id === entry.target?.id) return;
+    strokeNode(ctx, n, LISTENER_COLOR, 1);
+    if (n.rect) drawTag(ctx, `${i + 1} ${n.name}`, n.rect.left, n.rect.top);
+  });
+
+  strokeNode(ctx, entry.target, TARGET_COLOR, 2);
+  if (entry.target.rect) {
+    drawTag(
+      ctx,
+      `${entry.type} → ${entry.target.name}`,
+      entry.target.rect.left,
+      entry.target.rect.top
+    );
+  }
+
+  const stop = entry.stoppedAt;
+  if (stop?.node.rect) {
+    strokeNode(ctx, stop.node, STOP_COLOR, 2);
+    const r = stop.node.rect;
+    drawTag(
+      ctx,
+      stop.blockInputEvents ? 'BlockInputEvents' : `stop${stop.immediate ? ' (immediate)' : ''}`,
+      r.left,
+      r.top + r.height + 14
+    );
+  }
+
+  if (point) {
+    ctx.fillStyle = TARGET_COLOR;
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+const drawLegend = (ctx: CanvasRenderingContext2D, lines: string[], viewW: number): void => {
+  ctx.globalAlpha = 1;
+  ctx.font = '12px monospace';
+  const w = Math.max(...lines.map((l) => ctx.measureText(l).width)) + 16;
+  const x = Math.max(8, viewW - w - 8);
+  ctx.fillStyle = 'rgba(0,0,0,0.7)';
+  ctx.fillRect(x, 8, w, lines.length * 16 + 8);
+  ctx.fillStyle = '#fff';
+  lines.forEach((line, i) => ctx.fillText(line, x + 8, 24 + i * 16));
+};
+
+const render = (): void => {
+  const el = ensureCanvas();
+  const dpr = window.devicePixelRatio || 1;
+  const viewW = window.innerWidth;
+  const viewH = window.innerHeight;
+  if (el.width !== Math.round(viewW * dpr) || el.height !== Math.round(viewH * dpr)) {
+    el.width = Math.round(viewW * dpr);
+    el.height = Math.round(viewH * dpr);
+  }
+  const ctx = el.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, viewW, viewH);
+
+  const now = Date.now();
+  const recent = getInputTraceLog({ since: now - FADE_MS, limit: 20 });
+  recent.forEach((entry) => drawEntry(ctx, entry, 1 - (now - entry.timestamp) / FADE_MS));
+
+  const latest = getInputTraceLog({ limit: LEGEND_LINES });
+  drawLegend(
+    ctx,
+    latest.length > 0
+      ? ['输入追踪', ...latest.map(formatInputTraceEntry).reverse()]
+      : ['输入追踪 · 在画布上点击'],
+    viewW
+  );
+};
+
+const safeRender = (): void => {
+  try {
+    render();
+  } catch (error) {
+    console.warn('[输入追踪] 绘制失败', error);
+  }
+};
+
+/** 显示输入路径叠加层（随新记录刷新，旧记录逐渐淡出） */
+export const showInputTraceOverlay = (): void => {
+  if (timer !== null) return;
+  unsubscribe = onInputTrace(() => safeRender());
+  timer = window.setInterval(safeRender, REFRESH_MS);
+  safeRender();
+};
+
+export const hideInputTraceOverlay = (): void => {
+  if (timer !== null) {
+    window.clearInterval(timer);
+    timer = null;
+  }
+  unsubscribe?.();
+  unsubscribe = null;
+  canvas?.remove();
+  canvas = null;
+};
@@ -0,0 +1,288 @@
+import { findEnabledComponent, getNodeComponents } from './componentAccess';
+import { readNodeWorldRect, worldRectToScreenCss, type WorldRect } from './nodeBoundsOverlay';
+import { buildStablePath } from './nodeBookmarks';
+import { getEnumOptions } from './propertyEdit';
+import { getNodeId } from './sceneTree';
+
+type Rec = Record<string, unknown>;
+export type CssRect = { left: number; top: number; width: number; height: number };
+
+export type WidgetEdge =
+  | 'left'
+  | 'right'
+  | 'top'
+  | 'bottom'
+  | 'horizontalCenter'
+  | 'verticalCenter';
+
+export interface WidgetEdgeInfo {
+  edge: WidgetEdge;
+  /** 配置值：px 为目标本地单位，% 为目标尺寸百分比 */
+  value: number;
+  unit: 'px' | '%';
+  /** 配置值换算成的本地单位距离 */
+  expected: number;
+  /** 当前实际距离（目标本地单位）；无目标包围盒时为 null */
+  actual: number | null;
+}
+
+export interface WidgetConstraint {
+  nodeId: string;
+  name: string;
+  path: string;
+  /** 对齐目标：Widget.target，未设置时为父节点 */
+  targetId: string | null;
+  targetName: string;
+  alignMode: string;
+  edges: WidgetEdgeInfo[];
+  nodeRect: CssRect | null;
+  targetRect: CssRect | null;
+}
+
+export interface LayoutConstraint {
+  nodeId: string;
+  name: string;
+  path: string;
+  type: string;
+  resizeMode: string;
+  padding: { left: number; right: number; top: number; bottom: number };
+  spacing: { x: number; y: number };
+  rect: CssRect | null;
+  /** 去掉 padding 后的排布区域 */
+  contentRect: CssRect | null;
+  /** 参与排布的子节点（激活的），按排布顺序 */
+  slots: Array<{ id: string; name: string; rect: CssRect | null }>;
+}
+
+export type LayoutConflictKind = 'widgetInLayout' | 'containerResize';
+
+export interface LayoutConflict {
+  kind: LayoutConflictKind;
+  nodeId: string;
+  name: string;
+  path: string;
+  layoutId: string;
+  message: string;
+}
+
+export interface LayoutConstraintReport {
+  widgets: WidgetConstraint[];
+  layouts: LayoutConstraint[];
+  conflicts: LayoutConflict[];
+  truncated: boolean;
+}
+
+/** 实际距离与配置差超过该值（本地单位）时在叠加层标出 */
+export const WIDGET_MISMATCH = 1;
+
+const EDGE_FLAGS: Array<[WidgetEdge, string, string]> = [
+  ['left', 'isAlignLeft', 'isAbsoluteLeft'],
+  ['right', 'isAlignRight', 'isAbsoluteRight'],
+  ['top', 'isAlignTop', 'isAbsoluteTop'],
+  ['bottom', 'isAlignBottom', 'isAbsoluteBottom'],
+  ['horizontalCenter', 'isAlignHorizontalCenter', 'isAbsoluteHorizontalCenter'],
+  ['verticalCenter', 'isAlignVerticalCenter', 'isAbsoluteVerticalCenter'],
+];
+
+const HORIZONTAL_EDGES: WidgetEdge[] = ['left', 'right', 'horizontalCenter'];
+const VERTICAL_EDGES: WidgetEdge[] = ['top', 'bottom', 'verticalCenter'];
+
+const round = (v: number): number => Math.round(v * 100) / 100;
+
+const num = (v: unknown): number => (typeof v === 'number' && Number.isFinite(v) ? v : 0);
+
+const nameOf = (node: cc.Node): string => node.name || '(unnamed)';
+
+const findComp = (node: cc.Node, short: string): Rec | null =>
+  findEnabledComponent(getNodeComponents(node), short) as Rec | null;
+
+const enumLabel = (component: string, prop: string, raw: unknown): string => {
+  const hit = getEnumOptions(component, prop)?.find((o) => o.value === raw);
+  return hit?.label ?? String(raw ?? '-');
+};
+
+/** UITransform 世界包围盒与世界 / 本地比例（用于把本地边距换算到世界） */
+const readBox = (node: cc.Node): { world: WorldRect; sx: number; sy: number } | null => {
+  const comps = getNodeComponents(node);
+  const world = readNodeWorldRect(node, comps);
+  if (!world) return null;
+  const ui = findEnabledComponent(comps, 'UITransform') as {
+    contentSize?: { width?: number; height?: number };
+  } | null;
+  const w = num(ui?.contentSize?.width);
+  const h = num(ui?.contentSize?.height);
+  return { world, sx: w > 0 ? world.width / w : 1, sy: h > 0 ? world.height / h : 1 };
+};
+
+const toCss = (r: WorldRect | null | undefined): CssRect | null =>
+  r ? worldRectToScreenCss(r) : null;
+
+/** 节点与目标之间某条边的实际距离（目标本地单位，与 Widget 配置同向为正） */
+const actualDistance = (
+  edge: WidgetEdge,
+  n: WorldRect,
+  t: WorldRect,
+  sx: number,
+  sy: number
+): number => {
+  switch (edge) {
+    case 'left':
+      return (n.x - t.x) / sx;
+    case 'right':
+      return (t.x + t.width - (n.x + n.width)) / sx;
+    case 'top':
+      return (t.y + t.height - (n.y + n.height)) / sy;
+    case 'bottom':
+      return (n.y - t.y) / sy;
+    case 'horizontalCenter':
+      return (n.x + n.width / 2 - (t.x + t.width / 2)) / sx;
+    default:
+      return (n.y + n.height / 2 - (t.y + t.height / 2)) / sy;
+  }
+};
+
+const readWidget = (node: cc.Node, widget: Rec): WidgetConstraint => {
+  const target = (widget.target as cc.Node | null | undefined) || node.parent;
+  const nodeBox = readBox(node);
+  const targetBox = target ? readBox(target) : null;
+  const targetUi = target ? findComp(target, 'UITransform') : null;
+  const size = targetUi?.contentSize as { width?: number; height?: number } | undefined;
+
+  const edges: WidgetEdgeInfo[] = [];
+  for (const [edge, flag, absFlag] of EDGE_FLAGS) {
+    if (!widget[flag]) continue;
+    const raw = num(widget[edge]);
+    const absolute = widget[absFlag] !== false;
+    const horizontal = HORIZONTAL_EDGES.indexOf(edge) >= 0;
+    const base = num(horizontal ? size?.width : size?.height);
+    const actual =
+      nodeBox && targetBox
+        ? actualDistance(edge, nodeBox.world, targetBox.world, targetBox.sx, targetBox.sy)
+        : null;
+    edges.push({
+      edge,
+      value: absolute ? round(raw) : round(raw * 100),
+      unit: absolute ? 'px' : '%',
+      expected: round(absolute ? raw : raw * base),
+      actual: actual === null ? null : round(actual),
+    });
+  }
+
+  return {
+    nodeId: getNodeId(node),
+    name: nameOf(node),
+    path: buildStablePath(node),
+    targetId: target ? getNodeId(target) : null,
+    targetName: target ? nameOf(target) : '-',
+    alignMode: enumLabel('Widget', 'alignMode', widget.alignMode),
+    edges,
+    nodeRect: toCss(nodeBox?.world),
+    targetRect: toCss(targetBox?.world),
+  };
+};
+
+const readLayout = (node: cc.Node, layout: Rec): LayoutConstraint => {
+  const box = readBox(node);
+  const padding = {
+    left: num(layout.paddingLeft),
+    right: num(layout.paddingRight),
+    top: num(layout.paddingTop),
+    bottom: num(layout.paddingBottom),
+  };
+  let contentRect: CssRect | null = null;
+  if (box) {
+    const { world, sx, sy } = box;
+    contentRect = toCss({
+      x: world.x + padding.left * sx,
+      y: world.y + padding.bottom * sy,
+      width: world.width - (padding.left + padding.right) * sx,
+      height: world.height - (padding.top + padding.bottom) * sy,
+    });
+  }
+  return {
+    nodeId: getNodeId(node),
+    name: nameOf(node),
+    path: buildStablePath(node),
+    type: enumLabel('Layout', 'type', layout.type),
+    resizeMode: enumLabel('Layout', 'resizeMode', layout.resizeMode),
+    padding,
+    spacing: { x: num(layout.spacingX), y: num(layout.spacingY) },
+    rect: toCss(box?.world),
+    contentRect,
+    slots: (node.children ?? [])
+      .filter((c) => c && c.active !== false)
+      .map((c) => ({ id: getNodeId(c), name: nameOf(c), rect: toCss(readBox(c)?.world) })),
+  };
+};
+
+/** Widget 与 Layout 同时改动同一节点的位置 / 尺寸 */
+const findConflicts = (
+  node: cc.Node,
+  widget: WidgetConstraint | null,
+  layout: LayoutConstraint | null,
+  parentLayout: LayoutConstraint | null
+): LayoutConflict[] => {
+  const out: LayoutConflict[] = [];
+  const base = { nodeId: getNodeId(node), name: nameOf(node), path: buildStablePath(node) };
+  if (widget && parentLayout && parentLayout.type !== 'NONE') {
+    // GRID 两个方向都由 Layout 决定
+    const axisEdges: WidgetEdge[] = [];
+    if (parentLayout.type !== 'VERTICAL') axisEdges.push(...HORIZONTAL_EDGES);
+    if (parentLayout.type !== 'HORIZONTAL') axisEdges.push(...VERTICAL_EDGES);
+    const fighting = widget.edges.filter((e) => axisEdges.indexOf(e.edge) >= 0);
+    if (fighting.length > 0) {
+      const edges = fighting.map((e) => e.edge).join('/');
+      out.push({
+        ...base,
+        kind: 'widgetInLayout',
+        layoutId: parentLayout.nodeId,
+        message: `Widget（${edges}，${widget.alignMode}）与父节点 ${parentLayout.name} 的 ${parentLayout.type} Layout 同时定位该节点`,
+      });
+    }
+  }
+  if (widget && layout && layout.resizeMode === 'CONTAINER') {
+    const has = (e: WidgetEdge): boolean => widget.edges.some((x) => x.edge === e);
+    const stretch = (has('left') && has('right')) || (has('top') && has('bottom'));
+    if (stretch) {
+      out.push({
+        ...base,
+        kind: 'containerResize',
+        layoutId: layout.nodeId,
+        message: 'Widget 拉伸与 Layout resizeMode=CONTAINER 同时修改容器尺寸',
+      });
+    }
+  }
+  return out;
+};
+
+/** 子树内的 Widget / Layout 约束与冲突（按深度优先顺序，各最多 limit 个） */
+export const analyzeLayoutConstraints = (root: cc.Node, limit = 200): LayoutConstraintReport => {
+  const report: LayoutConstraintReport = {
+    widgets: [],
+    layouts: [],
+    conflicts: [],
+    truncated: false,
+  };
+  const walk = (node: cc.Node, parentLayout: LayoutConstraint | null): void => {
+    if (node.active === false) return;
+    if (report.widgets.length >= limit || report.layouts.length >= limit) {
+      report.truncated = true;
+      return;
+    }
+    const widgetComp = findComp(node, 'Widget');
+    const layoutComp = findComp(node, 'Layout');
+    const widget = widgetComp ? readWidget(node, widgetComp) : null;
+    const layout = layoutComp ? readLayout(node, layoutComp) : null;
+    if (widget) report.widgets.push(widget);
+    if (layout) report.layouts.push(layout);
+    report.conflicts.push(...findConflicts(node, widget, layout, parentLayout));
+    for (const child of node.children ?? []) {
+      if (child) walk(child, layout);
+    }
+  };
+  // 子树根的父节点若有 Layout，根自身也可能与之冲突
+  const parent = root.parent;
+  const parentLayoutComp = parent ? findComp(parent, 'Layout') : null;
+  walk(root, parent && parentLayoutComp ? readLayout(parent, parentLayoutComp) : null);
+  return report;
+};
@@ -4,13 +4,53 @@ import {
   exportReplacementPackToShare,
   readReplacementPackFile,
 } from './replacementExport';
+import {
+  applyHierarchyEdit,
+  type HierarchyEditRequest,
+  type HierarchyEditResult,
+} from './hierarchyEdit';
+import {
+  type EditValueKind,
+  getPropertyUndoDepth,
+  type PropertyEditResult,
+  setInspectorProperty,
+  setPropertyByPath,
+  undoPropertyEdit,
+} from './propertyEdit';
+import {
+  HookManager,
+  type HookCallLogEntry,
+  type HookConfig,
+  type HookInfo,
+} from './propertyHook';
+import {
+  collectNodeInspectorData,
+  type NodeInspectorData,
+} from './renderableInspector';
 import { listReplacementPairs } from './replacementStore';
 import {
   exportSceneSnapshot,
   getSceneTreeLite,
+  resolveSnapshotRoot,
   type SceneSnapshot,
+  type SceneSnapshotOptions,
 } from './sceneSnapshot';
-import { findNodeById, getSceneRoot, setNodeActive } from './sceneTree';
+import {
+  beginSceneSnapshotExport,
+  endSceneSnapshotExport,
+  fetchSceneSnapshotChunk,
+  type SceneSnapshotStreamOptions,
+} from './sceneSnapshotStream';
+import { captureDiffBaseline, diffSceneWithCurrent } from './sceneDiff';
+import type { SceneDiff, SceneDiffOptions } from './sceneDiffCore';
+import {
+  findNodeById,
+  getNodeId,
+  getSceneRoot,
+  setNodeActive,
+  type TreeNodeInfo,
+} from './sceneTree';
+import { SceneTreeWatcher } from './sceneTreeWatcher';
 import {
   exportSpritePngBase64,
   type SpriteExportPath,
@@ -31,6 +71,12 @@ import {
   showNodeBoundsByPath,
   showNodeBoundsOverlay,
 } from './nodeBoundsOverlay';
+import {
+  getSceneOverlayStatus,
+  setSceneOverlayMode,
+  type SceneOverlayMode,
+  type SceneOverlayStatus,
+} from './sceneOverlay';
 import { uploadPngBase64ToShare } from './shareUpload';
 import {
   clearTextureExtractLogs,
@@ -38,6 +84,89 @@ import {
   type TextureExtractLogEntry,
 } from './textureExtractLog';
 import { readVisibleSpriteFromScreen } from './textureWebGL';
+import {
+  applyTimelineFrame,
+  getLastTimeline,
+  getTimelineRecorderStatus,
+  loadTimeline,
+  restoreTimelinePlayback,
+  startTimelineRecording,
+  stopTimelineRecording,
+  type Timeline,
+  type TimelineRecordOptions,
+  type TimelineRecorderStatus,
+} from './timelineRecorder';
+import {
+  animationGraphToMermaid,
+  extractAnimationGraph,
+  getAnimationCaptureStatus,
+  startAnimationCapture,
+  stopAnimationCapture,
+  type AnimationCaptureOptions,
+  type AnimationCaptureStatus,
+  type AnimationGraphOptions,
+  type AnimationStateGraph,
+} from './animationGraph';
+import { exportParticleZipData, type ParticleExportZipData } from './particleExport';
+import { queryNodes, type NodeQueryOptions, type NodeQueryResult } from './nodeQuery';
+import { pickNodesAt, type PickOptions, type PickResult } from './nodePick';
+import { measureNodes, type NodeMeasureResult } from './nodeMeasure';
+import { analyzeLayoutConstraints, type LayoutConstraintReport } from './layoutConstraints';
+import { analyzeBatchBreaks, type BatchBreakReport } from './batchBreaks';
+import {
+  clearInputTraceLog,
+  getInputTraceLog,
+  getInputTraceStatus,
+  startInputTrace,
+  stopInputTrace,
+  type InputTraceEntry,
+  type InputTraceOptions,
+  type InputTraceStatus,
+} from './inputTrace';
+import { hideInputTraceOverlay, showInputTraceOverlay } from './inputTraceOverlay';
+import {
+  explainNodeVisibility,
+  reportSceneVisibility,
+  type VisibilityReport,
+  type VisibilityVerdict,
+} from './nodeVisibility';
+import { collectAssetInventory, type AssetInventory } from './assetInventory';
+import { countNodes } from './treeRender';
+import { downloadSpineExport } from './spineExport';
+import { downloadBmfontExport } from './bmfontExport';
+import { downloadAnimClipExport } from './animClipExport';
+import { downloadParticleExport } from './particleExport';
+import { downloadRecoveredScript, recoverComponentScript } from './scriptRecover';
+import { BookmarkStore, type ResolvedBookmark, type WatchValue } from './nodeBookmarks';
+
+/** 页内浮层显隐（DevTools 面板可关闭页内面板），injected 监听此消息 */
+export const OVERLAY_VISIBLE_MESSAGE = 'cocos-inspector-overlay';
+export const OVERLAY_HIDDEN_STORAGE_KEY = 'cocos-inspector-overlay-hidden';
+
+export type NodeExportKind = 'spine' | 'bmfont' | 'anim' | 'particle' | 'script';
+
+export const readOverlayHidden = (): boolean => {
+  try {
+    return localStorage.getItem(OVERLAY_HIDDEN_STORAGE_KEY) === '1';
+  } catch {
+    return false;
+  }
+};
+
+/** DevTools 面板轮询 getTreeInfo 用的事件驱动树，与页内面板各自独立 */
+const panelTreeWatcher = new SceneTreeWatcher(() => undefined);
+
+/** 超过该时长没有 getTreeInfo 调用（面板关闭或切到其它标签）即注销节点监听 */
+const PANEL_WATCH_IDLE_MS = 10000;
+let panelWatchIdleTimer = 0;
+
+const touchPanelTreeWatcher = (): void => {
+  window.clearTimeout(panelWatchIdleTimer);
+  panelWatchIdleTimer = window.setTimeout(() => {
+    panelWatchIdleTimer = 0;
+    panelTreeWatcher.detach();
+  }, PANEL_WATCH_IDLE_MS);
+};
 
 export interface SerializableSpriteDetail {
   nodeId: string;
@@ -247,10 +376,201 @@ export const cocosInspectorMcpApi = {
     return { ok: true };
   },
 
-  listSprites(): SpriteListItem[] {
+  /** 节点 Inspector 数据（含可编辑行的 edit 描述） */
+  getNodeInspector(nodeId: string): NodeInspectorData | null {
+    return collectNodeInspectorData(nodeId, true);
+  },
+
+  /**
+   * DevTools 面板用：TreeNodeInfo 整树；knownKey 与当前 key 相同时不回传 tree。
+   * key 由节点事件维护的版本号生成，引擎不支持节点事件时为整树哈希
+   */
+  getTreeInfo(knownKey?: string):
+    | {
+        ok: true;
+        key: string;
+        changed: boolean;
+        tree: TreeNodeInfo | null;
+        sceneName: string;
+        sceneRootId: string;
+        nodeCount: number;
+      }
+    | { ok: false; error: string } {
+    const scene = getSceneRoot();
+    if (!scene) return { ok: false, error: '场景未就绪' };
+    const read = panelTreeWatcher.read(scene);
+    touchPanelTreeWatcher();
+    const tree = read.tree;
+    const key = `${getNodeId(scene)}:${read.key}`;
+    const changed = key !== knownKey;
+    return {
+      ok: true,
+      key,
+      changed,
+      tree: changed ? tree : null,
+      sceneName: scene.name || 'Scene',
+      sceneRootId: getNodeId(scene),
+      nodeCount: countNodes(tree),
+    };
+  },
+
+  /** DevTools 面板用：Inspector 数据 + 撤销深度 + 已挂钩子，一次往返 */
+  getInspectorView(nodeId: string): {
+    data: NodeInspectorData | null;
+    undoDepth: number;
+    hooks: HookInfo[];
+  } {
+    const hooks = HookManager.getInstance();
+    return {
+      data: hooks.runSilently(() => collectNodeInspectorData(nodeId, true)),
+      undoDepth: getPropertyUndoDepth(),
+      hooks: hooks.listHooks(nodeId),
+    };
+  },
+
+  /** 按 Inspector compId 写属性（面板编辑控件的写回路径） */
+  setInspectorProperty(
+    nodeId: string,
+    compId: string,
+    prop: string,
+    kind: EditValueKind,
+    value: unknown
+  ): PropertyEditResult {
+    return setInspectorProperty(nodeId, compId, prop, kind, value);
+  },
+
+  /** 在页面内触发 Inspector 导出按钮对应的下载；script 时 arg 为组件类名 */
+  async downloadNodeExport(
+    kind: NodeExportKind,
+    nodeId: string,
+    arg?: number | string
+  ): Promise<{ ok: true; fileName: string; fileCount: number } | { ok: false; error: string }> {
+    if (kind === 'script') {
+      const recovered = recoverComponentScript(nodeId, String(arg ?? ''));
+      if (!recovered) return { ok: false, error: `脚本还原失败: ${String(arg)}` };
+      downloadRecoveredScript(recovered);
+      return { ok: true, fileName: `${recovered.className}.recovered.ts`, fileCount: 1 };
+    }
+    const index = Number(arg ?? 0);
+    const run =
+      kind === 'spine'
+        ? downloadSpineExport
+        : kind === 'bmfont'
+          ? downloadBmfontExport
+          : kind === 'anim'
+            ? downloadAnimClipExport
+            : downloadParticleExport;
+    const result = await run(nodeId, index);
+    if (!result.ok) return { ok: false, error: result.error ?? '导出失败' };
+    return { ok: true, fileName: result.zipName, fileCount: result.files.length };
+  },
+
+  /** 资源加载状态（同「资源」浮窗） */
+  getAssetInventory(): AssetInventory | null {
+    return collectAssetInventory();
+  },
+
+  /** 页内面板显隐（记入 localStorage，刷新后保持） */
+  setOverlayVisible(visible: boolean): { ok: true; visible: boolean } {
+    try {
+      localStorage.setItem(OVERLAY_HIDDEN_STORAGE_KEY, visible ? '0' : '1');
+    } catch {
+      /* 隐私模式等无 localStorage */
+    }
+    window.postMessage({ type: OVERLAY_VISIBLE_MESSAGE, visible }, '*');
+    return { ok: true, visible };
+  },
+
+  getOverlayVisible(): { visible: boolean } {
+    return { visible: !readOverlayHidden() };
+  },
+
+  /**
+   * 按路径后缀写组件属性，如 ('Reels/0/title', 'Label', 'string', 'WIN')。
+   * component 为 'Node' 时写节点自身（position/scale/eulerAngles/active）。
+   */
+  setComponentProperty(
+    pathSuffix: string,
+    component: string,
+    prop: string,
+    value: unknown
+  ): PropertyEditResult {
+    return setPropertyByPath(pathSuffix, component, prop, value);
+  },
+
+  /** 撤销最近一次属性编辑（面板与 MCP 共用撤销栈） */
+  undoPropertyEdit(): PropertyEditResult {
+    return undoPropertyEdit();
+  },
+
+  /**
+   * 层级编辑：reparent / reorder / duplicate / delete / undo。
+   * 节点用 nodeId 或路径后缀定位；index 为引擎 children 顺序，与页内面板共用撤销栈
+   */
+  editHierarchy(req: HierarchyEditRequest): HierarchyEditResult {
+    return applyHierarchyEdit(req);
+  },
+
+  /** 当前属性钩子（nodeId 可选，只列该节点） */
+  listHooks(nodeId?: string): HookInfo[] {
+    return HookManager.getInstance().listHooks(nodeId);
+  },
+
+  /**
+   * 添加属性钩子，如 { path: 'Reels/0/title', component: 'Label', prop: 'string',
+   * hookType: 'set' }；同一属性再次添加会替换旧钩子。
+   */
+  addHook(config: HookConfig): { ok: true; hook: HookInfo } | { ok: false; error: string } {
+    return HookManager.getInstance().addHook(config);
+  },
+
+  /** hookId 省略时移除全部钩子 */
+  removeHook(
+    hookId?: string
+  ): { ok: true; removed?: number } | { ok: false; error: string } {
+    const manager = HookManager.getInstance();
+    return hookId ? manager.removeHook(hookId) : manager.removeAll();
+  },
+
+  /** 钩子调用日志（含调用栈与时间戳），since 为毫秒时间戳 */
+  getHookLog(options?: {
+    limit?: number;
+    since?: number;
+    hookId?: string;
+  }): HookCallLogEntry[] {
+    return HookManager.getInstance().getCallLog(options);
+  },
+
+  clearHookLog(): { cleared: number } {
+    return HookManager.getInstance().clearCallLog();
+  },
+
+  /**
+   * visibleOnly 时只列可见性分析通过的 Sprite（屏幕内、未被裁掉/透明/相机排除）；
+   * markHidden 为 false 且不过滤时跳过可见性分析（DevTools 轮询用）
+   */
+  listSprites(visibleOnly?: boolean, markHidden = true): SpriteListItem[] {
     const scene = getSceneRoot();
     if (!scene) return [];
-    return collectSpriteList(scene);
+    const items = collectSpriteList(scene, !!visibleOnly || markHidden);
+    return visibleOnly ? items.filter((it) => it.visible) : items;
+  },
+
+  /**
+   * 可见性分析：传 nodeId / path 时返回该节点的结论与原因；
+   * 否则汇总全场景，列出激活但看不见的渲染节点（最多 limit 条）
+   */
+  analyzeVisibility(options?: {
+    nodeId?: string;
+    path?: string;
+    limit?: number;
+  }): VisibilityReport | (VisibilityVerdict & { ok: true }) | { ok: false; error: string } {
+    if (!options?.nodeId && !options?.path) return reportSceneVisibility(options?.limit);
+    const resolved = resolveSnapshotRoot({ rootId: options.nodeId, rootPath: options.path });
+    if (!resolved.ok) return resolved;
+    const nodeId = getNodeId(resolved.root);
+    const verdict = explainNodeVisibility(nodeId);
+    return verdict ? { ok: true, ...verdict } : { ok: false, error: `未找到节点 ${nodeId}` };
   },
 
   showNodeBounds(
@@ -277,6 +597,69 @@ export const cocosInspectorMcpApi = {
     return debugNodeBoundsByPath(pathSuffix);
   },
 
+  /**
+   * 测量两个节点（id 或路径后缀）：间距（设计单位 / 屏幕像素，负数为重叠）、
+   * 对齐的边、世界坐标差与 A 父节点空间中的本地坐标差
+   */
+  measureNodes(options: {
+    aId?: string;
+    aPath?: string;
+    bId?: string;
+    bPath?: string;
+  }): { ok: true; result: NodeMeasureResult } | { ok: false; error: string } {
+    const a = resolveSnapshotRoot({ rootId: options.aId, rootPath: options.aPath });
+    const b = resolveSnapshotRoot({ rootId: options.bId, rootPath: options.bPath });
+    if (!a.ok) return a;
+    if (!b.ok) return b;
+    if (a.root === a.scene || b.root === b.scene) {
+      return { ok: false, error: '需要 A、B 两个节点（aId / aPath 与 bId / bPath）' };
+    }
+    return measureNodes(getNodeId(a.root), getNodeId(b.root));
+  },
+
+  /**
+   * 画面叠加：bounds 全部包围盒 / overdraw 重叠热力图 / batch 按贴图材质着色 / layout 约束；
+   * mode 为 null 关闭。返回当前统计（overdraw 层数、估算批次数、Widget / Layout / 冲突数）
+   */
+  setSceneOverlay(
+    mode: SceneOverlayMode | null,
+    options?: { nodeId?: string; path?: string }
+  ): { ok: true; status: SceneOverlayStatus } | { ok: false; error: string } {
+    return setSceneOverlayMode(mode, options);
+  },
+
+  getSceneOverlayStatus(): SceneOverlayStatus {
+    return getSceneOverlayStatus();
+  },
+
+  /**
+   * 子树内的 Widget（对齐目标、各边配置值与实际距离）、Layout（padding / spacing / 子节点槽位）
+   * 以及两者同时控制同一节点的冲突；nodeId / path 省略为整个场景
+   */
+  analyzeLayoutConstraints(options?: {
+    nodeId?: string;
+    path?: string;
+    limit?: number;
+  }): ({ ok: true } & LayoutConstraintReport) | { ok: false; error: string } {
+    const resolved = resolveSnapshotRoot({ rootId: options?.nodeId, rootPath: options?.path });
+    if (!resolved.ok) return resolved;
+    return { ok: true, ...analyzeLayoutConstraints(resolved.root, options?.limit) };
+  },
+
+  /**
+   * 按渲染顺序找出子树内每个断批点及原因（贴图 / 材质或混合 / Label 字体 / Mask 模板 /
+   * Graphics / Spine 等单独提交），按子树分组；nodeId / path 省略为整个场景
+   */
+  analyzeBatchBreaks(options?: {
+    nodeId?: string;
+    path?: string;
+    limit?: number;
+  }): ({ ok: true } & BatchBreakReport) | { ok: false; error: string } {
+    const resolved = resolveSnapshotRoot({ rootId: options?.nodeId, rootPath: options?.path });
+    if (!resolved.ok) return resolved;
+    return { ok: true, ...analyzeBatchBreaks(resolved.root, options?.limit) };
+  },
+
   /** 开发用：在试玩页执行表达式（仅 MCP/脚本） */
   evalPage(expr: string): { ok: true; result: unknown } | { ok: false; error: string } {
     try {
@@ -294,13 +677,168 @@ export const cocosInspectorMcpApi = {
     return getSceneTreeLite();
   },
 
-  exportSceneSnapshot(options?: {
-    maxNodes?: number;
-    includeComponents?: boolean;
-  }): SceneSnapshot | null {
+  /** 页内「书签」浮窗的书签（稳定路径 → 当前 id）与监视属性的当前值 */
+  async getBookmarks(): Promise<{ bookmarks: ResolvedBookmark[]; watches: WatchValue[] }> {
+    const store = BookmarkStore.getInstance();
+    await store.load();
+    return { bookmarks: store.listBookmarks(), watches: store.readWatches() };
+  },
+
+  /**
+   * 查询语言筛选节点，如 `Canvas/Reels/** Sprite[spriteFrame~=symbol_] :active`，
+   * 返回 id 与 `/` 分隔路径（语法同面板搜索框）
+   */
+  queryNodes(query: string, options?: NodeQueryOptions): NodeQueryResult {
+    return queryNodes(query, options);
+  },
+
+  /** 点选：(x, y) 处叠加的渲染节点，上层在前；space=canvas 时为画布像素 */
+  pickNodesAt(x: number, y: number, options?: PickOptions): PickResult {
+    return pickNodesAt(x, y, options);
+  },
+
+  /** 整树导出；rootId / rootPath 导出子树，maxDepth / componentTypes 控制范围 */
+  exportSceneSnapshot(options?: SceneSnapshotOptions): SceneSnapshot | null {
     return exportSceneSnapshot(options);
   },
 
+  /** 分片导出第一步：固定节点列表，返回 exportId / totalNodes / chunkSize */
+  beginSceneSnapshotExport(options?: SceneSnapshotStreamOptions) {
+    return beginSceneSnapshotExport(options);
+  },
+
+  /** 分片导出：按 cursor 读取一片扁平节点（parentId 还原树），nextCursor 为 null 时读完 */
+  fetchSceneSnapshotChunk(exportId: string, cursor?: number) {
+    return fetchSceneSnapshotChunk(exportId, cursor);
+  },
+
+  endSceneSnapshotExport(exportId: string) {
+    return endSceneSnapshotExport(exportId);
+  },
+
+  /** 记录当前场景为对比基线（与面板「对比」浮窗共用） */
+  captureSceneDiffBaseline(
+    options?: SceneSnapshotOptions
+  ): { ok: true; sceneName: string; nodeCount: number } | { ok: false; error: string } {
+    return captureDiffBaseline(options);
+  },
+
+  /**
+   * 场景快照对比：before 省略时用已记录基线，after 省略时导出当前场景。
+   * 返回 added/removed/moved/transform/uiTransform/components/spriteFrame 条目。
+   */
+  diffSceneSnapshots(
+    before?: SceneSnapshot | null,
+    after?: SceneSnapshot | null,
+    options?: SceneDiffOptions & SceneSnapshotOptions
+  ): { ok: true; diff: SceneDiff } | { ok: false; error: string } {
+    return diffSceneWithCurrent(before, after, options);
+  },
+
+  /** 开始录制子树时间轴（rootId / rootPath 省略时录制整个场景），每帧 after-update 采样 */
+  startTimelineRecording(
+    options?: TimelineRecordOptions
+  ): { ok: true; rootPath: string } | { ok: false; error: string } {
+    return startTimelineRecording(options);
+  },
+
+  stopTimelineRecording(): { ok: true; timeline: Timeline } | { ok: false; error: string } {
+    return stopTimelineRecording();
+  },
+
+  getTimelineStatus(): TimelineRecorderStatus {
+    return getTimelineRecorderStatus();
+  },
+
+  getTimeline(): { ok: true; timeline: Timeline } | { ok: false; error: string } {
+    const timeline = getLastTimeline();
+    return timeline ? { ok: true, timeline } : { ok: false, error: '尚未录制时间轴' };
+  },
+
+  loadTimeline(
+    timeline: Timeline
+  ): { ok: true; frameCount: number } | { ok: false; error: string } {
+    return loadTimeline(timeline);
+  },
+
+  /** 回放到指定帧（会暂停引擎），restoreTimelinePlayback 恢复 */
+  applyTimelineFrame(
+    frame: number
+  ): { ok: true; frame: number; applied: number } | { ok: false; error: string } {
+    return applyTimelineFrame(frame);
+  },
+
+  restoreTimelinePlayback(): { ok: true; restored: number } {
+    return restoreTimelinePlayback();
+  },
+
+  /** 开始追踪触摸 / 鼠标事件分发；overlay 默认 true，在画布上画出命中与传播路径 */
+  startInputTrace(
+    options?: InputTraceOptions & { overlay?: boolean }
+  ): { ok: true; status: InputTraceStatus } | { ok: false; error: string } {
+    const res = startInputTrace(options);
+    if (res.ok && options?.overlay !== false) showInputTraceOverlay();
+    return res;
+  },
+
+  stopInputTrace(): InputTraceStatus {
+    hideInputTraceOverlay();
+    return stopInputTrace();
+  },
+
+  getInputTraceStatus(): InputTraceStatus {
+    return getInputTraceStatus();
+  },
+
+  /** 输入记录：命中节点、传播路径、执行的监听、停止传播 / BlockInputEvents、下方节点与提示 */
+  getInputTraceLog(options?: { limit?: number; since?: number }): InputTraceEntry[] {
+    return getInputTraceLog(options);
+  },
+
+  clearInputTraceLog(): { cleared: number } {
+    return clearInputTraceLog();
+  },
+
+  /** 提取子树动画状态图（cc.Animation / AnimationController / sp.Skeleton），附 Mermaid */
+  getAnimationStateGraph(
+    options?: AnimationGraphOptions
+  ):
+    | { ok: true; graph: AnimationStateGraph; mermaid: string }
+    | { ok: false; error: string } {
+    const res = extractAnimationGraph(options);
+    return res.ok ? { ...res, mermaid: animationGraphToMermaid(res.graph) } : res;
+  },
+
+  /** 开始捕获动画播放顺序，stopAnimationCapture 返回合并后的状态图 */
+  startAnimationCapture(
+    options?: AnimationCaptureOptions
+  ): { ok: true; rootPath: string; components: number } | { ok: false; error: string } {
+    return startAnimationCapture(options);
+  },
+
+  stopAnimationCapture():
+    | { ok: true; graph: AnimationStateGraph; mermaid: string }
+    | { ok: false; error: string } {
+    const res = stopAnimationCapture();
+    return res.ok ? { ...res, mermaid: animationGraphToMermaid(res.graph) } : res;
+  },
+
+  getAnimationCaptureStatus(): AnimationCaptureStatus {
+    return getAnimationCaptureStatus();
+  },
+
+  /** 粒子导出 zip（base64）：2D 为 .plist + 贴图，3D 为模块 JSON + 材质贴图 */
+  async exportParticle(options: {
+    nodeId?: string;
+    path?: string;
+    particleIndex?: number;
+  }): Promise<{ ok: true; data: ParticleExportZipData } | { ok: false; error: string }> {
+    if (!options.nodeId && !options.path) return { ok: false, error: '需要 nodeId 或 path' };
+    const resolved = resolveSnapshotRoot({ rootId: options.nodeId, rootPath: options.path });
+    if (!resolved.ok) return resolved;
+    return exportParticleZipData(getNodeId(resolved.root), options.particleIndex ?? 0);
+  },
+
   async getSpriteDetail(
     nodeId: string
   ): Promise<
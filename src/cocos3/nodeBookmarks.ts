@@ -0,0 +1,314 @@
+import { pageStorageKey, storageGet, storageSet } from './extensionStorage';
+import { describeComponentRef, resolveComponentRef } from './propertyEdit';
+import { HookManager, formatValue } from './propertyHook';
+import { inspectorHookKey } from './renderableInspector';
+import { findNodeById, getExtraRoots, getNodeId, getSceneRoot } from './sceneTree';
+
+export interface NodeBookmark {
+  /** 稳定路径：场景名/…/节点名，同名兄弟按引擎顺序加 #n（#1 省略）；名称中的 % / # 转义 */
+  path: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface WatchEntry {
+  id: string;
+  path: string;
+  /** 'Node' / 'Label' / 'Label#2'，同 resolveComponentRef */
+  component: string;
+  prop: string;
+  createdAt: number;
+}
+
+export interface ResolvedBookmark extends NodeBookmark {
+  /** 当前页面中的节点 id；路径已失效时为 null */
+  nodeId: string | null;
+}
+
+export interface WatchValue extends WatchEntry {
+  nodeId: string | null;
+  /** 格式化后的当前值；节点或组件不存在时为 null */
+  value: string | null;
+  error?: string;
+  /** 本会话内观察到的变化次数与最近一次变化时间 */
+  changes: number;
+  changedAt: number;
+}
+
+interface PageInspectorState {
+  version: 1;
+  bookmarks: NodeBookmark[];
+  watches: WatchEntry[];
+}
+
+/** 路径段里的节点名：% / # 按 URL 编码转义，`/` 分段与 `#n` 后缀不会与名称混淆 */
+const escapeSegment = (name: string): string =>
+  name.replace(/%/g, '%25').replace(/\//g, '%2F').replace(/#/g, '%23');
+
+const unescapeSegment = (seg: string): string =>
+  seg.replace(/%2F/g, '/').replace(/%23/g, '#').replace(/%25/g, '%');
+
+const segmentOf = (parent: cc.Node, child: cc.Node): string => {
+  const name = child.name || '';
+  let n = 0;
+  for (const sibling of parent.children ?? []) {
+    if (!sibling || (sibling.name || '') !== name) continue;
+    n += 1;
+    if (sibling === child) break;
+  }
+  return n > 1 ? `${escapeSegment(name)}#${n}` : escapeSegment(name);
+};
+
+/** 节点的稳定路径（页面刷新后 uuid 会变，路径不变） */
+export const buildStablePath = (node: cc.Node): string => {
+  const parts: string[] = [];
+  let cur: cc.Node | null = node;
+  while (cur) {
+    const parent: cc.Node | null = cur.parent;
+    parts.unshift(parent ? segmentOf(parent, cur) : escapeSegment(cur.name || 'main'));
+    cur = parent;
+  }
+  return parts.join('/');
+};
+
+/**
+ * 稳定路径 → 当前场景中的节点；首段也可以是场景外根节点（常驻节点）的名字。
+ * 根名不匹配或任一段不存在时返回 null
+ */
+export const resolveStablePath = (path: string): cc.Node | null => {
+  const scene = getSceneRoot();
+  if (!scene) return null;
+  const [rootSeg, ...segments] = path.split('/');
+  const rootName = unescapeSegment(rootSeg ?? '');
+  const root =
+    rootName === (scene.name || 'main')
+      ? scene
+      : getExtraRoots(scene).find((r) => (r.node.name || 'main') === rootName)?.node;
+  if (!root) return null;
+
+  let cur: cc.Node = root;
+  for (const seg of segments) {
+    const m = /^(.*?)(?:#(\d+))?$/.exec(seg);
+    const name = unescapeSegment(m?.[1] ?? seg);
+    let nth = Number(m?.[2] ?? 1);
+    let next: cc.Node | null = null;
+    for (const child of cur.children ?? []) {
+      if (!child || (child.name || '') !== name) continue;
+      nth -= 1;
+      if (nth === 0) {
+        next = child;
+        break;
+      }
+    }
+    if (!next) return null;
+    cur = next;
+  }
+  return cur;
+};
+
+const watchKey = (w: WatchEntry): string => `${w.path}|${w.component}|${w.prop}`;
+
+/** stored 在前，extra 中 key 不重复的追加在后 */
+const mergeEntries = <T>(stored: T[], extra: T[], keyOf: (item: T) => string): T[] => {
+  const seen = new Set(stored.map(keyOf));
+  return [...stored, ...extra.filter((item) => !seen.has(keyOf(item)))];
+};
+
+/**
+ * 节点书签与属性监视列表：存 chrome.storage（按页面），用稳定路径解析，刷新页面后仍可用。
+ */
+export class BookmarkStore {
+  private static instance: BookmarkStore | null = null;
+
+  private bookmarks: NodeBookmark[] = [];
+  private watches: WatchEntry[] = [];
+  private lastValues = new Map<string, { value: string | null; changes: number; at: number }>();
+  private loading: Promise<void> | null = null;
+  /** 读取失败时不写回，避免覆盖已存数据 */
+  private loadFailed = false;
+  private seq = 0;
+
+  static getInstance(): BookmarkStore {
+    if (!BookmarkStore.instance) BookmarkStore.instance = new BookmarkStore();
+    return BookmarkStore.instance;
+  }
+
+  private constructor() {}
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = storageGet<PageInspectorState>(pageStorageKey())
+        .then((state) => {
+          // 读取完成前新增的条目接在已存列表之后
+          this.bookmarks = mergeEntries(state?.bookmarks ?? [], this.bookmarks, (b) => b.path);
+          this.watches = mergeEntries(state?.watches ?? [], this.watches, watchKey);
+        })
+        .catch((error) => {
+          this.loadFailed = true;
+          console.warn('[书签] 读取失败', error);
+        });
+    }
+    return this.loading;
+  }
+
+  listBookmarks(): ResolvedBookmark[] {
+    return this.bookmarks.map((b) => {
+      const node = resolveStablePath(b.path);
+      return { ...b, nodeId: node ? getNodeId(node) : null };
+    });
+  }
+
+  isBookmarked(nodeId: string): boolean {
+    const node = this.findNode(nodeId);
+    if (!node) return false;
+    const path = buildStablePath(node);
+    return this.bookmarks.some((b) => b.path === path);
+  }
+
+  /** 已收藏则取消，否则收藏；返回收藏后的状态 */
+  toggleBookmark(
+    nodeId: string
+  ): { ok: true; bookmarked: boolean; path: string } | { ok: false; error: string } {
+    const node = this.findNode(nodeId);
+    if (!node) return { ok: false, error: `未找到节点 ${nodeId}` };
+    const path = buildStablePath(node);
+    const index = this.bookmarks.findIndex((b) => b.path === path);
+    if (index >= 0) {
+      this.bookmarks.splice(index, 1);
+    } else {
+      this.bookmarks.push({ path, name: node.name || '(unnamed)', createdAt: Date.now() });
+    }
+    this.save();
+    return { ok: true, bookmarked: index < 0, path };
+  }
+
+  removeBookmark(path: string): void {
+    this.bookmarks = this.bookmarks.filter((b) => b.path !== path);
+    this.save();
+  }
+
+  /** Inspector 行上的监视按钮：已监视则移除 */
+  toggleWatch(
+    nodeId: string,
+    compId: string,
+    prop: string
+  ): { ok: true; watching: boolean; watch: WatchEntry } | { ok: false; error: string } {
+    const node = this.findNode(nodeId);
+    if (!node) return { ok: false, error: `未找到节点 ${nodeId}` };
+    const component = describeComponentRef(node, compId);
+    if (!component) return { ok: false, error: `节点上未找到组件 ${compId}` };
+    const path = buildStablePath(node);
+    const existing = this.watches.find(
+      (w) => w.path === path && w.component === component && w.prop === prop
+    );
+    if (existing) {
+      this.removeWatch(existing.id);
+      return { ok: true, watching: false, watch: existing };
+    }
+    return { ok: true, watching: true, watch: this.addWatch(path, component, prop) };
+  }
+
+  addWatch(path: string, component: string, prop: string): WatchEntry {
+    const existing = this.watches.find(
+      (w) => w.path === path && w.component === component && w.prop === prop
+    );
+    if (existing) return existing;
+    this.seq += 1;
+    const watch: WatchEntry = {
+      id: `w${Date.now().toString(36)}_${this.seq}`,
+      path,
+      component,
+      prop,
+      createdAt: Date.now(),
+    };
+    this.watches.push(watch);
+    this.save();
+    return watch;
+  }
+
+  removeWatch(id: string): void {
+    this.watches = this.watches.filter((w) => w.id !== id);
+    this.lastValues.delete(id);
+    this.save();
+  }
+
+  clearWatches(): void {
+    this.watches = [];
+    this.lastValues.clear();
+    this.save();
+  }
+
+  /** 读取全部监视值（不计入钩子日志），与上次读取比较记录变化 */
+  readWatches(): WatchValue[] {
+    const now = Date.now();
+    return HookManager.getInstance().runSilently(() =>
+      this.watches.map((w) => {
+        const read = this.readWatch(w);
+        const prev = this.lastValues.get(w.id);
+        let changes = prev?.changes ?? 0;
+        let at = prev?.at ?? 0;
+        if (prev && prev.value !== read.value) {
+          changes += 1;
+          at = now;
+        }
+        this.lastValues.set(w.id, { value: read.value, changes, at });
+        return { ...w, ...read, changes, changedAt: at };
+      })
+    );
+  }
+
+  /** 选中节点上已监视属性的 inspectorHookKey 集合（Inspector 按钮高亮用） */
+  watchedKeysFor(nodeId: string | null): Set<string> {
+    const keys = new Set<string>();
+    const node = nodeId ? this.findNode(nodeId) : null;
+    if (!node) return keys;
+    const path = buildStablePath(node);
+    for (const w of this.watches) {
+      if (w.path !== path) continue;
+      const resolved = resolveComponentRef(node, w.component);
+      if (resolved.ok) keys.add(inspectorHookKey(resolved.compId, w.prop));
+    }
+    return keys;
+  }
+
+  private readWatch(
+    w: WatchEntry
+  ): { nodeId: string | null; value: string | null; error?: string } {
+    const node = resolveStablePath(w.path);
+    if (!node) return { nodeId: null, value: null, error: '节点不存在' };
+    const nodeId = getNodeId(node);
+    const resolved = resolveComponentRef(node, w.component);
+    if (!resolved.ok) return { nodeId, value: null, error: resolved.error };
+    try {
+      return { nodeId, value: formatValue(resolved.target[w.prop]) };
+    } catch (error) {
+      return {
+        nodeId,
+        value: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private findNode(nodeId: string): cc.Node | null {
+    const scene = getSceneRoot();
+    return scene ? findNodeById(scene, nodeId) : null;
+  }
+
+  /** 等读取完成（合并后）再写，读取未完成时的改动不会用不完整的列表覆盖已存数据 */
+  private save(): void {
+    this.load()
+      .then(() => {
+        if (this.loadFailed) return;
+        const state: PageInspectorState = {
+          version: 1,
+          bookmarks: this.bookmarks,
+          watches: this.watches,
+        };
+        return storageSet(pageStorageKey(), state);
+      })
+      .catch((error) => {
+        console.warn('[书签] 保存失败', error);
+      });
+  }
+}
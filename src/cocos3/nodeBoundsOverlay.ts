@@ -1,4 +1,5 @@
-import { findNodeById, getNodeId, getSceneRoot } from './sceneTree';
+import { findEnabledComponent, getNodeComponents } from './componentAccess';
+import { findNodeById, getExtraRoots, getNodeId, getSceneRoot } from './sceneTree';
 
 export interface BoundsOverlayBox {
   left: number;
@@ -21,7 +22,7 @@ let activeNodeId: string | null = null;
 let activePathSuffix: string | null = null;
 let showFrameInner = true;
 
-const getGameCanvas = (): HTMLCanvasElement | null => {
+export const getGameCanvas = (): HTMLCanvasElement | null => {
   const ccg = window.cc as {
     game?: { canvas?: HTMLCanvasElement };
   };
@@ -55,7 +56,13 @@ export const findNodeByPathSuffix = (suffix: string): cc.Node | null => {
     }
     return null;
   };
-  return walk(scene, [scene.name || 'main']);
+  const hit = walk(scene, [scene.name || 'main']);
+  if (hit) return hit;
+  for (const extra of getExtraRoots(scene)) {
+    const found = walk(extra.node, [extra.node.name || '']);
+    if (found) return found;
+  }
+  return null;
 };
 
 /** 查找 UICamera（UI 世界坐标 → 屏幕） */
@@ -144,6 +151,33 @@ export const worldRectToScreenCss = (bbox: {
   return { left, top, width, height };
 };
 
+export type WorldRect = { x: number; y: number; width: number; height: number };
+
+/** 节点启用的 UITransform 的世界包围盒；没有或读取失败为 null */
+export const readNodeWorldRect = (
+  node: cc.Node,
+  comps: unknown[] = getNodeComponents(node)
+): WorldRect | null => {
+  const ui = findEnabledComponent(comps, 'UITransform') as {
+    getBoundingBoxToWorld?: () => WorldRect;
+  } | null;
+  if (!ui?.getBoundingBoxToWorld) return null;
+  try {
+    return ui.getBoundingBoxToWorld();
+  } catch {
+    return null;
+  }
+};
+
+/** 节点包围盒换算到页面 CSS 坐标（叠加层 / 拾取共用） */
+export const readNodeScreenRect = (
+  node: cc.Node,
+  comps?: unknown[]
+): ReturnType<typeof worldRectToScreenCss> => {
+  const rect = readNodeWorldRect(node, comps);
+  return rect ? worldRectToScreenCss(rect) : null;
+};
+
 const getCompByClassPattern = (
   node: cc.Node,
   pattern: RegExp,
@@ -0,0 +1,162 @@
+import { worldRectToScreenCss, type WorldRect } from './nodeBoundsOverlay';
+import { buildStablePath } from './nodeBookmarks';
+import { plainVec3, readWorldBounds, round, type Vec3Plain } from './nodeMetrics';
+import { findNodeById, getNodeId, getSceneRoot } from './sceneTree';
+
+type CssRect = { left: number; top: number; width: number; height: number };
+
+export interface MeasuredNode {
+  id: string;
+  name: string;
+  path: string;
+  position: Vec3Plain;
+  worldPosition: Vec3Plain;
+  /** UITransform 世界包围盒（设计分辨率单位，y 向上） */
+  worldBounds: WorldRect;
+  /** 页面 CSS 像素 */
+  screenRect: CssRect | null;
+}
+
+/** 一个方向上的间距：正数为两框之间的空隙，负数为重叠量 */
+export interface MeasureGap {
+  design: number;
+  screen: number | null;
+}
+
+export type AlignEdge = 'left' | 'centerX' | 'right' | 'bottom' | 'centerY' | 'top';
+
+export interface NodeMeasureResult {
+  a: MeasuredNode;
+  b: MeasuredNode;
+  /** 水平：A、B 左右相邻边的距离；垂直：上下相邻边的距离 */
+  gap: { horizontal: MeasureGap; vertical: MeasureGap };
+  /** B 的各边减 A 的对应边（设计单位，y 向上） */
+  edges: Record<AlignEdge, number>;
+  /** |差值| 小于 ALIGN_EPSILON 的边，视为对齐 */
+  aligned: AlignEdge[];
+  delta: {
+    world: Vec3Plain;
+    /** B 的世界坐标换算到 A 的父节点空间后减 A.position；引擎无 inverseTransformPoint 时为 null */
+    local: Vec3Plain | null;
+    /** A、B 同一父节点时为 true，此时 local 即 position 之差 */
+    sameParent: boolean;
+  };
+}
+
+/** 对齐容差（设计单位） */
+const ALIGN_EPSILON = 0.5;
+
+type MeasureNodeLike = cc.Node & {
+  position?: Partial<Vec3Plain>;
+  worldPosition?: Partial<Vec3Plain>;
+  inverseTransformPoint?: (out: Vec3Plain, p: Vec3Plain) => Vec3Plain;
+};
+
+const measureNode = (node: cc.Node): MeasuredNode | null => {
+  const n = node as MeasureNodeLike;
+  const worldBounds = readWorldBounds(node);
+  if (!worldBounds) return null;
+  return {
+    id: getNodeId(node),
+    name: node.name || '(unnamed)',
+    path: buildStablePath(node),
+    position: plainVec3(n.position),
+    worldPosition: plainVec3(n.worldPosition),
+    worldBounds,
+    screenRect: worldRectToScreenCss(worldBounds),
+  };
+};
+
+/** 区间 [a0,a1] 与 [b0,b1] 的间距：不相交为空隙，相交为负的重叠长度 */
+const spanGap = (a0: number, a1: number, b0: number, b1: number): number => {
+  if (b0 >= a1) return b0 - a1;
+  if (a0 >= b1) return a0 - b1;
+  return -(Math.min(a1, b1) - Math.max(a0, b0));
+};
+
+const edgesOf = (r: WorldRect): Record<AlignEdge, number> => ({
+  left: r.x,
+  centerX: r.x + r.width / 2,
+  right: r.x + r.width,
+  bottom: r.y,
+  centerY: r.y + r.height / 2,
+  top: r.y + r.height,
+});
+
+/** B 的世界坐标在 A 父节点空间中相对 A 的位移 */
+const localDelta = (a: cc.Node, b: MeasuredNode, aPos: Vec3Plain): Vec3Plain | null => {
+  const parent = a.parent as MeasureNodeLike | null;
+  if (!parent?.inverseTransformPoint) return null;
+  const Vec3 = (window.cc as { Vec3?: new (x?: number, y?: number, z?: number) => Vec3Plain })
+    .Vec3;
+  const p = b.worldPosition;
+  const out = Vec3 ? new Vec3() : { x: 0, y: 0, z: 0 };
+  const src = Vec3 ? new Vec3(p.x, p.y, p.z) : { ...p };
+  try {
+    const local = parent.inverseTransformPoint(out, src);
+    return { x: round(local.x - aPos.x), y: round(local.y - aPos.y), z: round(local.z - aPos.z) };
+  } catch {
+    return null;
+  }
+};
+
+/** 测量两个节点的间距、对齐与坐标差；任一节点没有 UITransform 时失败 */
+export const measureNodes = (
+  aId: string,
+  bId: string
+): { ok: true; result: NodeMeasureResult } | { ok: false; error: string } => {
+  const scene = getSceneRoot();
+  if (!scene) return { ok: false, error: '场景未就绪' };
+  const nodeA = findNodeById(scene, aId);
+  const nodeB = findNodeById(scene, bId);
+  if (!nodeA) return { ok: false, error: `未找到节点 ${aId}` };
+  if (!nodeB) return { ok: false, error: `未找到节点 ${bId}` };
+  const a = measureNode(nodeA);
+  const b = measureNode(nodeB);
+  if (!a || !b) return { ok: false, error: `${a ? nodeB.name : nodeA.name} 没有 UITransform` };
+
+  const ra = a.worldBounds;
+  const rb = b.worldBounds;
+  const sa = a.screenRect;
+  const sb = b.screenRect;
+  const screenGap = (axis: 'x' | 'y'): number | null => {
+    if (!sa || !sb) return null;
+    return axis === 'x'
+      ? round(spanGap(sa.left, sa.left + sa.width, sb.left, sb.left + sb.width))
+      : round(spanGap(sa.top, sa.top + sa.height, sb.top, sb.top + sb.height));
+  };
+  const ea = edgesOf(ra);
+  const eb = edgesOf(rb);
+  const keys: AlignEdge[] = ['left', 'centerX', 'right', 'bottom', 'centerY', 'top'];
+  const edges = {} as Record<AlignEdge, number>;
+  for (const k of keys) edges[k] = round(eb[k] - ea[k]);
+
+  return {
+    ok: true,
+    result: {
+      a,
+      b,
+      gap: {
+        horizontal: {
+          design: round(spanGap(ra.x, ra.x + ra.width, rb.x, rb.x + rb.width)),
+          screen: screenGap('x'),
+        },
+        vertical: {
+          design: round(spanGap(ra.y, ra.y + ra.height, rb.y, rb.y + rb.height)),
+          screen: screenGap('y'),
+        },
+      },
+      edges,
+      aligned: keys.filter((k) => Math.abs(edges[k]) < ALIGN_EPSILON),
+      delta: {
+        world: {
+          x: round(b.worldPosition.x - a.worldPosition.x),
+          y: round(b.worldPosition.y - a.worldPosition.y),
+          z: round(b.worldPosition.z - a.worldPosition.z),
+        },
+        local: localDelta(nodeA, b, a.position),
+        sameParent: !!nodeA.parent && nodeA.parent === nodeB.parent,
+      },
+    },
+  };
+};
@@ -0,0 +1,367 @@
+import { escapeHtml } from './floatingPanel';
+import { pickNodesAt } from './nodePick';
+import { measureNodes, type AlignEdge, type NodeMeasureResult } from './nodeMeasure';
+import { HookManager } from './propertyHook';
+
+/** 两个节点都选定后重新测量的间隔（节点在动画中时跟随） */
+const REFRESH_MS = 250;
+
+const EDGE_LABELS: Record<AlignEdge, string> = {
+  left: '左',
+  centerX: '水平居中',
+  right: '右',
+  bottom: '下',
+  centerY: '垂直居中',
+  top: '上',
+};
+
+type CssRect = NonNullable<NodeMeasureResult['a']['screenRect']>;
+
+const fmt = (v: number): string => String(Math.round(v * 100) / 100);
+
+const fmtGap = (design: number, screen: number | null): string => {
+  const word = design < 0 ? '重叠' : '间距';
+  const px = screen === null ? '' : ` · ${fmt(Math.abs(screen))}px`;
+  return `${word} ${fmt(Math.abs(design))}${px}`;
+};
+
+/**
+ * 画布测量模式：依次点击两个节点（取该点最上层渲染节点），画出两者包围框、
+ * 间距标注与对齐参考线，并在面板中列出设计单位 / 屏幕像素的间距和坐标差。
+ * 第三次点击重新开始；Esc / 右键退出。
+ */
+export class NodeMeasureOverlay {
+  private layer: HTMLElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private info: HTMLElement | null = null;
+  /** 信息面板的文字部分；复制按钮只创建一次，定时刷新不重建，避免点击落空 */
+  private infoText: HTMLElement | null = null;
+  private infoHtml = '';
+  private active = false;
+  private aId: string | null = null;
+  private bId: string | null = null;
+  private result: NodeMeasureResult | null = null;
+  /** 只选了 A 时的预览框 */
+  private aPreview: { name: string; rect: CssRect } | null = null;
+  private timer: number | null = null;
+
+  constructor(private readonly onStateChange?: (active: boolean, note?: string) => void) {}
+
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  toggle(): void {
+    if (this.active) {
+      this.stop();
+    } else {
+      this.start();
+    }
+  }
+
+  /** firstId：以该节点（通常是当前选中节点）为 A，只需再点一个 */
+  start(firstId?: string | null): void {
+    if (this.active) return;
+    this.active = true;
+    if (!this.layer) this.create();
+    if (this.layer) document.body.appendChild(this.layer);
+    document.addEventListener('keydown', this.onKeyDown, true);
+    window.addEventListener('resize', this.redraw);
+    this.reset(firstId ?? null);
+  }
+
+  stop(): void {
+    if (!this.active) return;
+    this.active = false;
+    this.stopTimer();
+    this.layer?.remove();
+    document.removeEventListener('keydown', this.onKeyDown, true);
+    window.removeEventListener('resize', this.redraw);
+    this.aId = null;
+    this.bId = null;
+    this.result = null;
+    this.aPreview = null;
+    this.onStateChange?.(false);
+  }
+
+  private create(): void {
+    const layer = document.createElement('div');
+    layer.className = 'node-pick-layer node-measure-layer';
+
+    const canvas = document.createElement('canvas');
+    canvas.className = 'node-measure-canvas';
+    layer.appendChild(canvas);
+
+    const info = document.createElement('div');
+    info.className = 'node-measure-info';
+    const infoText = document.createElement('div');
+    info.appendChild(infoText);
+    const copyBtn = document.createElement('button');
+    copyBtn.type = 'button';
+    copyBtn.className = 'asset-float-tab node-measure-copy';
+    copyBtn.textContent = '复制 JSON';
+    info.appendChild(copyBtn);
+    layer.appendChild(info);
+
+    layer.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('.node-measure-info')) {
+        if (target.closest('.node-measure-copy')) this.copyJson();
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      this.pickAt(e.clientX, e.clientY);
+    });
+
+    layer.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      this.stop();
+    });
+
+    this.layer = layer;
+    this.canvas = canvas;
+    this.info = info;
+    this.infoText = infoText;
+  }
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (e.key !== 'Escape') return;
+    e.preventDefault();
+    e.stopPropagation();
+    this.stop();
+  };
+
+  private reset(firstId: string | null): void {
+    this.stopTimer();
+    this.aId = firstId;
+    this.bId = null;
+    this.result = null;
+    this.aPreview = null;
+    if (firstId) {
+      const self = HookManager.getInstance().runSilently(() => measureNodes(firstId, firstId));
+      const rect = self.ok ? self.result.a.screenRect : null;
+      if (self.ok && rect) this.aPreview = { name: self.result.a.name, rect };
+    }
+    this.redraw();
+    this.onStateChange?.(
+      true,
+      firstId ? '测量：点击画布上的第二个节点（Esc 退出）' : '测量：点击画布上的第一个节点（Esc 退出）'
+    );
+  }
+
+  private pickAt(x: number, y: number): void {
+    const res = HookManager.getInstance().runSilently(() => pickNodesAt(x, y, { limit: 1 }));
+    const top = res.ok ? res.candidates[0] : undefined;
+    if (!top) {
+      this.onStateChange?.(true, '测量：此处没有渲染节点');
+      return;
+    }
+    if (this.bId) {
+      this.reset(top.id);
+      return;
+    }
+    if (!this.aId) {
+      this.aId = top.id;
+      this.aPreview = { name: top.name, rect: top.rect };
+      this.redraw();
+      this.onStateChange?.(true, `测量：A = ${top.name}，点击第二个节点`);
+      return;
+    }
+    this.bId = top.id;
+    this.measure();
+    if (this.result) {
+      this.startTimer();
+      this.onStateChange?.(true, `测量：${this.result.a.name} → ${this.result.b.name}，再次点击重新开始`);
+    }
+  }
+
+  private measure(): void {
+    if (!this.aId || !this.bId) return;
+    const res = HookManager.getInstance().runSilently(() => measureNodes(this.aId!, this.bId!));
+    if (!res.ok) {
+      this.onStateChange?.(true, `测量失败: ${res.error}`);
+      this.reset(null);
+      return;
+    }
+    this.result = res.result;
+    this.redraw();
+  }
+
+  private startTimer(): void {
+    this.stopTimer();
+    this.timer = window.setInterval(() => this.measure(), REFRESH_MS);
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private copyJson(): void {
+    if (!this.result) return;
+    void navigator.clipboard
+      ?.writeText(JSON.stringify(this.result, null, 2))
+      .then(() => this.onStateChange?.(true, '测量结果已复制为 JSON'))
+      .catch((e) => console.warn('[测量] 复制失败', e));
+  }
+
+  private redraw = (): void => {
+    const canvas = this.canvas;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(window.innerWidth * dpr);
+    canvas.height = Math.round(window.innerHeight * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, window.innerWidth, window.innerHeight);
+
+    const r = this.result;
+    if (!r) {
+      if (this.info) this.info.style.display = 'none';
+      if (this.aPreview) {
+        this.drawBox(ctx, this.aPreview.rect, '#ff5252', `A ${this.aPreview.name}`);
+      }
+      return;
+    }
+    const sa = r.a.screenRect;
+    const sb = r.b.screenRect;
+    if (sa) this.drawBox(ctx, sa, '#ff5252', `A ${r.a.name}`);
+    if (sb) this.drawBox(ctx, sb, '#40c4ff', `B ${r.b.name}`);
+    if (sa && sb) {
+      this.drawGuides(ctx, r, sa, sb);
+      this.drawGaps(ctx, r, sa, sb);
+    }
+    this.renderInfo(r);
+  };
+
+  private drawBox(
+    ctx: CanvasRenderingContext2D,
+    rect: CssRect,
+    color: string,
+    label: string
+  ): void {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([]);
+    ctx.strokeRect(rect.left, rect.top, rect.width, rect.height);
+    ctx.font = '12px monospace';
+    ctx.fillStyle = 'rgba(0,0,0,0.7)';
+    ctx.fillRect(rect.left, rect.top - 16, ctx.measureText(label).width + 8, 16);
+    ctx.fillStyle = color;
+    ctx.fillText(label, rect.left + 4, rect.top - 4);
+  }
+
+  /** 对齐的边画虚线参考线（延伸到两框外 40px） */
+  private drawGuides(
+    ctx: CanvasRenderingContext2D,
+    r: NodeMeasureResult,
+    sa: CssRect,
+    sb: CssRect
+  ): void {
+    ctx.strokeStyle = '#eeff41';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([6, 4]);
+    const xs: Partial<Record<AlignEdge, number>> = {
+      left: sa.left,
+      centerX: sa.left + sa.width / 2,
+      right: sa.left + sa.width,
+    };
+    // 屏幕 y 向下：世界的 top 对应 css 的 top
+    const ys: Partial<Record<AlignEdge, number>> = {
+      top: sa.top,
+      centerY: sa.top + sa.height / 2,
+      bottom: sa.top + sa.height,
+    };
+    const top = Math.min(sa.top, sb.top) - 40;
+    const bottom = Math.max(sa.top + sa.height, sb.top + sb.height) + 40;
+    const left = Math.min(sa.left, sb.left) - 40;
+    const right = Math.max(sa.left + sa.width, sb.left + sb.width) + 40;
+    for (const edge of r.aligned) {
+      ctx.beginPath();
+      const x = xs[edge];
+      const y = ys[edge];
+      if (x !== undefined) {
+        ctx.moveTo(x + 0.5, top);
+        ctx.lineTo(x + 0.5, bottom);
+      } else if (y !== undefined) {
+        ctx.moveTo(left, y + 0.5);
+        ctx.lineTo(right, y + 0.5);
+      }
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+  }
+
+  /** 相邻边之间画尺寸线并标注间距（重叠时不画） */
+  private drawGaps(
+    ctx: CanvasRenderingContext2D,
+    r: NodeMeasureResult,
+    sa: CssRect,
+    sb: CssRect
+  ): void {
+    ctx.strokeStyle = '#ffffff';
+    ctx.fillStyle = '#ffffff';
+    ctx.lineWidth = 1;
+    ctx.font = '12px monospace';
+    const label = (text: string, x: number, y: number): void => {
+      const w = ctx.measureText(text).width + 8;
+      ctx.fillStyle = 'rgba(0,0,0,0.75)';
+      ctx.fillRect(x - w / 2, y - 9, w, 18);
+      ctx.fillStyle = '#fff';
+      ctx.fillText(text, x - w / 2 + 4, y + 4);
+    };
+
+    if (r.gap.horizontal.design > 0) {
+      const [l, rgt] = sa.left < sb.left ? [sa, sb] : [sb, sa];
+      const x0 = l.left + l.width;
+      const x1 = rgt.left;
+      const y = (sa.top + sa.height / 2 + sb.top + sb.height / 2) / 2;
+      ctx.beginPath();
+      ctx.moveTo(x0, y);
+      ctx.lineTo(x1, y);
+      ctx.stroke();
+      label(fmt(r.gap.horizontal.design), (x0 + x1) / 2, y - 12);
+    }
+    if (r.gap.vertical.design > 0) {
+      const [t, btm] = sa.top < sb.top ? [sa, sb] : [sb, sa];
+      const y0 = t.top + t.height;
+      const y1 = btm.top;
+      const x = (sa.left + sa.width / 2 + sb.left + sb.width / 2) / 2;
+      ctx.beginPath();
+      ctx.moveTo(x, y0);
+      ctx.lineTo(x, y1);
+      ctx.stroke();
+      label(fmt(r.gap.vertical.design), x + 24, (y0 + y1) / 2);
+    }
+  }
+
+  private renderInfo(r: NodeMeasureResult): void {
+    const info = this.info;
+    const infoText = this.infoText;
+    if (!info || !infoText) return;
+    const { world, local, sameParent } = r.delta;
+    const aligned = r.aligned.map((e) => EDGE_LABELS[e]).join('、') || '无';
+    const localText = local
+      ? `${fmt(local.x)}, ${fmt(local.y)}${sameParent ? '（同父节点）' : '（A 父节点空间）'}`
+      : '-';
+    info.style.display = 'block';
+    const html = `<div class="node-measure-title">
+        <span class="node-measure-a">A ${escapeHtml(r.a.name)}</span> →
+        <span class="node-measure-b">B ${escapeHtml(r.b.name)}</span>
+      </div>
+      <div>水平 ${fmtGap(r.gap.horizontal.design, r.gap.horizontal.screen)}</div>
+      <div>垂直 ${fmtGap(r.gap.vertical.design, r.gap.vertical.screen)}</div>
+      <div>对齐 ${aligned}</div>
+      <div>世界 Δ ${fmt(world.x)}, ${fmt(world.y)}</div>
+      <div>本地 Δ ${localText}</div>
+      <div>尺寸 A ${fmt(r.a.worldBounds.width)}×${fmt(r.a.worldBounds.height)} · B ${fmt(
+        r.b.worldBounds.width
+      )}×${fmt(r.b.worldBounds.height)}</div>`;
+    if (html === this.infoHtml) return;
+    this.infoHtml = html;
+    infoText.innerHTML = html;
+  }
+}
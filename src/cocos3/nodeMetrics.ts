@@ -0,0 +1,142 @@
+import { getNodeComponents } from './componentAccess';
+import { readNodeWorldRect } from './nodeBoundsOverlay';
+import { selfOpacity } from './nodePick';
+
+export type Vec3Plain = { x: number; y: number; z: number };
+
+/** 世界空间变换与层级信息（Inspector 与场景快照共用） */
+export interface NodeWorldMetrics {
+  worldPosition: Vec3Plain;
+  /** worldRotation 换算的欧拉角（度），换算同 cc.Quat.toEuler */
+  worldEuler: Vec3Plain;
+  worldScale: Vec3Plain;
+  /** UITransform.getBoundingBoxToWorld；非 UI 节点为 null */
+  worldBounds: { x: number; y: number; width: number; height: number } | null;
+  layer: number;
+  /** layer 中置位的 cc.Layers 名称，如 ['UI_2D'] */
+  layerNames: string[];
+  /** 在父节点 children 中的位置（引擎顺序）；场景根为 -1 */
+  siblingIndex: number;
+  siblingCount: number;
+  activeInHierarchy: boolean;
+  /** activeInHierarchy 为 false 时最近的 active=false 节点（可能是自身） */
+  inactiveAt?: string;
+  /** 场景根到自身 UIOpacity 相乘后的不透明度 0–1 */
+  opacity: number;
+  /** 链上带 UIOpacity 的节点，自上而下，opacity 为 0–255 */
+  opacityChain: Array<{ name: string; opacity: number }>;
+}
+
+type WorldNode = cc.Node & {
+  worldPosition?: Partial<Vec3Plain>;
+  worldRotation?: { x?: number; y?: number; z?: number; w?: number };
+  worldScale?: Partial<Vec3Plain>;
+  layer?: number;
+  activeInHierarchy?: boolean;
+};
+
+/** cc.Layers.Enum 缺失时的内置层（3.x 默认值） */
+const DEFAULT_LAYERS: Record<string, number> = {
+  IGNORE_RAYCAST: 1 << 20,
+  GIZMOS: 1 << 21,
+  EDITOR: 1 << 22,
+  UI_3D: 1 << 23,
+  SCENE_GIZMO: 1 << 24,
+  UI_2D: 1 << 25,
+  PROFILER: 1 << 28,
+  DEFAULT: 1 << 30,
+};
+
+/** 保留 3 位小数（快照、测量等输出共用） */
+export const round = (v: number): number => Math.round(v * 1000) / 1000;
+
+export const plainVec3 = (v?: Partial<Vec3Plain>, fallback = 0): Vec3Plain => ({
+  x: round(v?.x ?? fallback),
+  y: round(v?.y ?? fallback),
+  z: round(v?.z ?? fallback),
+});
+
+const toDegree = (rad: number): number => (rad * 180) / Math.PI;
+
+/** 四元数 → 欧拉角（度），与 cc.Quat.toEuler 相同的分解顺序 */
+const quatToEuler = (q?: { x?: number; y?: number; z?: number; w?: number }): Vec3Plain => {
+  const x = q?.x ?? 0;
+  const y = q?.y ?? 0;
+  const z = q?.z ?? 0;
+  const w = q?.w ?? 1;
+  const test = x * y + z * w;
+  if (test > 0.499999) {
+    return { x: 0, y: round(toDegree(2 * Math.atan2(x, w))), z: 90 };
+  }
+  if (test < -0.499999) {
+    return { x: 0, y: round(-toDegree(2 * Math.atan2(x, w))), z: -90 };
+  }
+  return {
+    x: round(toDegree(Math.atan2(2 * x * w - 2 * y * z, 1 - 2 * x * x - 2 * z * z))),
+    y: round(toDegree(Math.atan2(2 * y * w - 2 * x * z, 1 - 2 * y * y - 2 * z * z))),
+    z: round(toDegree(Math.asin(2 * test))),
+  };
+};
+
+const layerTable = (): Record<string, number> => {
+  const layers = (window.cc as { Layers?: { Enum?: Record<string, unknown> } }).Layers;
+  const table: Record<string, number> = {};
+  const source = layers?.Enum ?? DEFAULT_LAYERS;
+  for (const name of Object.keys(source)) {
+    const bit = source[name];
+    // 只取单个位的层（跳过 NONE / ALL 这类组合值）
+    if (typeof bit === 'number' && bit > 0 && (bit & (bit - 1)) === 0) table[name] = bit;
+  }
+  return table;
+};
+
+export const describeLayer = (layer: number): string[] => {
+  const table = layerTable();
+  return Object.keys(table).filter((name) => (layer & table[name]) !== 0);
+};
+
+/** UITransform 世界包围盒（已取整到 3 位小数）；非 UI 节点为 null */
+export const readWorldBounds = (node: cc.Node): NodeWorldMetrics['worldBounds'] => {
+  const b = readNodeWorldRect(node);
+  if (!b) return null;
+  return { x: round(b.x), y: round(b.y), width: round(b.width), height: round(b.height) };
+};
+
+export const collectNodeWorldMetrics = (node: cc.Node): NodeWorldMetrics => {
+  const n = node as WorldNode;
+
+  const chain: cc.Node[] = [];
+  for (let cur: cc.Node | null = node; cur; cur = cur.parent) chain.unshift(cur);
+
+  let opacity = 1;
+  const opacityChain: NodeWorldMetrics['opacityChain'] = [];
+  let inactiveAt: string | undefined;
+  for (const cur of chain) {
+    const self = selfOpacity(getNodeComponents(cur));
+    if (self !== 1) {
+      opacity *= self;
+      opacityChain.push({ name: cur.name || '(unnamed)', opacity: Math.round(self * 255) });
+    }
+    if (cur.active === false) inactiveAt = cur.name || '(unnamed)';
+  }
+
+  const activeInHierarchy =
+    typeof n.activeInHierarchy === 'boolean' ? n.activeInHierarchy : inactiveAt === undefined;
+  const layer = typeof n.layer === 'number' ? n.layer : 0;
+  const siblings = node.parent?.children ?? [];
+
+  return {
+    worldPosition: plainVec3(n.worldPosition),
+    worldEuler: quatToEuler(n.worldRotation),
+    worldScale: plainVec3(n.worldScale, 1),
+    worldBounds: readWorldBounds(node),
+    layer,
+    layerNames: describeLayer(layer),
+    siblingIndex: node.parent ? siblings.indexOf(node) : -1,
+    siblingCount: siblings.length,
+    activeInHierarchy,
+    ...(activeInHierarchy || inactiveAt === undefined ? {} : { inactiveAt }),
+    opacity: round(opacity),
+    opacityChain,
+  };
+};
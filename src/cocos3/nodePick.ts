@@ -0,0 +1,154 @@
+import {
+  findEnabledComponent,
+  getComponentName,
+  getNodeComponents,
+  isComponentEnabled,
+  shortTypeName,
+} from './componentAccess';
+import { getGameCanvas, readNodeScreenRect } from './nodeBoundsOverlay';
+import { isRenderableComponentName } from './renderStats';
+import { getExtraRoots, getNodeId, getSceneRoot } from './sceneTree';
+
+/** client：页面 CSS 像素（clientX/Y）；canvas：画布像素，左上为原点（与 game 截图一致） */
+export type PickSpace = 'client' | 'canvas';
+
+export interface PickOptions {
+  space?: PickSpace;
+  /** 包含透明度为 0、被 Mask 裁掉的节点（默认 false） */
+  includeHidden?: boolean;
+  limit?: number;
+}
+
+export interface PickCandidate {
+  id: string;
+  name: string;
+  /** `/` 分隔，含场景名 */
+  path: string;
+  /** 渲染组件短名，如 Sprite、Label */
+  components: string[];
+  /** 深度优先渲染顺序（越大越靠上） */
+  renderOrder: number;
+  /** 世界包围盒对应的页面 CSS 矩形 */
+  rect: { left: number; top: number; width: number; height: number };
+  /** UIOpacity 链相乘后的不透明度 0–1 */
+  opacity: number;
+  /** 命中点在祖先 Mask 区域外 */
+  clipped: boolean;
+}
+
+export type PickResult =
+  | {
+      ok: true;
+      x: number;
+      y: number;
+      space: PickSpace;
+      /** 换算后的页面 CSS 坐标 */
+      clientX: number;
+      clientY: number;
+      total: number;
+      /** 自上而下：第一个为最上层 */
+      candidates: PickCandidate[];
+    }
+  | { ok: false; error: string };
+
+type CssRect = PickCandidate['rect'];
+
+const contains = (r: CssRect, x: number, y: number): boolean =>
+  x >= r.left && x <= r.left + r.width && y >= r.top && y <= r.top + r.height;
+
+/** 节点自身 UIOpacity（0–1），无组件或已禁用为 1 */
+export const selfOpacity = (comps: unknown[]): number => {
+  const op = findEnabledComponent(comps, 'UIOpacity') as { opacity?: number } | null;
+  const v = Number(op?.opacity);
+  return op && Number.isFinite(v) ? v / 255 : 1;
+};
+
+/** 画布像素 → 页面 CSS 坐标 */
+const canvasToClient = (x: number, y: number): { x: number; y: number } | null => {
+  const canvas = getGameCanvas();
+  if (!canvas || !canvas.width || !canvas.height) return null;
+  const cr = canvas.getBoundingClientRect();
+  return {
+    x: cr.left + (x * cr.width) / canvas.width,
+    y: cr.top + (y * cr.height) / canvas.height,
+  };
+};
+
+/**
+ * 点选：对所有激活的渲染组件节点做世界包围盒命中测试，按渲染顺序返回叠在该点的节点。
+ * 渲染顺序取节点树深度优先顺序（UI 按此绘制）；带 Mask 的节点本身只画模板，不作候选，
+ * 但会裁剪子孙的命中区域。
+ */
+export const pickNodesAt = (x: number, y: number, options: PickOptions = {}): PickResult => {
+  const scene = getSceneRoot();
+  if (!scene) return { ok: false, error: '场景未就绪' };
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    return { ok: false, error: '坐标无效' };
+  }
+
+  const space: PickSpace = options.space ?? 'client';
+  const point = space === 'canvas' ? canvasToClient(x, y) : { x, y };
+  if (!point) return { ok: false, error: '未找到游戏画布' };
+
+  const hits: PickCandidate[] = [];
+  let order = 0;
+  const walk = (node: cc.Node, parts: string[], opacity: number, clipped: boolean): void => {
+    if (node.active === false) return;
+    const comps = getNodeComponents(node);
+    const nodeOpacity = opacity * selfOpacity(comps);
+    const mask = findEnabledComponent(comps, 'Mask');
+
+    const renderers = mask
+      ? []
+      : comps.filter(
+          (c) => isComponentEnabled(c) && isRenderableComponentName(getComponentName(c))
+        );
+    let rect: CssRect | null = null;
+    if (renderers.length > 0) {
+      order += 1;
+      rect = readNodeScreenRect(node, comps);
+      if (rect && contains(rect, point.x, point.y)) {
+        hits.push({
+          id: getNodeId(node),
+          name: node.name || '(unnamed)',
+          path: parts.join('/'),
+          components: renderers.map((c) => shortTypeName(getComponentName(c))),
+          renderOrder: order,
+          rect,
+          opacity: Math.round(nodeOpacity * 1000) / 1000,
+          clipped,
+        });
+      }
+    }
+
+    let childClipped = clipped;
+    if (mask && !clipped) {
+      const maskRect = readNodeScreenRect(node, comps);
+      childClipped = !maskRect || !contains(maskRect, point.x, point.y);
+    }
+    for (const child of node.children ?? []) {
+      if (!child) continue;
+      walk(child, [...parts, child.name || ''], nodeOpacity, childClipped);
+    }
+  };
+  // 场景外根节点（常驻 / 游离渲染）按树中顺序排在场景之后
+  for (const root of [scene, ...getExtraRoots(scene).map((r) => r.node)]) {
+    walk(root, [root.name || 'main'], 1, false);
+  }
+
+  const visible = options.includeHidden
+    ? hits
+    : hits.filter((h) => h.opacity > 0 && !h.clipped);
+  visible.reverse();
+  const limit = Math.max(1, options.limit ?? 50);
+  return {
+    ok: true,
+    x,
+    y,
+    space,
+    clientX: Math.round(point.x * 10) / 10,
+    clientY: Math.round(point.y * 10) / 10,
+    total: visible.length,
+    candidates: visible.slice(0, limit),
+  };
+};
@@ -0,0 +1,215 @@
+import { escapeHtml } from './floatingPanel';
+import { pickNodesAt, type PickCandidate } from './nodePick';
+import { HookManager } from './propertyHook';
+
+const MENU_LIMIT = 30;
+
+/**
+ * 画布点选模式：悬停高亮最上层渲染节点，单击选中；
+ * 多个节点叠在同一点时弹出候选列表（自上而下），Esc / 右键退出。
+ */
+export class NodePickOverlay {
+  private layer: HTMLElement | null = null;
+  private hoverBox: HTMLElement | null = null;
+  private menu: HTMLElement | null = null;
+  private menuCandidates: PickCandidate[] = [];
+  private active = false;
+  private moveRaf = 0;
+  private lastPoint: { x: number; y: number } | null = null;
+
+  constructor(
+    private readonly onPick: (nodeId: string) => void,
+    private readonly onStateChange?: (active: boolean, note?: string) => void
+  ) {}
+
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  toggle(): void {
+    if (this.active) {
+      this.stop();
+    } else {
+      this.start();
+    }
+  }
+
+  start(): void {
+    if (this.active) return;
+    this.active = true;
+    if (!this.layer) this.create();
+    if (this.layer) document.body.appendChild(this.layer);
+    document.addEventListener('keydown', this.onKeyDown, true);
+    this.onStateChange?.(true, '拾取模式：点击画布选中节点，Esc 退出');
+  }
+
+  stop(): void {
+    if (!this.active) return;
+    this.active = false;
+    if (this.moveRaf) {
+      cancelAnimationFrame(this.moveRaf);
+      this.moveRaf = 0;
+    }
+    this.closeMenu();
+    this.showBox(null);
+    this.layer?.remove();
+    document.removeEventListener('keydown', this.onKeyDown, true);
+    this.onStateChange?.(false);
+  }
+
+  private create(): void {
+    const layer = document.createElement('div');
+    layer.className = 'node-pick-layer';
+
+    const box = document.createElement('div');
+    box.className = 'node-pick-hover';
+    box.innerHTML = '<span class="node-pick-label"></span>';
+    layer.appendChild(box);
+
+    const menu = document.createElement('div');
+    menu.className = 'node-pick-menu';
+    layer.appendChild(menu);
+
+    layer.addEventListener('mousemove', (e) => {
+      if (this.menu?.style.display === 'block') return;
+      this.lastPoint = { x: e.clientX, y: e.clientY };
+      if (!this.moveRaf) {
+        this.moveRaf = requestAnimationFrame(() => {
+          this.moveRaf = 0;
+          this.updateHover();
+        });
+      }
+    });
+
+    layer.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const item = (e.target as HTMLElement).closest('.node-pick-menu-item') as HTMLElement | null;
+      if (item) {
+        const c = this.menuCandidates[Number(item.dataset.pickIdx)];
+        if (c) this.choose(c);
+        return;
+      }
+      if (this.menu?.style.display === 'block') {
+        this.closeMenu();
+        return;
+      }
+      this.pickAt(e.clientX, e.clientY);
+    });
+
+    layer.addEventListener('mouseover', (e) => {
+      const item = (e.target as HTMLElement).closest('.node-pick-menu-item') as HTMLElement | null;
+      if (!item) return;
+      const c = this.menuCandidates[Number(item.dataset.pickIdx)];
+      if (c) this.showBox(c);
+    });
+
+    layer.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      this.stop();
+    });
+
+    this.layer = layer;
+    this.hoverBox = box;
+    this.menu = menu;
+  }
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (e.key !== 'Escape') return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (this.menu?.style.display === 'block') {
+      this.closeMenu();
+    } else {
+      this.stop();
+    }
+  };
+
+  private pick(x: number, y: number): PickCandidate[] {
+    // 命中测试读 UITransform，不计入钩子日志
+    const res = HookManager.getInstance().runSilently(() => pickNodesAt(x, y));
+    return res.ok ? res.candidates : [];
+  }
+
+  private updateHover(): void {
+    if (!this.active || !this.lastPoint) return;
+    const candidates = this.pick(this.lastPoint.x, this.lastPoint.y);
+    this.showBox(candidates[0] ?? null, candidates.length);
+  }
+
+  private pickAt(x: number, y: number): void {
+    const candidates = this.pick(x, y);
+    if (candidates.length === 0) {
+      this.onStateChange?.(true, '拾取：此处没有渲染节点');
+      return;
+    }
+    if (candidates.length === 1) {
+      this.choose(candidates[0]!);
+      return;
+    }
+    this.openMenu(candidates, x, y);
+  }
+
+  private choose(c: PickCandidate): void {
+    this.stop();
+    this.onPick(c.id);
+  }
+
+  private showBox(c: PickCandidate | null, stacked = 1): void {
+    const box = this.hoverBox;
+    if (!box) return;
+    if (!c) {
+      box.style.display = 'none';
+      return;
+    }
+    box.style.display = 'block';
+    box.style.left = `${c.rect.left}px`;
+    box.style.top = `${c.rect.top}px`;
+    box.style.width = `${c.rect.width}px`;
+    box.style.height = `${c.rect.height}px`;
+    const label = box.querySelector('.node-pick-label');
+    if (label) {
+      label.textContent = `${c.name} · ${c.components.join('+')}${
+        stacked > 1 ? ` · 叠加 ${stacked}` : ''
+      }`;
+    }
+  }
+
+  private openMenu(candidates: PickCandidate[], x: number, y: number): void {
+    const menu = this.menu;
+    if (!menu) return;
+    this.menuCandidates = candidates.slice(0, MENU_LIMIT);
+    const more =
+      candidates.length > MENU_LIMIT
+        ? `<div class="node-pick-menu-more">另有 ${candidates.length - MENU_LIMIT} 个</div>`
+        : '';
+    menu.innerHTML =
+      `<div class="node-pick-menu-title">${candidates.length} 个节点叠加（上层在前）</div>` +
+      this.menuCandidates
+        .map(
+          (c, i) => `<div class="node-pick-menu-item" data-pick-idx="${i}" title="${escapeHtml(
+            c.path
+          )}">
+            <span class="node-pick-order">#${c.renderOrder}</span>
+            <span class="node-pick-name">${escapeHtml(c.name)}</span>
+            <span class="node-pick-comp">${escapeHtml(c.components.join('+'))}</span>
+          </div>`
+        )
+        .join('') +
+      more;
+    menu.style.display = 'block';
+    const w = menu.offsetWidth;
+    const h = menu.offsetHeight;
+    menu.style.left = `${Math.max(4, Math.min(x + 8, window.innerWidth - w - 4))}px`;
+    menu.style.top = `${Math.max(4, Math.min(y + 8, window.innerHeight - h - 4))}px`;
+    this.showBox(candidates[0]!, candidates.length);
+  }
+
+  private closeMenu(): void {
+    if (this.menu) {
+      this.menu.style.display = 'none';
+      this.menu.innerHTML = '';
+    }
+    this.menuCandidates = [];
+  }
+}
@@ -0,0 +1,421 @@
+import { getComponentName, getNodeComponents, shortTypeName } from './componentAccess';
+import { analyzeSceneVisibility, type VisibilityVerdict } from './nodeVisibility';
+import { resolveSnapshotRoot } from './sceneSnapshot';
+import { getNodeId, getSceneRoot } from './sceneTree';
+
+/**
+ * 节点查询语言（面板搜索框与 MCP queryNodes 共用），空格分隔的条件全部满足才命中：
+ *
+ * - 路径 glob：含 `/`、`*`、`?`，如 `Canvas/Reels/**`；`**` 跨任意层，
+ *   默认匹配路径后缀，`/` 开头则从场景根锚定
+ * - 组件：大写开头或带 `[...]`，如 `Sprite`、`Label[string*=WIN]`、`*[interactable=false]`
+ * - 属性运算：`=` `!=` `~=`/`*=`（包含，忽略大小写）`^=` `$=` `>` `<` `>=` `<=`，`[prop]` 为真值
+ * - 状态：`:active` `:inactive` `:visible` `:hidden`（可见性同 nodeVisibility 的判定）
+ * - 其它词：节点名包含（忽略大小写）
+ */
+
+type Rec = Record<string, unknown>;
+
+type AttrOp = '=' | '!=' | '~=' | '*=' | '^=' | '$=' | '>' | '<' | '>=' | '<=';
+
+interface AttrFilter {
+  prop: string;
+  op: AttrOp | null;
+  value: string;
+}
+
+interface ComponentFilter {
+  /** 小写类型名；'*' 为任意组件 */
+  type: string;
+  attrs: AttrFilter[];
+}
+
+type Pseudo = 'active' | 'inactive' | 'visible' | 'hidden';
+
+export interface ParsedNodeQuery {
+  source: string;
+  /** 路径 glob 各段；null 为 `**` */
+  paths: Array<Array<RegExp | null>>;
+  /** 路径是否从场景根锚定（与 paths 同下标） */
+  anchored: boolean[];
+  components: ComponentFilter[];
+  pseudos: Pseudo[];
+  names: string[];
+}
+
+export interface NodeQueryMatch {
+  id: string;
+  name: string;
+  /** `/` 分隔、含场景名的完整路径（可直接作为 path / rootPath 参数） */
+  path: string;
+  components: string[];
+}
+
+export interface NodeQueryOptions {
+  /** 最多返回条数，默认 500；total 仍为全部命中数 */
+  limit?: number;
+  rootId?: string;
+  rootPath?: string;
+}
+
+export type NodeQueryResult =
+  | { ok: true; query: string; total: number; truncated: boolean; matches: NodeQueryMatch[] }
+  | { ok: false; error: string };
+
+const PSEUDOS: Pseudo[] = ['active', 'inactive', 'visible', 'hidden'];
+const ATTR_RE = /^\s*([\w.$]+)\s*(?:(!=|~=|\*=|\^=|\$=|>=|<=|=|>|<)\s*(.*?))?\s*$/;
+const COMPONENT_RE = /^(\*|[A-Za-z_$][\w$]*(?:\.[\w$]+)*)$/;
+
+/** 搜索框内容是否按查询语言解析（否则沿用节点名包含匹配）；只看选择器符号，空格不算 */
+export const isSelectorQuery = (query: string): boolean => /[/[\]:*?]/.test(query.trim());
+
+/** 按空白切分，方括号与引号内的空白保留 */
+const tokenize = (query: string): string[] | string => {
+  const tokens: string[] = [];
+  let cur = '';
+  let depth = 0;
+  let quote = '';
+  for (const ch of query) {
+    if (quote) {
+      cur += ch;
+      if (ch === quote) quote = '';
+      continue;
+    }
+    if (depth > 0 && (ch === '"' || ch === "'")) {
+      quote = ch;
+      cur += ch;
+    } else if (ch === '[') {
+      depth += 1;
+      cur += ch;
+    } else if (ch === ']') {
+      if (depth === 0) return '多余的 ]';
+      depth -= 1;
+      cur += ch;
+    } else if (/\s/.test(ch) && depth === 0) {
+      if (cur) tokens.push(cur);
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  if (quote) return '引号未闭合';
+  if (depth > 0) return '缺少 ]';
+  if (cur) tokens.push(cur);
+  return tokens;
+};
+
+const escapeRe = (s: string): string => s.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+const globSegment = (seg: string): RegExp =>
+  new RegExp(`^${escapeRe(seg).replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+
+const unquote = (v: string): string => {
+  const t = v.trim();
+  if (t.length >= 2 && (t[0] === '"' || t[0] === "'") && t[t.length - 1] === t[0]) {
+    return t.slice(1, -1);
+  }
+  return t;
+};
+
+const parsePseudos = (text: string, out: Pseudo[]): string | null => {
+  for (const part of text.split(':')) {
+    if (!part) continue;
+    const p = part.toLowerCase() as Pseudo;
+    if (PSEUDOS.indexOf(p) < 0) {
+      return `未知状态 :${part}（可用 ${PSEUDOS.map((x) => `:${x}`).join(' ')}）`;
+    }
+    out.push(p);
+  }
+  return null;
+};
+
+/** 组件选择器：Type[attr op value]...(:pseudo)* */
+const parseComponentToken = (
+  token: string,
+  pseudos: Pseudo[]
+): ComponentFilter | string => {
+  const bracket = token.indexOf('[');
+  const head = bracket >= 0 ? token.slice(0, bracket) : token.split(':')[0]!;
+  if (!COMPONENT_RE.test(head)) return `无效的组件名 ${head || token}`;
+
+  let rest = token.slice(head.length);
+  const attrs: AttrFilter[] = [];
+  while (rest.charAt(0) === '[') {
+    let i = 1;
+    let quote = '';
+    for (; i < rest.length; i++) {
+      const ch = rest[i]!;
+      if (quote) {
+        if (ch === quote) quote = '';
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === ']') {
+        break;
+      }
+    }
+    const body = rest.slice(1, i);
+    rest = rest.slice(i + 1);
+    if (!body.trim()) continue;
+    const m = ATTR_RE.exec(body);
+    if (!m) return `无效的属性条件 [${body}]`;
+    attrs.push({
+      prop: m[1]!,
+      op: (m[2] as AttrOp | undefined) ?? null,
+      value: unquote(m[3] ?? ''),
+    });
+  }
+
+  if (rest) {
+    if (rest.charAt(0) !== ':') return `无法解析 ${rest}`;
+    const err = parsePseudos(rest, pseudos);
+    if (err) return err;
+  }
+
+  return { type: head === '*' ? '*' : head.toLowerCase(), attrs };
+};
+
+export const parseNodeQuery = (
+  query: string
+): { ok: true; query: ParsedNodeQuery } | { ok: false; error: string } => {
+  const tokens = tokenize(query.trim());
+  if (typeof tokens === 'string') return { ok: false, error: tokens };
+  if (tokens.length === 0) return { ok: false, error: '查询为空' };
+
+  const parsed: ParsedNodeQuery = {
+    source: query.trim(),
+    paths: [],
+    anchored: [],
+    components: [],
+    pseudos: [],
+    names: [],
+  };
+
+  for (const token of tokens) {
+    if (token.charAt(0) === ':') {
+      const err = parsePseudos(token, parsed.pseudos);
+      if (err) return { ok: false, error: err };
+      continue;
+    }
+
+    const head = token.split('[')[0]!;
+    const isComponent =
+      token.indexOf('[') >= 0 ||
+      (head.indexOf('/') < 0 && /^([A-Z]|(cc|sp|dragonBones)\.)/.test(head));
+    if (isComponent) {
+      const comp = parseComponentToken(token, parsed.pseudos);
+      if (typeof comp === 'string') return { ok: false, error: comp };
+      parsed.components.push(comp);
+      continue;
+    }
+
+    if (/[/*?]/.test(token)) {
+      const anchored = token.charAt(0) === '/';
+      const segs = token.split('/').filter(Boolean);
+      if (segs.length === 0) return { ok: false, error: `无效的路径 ${token}` };
+      parsed.paths.push(segs.map((s) => (s === '**' ? null : globSegment(s))));
+      parsed.anchored.push(anchored);
+      continue;
+    }
+
+    parsed.names.push(token.toLowerCase());
+  }
+
+  return { ok: true, query: parsed };
+};
+
+/** 路径段 glob 匹配；`**` 匹配零到多段 */
+const matchSegments = (
+  pattern: Array<RegExp | null>,
+  parts: string[],
+  anchored: boolean
+): boolean => {
+  const memo = new Map<string, boolean>();
+  const match = (pi: number, si: number): boolean => {
+    const key = `${pi}:${si}`;
+    const hit = memo.get(key);
+    if (hit !== undefined) return hit;
+    let ok: boolean;
+    if (pi === pattern.length) {
+      ok = si === parts.length;
+    } else {
+      const seg = pattern[pi];
+      ok = seg
+        ? si < parts.length && seg.test(parts[si]!) && match(pi + 1, si + 1)
+        : match(pi + 1, si) || (si < parts.length && match(pi, si + 1));
+    }
+    memo.set(key, ok);
+    return ok;
+  };
+  if (anchored) return match(0, 1); // 跳过场景根名
+  for (let start = 0; start < parts.length; start++) {
+    if (match(0, start)) return true;
+  }
+  return false;
+};
+
+const readAttr = (comp: unknown, prop: string): unknown =>
+  prop.split('.').reduce<unknown>((obj, key) => {
+    if (obj == null || typeof obj !== 'object') return undefined;
+    const o = obj as Rec;
+    return o[key] !== undefined ? o[key] : o[`_${key}`];
+  }, comp);
+
+/** 属性值 → 可比较文本：资源 / 节点取名称，颜色与向量拼接分量 */
+const attrTexts = (v: unknown): string[] => {
+  if (v == null) return [];
+  if (typeof v === 'string') return [v];
+  if (typeof v === 'number' || typeof v === 'boolean') return [String(v)];
+  if (typeof v !== 'object') return [];
+  const o = v as Rec;
+  const out: string[] = [];
+  const name = o.name ?? o._name;
+  if (typeof name === 'string') out.push(name);
+  if (typeof o._uuid === 'string') out.push(o._uuid);
+  if ('r' in o && 'g' in o && 'b' in o) out.push(`${o.r},${o.g},${o.b},${o.a ?? 255}`);
+  else if ('x' in o && 'y' in o) out.push('z' in o ? `${o.x},${o.y},${o.z}` : `${o.x},${o.y}`);
+  else if ('width' in o && 'height' in o) out.push(`${o.width},${o.height}`);
+  return out;
+};
+
+const matchAttr = (comp: unknown, f: AttrFilter): boolean => {
+  const raw = readAttr(comp, f.prop);
+  if (f.op === null) return !!raw && raw !== '0';
+
+  const texts = attrTexts(raw);
+  const want = f.value;
+  const wantNum = Number(want);
+  const rawNum = typeof raw === 'number' ? raw : Number(texts[0]);
+  const numeric = want !== '' && Number.isFinite(wantNum) && Number.isFinite(rawNum);
+  const lower = want.toLowerCase();
+
+  switch (f.op) {
+    case '=':
+      return numeric ? rawNum === wantNum : texts.some((t) => t === want);
+    case '!=':
+      return numeric ? rawNum !== wantNum : !texts.some((t) => t === want);
+    case '~=':
+    case '*=':
+      return texts.some((t) => t.toLowerCase().indexOf(lower) >= 0);
+    case '^=':
+      return texts.some((t) => t.toLowerCase().indexOf(lower) === 0);
+    case '$=':
+      return texts.some((t) => {
+        const s = t.toLowerCase();
+        return s.length >= lower.length && s.slice(s.length - lower.length) === lower;
+      });
+    case '>':
+      return numeric && rawNum > wantNum;
+    case '<':
+      return numeric && rawNum < wantNum;
+    case '>=':
+      return numeric && rawNum >= wantNum;
+    case '<=':
+      return numeric && rawNum <= wantNum;
+  }
+  return false;
+};
+
+const matchComponent = (comps: unknown[], f: ComponentFilter): boolean =>
+  comps.some((comp) => {
+    if (f.type !== '*') {
+      const full = getComponentName(comp).toLowerCase();
+      if (full !== f.type && shortTypeName(full) !== f.type) return false;
+    }
+    return f.attrs.every((a) => matchAttr(comp, a));
+  });
+
+/** 遍历子树，对每个命中节点调用 onMatch */
+export const forEachQueryMatch = (
+  parsed: ParsedNodeQuery,
+  root: cc.Node,
+  rootParts: string[],
+  onMatch: (node: cc.Node, parts: string[], comps: unknown[]) => void
+): void => {
+  // 只有用到 :visible / :hidden 时才做整场景可见性判定
+  const verdicts: Map<string, VisibilityVerdict> | null = parsed.pseudos.some(
+    (p) => p === 'visible' || p === 'hidden'
+  )
+    ? analyzeSceneVisibility(getSceneRoot() ?? root)
+    : null;
+  const isVisible = (node: cc.Node): boolean => verdicts?.get(getNodeId(node))?.visible ?? false;
+
+  const walk = (node: cc.Node, parts: string[], parentActive: boolean): void => {
+    const comps = getNodeComponents(node);
+    const activeInHierarchy = parentActive && node.active !== false;
+
+    const name = (node.name || '').toLowerCase();
+    const ok =
+      parsed.names.every((n) => name.indexOf(n) >= 0) &&
+      parsed.pseudos.every((p) =>
+        p === 'active'
+          ? activeInHierarchy
+          : p === 'inactive'
+            ? !activeInHierarchy
+            : p === 'visible'
+              ? isVisible(node)
+              : !isVisible(node)
+      ) &&
+      parsed.paths.every((pat, i) => matchSegments(pat, parts, parsed.anchored[i]!)) &&
+      parsed.components.every((f) => matchComponent(comps, f));
+    if (ok) onMatch(node, parts, comps);
+
+    for (const child of node.children ?? []) {
+      if (!child) continue;
+      walk(child, [...parts, child.name || ''], activeInHierarchy);
+    }
+  };
+  walk(root, rootParts, true);
+};
+
+/** 场景根到 node 的名称段（含场景名），与 findNodeByPathSuffix 的路径一致 */
+const pathPartsOf = (node: cc.Node): string[] => {
+  const parts: string[] = [];
+  let cur: cc.Node | null = node;
+  while (cur) {
+    parts.unshift(cur.parent ? cur.name || '' : cur.name || 'main');
+    cur = cur.parent;
+  }
+  return parts;
+};
+
+/** 面板用：命中节点 id 集合（解析失败返回错误文本） */
+export const queryNodeIds = (
+  scene: cc.Node,
+  query: string
+): { ok: true; ids: Set<string> } | { ok: false; error: string } => {
+  const parsed = parseNodeQuery(query);
+  if (!parsed.ok) return parsed;
+  const ids = new Set<string>();
+  forEachQueryMatch(parsed.query, scene, pathPartsOf(scene), (node) => ids.add(getNodeId(node)));
+  return { ok: true, ids };
+};
+
+export const queryNodes = (query: string, options: NodeQueryOptions = {}): NodeQueryResult => {
+  const parsed = parseNodeQuery(query);
+  if (!parsed.ok) return parsed;
+  const resolved = resolveSnapshotRoot(options);
+  if (!resolved.ok) return resolved;
+
+  const limit = Math.max(1, options.limit ?? 500);
+  const matches: NodeQueryMatch[] = [];
+  let total = 0;
+  const { root } = resolved;
+  forEachQueryMatch(parsed.query, root, pathPartsOf(root), (node, parts, comps) => {
+    total += 1;
+    if (matches.length >= limit) return;
+    matches.push({
+      id: getNodeId(node),
+      name: node.name || '(unnamed)',
+      path: parts.join('/'),
+      components: comps.map((c) => getComponentName(c)),
+    });
+  });
+
+  return {
+    ok: true,
+    query: parsed.query.source,
+    total,
+    truncated: total > matches.length,
+    matches,
+  };
+};
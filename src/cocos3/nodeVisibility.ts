@@ -0,0 +1,276 @@
+import {
+  findEnabledComponent,
+  getComponentName,
+  getNodeComponents,
+  isComponentEnabled,
+} from './componentAccess';
+import {
+  getGameCanvas,
+  readNodeWorldRect,
+  worldRectToScreenCss,
+  type WorldRect,
+} from './nodeBoundsOverlay';
+import { selfOpacity } from './nodePick';
+import { isRenderableComponentName } from './renderStats';
+import { findNodeById, getExtraRoots, getNodeId, getSceneRoot } from './sceneTree';
+
+/** 不可见原因 */
+export type HiddenReasonCode =
+  | 'inactive'
+  | 'opacity'
+  | 'zeroScale'
+  | 'zeroSize'
+  | 'masked'
+  | 'offscreen'
+  | 'cameraLayer';
+
+export interface HiddenReason {
+  code: HiddenReasonCode;
+  detail: string;
+}
+
+export interface VisibilityVerdict {
+  nodeId: string;
+  /** 节点自身有启用的渲染组件（Sprite / Label…；带 Mask 的节点只画模板，不算） */
+  renders: boolean;
+  visible: boolean;
+  /** visible 为 false 时的全部原因（按上表顺序） */
+  reasons: HiddenReason[];
+}
+
+/** 祖先链传下来的状态 */
+interface Inherited {
+  inactiveAt: string | null;
+  opacity: number;
+  zeroOpacityAt: string | null;
+  zeroScaleAt: string | null;
+  /** 祖先 Mask 的世界包围盒，自上而下 */
+  masks: Array<{ name: string; rect: WorldRect }>;
+}
+
+interface VisibilityEnv {
+  /** 所有启用相机 visibility 的并集；场景中找不到相机时为 null（不检查） */
+  cameraMask: number | null;
+  canvasRect: { left: number; top: number; right: number; bottom: number } | null;
+}
+
+type UiLike = { contentSize?: { width?: number; height?: number } };
+
+const ROOT_STATE: Inherited = {
+  inactiveAt: null,
+  opacity: 1,
+  zeroOpacityAt: null,
+  zeroScaleAt: null,
+  masks: [],
+};
+
+const intersects = (a: WorldRect, b: WorldRect): boolean =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const nameOf = (node: cc.Node): string => node.name || '(unnamed)';
+
+/** 当前场景还要带上场景外根节点（常驻 / 游离渲染），与场景树一致 */
+const rootsOf = (scene: cc.Node): cc.Node[] =>
+  scene === getSceneRoot() ? [scene, ...getExtraRoots(scene).map((r) => r.node)] : [scene];
+
+/** 场景中启用相机的 visibility 并集 */
+const collectCameraMask = (scene: cc.Node): number | null => {
+  let mask: number | null = null;
+  const walk = (node: cc.Node): void => {
+    if (node.active === false) return;
+    const cam = findEnabledComponent(getNodeComponents(node), 'Camera') as {
+      visibility?: number;
+    } | null;
+    if (cam && typeof cam.visibility === 'number') mask = (mask ?? 0) | cam.visibility;
+    for (const child of node.children ?? []) {
+      if (child) walk(child);
+    }
+  };
+  rootsOf(scene).forEach(walk);
+  return mask;
+};
+
+const buildEnv = (scene: cc.Node): VisibilityEnv => {
+  const canvas = getGameCanvas();
+  const r = canvas?.getBoundingClientRect();
+  return {
+    cameraMask: collectCameraMask(scene),
+    canvasRect:
+      r && r.width > 0 ? { left: r.left, top: r.top, right: r.right, bottom: r.bottom } : null,
+  };
+};
+
+/** 单个节点的判定，并返回传给子节点的状态 */
+const evaluate = (
+  node: cc.Node,
+  parent: Inherited,
+  env: VisibilityEnv
+): { verdict: VisibilityVerdict; inherited: Inherited } => {
+  const comps = getNodeComponents(node);
+  const scale = (node as cc.Node & { scale?: { x?: number; y?: number } }).scale;
+  const opacity = parent.opacity * selfOpacity(comps);
+  const mask = findEnabledComponent(comps, 'Mask');
+  const ui = findEnabledComponent(comps, 'UITransform') as UiLike | null;
+  const rect = readNodeWorldRect(node, comps);
+
+  const inherited: Inherited = {
+    inactiveAt: parent.inactiveAt ?? (node.active === false ? nameOf(node) : null),
+    opacity,
+    zeroOpacityAt: parent.zeroOpacityAt ?? (opacity <= 0 ? nameOf(node) : null),
+    zeroScaleAt:
+      parent.zeroScaleAt ?? (scale && (scale.x === 0 || scale.y === 0) ? nameOf(node) : null),
+    masks: mask && rect ? [...parent.masks, { name: nameOf(node), rect }] : parent.masks,
+  };
+
+  const reasons: HiddenReason[] = [];
+  if (inherited.inactiveAt) {
+    reasons.push({ code: 'inactive', detail: `${inherited.inactiveAt} 未激活` });
+  }
+  if (inherited.zeroOpacityAt) {
+    reasons.push({ code: 'opacity', detail: `UIOpacity 为 0（${inherited.zeroOpacityAt}）` });
+  }
+  if (inherited.zeroScaleAt) {
+    reasons.push({ code: 'zeroScale', detail: `缩放为 0（${inherited.zeroScaleAt}）` });
+  }
+
+  const renders =
+    !mask &&
+    comps.some((c) => isComponentEnabled(c) && isRenderableComponentName(getComponentName(c)));
+  if (renders) {
+    const w = ui?.contentSize?.width;
+    const h = ui?.contentSize?.height;
+    if (w === 0 || h === 0) {
+      reasons.push({ code: 'zeroSize', detail: `UITransform 尺寸为 ${w ?? '?'}×${h ?? '?'}` });
+    }
+    if (rect && rect.width > 0 && rect.height > 0) {
+      const clip = parent.masks.find((m) => !intersects(m.rect, rect));
+      if (clip) reasons.push({ code: 'masked', detail: `在 Mask ${clip.name} 区域外` });
+      const css = env.canvasRect ? worldRectToScreenCss(rect) : null;
+      const c = env.canvasRect;
+      if (
+        css &&
+        c &&
+        (css.left >= c.right ||
+          css.left + css.width <= c.left ||
+          css.top >= c.bottom ||
+          css.top + css.height <= c.top)
+      ) {
+        reasons.push({ code: 'offscreen', detail: '包围盒在画布外' });
+      }
+    }
+    const layer = (node as cc.Node & { layer?: number }).layer;
+    if (env.cameraMask !== null && typeof layer === 'number' && (layer & env.cameraMask) === 0) {
+      reasons.push({
+        code: 'cameraLayer',
+        detail: `layer 0x${layer.toString(16)} 不在任何相机的 Visibility 中`,
+      });
+    }
+  }
+
+  return {
+    verdict: { nodeId: getNodeId(node), renders, visible: reasons.length === 0, reasons },
+    inherited,
+  };
+};
+
+/** 整个场景逐节点判定（一次遍历），nodeId → 结论 */
+export const analyzeSceneVisibility = (
+  scene: cc.Node | null = getSceneRoot()
+): Map<string, VisibilityVerdict> => {
+  const out = new Map<string, VisibilityVerdict>();
+  if (!scene) return out;
+  const env = buildEnv(scene);
+  const walk = (node: cc.Node, parent: Inherited): void => {
+    const { verdict, inherited } = evaluate(node, parent, env);
+    out.set(verdict.nodeId, verdict);
+    for (const child of node.children ?? []) {
+      if (child) walk(child, inherited);
+    }
+  };
+  for (const root of rootsOf(scene)) walk(root, ROOT_STATE);
+  return out;
+};
+
+/** 单个节点：只沿祖先链判定 */
+export const explainNodeVisibility = (nodeId: string): VisibilityVerdict | null => {
+  const scene = getSceneRoot();
+  const node = scene ? findNodeById(scene, nodeId) : null;
+  if (!scene || !node) return null;
+  const chain: cc.Node[] = [];
+  for (let cur: cc.Node | null = node; cur; cur = cur.parent) chain.unshift(cur);
+
+  const env = buildEnv(scene);
+  let state = ROOT_STATE;
+  let verdict: VisibilityVerdict | null = null;
+  for (const cur of chain) {
+    const res = evaluate(cur, state, env);
+    state = res.inherited;
+    verdict = res.verdict;
+  }
+  return verdict;
+};
+
+export const formatVisibility = (v: VisibilityVerdict): string =>
+  v.visible
+    ? v.renders
+      ? '可见'
+      : '可见（自身不渲染）'
+    : `不可见：${v.reasons.map((r) => r.detail).join('；')}`;
+
+/** 激活但看不见的渲染节点（树面板标记用；未激活的已有删除线） */
+export const isActiveButHidden = (v: VisibilityVerdict | undefined): boolean =>
+  !!v && v.renders && !v.visible && !v.reasons.some((r) => r.code === 'inactive');
+
+export type VisibilityReport =
+  | {
+      ok: true;
+      /** 场景中渲染节点总数 / 其中不可见数（含未激活） */
+      renderCount: number;
+      hiddenCount: number;
+      /** 各原因命中的节点数 */
+      byReason: Partial<Record<HiddenReasonCode, number>>;
+      /** 激活但看不见的渲染节点（未激活的只计数不列出） */
+      nodes: Array<{ id: string; name: string; path: string; reasons: HiddenReason[] }>;
+      truncated: boolean;
+    }
+  | { ok: false; error: string };
+
+/** MCP 用：全场景可见性汇总 */
+export const reportSceneVisibility = (limit = 200): VisibilityReport => {
+  const scene = getSceneRoot();
+  if (!scene) return { ok: false, error: '场景未就绪' };
+  const env = buildEnv(scene);
+  const byReason: Partial<Record<HiddenReasonCode, number>> = {};
+  const nodes: Array<{ id: string; name: string; path: string; reasons: HiddenReason[] }> = [];
+  let renderCount = 0;
+  let hiddenCount = 0;
+  let listed = 0;
+
+  const walk = (node: cc.Node, parts: string[], parent: Inherited): void => {
+    const { verdict, inherited } = evaluate(node, parent, env);
+    if (verdict.renders) {
+      renderCount += 1;
+      if (!verdict.visible) {
+        hiddenCount += 1;
+        for (const r of verdict.reasons) byReason[r.code] = (byReason[r.code] ?? 0) + 1;
+      }
+      if (isActiveButHidden(verdict)) {
+        listed += 1;
+        if (nodes.length < limit) {
+          nodes.push({
+            id: verdict.nodeId,
+            name: nameOf(node),
+            path: parts.join('/'),
+            reasons: verdict.reasons,
+          });
+        }
+      }
+    }
+    for (const child of node.children ?? []) {
+      if (child) walk(child, [...parts, child.name || ''], inherited);
+    }
+  };
+  for (const root of rootsOf(scene)) walk(root, [root.name || 'main'], ROOT_STATE);
+
+  return { ok: true, renderCount, hiddenCount, byReason, nodes, truncated: listed > nodes.length };
+};
@@ -0,0 +1,659 @@
+import JSZip from 'jszip';
+import { getComponentName, getNodeComponents } from './componentAccess';
+import { findNodeById, getSceneRoot } from './sceneTree';
+import {
+  extractAtlasFramePixels,
+  extractFullTexturePixels,
+  resolveDisplaySize,
+  resolveFrameRect,
+  type SpriteFrameRuntime,
+  type TextureRuntime,
+} from './textureExtract';
+import { textureResultToPngBlob, triggerBlobDownload } from './texturePng';
+
+type CompRecord = Record<string, unknown>;
+
+export interface ParticleExportFileEntry {
+  path: string;
+  bytes: number;
+  method?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface ParticleExportResult {
+  ok: boolean;
+  zipName: string;
+  zipBlob?: Blob;
+  /** 2d：ParticleSystem2D（.plist）；3d：ParticleSystem（模块 JSON） */
+  kind?: '2d' | '3d';
+  files: ParticleExportFileEntry[];
+  log: string[];
+  error?: string;
+}
+
+export interface ParticleExportZipData {
+  zipBase64: string;
+  zipName: string;
+  kind: '2d' | '3d';
+  files: ParticleExportFileEntry[];
+  log: string[];
+}
+
+const sanitize = (name: string): string =>
+  name.replace(/[<>:"/\\|?*\s]+/g, '_').replace(/_+/g, '_') || 'particle';
+
+const isParticle2D = (comp: unknown): boolean =>
+  /(^|\.)ParticleSystem2D$/.test(getComponentName(comp));
+
+const isParticle3D = (comp: unknown): boolean =>
+  /(^|\.)ParticleSystem$/.test(getComponentName(comp));
+
+/** 收集节点上的粒子组件（2D/3D 混排，顺序与 Inspector 一致） */
+const getParticleComps = (node: cc.Node): CompRecord[] => {
+  return getNodeComponents(node).filter((c) => isParticle2D(c) || isParticle3D(c)) as CompRecord[];
+};
+
+const read = (obj: CompRecord | null | undefined, key: string): unknown =>
+  obj ? obj[key] ?? obj[`_${key}`] : undefined;
+
+const num = (v: unknown, fallback = 0): number => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const assetName = (asset: unknown): string => {
+  const rec = asset as { name?: string; _name?: string } | null | undefined;
+  return String(rec?.name || rec?._name || '');
+};
+
+/** gfx.BlendFactor → GL 常量（plist 约定 770/771 等） */
+const GFX_TO_GL_BLEND = [0, 1, 770, 772, 771, 773, 768, 774, 769, 775, 776];
+
+const toGlBlend = (v: unknown, fallback: number): number => {
+  const n = num(v, -1);
+  if (n < 0) return fallback;
+  if (n >= 768) return n;
+  return GFX_TO_GL_BLEND[n] ?? fallback;
+};
+
+// ─── 2D：ParticleSystem2D → Particle Designer 兼容 plist ────────────────
+
+type PlistValue = number | string | boolean;
+
+/** 以 <integer> 输出的 key，其余数值统一为 <real>（与 Particle Designer 一致） */
+const PLIST_INT_KEYS = [
+  'maxParticles',
+  'blendFuncSource',
+  'blendFuncDestination',
+  'positionType',
+  'emitterType',
+];
+
+const escapeXml = (s: string): string =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const buildPlistXml = (dict: Array<[string, PlistValue]>): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" ' +
+      '"http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    '<dict>',
+  ];
+  for (const [key, value] of dict) {
+    lines.push(`  <key>${escapeXml(key)}</key>`);
+    if (typeof value === 'boolean') {
+      lines.push(value ? '  <true/>' : '  <false/>');
+    } else if (typeof value === 'string') {
+      lines.push(`  <string>${escapeXml(value)}</string>`);
+    } else if (PLIST_INT_KEYS.indexOf(key) >= 0) {
+      lines.push(`  <integer>${Math.round(value)}</integer>`);
+    } else {
+      lines.push(`  <real>${Number(value.toFixed(6))}</real>`);
+    }
+  }
+  lines.push('</dict>', '</plist>', '');
+  return lines.join('\n');
+};
+
+const colorEntries = (
+  prefix: string,
+  color: unknown
+): Array<[string, PlistValue]> => {
+  const c = (color ?? {}) as { r?: number; g?: number; b?: number; a?: number };
+  // plist 颜色分量为 0–1 浮点，引擎加载时乘回 255
+  const ch = (v: number | undefined, fallback: number): number =>
+    Number((num(v, fallback) / 255).toFixed(6));
+  return [
+    [`${prefix}Red`, ch(c.r, 255)],
+    [`${prefix}Green`, ch(c.g, 255)],
+    [`${prefix}Blue`, ch(c.b, 255)],
+    [`${prefix}Alpha`, ch(c.a, 255)],
+  ];
+};
+
+const vec2Of = (v: unknown): { x: number; y: number } => {
+  const rec = (v ?? {}) as { x?: number; y?: number };
+  return { x: num(rec.x), y: num(rec.y) };
+};
+
+/** 字段名与 ParticleSystem2D._initWithDictionary 读取的 key 一一对应 */
+const buildPlistDict = (
+  comp: CompRecord,
+  textureFileName: string
+): Array<[string, PlistValue]> => {
+  const gravity = vec2Of(read(comp, 'gravity'));
+  const sourcePos = vec2Of(read(comp, 'sourcePos'));
+  const posVar = vec2Of(read(comp, 'posVar'));
+  const dict: Array<[string, PlistValue]> = [
+    ['maxParticles', Math.round(num(read(comp, 'totalParticles'), 150))],
+    ['duration', num(read(comp, 'duration'), -1)],
+    ['emissionRate', num(read(comp, 'emissionRate'), 10)],
+    ['particleLifespan', num(read(comp, 'life'), 1)],
+    ['particleLifespanVariance', num(read(comp, 'lifeVar'))],
+    ['angle', num(read(comp, 'angle'), 90)],
+    ['angleVariance', num(read(comp, 'angleVar'))],
+    ['blendFuncSource', toGlBlend(read(comp, 'srcBlendFactor'), 770)],
+    ['blendFuncDestination', toGlBlend(read(comp, 'dstBlendFactor'), 771)],
+    ...colorEntries('startColor', read(comp, 'startColor')),
+    ...colorEntries('startColorVariance', read(comp, 'startColorVar')),
+    ...colorEntries('finishColor', read(comp, 'endColor')),
+    ...colorEntries('finishColorVariance', read(comp, 'endColorVar')),
+    ['startParticleSize', num(read(comp, 'startSize'))],
+    ['startParticleSizeVariance', num(read(comp, 'startSizeVar'))],
+    ['finishParticleSize', num(read(comp, 'endSize'))],
+    ['finishParticleSizeVariance', num(read(comp, 'endSizeVar'))],
+    ['sourcePositionx', sourcePos.x],
+    ['sourcePositiony', sourcePos.y],
+    ['sourcePositionVariancex', posVar.x],
+    ['sourcePositionVariancey', posVar.y],
+    ['rotationStart', num(read(comp, 'startSpin'))],
+    ['rotationStartVariance', num(read(comp, 'startSpinVar'))],
+    ['rotationEnd', num(read(comp, 'endSpin'))],
+    ['rotationEndVariance', num(read(comp, 'endSpinVar'))],
+    ['positionType', Math.round(num(read(comp, 'positionType')))],
+    ['emitterType', Math.round(num(read(comp, 'emitterMode')))],
+    // 重力模式
+    ['gravityx', gravity.x],
+    ['gravityy', gravity.y],
+    ['speed', num(read(comp, 'speed'))],
+    ['speedVariance', num(read(comp, 'speedVar'))],
+    ['radialAcceleration', num(read(comp, 'radialAccel'))],
+    ['radialAccelVariance', num(read(comp, 'radialAccelVar'))],
+    ['tangentialAcceleration', num(read(comp, 'tangentialAccel'))],
+    ['tangentialAccelVariance', num(read(comp, 'tangentialAccelVar'))],
+    ['rotationIsDir', !!read(comp, 'rotationIsDir')],
+    // 半径模式
+    ['maxRadius', num(read(comp, 'startRadius'))],
+    ['maxRadiusVariance', num(read(comp, 'startRadiusVar'))],
+    ['minRadius', num(read(comp, 'endRadius'))],
+    ['minRadiusVariance', num(read(comp, 'endRadiusVar'))],
+    ['rotatePerSecond', num(read(comp, 'rotatePerS'))],
+    ['rotatePerSecondVariance', num(read(comp, 'rotatePerSVar'))],
+  ];
+  if (textureFileName) dict.push(['textureFileName', textureFileName]);
+  return dict;
+};
+
+/** 粒子贴图：优先按 spriteFrame 裁帧（可能在图集内），否则导出整张纹理 */
+const extractSpriteFramePng = async (
+  frame: SpriteFrameRuntime
+): Promise<{ png: Blob; method: string; width: number; height: number } | null> => {
+  const texture = frame.texture ?? frame._texture;
+  if (!texture) return null;
+  const texW = Math.floor(texture.width ?? 0);
+  const texH = Math.floor(texture.height ?? 0);
+  const display = resolveDisplaySize(frame, resolveFrameRect(frame, texW, texH));
+  const result = await extractAtlasFramePixels(frame, { w: texW, h: texH }, display);
+  const png = result ? textureResultToPngBlob(result) : null;
+  if (!result || !png) return null;
+  return {
+    png,
+    method: result.method,
+    width: result.imageData.width,
+    height: result.imageData.height,
+  };
+};
+
+const extractTexturePng = async (
+  texture: TextureRuntime
+): Promise<{ png: Blob; method: string; width: number; height: number } | null> => {
+  const result = await extractFullTexturePixels(texture);
+  const png = result ? textureResultToPngBlob(result) : null;
+  if (!result || !png) return null;
+  return {
+    png,
+    method: result.method,
+    width: result.imageData.width,
+    height: result.imageData.height,
+  };
+};
+
+// ─── 3D：ParticleSystem 模块配置 → JSON ─────────────────────────────────
+
+const MAIN_PROPS_3D = [
+  'duration',
+  'capacity',
+  'loop',
+  'playOnAwake',
+  'prewarm',
+  'simulationSpace',
+  'scaleSpace',
+  'simulationSpeed',
+  'startDelay',
+  'startLifetime',
+  'startColor',
+  'startSize3D',
+  'startSizeX',
+  'startSizeY',
+  'startSizeZ',
+  'startSpeed',
+  'startRotation3D',
+  'startRotationX',
+  'startRotationY',
+  'startRotationZ',
+  'gravityModifier',
+  'rateOverTime',
+  'rateOverDistance',
+  'bursts',
+  'dataCulling',
+  'renderCulling',
+];
+
+const MODULES_3D = [
+  'shapeModule',
+  'colorOverLifetimeModule',
+  'sizeOvertimeModule',
+  'velocityOvertimeModule',
+  'forceOvertimeModule',
+  'limitVelocityOvertimeModule',
+  'rotationOvertimeModule',
+  'textureAnimationModule',
+  'noiseModule',
+  'trailModule',
+];
+
+const RENDERER_PROPS_3D = [
+  'renderMode',
+  'velocityScale',
+  'lengthScale',
+  'alignSpace',
+  'useGPU',
+  'mesh',
+  'particleMaterial',
+  'trailMaterial',
+];
+
+/** 模块内指回粒子系统/节点的字段，序列化时跳过 */
+const BACK_REF_KEYS = /^_?(particleSystem|psys|system|target|node|model|processor)$/;
+
+const isAssetLike = (v: CompRecord): boolean =>
+  typeof v._uuid === 'string' ||
+  /Asset|Texture|Material|Mesh|SpriteFrame|EffectAsset/.test(getComponentName(v));
+
+/**
+ * 运行时对象 → 纯 JSON：CurveRange / GradientRange / RealCurve 等按自有字段展开，
+ * 私有字段去掉前导 `_`；资源只记名称与 uuid。
+ */
+const toPlain = (value: unknown, depth: number, seen: Set<unknown>): unknown => {
+  if (value === null || value === undefined) return null;
+  const t = typeof value;
+  if (t === 'number') return Number.isFinite(value as number) ? value : null;
+  if (t === 'string' || t === 'boolean') return value;
+  if (t !== 'object') return null;
+  if (seen.has(value)) return '[circular]';
+  if (depth <= 0) return '[depth]';
+
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+    seen.add(value);
+    const out = Array.from(value as ArrayLike<unknown>).map((v) =>
+      toPlain(v, depth - 1, seen)
+    );
+    seen.delete(value);
+    return out;
+  }
+
+  const rec = value as CompRecord;
+  // 节点 / 组件引用（有 _components 或挂在 node 上）只记名称
+  if (Array.isArray(rec._components) || (rec.node && typeof rec.enabled === 'boolean')) {
+    return { __ref__: getComponentName(rec), name: assetName(rec) };
+  }
+  if (isAssetLike(rec)) {
+    return {
+      __asset__: getComponentName(rec),
+      name: assetName(rec),
+      uuid: String(rec._uuid ?? ''),
+    };
+  }
+
+  // RealCurve（3.x spline）：_times + _values(RealKeyframeValue)
+  if (Array.isArray(rec._times) && Array.isArray(rec._values)) {
+    const times = rec._times as number[];
+    const values = rec._values as CompRecord[];
+    const curveType = getComponentName(rec);
+    return {
+      ...(curveType !== 'Object' ? { __type__: curveType } : {}),
+      keyframes: times.map((time, i) => ({
+        time,
+        value: num(values[i]?.value),
+        inTangent: num(values[i]?.leftTangent),
+        outTangent: num(values[i]?.rightTangent),
+      })),
+    };
+  }
+
+  seen.add(value);
+  const out: CompRecord = {};
+  const type = getComponentName(rec);
+  if (type !== 'Object') out.__type__ = type;
+  for (const key of Object.keys(rec)) {
+    if (BACK_REF_KEYS.test(key)) continue;
+    const v = rec[key];
+    if (typeof v === 'function') continue;
+    const name = key.charAt(0) === '_' ? key.slice(1) : key;
+    if (!name || name.charAt(0) === '_' || name in out) continue;
+    out[name] = toPlain(v, depth - 1, seen);
+  }
+  seen.delete(value);
+  return out;
+};
+
+const plainOf = (v: unknown): unknown => toPlain(v, 8, new Set());
+
+/** 材质主贴图（mainTexture / albedoMap），读不到返回 null */
+const getMaterialTexture = (material: unknown): TextureRuntime | null => {
+  const mat = material as {
+    getProperty?: (name: string, passIdx?: number) => unknown;
+  } | null;
+  if (!mat?.getProperty) return null;
+  for (const prop of ['mainTexture', 'albedoMap', 'diffuseMap']) {
+    try {
+      const tex = mat.getProperty(prop) as TextureRuntime | null | undefined;
+      if (tex && typeof tex === 'object') return tex;
+    } catch {
+      // 该 pass 无此属性
+    }
+  }
+  return null;
+};
+
+interface Particle3DTexture {
+  slot: string;
+  texture: TextureRuntime;
+}
+
+const collect3DTextures = (comp: CompRecord): Particle3DTexture[] => {
+  const renderer = read(comp, 'renderer') as CompRecord | undefined;
+  const slots: Array<[string, unknown]> = [
+    ['renderer.particleMaterial', read(renderer, 'particleMaterial')],
+    ['renderer.trailMaterial', read(renderer, 'trailMaterial')],
+  ];
+  const shared = (comp.sharedMaterials ?? comp._materials) as unknown[] | undefined;
+  (shared ?? []).forEach((m, i) => slots.push([`sharedMaterials[${i}]`, m]));
+
+  const out: Particle3DTexture[] = [];
+  const seenTex = new Set<unknown>();
+  for (const [slot, material] of slots) {
+    const texture = getMaterialTexture(material);
+    if (!texture || seenTex.has(texture)) continue;
+    seenTex.add(texture);
+    out.push({ slot, texture });
+  }
+  return out;
+};
+
+const build3DConfig = (comp: CompRecord): CompRecord => {
+  const main: CompRecord = {};
+  for (const key of MAIN_PROPS_3D) {
+    const v = read(comp, key);
+    if (v !== undefined) main[key] = plainOf(v);
+  }
+  const modules: CompRecord = {};
+  for (const key of MODULES_3D) {
+    const mod = read(comp, key);
+    if (mod !== undefined) modules[key] = plainOf(mod);
+  }
+  const renderer = read(comp, 'renderer') as CompRecord | undefined;
+  const rendererOut: CompRecord = {};
+  for (const key of RENDERER_PROPS_3D) {
+    const v = read(renderer, key);
+    if (v !== undefined) rendererOut[key] = plainOf(v);
+  }
+  return { main, modules, renderer: rendererOut };
+};
+
+// ─── 导出入口 ──────────────────────────────────────────────────────────
+
+export const exportParticleFromNode = async (
+  nodeId: string,
+  particleIndex = 0
+): Promise<ParticleExportResult> => {
+  const log: string[] = [];
+  const files: ParticleExportFileEntry[] = [];
+
+  try {
+    const scene = getSceneRoot();
+    if (!scene) {
+      return { ok: false, zipName: '', files, log, error: '场景未就绪' };
+    }
+
+    const node = findNodeById(scene, nodeId);
+    if (!node) {
+      return { ok: false, zipName: '', files, log, error: '节点不存在' };
+    }
+
+    const comps = getParticleComps(node);
+    if (comps.length === 0) {
+      return { ok: false, zipName: '', files, log, error: '节点无粒子组件' };
+    }
+
+    const comp = comps[particleIndex];
+    if (!comp) {
+      return { ok: false, zipName: '', files, log, error: '粒子组件索引无效' };
+    }
+
+    const kind: '2d' | '3d' = isParticle2D(comp) ? '2d' : '3d';
+    const compClass = getComponentName(comp);
+    const nodeName = node.name || 'node';
+    const file = read(comp, 'file');
+    const baseName = sanitize(assetName(file) || nodeName);
+    const zipName = `${sanitize(nodeName)}_${baseName}_particle.zip`;
+    const zip = new JSZip();
+    const prefix = `${baseName}/`;
+
+    log.push(`节点 ${nodeName}(${nodeId}) · ${compClass} · ${kind.toUpperCase()}`);
+
+    const addPng = (
+      path: string,
+      res: { png: Blob; method: string; width: number; height: number }
+    ): void => {
+      zip.file(path, res.png);
+      files.push({
+        path,
+        bytes: res.png.size,
+        method: res.method,
+        width: res.width,
+        height: res.height,
+      });
+      log.push(`纹理 ${path} ${res.width}×${res.height} · ${res.method}`);
+    };
+
+    const readmeLines = ['Cocos Inspector — 粒子导出包', ''];
+
+    if (kind === '2d') {
+      // 贴图：spriteFrame 优先，旧版仅有 texture
+      const frame = read(comp, 'spriteFrame') as SpriteFrameRuntime | null | undefined;
+      const texture = read(comp, 'texture') as TextureRuntime | null | undefined;
+      const texBase = sanitize(assetName(frame) || assetName(texture) || baseName);
+      const pngName = `${texBase}.png`;
+      let textureFileName = '';
+      const png = frame
+        ? await extractSpriteFramePng(frame)
+        : texture
+          ? await extractTexturePng(texture)
+          : null;
+      if (png) {
+        addPng(`${prefix}${pngName}`, png);
+        textureFileName = pngName;
+      } else {
+        log.push(
+          frame || texture ? '警告: 粒子贴图提取失败' : '警告: 粒子未绑定 spriteFrame'
+        );
+      }
+
+      const plist = buildPlistXml(buildPlistDict(comp, textureFileName));
+      const plistPath = `${prefix}${baseName}.plist`;
+      zip.file(plistPath, plist);
+      files.push({ path: plistPath, bytes: plist.length, method: 'rebuilt' });
+      log.push(
+        `配置 ${plistPath} · ${read(comp, 'custom') ? '自定义参数' : '来自 ParticleAsset'}`
+      );
+
+      readmeLines.push(
+        '目录结构（解压到 Creator 工程 assets 下任意文件夹）：',
+        `  ${baseName}/${baseName}.plist`,
+        textureFileName ? `  ${baseName}/${textureFileName}` : '  （无贴图）',
+        '',
+        'Creator 导入：',
+        '  1. 保持 .plist 与 png 同目录（plist 内 textureFileName 已指向该 png）',
+        '  2. 拖入资源管理器，Creator 识别为 ParticleAsset',
+        '  3. 节点添加 ParticleSystem2D，File 指向该 plist（Custom 保持关闭）',
+        '',
+        '注：plist 由运行时组件参数重建（含运行中被脚本修改的值），',
+        'blendFunc 已换算为 GL 常量（770/771 等），与 Particle Designer 一致。'
+      );
+    } else {
+      const config = build3DConfig(comp);
+      const textures: Array<{ slot: string; file: string | null }> = [];
+      const usedNames = new Set<string>();
+      for (const { slot, texture } of collect3DTextures(comp)) {
+        const base = sanitize(assetName(texture) || 'texture');
+        let name = base;
+        for (let i = 2; usedNames.has(name); i++) name = `${base}_${i}`;
+        usedNames.add(name);
+        const png = await extractTexturePng(texture);
+        if (png) {
+          addPng(`${prefix}${name}.png`, png);
+          textures.push({ slot, file: `${name}.png` });
+        } else {
+          log.push(`警告: ${slot} 贴图提取失败`);
+          textures.push({ slot, file: null });
+        }
+      }
+      if (textures.length === 0) log.push('警告: 材质上未读取到主贴图');
+
+      const json = JSON.stringify(
+        {
+          version: 1,
+          component: compClass,
+          nodeName,
+          ...config,
+          textures,
+        },
+        null,
+        2
+      );
+      const jsonPath = `${prefix}${baseName}.particle3d.json`;
+      zip.file(jsonPath, json);
+      files.push({ path: jsonPath, bytes: json.length, method: 'runtime' });
+      log.push(
+        `配置 ${jsonPath} · 模块 ${Object.keys(config.modules as CompRecord).length}`
+      );
+
+      readmeLines.push(
+        '目录结构：',
+        `  ${baseName}/${baseName}.particle3d.json`,
+        ...textures.filter((t) => t.file).map((t) => `  ${baseName}/${t.file}`),
+        '',
+        'Creator 还原：',
+        '  3D 粒子参数保存在场景/预制体中，没有独立资源格式，需手动还原：',
+        '  1. 将 png 拖入资源管理器，新建粒子材质（builtin-particle）并设置 mainTexture',
+        '  2. 节点添加 ParticleSystem，Renderer 的 ParticleMaterial 指向该材质',
+        '  3. 按 JSON 中 main / modules / renderer 逐项填写，字段名与属性检查器一致',
+        '',
+        '注：CurveRange / GradientRange 按 mode 展开，曲线为 keyframes（time/value/切线）；',
+        '资源字段只记录名称与 uuid，textures 说明每张 png 来自哪个材质槽位。'
+      );
+    }
+
+    if (files.length === 0) {
+      return { ok: false, zipName, kind, files, log, error: '未导出任何文件' };
+    }
+
+    const manifest = {
+      exporter: 'cocos-inspector-particle-v1',
+      engineVersion: window.cc?.ENGINE_VERSION ?? '3.x',
+      nodeId,
+      nodeName,
+      component: compClass,
+      kind,
+      particleAsset: assetName(file) || null,
+      exportedAt: new Date().toISOString(),
+      files,
+      log,
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    zip.file('IMPORT_README.txt', readmeLines.join('\n'));
+
+    const zipBlob = await zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+    });
+
+    console.log(
+      `[粒子导出] ${nodeName}(${nodeId}) ${compClass} · ${files.length} 文件`
+    );
+
+    return { ok: true, zipName, zipBlob, kind, files, log };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error('[粒子导出] exportParticleFromNode 失败', error);
+    return { ok: false, zipName: '', files, log, error: msg };
+  }
+};
+
+export const downloadParticleExport = async (
+  nodeId: string,
+  particleIndex = 0
+): Promise<ParticleExportResult> => {
+  const result = await exportParticleFromNode(nodeId, particleIndex);
+  if (result.ok && result.zipBlob && result.zipName) {
+    triggerBlobDownload(result.zipBlob, result.zipName);
+  }
+  return result;
+};
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.indexOf(',') >= 0 ? dataUrl.split(',')[1]! : dataUrl);
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** 粒子导出 zip（base64），供 MCP 写入磁盘 */
+export const exportParticleZipData = async (
+  nodeId: string,
+  particleIndex = 0
+): Promise<{ ok: true; data: ParticleExportZipData } | { ok: false; error: string }> => {
+  const result = await exportParticleFromNode(nodeId, particleIndex);
+  if (!result.ok || !result.zipBlob || !result.kind) {
+    return { ok: false, error: result.error ?? '粒子导出失败' };
+  }
+  return {
+    ok: true,
+    data: {
+      zipBase64: await blobToBase64(result.zipBlob),
+      zipName: result.zipName,
+      kind: result.kind,
+      files: result.files,
+      log: result.log,
+    },
+  };
+};
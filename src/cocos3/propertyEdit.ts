@@ -0,0 +1,551 @@
+import {
+  getCompId,
+  getComponentName,
+  getNodeComponents,
+  shortTypeName,
+} from './componentAccess';
+import { findNodeByPathSuffix } from './nodeBoundsOverlay';
+import { findNodeById, getNodeId, getSceneRoot } from './sceneTree';
+
+/** 可编辑属性的值类型 */
+export type EditValueKind =
+  | 'number'
+  | 'boolean'
+  | 'color'
+  | 'vec2'
+  | 'vec3'
+  | 'enum'
+  | 'string';
+
+export type ColorValue = { r: number; g: number; b: number; a: number };
+export type Vec2Value = { x: number; y: number };
+export type Vec3Value = { x: number; y: number; z: number };
+export type EditValue =
+  | number
+  | boolean
+  | string
+  | ColorValue
+  | Vec2Value
+  | Vec3Value;
+
+export interface EnumOption {
+  value: number;
+  label: string;
+}
+
+/** Inspector 行的编辑描述：写回哪个属性、用什么控件 */
+export interface InspectEditSpec {
+  prop: string;
+  kind: EditValueKind;
+  value: EditValue;
+  options?: EnumOption[];
+  step?: number;
+}
+
+/** compId 取该值时表示写 Node 自身属性 */
+export const NODE_TARGET_ID = 'node';
+
+export type PropertyEditResult =
+  | {
+      ok: true;
+      nodeId: string;
+      nodeName: string;
+      component: string;
+      prop: string;
+      before: EditValue;
+      after: EditValue;
+    }
+  | { ok: false; error: string };
+
+interface UndoEntry {
+  nodeId: string;
+  compId: string;
+  component: string;
+  prop: string;
+  kind: EditValueKind;
+  before: EditValue;
+}
+
+const UNDO_LIMIT = 50;
+const undoStack: UndoEntry[] = [];
+
+type Rec = Record<string, unknown>;
+
+const opts = (pairs: Array<[number, string]>): EnumOption[] =>
+  pairs.map(([value, label]) => ({ value, label }));
+
+/** 常用引擎枚举（组件短名.属性） */
+const ENUM_OPTIONS: Record<string, EnumOption[]> = {
+  'Sprite.type': opts([
+    [0, 'SIMPLE'],
+    [1, 'SLICED'],
+    [2, 'TILED'],
+    [3, 'FILLED'],
+  ]),
+  'Sprite.sizeMode': opts([
+    [0, 'CUSTOM'],
+    [1, 'TRIMMED'],
+    [2, 'RAW'],
+  ]),
+  'Label.overflow': opts([
+    [0, 'NONE'],
+    [1, 'CLAMP'],
+    [2, 'SHRINK'],
+    [3, 'RESIZE_HEIGHT'],
+  ]),
+  'Label.horizontalAlign': opts([
+    [0, 'LEFT'],
+    [1, 'CENTER'],
+    [2, 'RIGHT'],
+  ]),
+  'Label.verticalAlign': opts([
+    [0, 'TOP'],
+    [1, 'CENTER'],
+    [2, 'BOTTOM'],
+  ]),
+  'Mask.type': opts([
+    [0, 'GRAPHICS_RECT'],
+    [1, 'GRAPHICS_ELLIPSE'],
+    [2, 'GRAPHICS_STENCIL'],
+    [3, 'SPRITE_STENCIL'],
+  ]),
+  'Widget.alignMode': opts([
+    [0, 'ONCE'],
+    [1, 'ON_WINDOW_RESIZE'],
+    [2, 'ALWAYS'],
+  ]),
+  'Button.transition': opts([
+    [0, 'NONE'],
+    [1, 'COLOR'],
+    [2, 'SPRITE'],
+    [3, 'SCALE'],
+  ]),
+  'Sprite.fillType': opts([
+    [0, 'HORIZONTAL'],
+    [1, 'VERTICAL'],
+    [2, 'RADIAL'],
+  ]),
+  'Label.cacheMode': opts([
+    [0, 'NONE'],
+    [1, 'BITMAP'],
+    [2, 'CHAR'],
+  ]),
+  'RichText.horizontalAlign': opts([
+    [0, 'LEFT'],
+    [1, 'CENTER'],
+    [2, 'RIGHT'],
+  ]),
+  'RichText.verticalAlign': opts([
+    [0, 'TOP'],
+    [1, 'CENTER'],
+    [2, 'BOTTOM'],
+  ]),
+  'Layout.type': opts([
+    [0, 'NONE'],
+    [1, 'HORIZONTAL'],
+    [2, 'VERTICAL'],
+    [3, 'GRID'],
+  ]),
+  'Layout.resizeMode': opts([
+    [0, 'NONE'],
+    [1, 'CONTAINER'],
+    [2, 'CHILDREN'],
+  ]),
+  'Layout.startAxis': opts([
+    [0, 'HORIZONTAL'],
+    [1, 'VERTICAL'],
+  ]),
+  'Layout.constraint': opts([
+    [0, 'NONE'],
+    [1, 'FIXED_ROW'],
+    [2, 'FIXED_COL'],
+  ]),
+  'Layout.horizontalDirection': opts([
+    [0, 'LEFT_TO_RIGHT'],
+    [1, 'RIGHT_TO_LEFT'],
+  ]),
+  'Layout.verticalDirection': opts([
+    [0, 'BOTTOM_TO_TOP'],
+    [1, 'TOP_TO_BOTTOM'],
+  ]),
+  'Graphics.lineJoin': opts([
+    [0, 'BEVEL'],
+    [1, 'ROUND'],
+    [2, 'MITER'],
+  ]),
+  'Graphics.lineCap': opts([
+    [0, 'BUTT'],
+    [1, 'ROUND'],
+    [2, 'SQUARE'],
+  ]),
+  'ProgressBar.mode': opts([
+    [0, 'HORIZONTAL'],
+    [1, 'VERTICAL'],
+    [2, 'FILLED'],
+  ]),
+};
+
+export const getEnumOptions = (
+  componentShortName: string,
+  prop: string
+): EnumOption[] | undefined => {
+  const base = componentShortName.replace(/\s*#\d+$/, '');
+  return ENUM_OPTIONS[`${base}.${prop}`];
+};
+
+const num = (v: unknown, fallback = 0): number => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/** 从引擎值推断编辑类型（MCP 按路径写入时无 UI 描述） */
+export const inferEditKind = (value: unknown): EditValueKind | null => {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string') return 'string';
+  if (!value || typeof value !== 'object') return null;
+  const o = value as Rec;
+  if ('r' in o && 'g' in o && 'b' in o) return 'color';
+  if ('x' in o && 'y' in o && 'z' in o) return 'vec3';
+  if ('x' in o && 'y' in o) return 'vec2';
+  if ('width' in o && 'height' in o) return 'vec2';
+  return null;
+};
+
+/** 引擎对象 → 可序列化的纯值（用于撤销与 MCP 返回） */
+export const toPlainValue = (kind: EditValueKind, raw: unknown): EditValue => {
+  const o = (raw ?? {}) as Rec;
+  switch (kind) {
+    case 'number':
+    case 'enum':
+      return num(raw);
+    case 'boolean':
+      return !!raw;
+    case 'string':
+      return raw == null ? '' : String(raw);
+    case 'color':
+      return {
+        r: num(o.r),
+        g: num(o.g),
+        b: num(o.b),
+        a: num(o.a, 255),
+      };
+    case 'vec2':
+      return { x: num(o.x ?? o.width), y: num(o.y ?? o.height) };
+    case 'vec3':
+      return { x: num(o.x), y: num(o.y), z: num(o.z) };
+  }
+};
+
+const capitalize = (s: string): string =>
+  s ? `${s[0]!.toUpperCase()}${s.slice(1)}` : s;
+
+/** 写入引擎：优先 setXxx，其次构造 cc.Color / cc.Vec2 / cc.Vec3 赋值 */
+const writeValue = (
+  target: Rec,
+  prop: string,
+  kind: EditValueKind,
+  value: EditValue
+): void => {
+  const ccg = window.cc as unknown as Rec;
+  const setter = target[`set${capitalize(prop)}`];
+
+  if (kind === 'color') {
+    const c = value as ColorValue;
+    const Color = ccg.Color as
+      | (new (r: number, g: number, b: number, a: number) => unknown)
+      | undefined;
+    const next = Color ? new Color(c.r, c.g, c.b, c.a) : { ...c };
+    if (typeof setter === 'function') {
+      (setter as (v: unknown) => void).call(target, next);
+    } else {
+      target[prop] = next;
+    }
+    return;
+  }
+
+  if (kind === 'vec2' || kind === 'vec3') {
+    const v = value as Vec3Value;
+    const args = kind === 'vec3' ? [v.x, v.y, v.z] : [v.x, v.y];
+    if (typeof setter === 'function') {
+      (setter as (...a: number[]) => void).apply(target, args);
+      return;
+    }
+    const current = target[prop] as Rec | undefined;
+    if (current && 'width' in current && 'height' in current) {
+      const Size = ccg.Size as
+        | (new (w: number, h: number) => unknown)
+        | undefined;
+      target[prop] = Size ? new Size(v.x, v.y) : { width: v.x, height: v.y };
+      return;
+    }
+    const Ctor = (kind === 'vec3' ? ccg.Vec3 : ccg.Vec2) as
+      | (new (...a: number[]) => unknown)
+      | undefined;
+    target[prop] = Ctor
+      ? new Ctor(...args)
+      : kind === 'vec3'
+        ? { ...v }
+        : { x: v.x, y: v.y };
+    return;
+  }
+
+  target[prop] = value;
+};
+
+/** 布尔输入接受的写法（去空白、不区分大小写）；其它值视为无效 */
+const TRUE_WORDS = ['true', '1', 'yes', 'on'];
+const FALSE_WORDS = ['false', '0', 'no', 'off', ''];
+
+/** 外部输入 → 指定类型的值（数字字符串、数组等宽松输入） */
+export const coerceEditValue = (
+  kind: EditValueKind,
+  input: unknown
+): EditValue | null => {
+  switch (kind) {
+    case 'number':
+    case 'enum': {
+      const n = Number(input);
+      return Number.isFinite(n) ? n : null;
+    }
+    case 'boolean': {
+      if (typeof input === 'boolean') return input;
+      if (typeof input !== 'string' && typeof input !== 'number') return null;
+      const key = String(input).trim().toLowerCase();
+      if (TRUE_WORDS.indexOf(key) >= 0) return true;
+      if (FALSE_WORDS.indexOf(key) >= 0) return false;
+      return null;
+    }
+    case 'string':
+      return input == null ? '' : String(input);
+    case 'color': {
+      if (typeof input === 'string') {
+        const m = /^#?([0-9a-f]{6})([0-9a-f]{2})?$/i.exec(input.trim());
+        if (!m) return null;
+        const hex = m[1]!;
+        return {
+          r: parseInt(hex.slice(0, 2), 16),
+          g: parseInt(hex.slice(2, 4), 16),
+          b: parseInt(hex.slice(4, 6), 16),
+          a: m[2] ? parseInt(m[2], 16) : 255,
+        };
+      }
+      if (Array.isArray(input)) {
+        return {
+          r: num(input[0]),
+          g: num(input[1]),
+          b: num(input[2]),
+          a: num(input[3], 255),
+        };
+      }
+      if (input && typeof input === 'object') {
+        return toPlainValue('color', input);
+      }
+      return null;
+    }
+    case 'vec2':
+    case 'vec3': {
+      if (Array.isArray(input)) {
+        return kind === 'vec3'
+          ? { x: num(input[0]), y: num(input[1]), z: num(input[2]) }
+          : { x: num(input[0]), y: num(input[1]) };
+      }
+      if (input && typeof input === 'object') return toPlainValue(kind, input);
+      return null;
+    }
+  }
+};
+
+export type ResolvedEditTarget =
+  | { ok: true; node: cc.Node; compId: string; target: Rec; component: string }
+  | { ok: false; error: string };
+
+/** nodeId + compId → 写入目标（Node 或组件实例） */
+export const resolveEditTarget = (
+  nodeId: string,
+  compId: string
+): ResolvedEditTarget => {
+  const scene = getSceneRoot();
+  if (!scene) return { ok: false, error: '场景未就绪' };
+  const node = findNodeById(scene, nodeId);
+  if (!node) return { ok: false, error: `未找到节点 ${nodeId}` };
+  if (compId === NODE_TARGET_ID) {
+    return {
+      ok: true,
+      node,
+      compId,
+      target: node as unknown as Rec,
+      component: 'Node',
+    };
+  }
+  const comps = getNodeComponents(node);
+  for (let i = 0; i < comps.length; i++) {
+    if (getCompId(comps[i], i) !== compId) continue;
+    return {
+      ok: true,
+      node,
+      compId,
+      target: comps[i] as Rec,
+      component: shortTypeName(getComponentName(comps[i])),
+    };
+  }
+  return { ok: false, error: `节点上未找到组件 ${compId}` };
+};
+
+const applyEdit = (
+  nodeId: string,
+  compId: string,
+  prop: string,
+  kind: EditValueKind,
+  value: EditValue,
+  recordUndo: boolean
+): PropertyEditResult => {
+  const resolved = resolveEditTarget(nodeId, compId);
+  if (!resolved.ok) return resolved;
+  const { node, target, component } = resolved;
+  const nodeName = node.name || '(unnamed)';
+
+  try {
+    const before = toPlainValue(kind, target[prop]);
+    writeValue(target, prop, kind, value);
+
+    // Widget 改边距后需要立即重新对齐
+    const update = (target as { updateAlignment?: () => void }).updateAlignment;
+    if (component === 'Widget' && typeof update === 'function') {
+      update.call(target);
+    }
+
+    const after = toPlainValue(kind, target[prop]);
+    if (recordUndo) {
+      undoStack.push({ nodeId, compId, component, prop, kind, before });
+      if (undoStack.length > UNDO_LIMIT) undoStack.shift();
+    }
+    console.log(
+      `[属性编辑] ${nodeName}(${nodeId}) ${component}.${prop} =`,
+      after
+    );
+    return { ok: true, nodeId, nodeName, component, prop, before, after };
+  } catch (error) {
+    console.error(
+      `[属性编辑] ${nodeName}(${nodeId}) ${component}.${prop} 写入失败`,
+      error
+    );
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/** Inspector 控件写回：compId 为 NODE_TARGET_ID 时写 Node */
+export const setInspectorProperty = (
+  nodeId: string,
+  compId: string,
+  prop: string,
+  kind: EditValueKind,
+  input: unknown
+): PropertyEditResult => {
+  const value = coerceEditValue(kind, input);
+  if (value === null) {
+    return { ok: false, error: `无法解析 ${prop} 的 ${kind} 值` };
+  }
+  return applyEdit(nodeId, compId, prop, kind, value, true);
+};
+
+/** 撤销最近一次属性编辑 */
+export const undoPropertyEdit = (): PropertyEditResult => {
+  const entry = undoStack.pop();
+  if (!entry) return { ok: false, error: '没有可撤销的编辑' };
+  const res = applyEdit(
+    entry.nodeId,
+    entry.compId,
+    entry.prop,
+    entry.kind,
+    entry.before,
+    false
+  );
+  if (res.ok) {
+    console.log(
+      `[属性编辑] 撤销 ${res.nodeName}(${res.nodeId}) ${entry.component}.${entry.prop}`
+    );
+  }
+  return res;
+};
+
+export const getPropertyUndoDepth = (): number => undoStack.length;
+
+/**
+ * 节点 + 组件类型 → 写入目标。
+ * component 取 'Node' 表示节点自身；同类型多个组件可写 'Label#2'。
+ */
+export const resolveComponentRef = (node: cc.Node, component: string): ResolvedEditTarget => {
+  const m = /^(.+?)(?:\s*#(\d+))?$/.exec(component.trim());
+  const wanted = (m?.[1] ?? component).replace(/^cc\./, '').toLowerCase();
+  const nth = Math.max(1, Number(m?.[2] ?? 1));
+
+  if (wanted === 'node') {
+    return resolveEditTarget(getNodeId(node), NODE_TARGET_ID);
+  }
+
+  let seen = 0;
+  const comps = getNodeComponents(node);
+  for (let i = 0; i < comps.length; i++) {
+    const full = getComponentName(comps[i]);
+    const short = shortTypeName(full).toLowerCase();
+    if (short !== wanted && full.toLowerCase() !== wanted) continue;
+    seen += 1;
+    if (seen === nth) {
+      return resolveEditTarget(getNodeId(node), getCompId(comps[i], i));
+    }
+  }
+  return { ok: false, error: `节点 ${node.name} 上未找到组件 ${component}` };
+};
+
+/** resolveComponentRef 的逆运算：compId → 'Node' / 'Label' / 'Label#2' */
+export const describeComponentRef = (node: cc.Node, compId: string): string | null => {
+  if (compId === NODE_TARGET_ID) return 'Node';
+  const comps = getNodeComponents(node);
+  const seen = new Map<string, number>();
+  for (let i = 0; i < comps.length; i++) {
+    const short = shortTypeName(getComponentName(comps[i]));
+    const n = (seen.get(short.toLowerCase()) ?? 0) + 1;
+    seen.set(short.toLowerCase(), n);
+    if (getCompId(comps[i], i) === compId) return n > 1 ? `${short}#${n}` : short;
+  }
+  return null;
+};
+
+/** 路径后缀 + 组件类型 → 写入目标（component 写法同 resolveComponentRef） */
+export const resolveTargetByPath = (
+  pathSuffix: string,
+  component: string
+): ResolvedEditTarget => {
+  const node = findNodeByPathSuffix(pathSuffix);
+  if (!node) return { ok: false, error: `未找到路径 ${pathSuffix}` };
+  return resolveComponentRef(node, component);
+};
+
+/** 按节点路径后缀 + 组件类型写属性（MCP 用） */
+export const setPropertyByPath = (
+  pathSuffix: string,
+  component: string,
+  prop: string,
+  input: unknown
+): PropertyEditResult => {
+  const resolved = resolveTargetByPath(pathSuffix, component);
+  if (!resolved.ok) return resolved;
+
+  const current = resolved.target[prop];
+  const options = getEnumOptions(resolved.component, prop);
+  const kind = options ? 'enum' : inferEditKind(current);
+  if (!kind) {
+    return { ok: false, error: `属性 ${prop} 类型不支持编辑` };
+  }
+  return setInspectorProperty(
+    getNodeId(resolved.node),
+    resolved.compId,
+    prop,
+    kind,
+    input
+  );
+};
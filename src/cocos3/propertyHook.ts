@@ -0,0 +1,391 @@
+import {
+  NODE_TARGET_ID,
+  resolveEditTarget,
+  resolveTargetByPath,
+  type ResolvedEditTarget,
+} from './propertyEdit';
+import { getNodeId } from './sceneTree';
+
+export type HookType = 'get' | 'set' | 'both';
+
+/** 添加钩子的参数：nodeId+compId 或 path+component 二选一 */
+export interface HookConfig {
+  nodeId?: string;
+  /** 组件 id（Inspector compId），'node' 表示节点自身 */
+  compId?: string;
+  /** 节点路径后缀（MCP 用，同 findNodeByPathSuffix） */
+  path?: string;
+  /** 组件短名（配合 path），'Node' 表示节点自身 */
+  component?: string;
+  prop: string;
+  hookType: HookType;
+  /** 写入时触发 debugger（需打开 DevTools） */
+  breakOnWrite?: boolean;
+}
+
+export interface HookInfo {
+  id: string;
+  nodeId: string;
+  nodeName: string;
+  compId: string;
+  component: string;
+  prop: string;
+  hookType: HookType;
+  breakOnWrite: boolean;
+  createdAt: number;
+  hits: number;
+}
+
+export interface HookCallLogEntry {
+  seq: number;
+  hookId: string;
+  nodeId: string;
+  nodeName: string;
+  component: string;
+  prop: string;
+  access: 'get' | 'set';
+  value: string;
+  oldValue?: string;
+  stack: string[];
+  timestamp: number;
+}
+
+type Rec = Record<string, unknown>;
+
+type OriginalDescriptor = {
+  descriptor: PropertyDescriptor;
+  /** 原描述符是否在对象自身（否则在原型链上，unhook 时删除自有属性） */
+  own: boolean;
+};
+
+type HookedProperty = OriginalDescriptor & {
+  /** 钩子内部保存的当前值（数据属性）；不经过访问器，不触发 onGet */
+  stored: () => unknown;
+};
+
+const LOG_LIMIT = 500;
+const STACK_DEPTH = 10;
+/** 调用栈顶部属于钩子自身的帧数：captureStack → recordCall → onGet/onSet → 属性访问器 */
+const HOOK_FRAMES = 4;
+
+const findDescriptor = (
+  obj: object,
+  prop: string
+): OriginalDescriptor | null => {
+  let cur: object | null = obj;
+  while (cur) {
+    const descriptor = Object.getOwnPropertyDescriptor(cur, prop);
+    if (descriptor) return { descriptor, own: cur === obj };
+    cur = Object.getPrototypeOf(cur);
+  }
+  return null;
+};
+
+/**
+ * 通过属性描述符拦截读写。
+ * Cocos 3.x 的 position/active/color 等多为原型上的 accessor，需沿原型链查找。
+ */
+export class PropertyHook {
+  private static originals = new WeakMap<object, Map<string, HookedProperty>>();
+
+  static isHooked(obj: object, prop: string): boolean {
+    return !!PropertyHook.originals.get(obj)?.has(prop);
+  }
+
+  static hook(
+    obj: object,
+    prop: string,
+    onGet?: (value: unknown) => void,
+    onSet?: (newValue: unknown, oldValue: unknown) => void
+  ): boolean {
+    if (PropertyHook.isHooked(obj, prop)) PropertyHook.unhook(obj, prop);
+
+    const original = findDescriptor(obj, prop);
+    if (!original) {
+      console.error(`[属性钩子] 属性 ${prop} 不存在`);
+      return false;
+    }
+    if (original.own && original.descriptor.configurable === false) {
+      console.error(`[属性钩子] 属性 ${prop} 不可配置，无法设置钩子`);
+      return false;
+    }
+
+    const { descriptor } = original;
+    let stored = descriptor.value;
+    const read = (self: unknown): unknown =>
+      descriptor.get ? descriptor.get.call(self) : stored;
+
+    try {
+      Object.defineProperty(obj, prop, {
+        get(this: unknown) {
+          const value = read(this);
+          onGet?.(value);
+          return value;
+        },
+        set(this: unknown, next: unknown) {
+          onSet?.(next, read(this));
+          if (descriptor.set) {
+            descriptor.set.call(this, next);
+          } else if (!descriptor.get) {
+            stored = next;
+          }
+        },
+        enumerable: descriptor.enumerable,
+        configurable: true,
+      });
+    } catch (e) {
+      console.error(`[属性钩子] 设置钩子失败: ${prop}`, e);
+      return false;
+    }
+
+    let map = PropertyHook.originals.get(obj);
+    if (!map) {
+      map = new Map();
+      PropertyHook.originals.set(obj, map);
+    }
+    map.set(prop, { ...original, stored: () => stored });
+    return true;
+  }
+
+  static unhook(obj: object, prop: string): boolean {
+    const map = PropertyHook.originals.get(obj);
+    const original = map?.get(prop);
+    if (!map || !original) return false;
+
+    try {
+      if (!original.own) {
+        delete (obj as Rec)[prop];
+      } else if ('value' in original.descriptor || !original.descriptor.get) {
+        // 数据属性：保留钩子期间写入的最新值（读内部存储，不经过钩子的 getter）
+        Object.defineProperty(obj, prop, { ...original.descriptor, value: original.stored() });
+      } else {
+        Object.defineProperty(obj, prop, original.descriptor);
+      }
+    } catch (e) {
+      console.error(`[属性钩子] 移除钩子失败: ${prop}`, e);
+      return false;
+    } finally {
+      map.delete(prop);
+    }
+    return true;
+  }
+}
+
+/** 日志 / 监视列表用的单行值文本 */
+export const formatValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'string') {
+    return value.length > 120
+      ? `${JSON.stringify(value.slice(0, 120))}…`
+      : JSON.stringify(value);
+  }
+  if (typeof value !== 'object') return String(value);
+  const o = value as Rec;
+  if ('r' in o && 'g' in o && 'b' in o) {
+    return `rgba(${o.r},${o.g},${o.b},${o.a ?? 255})`;
+  }
+  if ('x' in o && 'y' in o) {
+    return 'z' in o ? `(${o.x}, ${o.y}, ${o.z})` : `(${o.x}, ${o.y})`;
+  }
+  if ('width' in o && 'height' in o) return `${o.width}×${o.height}`;
+  const named = (o.name ?? o._name) as string | undefined;
+  if (named) return `[${named}]`;
+  try {
+    const json = JSON.stringify(value);
+    return json.length > 160 ? `${json.slice(0, 160)}…` : json;
+  } catch {
+    return '[复杂对象]';
+  }
+};
+
+/**
+ * 调用栈：去掉 Error 行与钩子自身帧。打包后所有模块在同一个文件里，
+ * 无法按文件名过滤，按固定的帧位置跳过
+ */
+const captureStack = (): string[] => {
+  // V8 默认只保留 10 帧，临时放宽以免跳过钩子帧后所剩无几
+  const errorCtor = Error as { stackTraceLimit?: number };
+  const limit = errorCtor.stackTraceLimit;
+  errorCtor.stackTraceLimit = STACK_DEPTH + HOOK_FRAMES + 1;
+  const raw = new Error().stack ?? '';
+  errorCtor.stackTraceLimit = limit;
+  return raw
+    .split('\n')
+    .slice(1 + HOOK_FRAMES)
+    .map((l) => l.trim())
+    .filter((l) => l)
+    .slice(0, STACK_DEPTH);
+};
+
+/** 属性钩子管理（单例）：记录钩子状态与调用日志 */
+export class HookManager {
+  private static instance: HookManager | null = null;
+
+  private hooks = new Map<string, HookInfo & { target: object }>();
+  private log: HookCallLogEntry[] = [];
+  private seq = 0;
+  private silentDepth = 0;
+
+  static getInstance(): HookManager {
+    if (!HookManager.instance) HookManager.instance = new HookManager();
+    return HookManager.instance;
+  }
+
+  private constructor() {}
+
+  static hookId(nodeId: string, compId: string, prop: string): string {
+    return `${nodeId}:${compId}:${prop}`;
+  }
+
+  /** 执行期间不记录日志（Inspector 自身刷新读取属性时使用） */
+  runSilently<T>(fn: () => T): T {
+    this.silentDepth += 1;
+    try {
+      return fn();
+    } finally {
+      this.silentDepth -= 1;
+    }
+  }
+
+  addHook(
+    config: HookConfig
+  ): { ok: true; hook: HookInfo } | { ok: false; error: string } {
+    let resolved: ResolvedEditTarget;
+    if (config.nodeId) {
+      resolved = resolveEditTarget(config.nodeId, config.compId ?? NODE_TARGET_ID);
+    } else if (config.path) {
+      resolved = resolveTargetByPath(config.path, config.component ?? 'Node');
+    } else {
+      return { ok: false, error: '需要 nodeId 或 path' };
+    }
+    if (!resolved.ok) return resolved;
+    if (!config.prop) return { ok: false, error: '需要 prop' };
+
+    const { node, compId, target, component } = resolved;
+    const nodeId = getNodeId(node);
+    const nodeName = node.name || '(unnamed)';
+    const id = HookManager.hookId(nodeId, compId, config.prop);
+    const existing = this.hooks.get(id);
+    if (existing) this.removeHook(id);
+
+    const hookType = config.hookType ?? 'set';
+    const info: HookInfo & { target: object } = {
+      id,
+      nodeId,
+      nodeName,
+      compId,
+      component,
+      prop: config.prop,
+      hookType,
+      breakOnWrite: !!config.breakOnWrite,
+      createdAt: Date.now(),
+      hits: 0,
+      target,
+    };
+
+    const onGet =
+      hookType === 'get' || hookType === 'both'
+        ? (value: unknown) => this.recordCall(info, 'get', value)
+        : undefined;
+    const onSet =
+      hookType === 'set' || hookType === 'both'
+        ? (next: unknown, old: unknown) => {
+            this.recordCall(info, 'set', next, old);
+            if (info.breakOnWrite && this.silentDepth === 0) {
+              debugger;
+            }
+          }
+        : undefined;
+
+    if (!PropertyHook.hook(target, config.prop, onGet, onSet)) {
+      return { ok: false, error: `无法在 ${component}.${config.prop} 上设置钩子` };
+    }
+
+    this.hooks.set(id, info);
+    console.log(
+      `[属性钩子] 添加 ${hookType} 钩子 ${nodeName}(${nodeId}) ${component}.${config.prop}`
+    );
+    return { ok: true, hook: this.toInfo(info) };
+  }
+
+  removeHook(hookId: string): { ok: true } | { ok: false; error: string } {
+    const info = this.hooks.get(hookId);
+    if (!info) return { ok: false, error: `未找到钩子 ${hookId}` };
+    PropertyHook.unhook(info.target, info.prop);
+    this.hooks.delete(hookId);
+    console.log(
+      `[属性钩子] 移除钩子 ${info.nodeName}(${info.nodeId}) ${info.component}.${info.prop}`
+    );
+    return { ok: true };
+  }
+
+  removeAll(): { ok: true; removed: number } {
+    const ids = [...this.hooks.keys()];
+    ids.forEach((id) => this.removeHook(id));
+    return { ok: true, removed: ids.length };
+  }
+
+  findHook(nodeId: string, compId: string, prop: string): HookInfo | null {
+    const info = this.hooks.get(HookManager.hookId(nodeId, compId, prop));
+    return info ? this.toInfo(info) : null;
+  }
+
+  listHooks(nodeId?: string): HookInfo[] {
+    return [...this.hooks.values()]
+      .filter((h) => !nodeId || h.nodeId === nodeId)
+      .map((h) => this.toInfo(h));
+  }
+
+  getCallLog(options?: {
+    limit?: number;
+    since?: number;
+    hookId?: string;
+  }): HookCallLogEntry[] {
+    let list = this.log;
+    if (options?.hookId) list = list.filter((e) => e.hookId === options.hookId);
+    if (options?.since != null) {
+      list = list.filter((e) => e.timestamp > options.since!);
+    }
+    const limit = options?.limit ?? 100;
+    return list.slice(-limit);
+  }
+
+  clearCallLog(): { cleared: number } {
+    const cleared = this.log.length;
+    this.log = [];
+    return { cleared };
+  }
+
+  private recordCall(
+    info: HookInfo,
+    access: 'get' | 'set',
+    value: unknown,
+    oldValue?: unknown
+  ): void {
+    if (this.silentDepth > 0) return;
+    info.hits += 1;
+    this.seq += 1;
+    this.log.push({
+      seq: this.seq,
+      hookId: info.id,
+      nodeId: info.nodeId,
+      nodeName: info.nodeName,
+      component: info.component,
+      prop: info.prop,
+      access,
+      value: formatValue(value),
+      oldValue: access === 'set' ? formatValue(oldValue) : undefined,
+      stack: captureStack(),
+      timestamp: Date.now(),
+    });
+    if (this.log.length > LOG_LIMIT) {
+      this.log.splice(0, this.log.length - LOG_LIMIT);
+    }
+  }
+
+  private toInfo(h: HookInfo & { target?: object }): HookInfo {
+    const { target: _target, ...info } = h;
+    return info;
+  }
+}
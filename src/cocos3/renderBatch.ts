@@ -0,0 +1,185 @@
+import { getComponentName, getNodeComponents, shortTypeName } from './componentAccess';
+import { readNodeScreenRect } from './nodeBoundsOverlay';
+import { isRenderableComponentName } from './renderStats';
+import { getNodeId } from './sceneTree';
+
+type Rec = Record<string, unknown>;
+
+/** 渲染单元的合批信息：相邻两个单元 key 相同才可能合进同一批 */
+export interface RenderBatchInfo {
+  /** 渲染组件短名，如 Sprite / Label / Skeleton */
+  component: string;
+  textureId: string | null;
+  textureName: string;
+  materialId: string;
+  materialName: string;
+  key: string;
+  /** Label 的字体名（系统字体为 fontFamily） */
+  fontName?: string;
+  /** 组件上设置的混合因子 src/dst；引擎版本不提供时不设 */
+  blend?: string;
+  /** 自身单独成批的原因（Spine、Graphics、Mask 模板等）；可合批时不设 */
+  standalone?: string;
+}
+
+/** 按渲染顺序（深度优先、引擎兄弟顺序）收集的一个渲染单元 */
+export interface RenderUnit {
+  nodeId: string;
+  nodeName: string;
+  /** 页面 CSS 像素；非 UI 节点或尺寸为 0 时为 null */
+  rect: { left: number; top: number; width: number; height: number } | null;
+  batch: RenderBatchInfo;
+  /** 所在 Mask 模板范围（最近的带 Mask 的祖先或自身）；不在 Mask 内为 null */
+  maskId: string | null;
+}
+
+/** 不与前后单元合批的组件（3.x 2D 合批器中单独提交） */
+const STANDALONE_RE =
+  /Skeleton|ArmatureDisplay|Graphics|Mask|UIMeshRenderer|DragonBones|TiledLayer|RichText/;
+
+/** sp.Skeleton / dragonBones.ArmatureDisplay 的类名不含 Spine / DragonBones，单独补上 */
+const isRenderUnitName = (name: string): boolean =>
+  isRenderableComponentName(name) || /Skeleton|ArmatureDisplay/.test(name);
+
+const objectIds = new WeakMap<object, number>();
+let objectSeq = 0;
+
+/** 资源 uuid 优先，否则按对象身份分配的短 id */
+const identityOf = (obj: unknown): string | null => {
+  if (!obj || typeof obj !== 'object') return null;
+  const rec = obj as { _uuid?: string; uuid?: string };
+  const uuid = rec._uuid || rec.uuid;
+  if (uuid) return uuid;
+  let id = objectIds.get(obj);
+  if (id === undefined) {
+    objectSeq += 1;
+    id = objectSeq;
+    objectIds.set(obj, id);
+  }
+  return `#${id}`;
+};
+
+const nameOfAsset = (obj: unknown, fallback: string): string => {
+  const rec = obj as { name?: string; _name?: string; nativeUrl?: string } | null;
+  const url = rec?.nativeUrl ? rec.nativeUrl.split('/').pop() : '';
+  return rec?.name || rec?._name || url || fallback;
+};
+
+const readTexture = (comp: Rec, short: string): unknown => {
+  const frameTexture = (frame: unknown): unknown => {
+    const f = frame as Rec | null | undefined;
+    return f?.texture ?? f?._texture ?? null;
+  };
+  if (short === 'Label') {
+    const font = comp.font as Rec | null | undefined;
+    return (
+      frameTexture(font?.spriteFrame ?? font?._spriteFrame) ??
+      frameTexture(comp.ttfSpriteFrame ?? comp._ttfSpriteFrame) ??
+      comp._texture ??
+      null
+    );
+  }
+  return frameTexture(comp.spriteFrame ?? comp._spriteFrame) ?? comp.texture ?? null;
+};
+
+const readMaterial = (comp: Rec): unknown => {
+  const getRenderMaterial = comp.getRenderMaterial as ((i: number) => unknown) | undefined;
+  try {
+    const m = getRenderMaterial?.call(comp, 0);
+    if (m) return m;
+  } catch {
+    /* 渲染数据未就绪 */
+  }
+  return comp.customMaterial ?? comp.sharedMaterial ?? comp.material ?? null;
+};
+
+const readFontName = (comp: Rec): string => {
+  const font = comp.font as Rec | null | undefined;
+  if (font) return nameOfAsset(font, identityOf(font) ?? '-');
+  return typeof comp.fontFamily === 'string' && comp.fontFamily ? comp.fontFamily : 'system';
+};
+
+const readBlend = (comp: Rec): string | undefined => {
+  const src = comp.srcBlendFactor ?? comp._srcBlendFactor;
+  const dst = comp.dstBlendFactor ?? comp._dstBlendFactor;
+  return typeof src === 'number' && typeof dst === 'number' ? `${src}/${dst}` : undefined;
+};
+
+/** 组件的合批信息；非渲染组件或未启用时返回 null */
+export const readRenderBatchInfo = (comp: unknown): RenderBatchInfo | null => {
+  const c = comp as Rec;
+  if (!c || c.enabled === false) return null;
+  const typeName = getComponentName(comp);
+  if (!isRenderUnitName(typeName)) return null;
+  const component = shortTypeName(typeName);
+
+  const texture = readTexture(c, component);
+  const material = readMaterial(c);
+  const textureId = identityOf(texture);
+  const materialHash = (material as { hash?: number } | null)?.hash;
+  const materialId =
+    typeof materialHash === 'number' ? `h${materialHash}` : identityOf(material) ?? 'builtin';
+  const standalone = STANDALONE_RE.test(component) ? `${component} 单独提交` : undefined;
+  const blend = readBlend(c);
+  const batchKey = `${materialId}|${blend ?? '-'}|${textureId ?? '-'}`;
+
+  return {
+    component,
+    textureId,
+    textureName: texture ? nameOfAsset(texture, textureId ?? '-') : '-',
+    materialId,
+    materialName: material ? nameOfAsset(material, materialId) : 'builtin',
+    key: standalone ? `solo:${identityOf(comp)}` : batchKey,
+    ...(component === 'Label' ? { fontName: readFontName(c) } : {}),
+    ...(blend ? { blend } : {}),
+    ...(standalone ? { standalone } : {}),
+  };
+};
+
+/** 子树内激活节点的渲染单元，顺序即渲染顺序（每个节点取第一个启用的渲染组件） */
+export const collectRenderUnits = (root: cc.Node, limit = 5000): RenderUnit[] => {
+  const units: RenderUnit[] = [];
+  const walk = (node: cc.Node, parentMask: string | null): void => {
+    if (node.active === false || units.length >= limit) return;
+    const comps = getNodeComponents(node);
+    const hasMask = comps.some(
+      (c) => shortTypeName(getComponentName(c)) === 'Mask' && (c as Rec).enabled !== false
+    );
+    const maskId = hasMask ? getNodeId(node) : parentMask;
+    for (const comp of comps) {
+      const batch = readRenderBatchInfo(comp);
+      if (!batch) continue;
+      units.push({
+        nodeId: getNodeId(node),
+        nodeName: node.name || '(unnamed)',
+        rect: readNodeScreenRect(node, comps),
+        batch,
+        maskId,
+      });
+      break;
+    }
+    for (const child of node.children ?? []) {
+      if (child) walk(child, maskId);
+    }
+  };
+  walk(root, null);
+  return units;
+};
+
+/** 按渲染顺序把相邻同 key、同 Mask 范围的单元归为一批，返回每个单元的批次序号（从 0 开始） */
+export const assignBatchIndices = (units: RenderUnit[]): number[] => {
+  const out: number[] = [];
+  let index = -1;
+  let prevKey: string | null = null;
+  let prevMask: string | null = null;
+  for (const unit of units) {
+    // 进出 Mask 时模板状态切换，前后不能合批
+    if (unit.batch.standalone || unit.batch.key !== prevKey || unit.maskId !== prevMask) {
+      index += 1;
+    }
+    prevKey = unit.batch.key;
+    prevMask = unit.maskId;
+    out.push(index);
+  }
+  return out;
+};
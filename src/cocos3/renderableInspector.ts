@@ -1,8 +1,26 @@
+import {
+  getCompId,
+  getComponentName,
+  getNodeComponents,
+  shortTypeName,
+} from './componentAccess';
+import {
+  type EditValueKind,
+  getEnumOptions,
+  type InspectEditSpec,
+  NODE_TARGET_ID,
+  toPlainValue,
+} from './propertyEdit';
+import { escapeHtml } from './floatingPanel';
+import { collectNodeWorldMetrics, type NodeWorldMetrics } from './nodeMetrics';
+import { explainNodeVisibility, formatVisibility } from './nodeVisibility';
 import { isCustomComponentName } from './scriptRecover';
 import { findNodeById, getSceneRoot } from './sceneTree';
 export interface InspectRow {
   label: string;
   value: string;
+  /** 可编辑时的写回描述（无则只读） */
+  edit?: InspectEditSpec;
 }
 
 export interface ComponentInspectInfo {
@@ -15,9 +33,13 @@ export interface ComponentInspectInfo {
   isCustom: boolean;
   isSpine: boolean;
   isBmfont: boolean;
+  isAnimation: boolean;
+  isParticle: boolean;
   recoverClassName: string;
   spineIndex: number;
   bmfontIndex: number;
+  animIndex: number;
+  particleIndex: number;
 }
 
 export interface NodeInspectorData {
@@ -25,32 +47,17 @@ export interface NodeInspectorData {
   nodeName: string;
   /** Node.position 格式化字符串 */
   position: string;
+  /** Node 区块可编辑行（位置/缩放/旋转） */
+  nodeRows: InspectRow[];
   components: ComponentInspectInfo[];
+  /** 世界变换、包围盒、layer、兄弟序号、生效透明度等 */
+  metrics: NodeWorldMetrics;
+  /** metrics 与可见性结论的只读展示行 */
+  worldRows: InspectRow[];
 }
 
 type CompRecord = Record<string, unknown>;
 
-const escapeHtml = (text: string): string =>
-  text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
-
-const getComponentName = (comp: unknown): string => {
-  const rec = comp as {
-    __classname__?: string;
-    constructor?: { name?: string };
-  };
-  return rec.__classname__ ?? rec.constructor?.name ?? 'Component';
-};
-
-const shortTypeName = (full: string): string => {
-  const base = full.replace(/^cc\./, '');
-  const parts = base.split('.');
-  return parts[parts.length - 1] ?? base;
-};
-
 const readColor = (color: unknown): string => {
   if (!color || typeof color !== 'object') return '-';
   const c = color as { r?: number; g?: number; b?: number; a?: number };
@@ -99,6 +106,82 @@ const readNodePosition = (node: cc.Node): string => {
   return readVec3(n.position);
 };
 
+/** 带编辑描述的行：value 仍为展示字符串，edit.value 为结构化当前值 */
+const editRow = (
+  label: string,
+  value: string,
+  prop: string,
+  kind: EditValueKind,
+  raw: unknown
+): InspectRow => ({
+  label,
+  value,
+  edit: { prop, kind, value: toPlainValue(kind, raw) },
+});
+
+const enumRow = (
+  label: string,
+  c: CompRecord,
+  typeName: string,
+  prop: string
+): InspectRow => {
+  const options = getEnumOptions(shortTypeName(typeName), prop);
+  const raw = c[prop];
+  if (!options || typeof raw !== 'number') {
+    return { label, value: String(raw ?? '-') };
+  }
+  return {
+    label,
+    value: String(raw),
+    edit: { prop, kind: 'enum', value: raw, options },
+  };
+};
+
+const nodeEditRows = (node: cc.Node): InspectRow[] => {
+  const n = node as cc.Node & {
+    position?: unknown;
+    scale?: unknown;
+    eulerAngles?: unknown;
+  };
+  return [
+    editRow('位置', readVec3(n.position), 'position', 'vec3', n.position),
+    editRow('缩放', readVec3(n.scale), 'scale', 'vec3', n.scale),
+    editRow('旋转', readVec3(n.eulerAngles), 'eulerAngles', 'vec3', n.eulerAngles),
+  ];
+};
+
+const worldRows = (m: NodeWorldMetrics): InspectRow[] => {
+  const b = m.worldBounds;
+  const chain = m.opacityChain.map((o) => `${o.name}:${o.opacity}`).join(' × ');
+  return [
+    { label: '世界位置', value: readVec3(m.worldPosition) },
+    { label: '世界旋转', value: readVec3(m.worldEuler) },
+    { label: '世界缩放', value: readVec3(m.worldScale) },
+    {
+      label: '世界包围盒',
+      value: b ? `${b.x.toFixed(1)}, ${b.y.toFixed(1)} · ${readSize(b)}` : '-（无 UITransform）',
+    },
+    {
+      label: 'Layer',
+      value: `${m.layerNames.join(' | ') || '-'} (0x${m.layer.toString(16)})`,
+    },
+    {
+      label: '兄弟序号',
+      value: m.siblingIndex < 0 ? '-（场景根）' : `${m.siblingIndex + 1}/${m.siblingCount}`,
+    },
+    {
+      label: 'activeInHierarchy',
+      value: m.activeInHierarchy ? 'true' : `false（${m.inactiveAt ?? '?'} 未激活）`,
+    },
+    { label: '生效透明度', value: `${m.opacity.toFixed(3)}${chain ? `（${chain}）` : ''}` },
+  ];
+};
+
+const visibilityRow = (nodeId: string): InspectRow => {
+  const verdict = explainNodeVisibility(nodeId);
+  return { label: '可见性', value: verdict ? formatVisibility(verdict) : '-' };
+};
+
 const formatPrimitive = (value: unknown): string => {
   if (value == null) return '-';
   if (typeof value === 'boolean' || typeof value === 'number') {
@@ -212,18 +295,25 @@ const extractGenericRows = (comp: unknown): InspectRow[] => {
     if (key.startsWith('_') || skip.has(key)) continue;
     const val = c[key];
     if (typeof val === 'function') continue;
-    rows.push({ label: key, value: formatPrimitive(val) });
+    const kind: EditValueKind | null =
+      typeof val === 'number'
+        ? 'number'
+        : typeof val === 'boolean'
+          ? 'boolean'
+          : typeof val === 'string'
+            ? 'string'
+            : null;
+    rows.push(
+      kind
+        ? editRow(key, formatPrimitive(val), key, kind, val)
+        : { label: key, value: formatPrimitive(val) }
+    );
     if (rows.length >= 16) break;
   }
 
   return rows;
 };
 
-const getCompId = (comp: unknown, index: number): string => {
-  const rec = comp as { uuid?: string; _id?: string };
-  return rec.uuid ?? rec._id ?? `idx-${index}`;
-};
-
 const extractRows = (
   comp: unknown,
   typeName: string,
@@ -243,22 +333,25 @@ const extractRows = (
         label: '纹理',
         value: tex ? `${tex.width ?? 0}×${tex.height ?? 0}` : '-',
       },
-      { label: '类型', value: String(c.type ?? '-') },
-      { label: '尺寸模式', value: String(c.sizeMode ?? '-') },
-      { label: '颜色', value: readColor(c.color) },
+      enumRow('类型', c, typeName, 'type'),
+      enumRow('尺寸模式', c, typeName, 'sizeMode'),
+      editRow('颜色', readColor(c.color), 'color', 'color', c.color),
     ];
   }
 
   if (/Label/.test(typeName) && !/RichText/.test(typeName)) {
     const text = String(c.string ?? c._string ?? '');
     return [
-      {
-        label: '文本',
-        value: text.length > 48 ? `${text.slice(0, 48)}…` : text || '(空)',
-      },
-      { label: '字号', value: String(c.fontSize ?? '-') },
-      { label: '颜色', value: readColor(c.color) },
-      { label: '溢出', value: String(c.overflow ?? '-') },
+      editRow(
+        '文本',
+        text.length > 48 ? `${text.slice(0, 48)}…` : text || '(空)',
+        'string',
+        'string',
+        text
+      ),
+      editRow('字号', String(c.fontSize ?? '-'), 'fontSize', 'number', c.fontSize),
+      editRow('颜色', readColor(c.color), 'color', 'color', c.color),
+      enumRow('溢出', c, typeName, 'overflow'),
       ...labelFontRows(c),
     ];
   }
@@ -266,26 +359,29 @@ const extractRows = (
   if (/RichText/.test(typeName)) {
     const text = String(c.string ?? c._string ?? '');
     return [
-      {
-        label: '文本',
-        value: text.length > 48 ? `${text.slice(0, 48)}…` : text || '(空)',
-      },
-      { label: '字号', value: String(c.fontSize ?? '-') },
+      editRow(
+        '文本',
+        text.length > 48 ? `${text.slice(0, 48)}…` : text || '(空)',
+        'string',
+        'string',
+        text
+      ),
+      editRow('字号', String(c.fontSize ?? '-'), 'fontSize', 'number', c.fontSize),
     ];
   }
 
   if (/Graphics/.test(typeName)) {
     return [
-      { label: '线宽', value: String(c.lineWidth ?? '-') },
-      { label: '填充', value: readColor(c.fillColor) },
-      { label: '描边', value: readColor(c.strokeColor) },
+      editRow('线宽', String(c.lineWidth ?? '-'), 'lineWidth', 'number', c.lineWidth),
+      editRow('填充', readColor(c.fillColor), 'fillColor', 'color', c.fillColor),
+      editRow('描边', readColor(c.strokeColor), 'strokeColor', 'color', c.strokeColor),
     ];
   }
 
   if (/Mask/.test(typeName)) {
     return [
-      { label: '类型', value: String(c.type ?? '-') },
-      { label: '反向', value: c.inverted ? '是' : '否' },
+      enumRow('类型', c, typeName, 'type'),
+      editRow('反向', c.inverted ? '是' : '否', 'inverted', 'boolean', c.inverted),
     ];
   }
 
@@ -317,25 +413,35 @@ const extractRows = (
   if (/UITransform/.test(typeName)) {
     return [
       { label: '位置', value: nodePosition ?? '-' },
-      { label: '内容尺寸', value: readSize(c.contentSize) },
-      { label: '锚点', value: readVec2(c.anchorPoint) },
+      editRow('内容尺寸', readSize(c.contentSize), 'contentSize', 'vec2', c.contentSize),
+      editRow('锚点', readVec2(c.anchorPoint), 'anchorPoint', 'vec2', c.anchorPoint),
     ];
   }
 
   if (/Widget/.test(typeName)) {
+    const margin = (label: string, flag: unknown, prop: string): InspectRow =>
+      flag
+        ? editRow(label, String(c[prop]), prop, 'number', c[prop])
+        : { label, value: '-' };
     return [
-      { label: '对齐', value: String(c.alignMode ?? '-') },
-      { label: '左', value: String(c.isAlignLeft ? c.left : '-') },
-      { label: '右', value: String(c.isAlignRight ? c.right : '-') },
-      { label: '上', value: String(c.isAlignTop ? c.top : '-') },
-      { label: '下', value: String(c.isAlignBottom ? c.bottom : '-') },
+      enumRow('对齐', c, typeName, 'alignMode'),
+      margin('左', c.isAlignLeft, 'left'),
+      margin('右', c.isAlignRight, 'right'),
+      margin('上', c.isAlignTop, 'top'),
+      margin('下', c.isAlignBottom, 'bottom'),
     ];
   }
 
   if (/Button/.test(typeName)) {
     return [
-      { label: '可交互', value: c.interactable === false ? '否' : '是' },
-      { label: '过渡', value: String(c.transition ?? '-') },
+      editRow(
+        '可交互',
+        c.interactable === false ? '否' : '是',
+        'interactable',
+        'boolean',
+        c.interactable !== false
+      ),
+      enumRow('过渡', c, typeName, 'transition'),
     ];
   }
 
@@ -348,28 +454,19 @@ const extractRows = (
 const isSpineSkeletonType = (typeName: string): boolean =>
   /Skeleton/.test(typeName) && !/SkeletonData/.test(typeName);
 
-const getNodeComponents = (node: cc.Node): unknown[] => {
-  const n = node as cc.Node & {
-    _components?: unknown[];
-    getComponents?: (type: unknown) => unknown[];
-  };
-  if (Array.isArray(n._components) && n._components.length > 0) {
-    return n._components;
-  }
-  const Component = (window.cc as { Component?: unknown }).Component;
-  if (typeof n.getComponents === 'function' && Component) {
-    try {
-      const list = n.getComponents(Component);
-      if (Array.isArray(list) && list.length > 0) return list;
-    } catch {
-      /* getComponents 不可用 */
-    }
-  }
-  return n._components ?? [];
-};
+const isAnimationType = (typeName: string): boolean =>
+  /(^|\.)(Skeletal)?Animation$/.test(typeName);
+
+const isParticleSystemType = (typeName: string): boolean =>
+  /(^|\.)ParticleSystem(2D)?$/.test(typeName);
 
+/**
+ * 节点 Inspector 数据。withVisibility 时追加可见性行（需遍历整个场景），
+ * 仅面板与 MCP 展示单个节点时开启；快照逐节点导出不带
+ */
 export const collectNodeInspectorData = (
-  nodeId: string | null
+  nodeId: string | null,
+  withVisibility = false
 ): NodeInspectorData | null => {
   if (!nodeId) return null;
 
@@ -383,8 +480,11 @@ export const collectNodeInspectorData = (
   const nameCount = new Map<string, number>();
   let spineCounter = 0;
   let bmfontCounter = 0;
+  let animCounter = 0;
+  let particleCounter = 0;
 
   const nodePosition = readNodePosition(node);
+  const metrics = collectNodeWorldMetrics(node);
 
   getNodeComponents(node).forEach((comp, index) => {
     const typeName = getComponentName(comp);
@@ -402,6 +502,12 @@ export const collectNodeInspectorData = (
     const isBmfont = isBmfontLabelComp(comp, typeName);
     const bmfontIndex = isBmfont ? bmfontCounter++ : -1;
 
+    const isAnimation = isAnimationType(typeName);
+    const animIndex = isAnimation ? animCounter++ : -1;
+
+    const isParticle = isParticleSystemType(typeName);
+    const particleIndex = isParticle ? particleCounter++ : -1;
+
     components.push({
       typeName,
       shortName: displayName,
@@ -412,9 +518,13 @@ export const collectNodeInspectorData = (
       isCustom: isCustomComponentName(typeName),
       isSpine,
       isBmfont,
+      isAnimation,
+      isParticle,
       recoverClassName: baseRecoverName,
       spineIndex,
       bmfontIndex,
+      animIndex,
+      particleIndex,
     });
   });
 
@@ -422,7 +532,12 @@ export const collectNodeInspectorData = (
     nodeId,
     nodeName: node.name || '(unnamed)',
     position: nodePosition,
+    nodeRows: nodeEditRows(node),
     components,
+    metrics,
+    worldRows: withVisibility
+      ? [...worldRows(metrics), visibilityRow(nodeId)]
+      : worldRows(metrics),
   };
 };
 
@@ -436,25 +551,218 @@ export const hashNodeInspectorData = (
         .map((r) => `${r.label}=${r.value}`)
         .join('|')}`
   );
-  return `${data.nodeId};pos=${data.position};${parts.join(';')}`;
+  const nodePart = [...data.nodeRows, ...data.worldRows]
+    .map((r) => `${r.label}=${r.value}`)
+    .join('|');
+  return `${data.nodeId};node=${nodePart};${parts.join(';')}`;
+};
+
+const formatEditNumber = (v: number): string => String(Number(v.toFixed(3)));
+
+const toHexByte = (v: number): string =>
+  `0${Math.max(0, Math.min(255, Math.round(v))).toString(16)}`.slice(-2);
+
+const renderEditControl = (spec: InspectEditSpec, compId: string): string => {
+  const attrs = `class="insp-value insp-edit" data-comp-id="${escapeHtml(
+    compId
+  )}" data-prop="${escapeHtml(spec.prop)}" data-kind="${spec.kind}"`;
+  const numInput = (axis: string, v: number, extra = ''): string =>
+    `<input type="number" class="insp-edit-input insp-edit-num" data-axis="${axis}" step="${
+      spec.step ?? 'any'
+    }" value="${formatEditNumber(v)}"${extra}>`;
+
+  switch (spec.kind) {
+    case 'number':
+      return `<span ${attrs}>${numInput('v', spec.value as number)}</span>`;
+    case 'boolean':
+      return `<span ${attrs}><input type="checkbox" class="insp-edit-input" data-axis="v"${
+        spec.value ? ' checked' : ''
+      }></span>`;
+    case 'string':
+      return `<span ${attrs}><input type="text" class="insp-edit-input insp-edit-text" data-axis="v" value="${escapeHtml(
+        String(spec.value)
+      )}"></span>`;
+    case 'enum': {
+      const options = (spec.options ?? [])
+        .map(
+          (o) =>
+            `<option value="${o.value}"${o.value === spec.value ? ' selected' : ''}>${escapeHtml(
+              o.label
+            )}</option>`
+        )
+        .join('');
+      return `<span ${attrs}><select class="insp-edit-input" data-axis="v">${options}</select></span>`;
+    }
+    case 'color': {
+      const c = spec.value as { r: number; g: number; b: number; a: number };
+      const hex = `#${toHexByte(c.r)}${toHexByte(c.g)}${toHexByte(c.b)}`;
+      return `<span ${attrs}><input type="color" class="insp-edit-input insp-edit-color" data-axis="rgb" value="${hex}">${numInput(
+        'a',
+        c.a,
+        ' min="0" max="255" title="Alpha (0-255)"'
+      )}</span>`;
+    }
+    case 'vec2':
+    case 'vec3': {
+      const v = spec.value as { x: number; y: number; z?: number };
+      const axes = spec.kind === 'vec3' ? ['x', 'y', 'z'] : ['x', 'y'];
+      return `<span ${attrs}>${axes
+        .map((a) => numInput(a, (v as Record<string, number>)[a] ?? 0))
+        .join('')}</span>`;
+    }
+  }
+};
+
+/** 属性钩子标识：`${compId}:${prop}` */
+export const inspectorHookKey = (compId: string, prop: string): string =>
+  `${compId}:${prop}`;
+
+export interface InspectorRenderOptions {
+  undoDepth?: number;
+  hookedKeys?: Set<string>;
+  /** 传入时可编辑行显示监视按钮，集合内为已监视属性 */
+  watchedKeys?: Set<string>;
+  /** 传入时 Node 区块显示书签按钮 */
+  bookmarked?: boolean;
+  /** 传入时 Node 区块显示层级编辑栏（上移/下移/复制/删除），值为层级撤销栈深度 */
+  hierarchyUndoDepth?: number;
+}
+
+/** Node 区块的层级编辑栏；场景根不显示 */
+const renderHierarchyBarHtml = (data: NodeInspectorData, undoDepth: number): string => {
+  const { siblingIndex, siblingCount } = data.metrics;
+  if (siblingIndex < 0) return '';
+  const btn = (action: string, label: string, title: string, disabled = false): string =>
+    `<button type="button" class="insp-hier-btn" data-hier-action="${action}"${
+      disabled ? ' disabled' : ''
+    } title="${title}">${label}</button>`;
+  const first = siblingIndex === 0;
+  const last = siblingIndex >= siblingCount - 1;
+  return `<div class="insp-hier-bar">
+    <span class="insp-label" title="引擎 children 顺序（与树中顺序一致，即渲染先后）">层级 ${
+      siblingIndex + 1
+    }/${siblingCount}</span>
+    ${btn('up', '↑', '上移一位（兄弟顺序）', first)}${btn(
+      'down',
+      '↓',
+      '下移一位（兄弟顺序）',
+      last
+    )}
+    ${btn('duplicate', '复制', 'cc.instantiate 复制到原节点之后')}${btn(
+      'delete',
+      '删除',
+      '从场景摘下（可撤销）'
+    )}
+    ${btn(
+      'undo',
+      `撤销层级${undoDepth > 0 ? ` (${undoDepth})` : ''}`,
+      '撤销上一次拖放 / 排序 / 复制 / 删除',
+      undoDepth === 0
+    )}
+  </div>`;
+};
+
+const renderInspectRowHtml = (
+  row: InspectRow,
+  compId: string,
+  options: InspectorRenderOptions
+): string => {
+  const { hookedKeys, watchedKeys } = options;
+  const label = `<span class="insp-label">${escapeHtml(row.label)}</span>`;
+  if (!row.edit) {
+    return `<div class="insp-row">${label}<span class="insp-value">${escapeHtml(
+      row.value
+    )}</span></div>`;
+  }
+  const value = renderEditControl(row.edit, compId);
+  const hooked = !!hookedKeys?.has(inspectorHookKey(compId, row.edit.prop));
+  const hookTitle = hooked ? '移除属性钩子' : '添加属性钩子（记录读写调用栈）';
+  const hookBtn = `<button type="button" class="insp-hook-btn${hooked ? ' active' : ''}"
+    data-comp-id="${escapeHtml(compId)}" data-prop="${escapeHtml(row.edit.prop)}"
+    title="${hookTitle}">⚓</button>`;
+  const watched = !!watchedKeys?.has(inspectorHookKey(compId, row.edit.prop));
+  const watchBtn = watchedKeys
+    ? `<button type="button" class="insp-watch-btn${watched ? ' active' : ''}"
+    data-comp-id="${escapeHtml(compId)}" data-prop="${escapeHtml(row.edit.prop)}"
+    title="${watched ? '取消监视' : '加入监视列表（刷新页面后保留）'}">◉</button>`
+    : '';
+  const rowClass = hooked ? 'insp-row insp-row-hooked' : 'insp-row';
+  return `<div class="${rowClass}">${label}${value}${hookBtn}${watchBtn}</div>`;
+};
+
+/** 从编辑控件读取写回参数（injected 的 change 事件用） */
+export const readInspectorEditInput = (
+  wrapper: HTMLElement
+): { compId: string; prop: string; kind: EditValueKind; value: unknown } | null => {
+  const { compId, prop, kind } = wrapper.dataset;
+  if (!compId || !prop || !kind) return null;
+  const field = (axis: string) =>
+    wrapper.querySelector(`[data-axis="${axis}"]`) as
+      | HTMLInputElement
+      | HTMLSelectElement
+      | null;
+  const numOf = (axis: string) => Number(field(axis)?.value ?? 0);
+
+  switch (kind as EditValueKind) {
+    case 'boolean':
+      return {
+        compId,
+        prop,
+        kind: 'boolean',
+        value: (field('v') as HTMLInputElement | null)?.checked,
+      };
+    case 'color': {
+      const hex = field('rgb')?.value ?? '#ffffff';
+      const alpha = toHexByte(numOf('a'));
+      return { compId, prop, kind: 'color', value: `${hex}${alpha}` };
+    }
+    case 'vec2':
+      return { compId, prop, kind: 'vec2', value: [numOf('x'), numOf('y')] };
+    case 'vec3':
+      return {
+        compId,
+        prop,
+        kind: 'vec3',
+        value: [numOf('x'), numOf('y'), numOf('z')],
+      };
+    default:
+      return { compId, prop, kind: kind as EditValueKind, value: field('v')?.value };
+  }
 };
 
 export const renderNodeInspectorHtml = (
-  data: NodeInspectorData | null
+  data: NodeInspectorData | null,
+  options: InspectorRenderOptions = {}
 ): string => {
+  const undoDepth = options.undoDepth ?? 0;
   if (!data) {
     return `<div class="node-inspector-empty">选中节点以查看 Inspector</div>`;
   }
 
+  const undoBtn = `<button type="button" class="insp-undo-btn"${
+    undoDepth > 0 ? '' : ' disabled'
+  } title="撤销上一次属性编辑">撤销${undoDepth > 0 ? ` (${undoDepth})` : ''}</button>`;
+  const bookmarkBtn =
+    options.bookmarked === undefined
+      ? ''
+      : `<button type="button" class="insp-bookmark-btn${options.bookmarked ? ' active' : ''}"
+    title="${options.bookmarked ? '取消书签' : '加入书签（按路径保存，刷新页面后保留）'}">${
+          options.bookmarked ? '★' : '☆'
+        }</button>`;
+
   const nodeBlock = `<section class="insp-comp-block" data-comp="Node">
     <header class="insp-comp-header">
       <span class="insp-comp-name">Node</span>
+      <span class="insp-comp-actions">${bookmarkBtn}${undoBtn}</span>
     </header>
-    <div class="insp-comp-body">
-      <div class="insp-row"><span class="insp-label">位置</span><span class="insp-value">${escapeHtml(
-        data.position
-      )}</span></div>
-    </div>
+    <div class="insp-comp-body">${
+      options.hierarchyUndoDepth === undefined
+        ? ''
+        : renderHierarchyBarHtml(data, options.hierarchyUndoDepth)
+    }${data.nodeRows.map((r) => renderInspectRowHtml(r, NODE_TARGET_ID, options)).join('')}
+    <div class="insp-subhead">世界变换 · 层级</div>${data.worldRows
+      .map((r) => renderInspectRowHtml(r, NODE_TARGET_ID, options))
+      .join('')}</div>
   </section>`;
 
   if (data.components.length === 0) {
@@ -464,12 +772,7 @@ export const renderNodeInspectorHtml = (
   const blocks = data.components
     .map((comp) => {
       const rows = comp.rows
-        .map(
-          (r) =>
-            `<div class="insp-row"><span class="insp-label">${escapeHtml(
-              r.label
-            )}</span><span class="insp-value">${escapeHtml(r.value)}</span></div>`
-        )
+        .map((r) => renderInspectRowHtml(r, comp.compId, options))
         .join('');
 
       const preview = comp.isSprite
@@ -518,12 +821,20 @@ export const renderNodeInspectorHtml = (
         ? `<button type="button" class="insp-export-bmfont-btn" data-bmfont-idx="${comp.bmfontIndex}" title="从内存导出 BMFont zip（重建 .fnt + 图集 png）">导出 BMFont</button>`
         : '';
 
+      const animBtn = comp.isAnimation
+        ? `<button type="button" class="insp-export-anim-btn" data-anim-idx="${comp.animIndex}" title="导出全部 AnimationClip 为 Creator .anim（含帧图 png + meta）">导出 .anim</button>`
+        : '';
+
+      const particleBtn = comp.isParticle
+        ? `<button type="button" class="insp-export-particle-btn" data-particle-idx="${comp.particleIndex}" title="导出粒子 zip（2D 为 .plist + 贴图，3D 为模块配置 JSON + 材质贴图）">导出粒子</button>`
+        : '';
+
       return `<section class="insp-comp-block" data-comp="${escapeHtml(
         comp.shortName
       )}">
         <header class="insp-comp-header">
           <span class="insp-comp-name">${escapeHtml(comp.shortName)}</span>
-          <span class="insp-comp-actions">${spineBtn}${bmfontBtn}${recoverBtn}${stateBadge}</span>
+          <span class="insp-comp-actions">${spineBtn}${bmfontBtn}${animBtn}${particleBtn}${recoverBtn}${stateBadge}</span>
         </header>
         <div class="insp-comp-body">${rows}${preview}</div>
       </section>`;
@@ -0,0 +1,46 @@
+import {
+  diffSceneSnapshots,
+  type SceneDiff,
+  type SceneDiffOptions,
+} from './sceneDiffCore';
+import {
+  exportSceneSnapshot,
+  type SceneSnapshot,
+  type SceneSnapshotOptions,
+} from './sceneSnapshot';
+
+let diffBaseline: SceneSnapshot | null = null;
+
+/** 记录当前场景为对比基线（面板「记录基线」与 MCP 共用） */
+export const captureDiffBaseline = (
+  options?: SceneSnapshotOptions
+): { ok: true; sceneName: string; nodeCount: number } | { ok: false; error: string } => {
+  const snap = exportSceneSnapshot(options);
+  if (!snap) return { ok: false, error: '场景未就绪' };
+  diffBaseline = snap;
+  console.log(`[场景对比] 记录基线 ${snap.sceneName} · ${snap.stats.nodeCount} 节点`);
+  return { ok: true, sceneName: snap.sceneName, nodeCount: snap.stats.nodeCount };
+};
+
+export const getDiffBaseline = (): SceneSnapshot | null => diffBaseline;
+
+/**
+ * 对比 before 与 after；before 省略时用已记录基线，after 省略时导出当前场景。
+ */
+export const diffSceneWithCurrent = (
+  before?: SceneSnapshot | null,
+  after?: SceneSnapshot | null,
+  options?: SceneDiffOptions & SceneSnapshotOptions
+): { ok: true; diff: SceneDiff } | { ok: false; error: string } => {
+  const a = before ?? diffBaseline;
+  if (!a) return { ok: false, error: '没有基线快照：先记录基线或传入 before' };
+  const b = after ?? exportSceneSnapshot(options);
+  if (!b) return { ok: false, error: '场景未就绪' };
+  if (!a.root || !b.root) return { ok: false, error: '快照缺少 root' };
+  try {
+    return { ok: true, diff: diffSceneSnapshots(a, b, options) };
+  } catch (e) {
+    console.error('[场景对比] 对比失败', e);
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+};
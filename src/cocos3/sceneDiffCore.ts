@@ -0,0 +1,318 @@
+import type { SceneNodeSnapshot, SceneSnapshot } from './sceneSnapshot';
+
+export type SceneDiffKind =
+  | 'added'
+  | 'removed'
+  | 'moved'
+  | 'active'
+  | 'transform'
+  | 'uiTransform'
+  | 'components'
+  | 'spriteFrame';
+
+/**
+ * 节点匹配方式：
+ * - id：只按节点 uuid（同一页面会话内两次导出）
+ * - path：只按路径（刷新页面后 uuid 会变）
+ * - auto：先按 id，剩余节点再按路径
+ */
+export type SceneDiffMatchBy = 'id' | 'path' | 'auto';
+
+export interface SceneDiffFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SceneDiffEntry {
+  kind: SceneDiffKind;
+  id: string;
+  name: string;
+  /** 新快照中的路径（removed 为旧路径） */
+  path: string;
+  /** moved：旧路径 */
+  fromPath?: string;
+  changes?: SceneDiffFieldChange[];
+}
+
+export interface SceneDiffSummary {
+  added: number;
+  removed: number;
+  moved: number;
+  active: number;
+  transform: number;
+  uiTransform: number;
+  components: number;
+  spriteFrame: number;
+  /** 匹配上且无任何变化的节点数 */
+  unchanged: number;
+}
+
+export interface SceneDiff {
+  version: 1;
+  matchBy: SceneDiffMatchBy;
+  before: { sceneName: string; exportedAt: string; nodeCount: number; truncated: boolean };
+  after: { sceneName: string; exportedAt: string; nodeCount: number; truncated: boolean };
+  summary: SceneDiffSummary;
+  entries: SceneDiffEntry[];
+  /** entries 超过 maxEntries 被截断 */
+  truncated: boolean;
+}
+
+export interface SceneDiffOptions {
+  matchBy?: SceneDiffMatchBy;
+  /** 位置/缩放/角度/尺寸比较容差，默认 0.01 */
+  epsilon?: number;
+  /** 最多返回条目数，默认 2000（summary 仍统计全部） */
+  maxEntries?: number;
+}
+
+type FlatNode = {
+  node: SceneNodeSnapshot;
+  /** 同名兄弟按序编号后的路径，如 Canvas/Item#2 */
+  pathKey: string;
+  parentId: string;
+};
+
+const KIND_ORDER: SceneDiffKind[] = [
+  'removed',
+  'added',
+  'moved',
+  'active',
+  'transform',
+  'uiTransform',
+  'components',
+  'spriteFrame',
+];
+
+const flattenSnapshot = (snapshot: SceneSnapshot): FlatNode[] => {
+  const out: FlatNode[] = [];
+  const numbered = (seen: Map<string, number>, name: string): string => {
+    const n = (seen.get(name) ?? 0) + 1;
+    seen.set(name, n);
+    return n > 1 ? `${name}#${n}` : name;
+  };
+  const walk = (node: SceneNodeSnapshot, pathKey: string, parentId: string): void => {
+    out.push({ node, pathKey, parentId });
+    const seen = new Map<string, number>();
+    for (const child of node.children) {
+      walk(child, `${pathKey}/${numbered(seen, child.name)}`, node.id);
+    }
+  };
+  walk(snapshot.root, snapshot.root.name, '');
+  // 场景外根节点（常驻 / 游离渲染）的路径带 @kind 前缀，不与场景内路径混淆
+  const seenExtra = new Map<string, number>();
+  for (const extra of snapshot.extraRoots ?? []) {
+    walk(extra, numbered(seenExtra, `@${extra.rootKind ?? 'extra'}/${extra.name}`), '');
+  }
+  return out;
+};
+
+const round = (v: number): number => Math.round(v * 1000) / 1000;
+
+const diffVec = (
+  field: string,
+  a: Record<string, number> | undefined,
+  b: Record<string, number> | undefined,
+  eps: number,
+  out: SceneDiffFieldChange[]
+): void => {
+  if (!a && !b) return;
+  if (!a || !b) {
+    out.push({ field, before: a ?? null, after: b ?? null });
+    return;
+  }
+  const keys = Object.keys(a).concat(Object.keys(b).filter((k) => !(k in a)));
+  const changed = keys.some((k) => Math.abs((a[k] ?? 0) - (b[k] ?? 0)) > eps);
+  if (!changed) return;
+  const pick = (v: Record<string, number>) => {
+    const r: Record<string, number> = {};
+    keys.forEach((k) => {
+      r[k] = round(v[k] ?? 0);
+    });
+    return r;
+  };
+  out.push({ field, before: pick(a), after: pick(b) });
+};
+
+const diffTransform = (
+  a: SceneNodeSnapshot,
+  b: SceneNodeSnapshot,
+  eps: number
+): SceneDiffFieldChange[] => {
+  const out: SceneDiffFieldChange[] = [];
+  diffVec('position', a.transform.position, b.transform.position, eps, out);
+  diffVec('scale', a.transform.scale, b.transform.scale, eps, out);
+  diffVec('euler', a.transform.euler, b.transform.euler, eps, out);
+  return out;
+};
+
+const diffUiTransform = (
+  a: SceneNodeSnapshot,
+  b: SceneNodeSnapshot,
+  eps: number
+): SceneDiffFieldChange[] => {
+  const out: SceneDiffFieldChange[] = [];
+  diffVec('contentSize', a.uiTransform?.contentSize, b.uiTransform?.contentSize, eps, out);
+  diffVec('anchorPoint', a.uiTransform?.anchorPoint, b.uiTransform?.anchorPoint, eps, out);
+  return out;
+};
+
+/** a 比 b 多出的类型；同类型多个组件按个数计 */
+const multisetMinus = (a: string[], b: string[]): string[] => {
+  const rest = b.slice();
+  return a.filter((t) => {
+    const i = rest.indexOf(t);
+    if (i < 0) return true;
+    rest.splice(i, 1);
+    return false;
+  });
+};
+
+const diffComponents = (
+  a: SceneNodeSnapshot,
+  b: SceneNodeSnapshot
+): SceneDiffFieldChange[] => {
+  const before = a.componentTypes;
+  const after = b.componentTypes;
+  if (before.join('|') === after.join('|')) return [];
+  const removed = multisetMinus(before, after);
+  const added = multisetMinus(after, before);
+  const out: SceneDiffFieldChange[] = [];
+  if (removed.length) out.push({ field: 'removed', before: removed, after: null });
+  if (added.length) out.push({ field: 'added', before: null, after: added });
+  if (!removed.length && !added.length) {
+    out.push({ field: 'order', before, after });
+  }
+  return out;
+};
+
+const diffSpriteFrame = (
+  a: SceneNodeSnapshot,
+  b: SceneNodeSnapshot,
+  eps: number
+): SceneDiffFieldChange[] => {
+  const fa = a.spriteFrame;
+  const fb = b.spriteFrame;
+  if (!fa && !fb) return [];
+  if (!fa || !fb) {
+    return [{ field: 'frameName', before: fa?.frameName ?? null, after: fb?.frameName ?? null }];
+  }
+  const out: SceneDiffFieldChange[] = [];
+  if (fa.frameName !== fb.frameName) {
+    out.push({ field: 'frameName', before: fa.frameName, after: fb.frameName });
+  }
+  diffVec('frameRect', fa.frameRect, fb.frameRect, eps, out);
+  if (fa.isRotated !== fb.isRotated) {
+    out.push({ field: 'isRotated', before: fa.isRotated, after: fb.isRotated });
+  }
+  return out;
+};
+
+const snapshotMeta = (s: SceneSnapshot): SceneDiff['before'] => ({
+  sceneName: s.sceneName,
+  exportedAt: s.exportedAt,
+  nodeCount: s.stats.nodeCount,
+  truncated: s.stats.truncated,
+});
+
+/** 比较两份 SceneSnapshot，按 id / 路径匹配节点 */
+export const diffSceneSnapshots = (
+  before: SceneSnapshot,
+  after: SceneSnapshot,
+  options: SceneDiffOptions = {}
+): SceneDiff => {
+  const matchBy = options.matchBy ?? 'auto';
+  const eps = options.epsilon ?? 0.01;
+  const maxEntries = options.maxEntries ?? 2000;
+
+  const flatA = flattenSnapshot(before);
+  const flatB = flattenSnapshot(after);
+  const byIdB = new Map(flatB.map((f) => [f.node.id, f] as [string, FlatNode]));
+  const byPathB = new Map(flatB.map((f) => [f.pathKey, f] as [string, FlatNode]));
+
+  const pairs: Array<[FlatNode, FlatNode]> = [];
+  const matchedA = new Set<FlatNode>();
+  const matchedB = new Set<FlatNode>();
+  const tryPair = (a: FlatNode, b: FlatNode | undefined) => {
+    if (!b || matchedA.has(a) || matchedB.has(b)) return;
+    pairs.push([a, b]);
+    matchedA.add(a);
+    matchedB.add(b);
+  };
+
+  if (matchBy !== 'path') flatA.forEach((a) => tryPair(a, byIdB.get(a.node.id)));
+  if (matchBy !== 'id') flatA.forEach((a) => tryPair(a, byPathB.get(a.pathKey)));
+
+  // 旧节点 → 新节点，用于判断父节点是否变化（id 匹配时父节点 id 可能不同但仍是同一节点）
+  const pairOfA = new Map<string, FlatNode>();
+  pairs.forEach(([a, b]) => pairOfA.set(a.node.id, b));
+
+  const entries: SceneDiffEntry[] = [];
+  const summary: SceneDiffSummary = {
+    added: 0,
+    removed: 0,
+    moved: 0,
+    active: 0,
+    transform: 0,
+    uiTransform: 0,
+    components: 0,
+    spriteFrame: 0,
+    unchanged: 0,
+  };
+  const push = (entry: SceneDiffEntry) => {
+    summary[entry.kind] += 1;
+    entries.push(entry);
+  };
+  const base = (f: FlatNode) => ({ id: f.node.id, name: f.node.name, path: f.node.path });
+
+  flatA
+    .filter((a) => !matchedA.has(a))
+    .forEach((a) => push({ kind: 'removed', ...base(a) }));
+  flatB
+    .filter((b) => !matchedB.has(b))
+    .forEach((b) => push({ kind: 'added', ...base(b) }));
+
+  for (const [a, b] of pairs) {
+    let changed = false;
+    const add = (kind: SceneDiffKind, changes?: SceneDiffFieldChange[]) => {
+      changed = true;
+      push({ kind, ...base(b), changes });
+    };
+
+    const parentB = pairOfA.get(a.parentId);
+    const sameParent = a.parentId === '' ? b.parentId === '' : parentB?.node.id === b.parentId;
+    if (!sameParent) {
+      changed = true;
+      push({ kind: 'moved', ...base(b), fromPath: a.node.path });
+    }
+    if (a.node.active !== b.node.active) {
+      add('active', [{ field: 'active', before: a.node.active, after: b.node.active }]);
+    }
+    const t = diffTransform(a.node, b.node, eps);
+    if (t.length) add('transform', t);
+    const ui = diffUiTransform(a.node, b.node, eps);
+    if (ui.length) add('uiTransform', ui);
+    const comps = diffComponents(a.node, b.node);
+    if (comps.length) add('components', comps);
+    const sf = diffSpriteFrame(a.node, b.node, eps);
+    if (sf.length) add('spriteFrame', sf);
+    if (!changed) summary.unchanged += 1;
+  }
+
+  entries.sort(
+    (x, y) =>
+      KIND_ORDER.indexOf(x.kind) - KIND_ORDER.indexOf(y.kind) ||
+      (x.path < y.path ? -1 : x.path > y.path ? 1 : 0)
+  );
+
+  return {
+    version: 1,
+    matchBy,
+    before: snapshotMeta(before),
+    after: snapshotMeta(after),
+    summary,
+    entries: entries.slice(0, maxEntries),
+    truncated: entries.length > maxEntries,
+  };
+};
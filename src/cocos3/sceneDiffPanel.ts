@@ -0,0 +1,202 @@
+import { captureDiffBaseline, diffSceneWithCurrent, getDiffBaseline } from './sceneDiff';
+import type {
+  SceneDiff,
+  SceneDiffEntry,
+  SceneDiffFieldChange,
+  SceneDiffKind,
+} from './sceneDiffCore';
+import { escapeHtml, FloatingPanel } from './floatingPanel';
+
+const KIND_LABEL: Record<SceneDiffKind, string> = {
+  added: '新增',
+  removed: '删除',
+  moved: '移动',
+  active: '显隐',
+  transform: '变换',
+  uiTransform: '尺寸',
+  components: '组件',
+  spriteFrame: '帧',
+};
+
+const KINDS = Object.keys(KIND_LABEL) as SceneDiffKind[];
+const VIEW_LIMIT = 500;
+
+const formatDiffValue = (v: unknown): string => {
+  if (v === null || v === undefined) return '—';
+  if (Array.isArray(v)) return v.join(', ') || '—';
+  if (typeof v === 'object') {
+    const rec = v as Record<string, unknown>;
+    return Object.keys(rec)
+      .map((k) => `${k}:${rec[k]}`)
+      .join(' ');
+  }
+  return String(v);
+};
+
+const renderChange = (c: SceneDiffFieldChange): string =>
+  `<div class="scene-diff-change"><span class="scene-diff-field">${escapeHtml(
+    c.field
+  )}</span> <span class="scene-diff-before">${escapeHtml(
+    formatDiffValue(c.before)
+  )}</span> → <span class="scene-diff-after">${escapeHtml(formatDiffValue(c.after))}</span></div>`;
+
+/** 场景快照对比浮窗：记录基线 → 对比当前场景 */
+export class SceneDiffFloatingPanel extends FloatingPanel {
+  private bodyEl: HTMLElement | null = null;
+  private summaryEl: HTMLElement | null = null;
+  private tabsEl: HTMLElement | null = null;
+  private filter: SceneDiffKind | 'all' = 'all';
+  private lastDiff: SceneDiff | null = null;
+
+  constructor(private readonly onSelectNode?: (nodeId: string) => void) {
+    super('scene-diff-panel', '场景快照对比');
+  }
+
+  protected onOpen(): void {
+    this.render();
+  }
+
+  protected build(panel: HTMLElement): void {
+    this.summaryEl = document.createElement('div');
+    this.summaryEl.className = 'asset-float-summary';
+    panel.appendChild(this.summaryEl);
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'asset-float-toolbar';
+
+    const baselineBtn = document.createElement('button');
+    baselineBtn.type = 'button';
+    baselineBtn.className = 'asset-float-tab';
+    baselineBtn.textContent = '记录基线';
+    baselineBtn.title = '导出当前场景快照作为对比基线';
+    baselineBtn.addEventListener('click', () => this.captureBaseline());
+    toolbar.appendChild(baselineBtn);
+
+    const diffBtn = document.createElement('button');
+    diffBtn.type = 'button';
+    diffBtn.className = 'asset-float-tab active';
+    diffBtn.textContent = '对比当前';
+    diffBtn.title = '导出当前场景并与基线对比';
+    diffBtn.addEventListener('click', () => this.runDiff());
+    toolbar.appendChild(diffBtn);
+
+    const copyBtn = document.createElement('button');
+    copyBtn.type = 'button';
+    copyBtn.className = 'asset-float-tab';
+    copyBtn.textContent = '复制 JSON';
+    copyBtn.addEventListener('click', () => {
+      if (!this.lastDiff) return;
+      void navigator.clipboard
+        ?.writeText(JSON.stringify(this.lastDiff, null, 2))
+        .catch((e) => console.warn('[场景对比] 复制失败', e));
+    });
+    toolbar.appendChild(copyBtn);
+
+    panel.appendChild(toolbar);
+
+    this.tabsEl = document.createElement('div');
+    this.tabsEl.className = 'asset-float-toolbar scene-diff-tabs';
+    this.tabsEl.addEventListener('click', (ev) => {
+      const tab = (ev.target as HTMLElement).closest('[data-kind]') as HTMLElement | null;
+      if (!tab) return;
+      this.filter = tab.dataset.kind as SceneDiffKind | 'all';
+      this.render();
+    });
+    panel.appendChild(this.tabsEl);
+
+    this.bodyEl = document.createElement('div');
+    this.bodyEl.className = 'asset-float-body';
+    this.bodyEl.addEventListener('click', (ev) => {
+      const item = (ev.target as HTMLElement).closest(
+        '.scene-diff-item[data-node-id]'
+      ) as HTMLElement | null;
+      const nodeId = item?.dataset.nodeId;
+      if (nodeId) this.onSelectNode?.(nodeId);
+    });
+    panel.appendChild(this.bodyEl);
+  }
+
+  private captureBaseline(): void {
+    const res = captureDiffBaseline();
+    this.lastDiff = null;
+    if (!res.ok) {
+      if (this.summaryEl) this.summaryEl.textContent = `记录基线失败: ${res.error}`;
+      return;
+    }
+    this.render();
+  }
+
+  private runDiff(): void {
+    const res = diffSceneWithCurrent();
+    if (!res.ok) {
+      if (this.summaryEl) this.summaryEl.textContent = res.error;
+      return;
+    }
+    this.lastDiff = res.diff;
+    this.render();
+  }
+
+  private render(): void {
+    if (!this.bodyEl || !this.summaryEl || !this.tabsEl) return;
+    const baseline = getDiffBaseline();
+    const diff = this.lastDiff;
+
+    if (!diff) {
+      this.summaryEl.textContent = baseline
+        ? `基线 ${baseline.sceneName} · ${baseline.stats.nodeCount} 节点 · ${baseline.exportedAt}`
+        : '尚未记录基线';
+      this.tabsEl.innerHTML = '';
+      this.bodyEl.innerHTML = `<div class="asset-float-empty">${
+        baseline ? '点击「对比当前」查看变化' : '先点击「记录基线」，操作游戏后再对比'
+      }</div>`;
+      return;
+    }
+
+    const s = diff.summary;
+    this.summaryEl.textContent =
+      `${diff.before.nodeCount} → ${diff.after.nodeCount} 节点 · 未变 ${s.unchanged}` +
+      (diff.truncated ? ' · 条目已截断' : '');
+
+    const total = diff.entries.length;
+    this.tabsEl.innerHTML = [
+      `<button type="button" class="asset-float-tab${
+        this.filter === 'all' ? ' active' : ''
+      }" data-kind="all">全部 ${total}</button>`,
+      ...KINDS.filter((k) => s[k] > 0).map(
+        (k) => `<button type="button" class="asset-float-tab${
+          this.filter === k ? ' active' : ''
+        }" data-kind="${k}">${KIND_LABEL[k]} ${s[k]}</button>`
+      ),
+    ].join('');
+
+    const list = diff.entries.filter((e) => this.filter === 'all' || e.kind === this.filter);
+    if (list.length === 0) {
+      this.bodyEl.innerHTML = '<div class="asset-float-empty">无差异</div>';
+      return;
+    }
+    const more =
+      list.length > VIEW_LIMIT
+        ? `<div class="asset-float-more">仅显示前 ${VIEW_LIMIT} 条，共 ${list.length} 条</div>`
+        : '';
+    this.bodyEl.innerHTML =
+      list
+        .slice(0, VIEW_LIMIT)
+        .map((e) => this.renderEntry(e))
+        .join('') + more;
+  }
+
+  private renderEntry(e: SceneDiffEntry): string {
+    // 删除的节点在当前场景中已不存在，不可点击定位
+    const nodeAttr = e.kind === 'removed' ? '' : ` data-node-id="${escapeHtml(e.id)}"`;
+    const from = e.fromPath
+      ? `<div class="scene-diff-change">从 ${escapeHtml(e.fromPath)}</div>`
+      : '';
+    const changes = (e.changes ?? []).map(renderChange).join('');
+    return `<div class="scene-diff-item scene-diff-${e.kind}"${nodeAttr}>
+      <div class="scene-diff-head">
+        <span class="scene-diff-kind">${KIND_LABEL[e.kind]}</span>
+        <span class="scene-diff-path" title="${escapeHtml(e.path)}">${escapeHtml(e.path)}</span>
+      </div>${from}${changes}
+    </div>`;
+  }
+}
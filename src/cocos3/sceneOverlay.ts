@@ -0,0 +1,454 @@
+import {
+  analyzeLayoutConstraints,
+  WIDGET_MISMATCH,
+  type CssRect,
+  type LayoutConstraint,
+  type LayoutConstraintReport,
+  type WidgetConstraint,
+  type WidgetEdge,
+} from './layoutConstraints';
+import { findNodeByPathSuffix } from './nodeBoundsOverlay';
+import { HookManager } from './propertyHook';
+import { assignBatchIndices, collectRenderUnits, type RenderUnit } from './renderBatch';
+import { findNodeById, getNodeId, getSceneRoot } from './sceneTree';
+
+/**
+ * 画面叠加模式（与单节点包围框 nodeBoundsOverlay 独立，可同时显示）：
+ * - bounds：子树内全部渲染节点的包围框
+ * - overdraw：渲染区域重叠次数热力图
+ * - batch：按贴图 + 材质着色，相邻颜色不同处即断批
+ * - layout：Widget 对齐边与边距、Layout 内边距 / 间距 / 子节点槽位，标出两者冲突
+ */
+export type SceneOverlayMode = 'bounds' | 'overdraw' | 'batch' | 'layout';
+
+export interface SceneOverlayStatus {
+  mode: SceneOverlayMode | null;
+  rootId: string | null;
+  rootName: string;
+  /** 子树内渲染单元数（含屏幕外 / 非 UI） */
+  units: number;
+  /** overdraw：最大重叠层数与有覆盖区域的平均层数 */
+  maxOverdraw?: number;
+  avgOverdraw?: number;
+  /** batch：按相邻合批规则估算的批次数 */
+  batches?: number;
+  /** layout：子树内 Widget / Layout 数与冲突数 */
+  widgets?: number;
+  layouts?: number;
+  conflicts?: number;
+}
+
+const REFRESH_MS = 250;
+/** overdraw 统计网格的边长（CSS 像素） */
+const HEAT_CELL = 4;
+const LABEL_LIMIT = 150;
+
+/** 重叠层数 → 颜色（1 层蓝到 6 层以上红） */
+const HEAT_COLORS: Array<[number, number, number]> = [
+  [0, 0, 0],
+  [33, 150, 243],
+  [0, 200, 83],
+  [255, 235, 59],
+  [255, 152, 0],
+  [244, 67, 54],
+  [183, 28, 28],
+];
+
+const BOUNDS_COLORS: Record<string, string> = {
+  Sprite: '#4fc3f7',
+  Label: '#ffd54f',
+  RichText: '#ffd54f',
+  Skeleton: '#ce93d8',
+  Graphics: '#a5d6a7',
+  Mask: '#ff8a65',
+};
+
+let mode: SceneOverlayMode | null = null;
+let rootId: string | null = null;
+let rootPath: string | null = null;
+let timer: number | null = null;
+let canvas: HTMLCanvasElement | null = null;
+/** overdraw 网格的离屏画布，每次刷新复用 */
+let heatCanvas: HTMLCanvasElement | null = null;
+let status: SceneOverlayStatus = { mode: null, rootId: null, rootName: '', units: 0 };
+
+const ensureCanvas = (): HTMLCanvasElement => {
+  if (canvas?.isConnected) return canvas;
+  canvas = document.createElement('canvas');
+  canvas.id = 'cocos-inspector-scene-overlay';
+  canvas.style.cssText = [
+    'position:fixed',
+    'left:0',
+    'top:0',
+    'width:100vw',
+    'height:100vh',
+    'pointer-events:none',
+    'z-index:2147483645',
+  ].join(';');
+  document.body.appendChild(canvas);
+  return canvas;
+};
+
+const resolveRoot = (): cc.Node | null => {
+  const scene = getSceneRoot();
+  if (!scene) return null;
+  if (rootId) return findNodeById(scene, rootId);
+  if (rootPath) return findNodeByPathSuffix(rootPath);
+  return scene;
+};
+
+/** 字符串 → 稳定色相 */
+const hueOf = (key: string): number => {
+  let h = 0;
+  for (let i = 0; i < key.length; i++) h = (h * 31 + key.charCodeAt(i)) >>> 0;
+  return h % 360;
+};
+
+const drawTag = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number): void => {
+  ctx.font = '11px monospace';
+  const w = ctx.measureText(text).width + 6;
+  ctx.fillStyle = 'rgba(0,0,0,0.6)';
+  ctx.fillRect(x, y - 14, w, 14);
+  ctx.fillStyle = '#fff';
+  ctx.fillText(text, x + 3, y - 3);
+};
+
+const drawLegend = (ctx: CanvasRenderingContext2D, lines: string[]): void => {
+  ctx.font = '12px monospace';
+  const w = Math.max(...lines.map((l) => ctx.measureText(l).width)) + 16;
+  ctx.fillStyle = 'rgba(0,0,0,0.7)';
+  ctx.fillRect(8, 8, w, lines.length * 16 + 8);
+  ctx.fillStyle = '#fff';
+  lines.forEach((line, i) => ctx.fillText(line, 16, 24 + i * 16));
+};
+
+const drawBounds = (ctx: CanvasRenderingContext2D, units: RenderUnit[]): void => {
+  const labelled = units.length <= LABEL_LIMIT;
+  for (const unit of units) {
+    if (!unit.rect) continue;
+    const { left, top, width, height } = unit.rect;
+    ctx.strokeStyle = BOUNDS_COLORS[unit.batch.component] ?? '#e0e0e0';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(left + 0.5, top + 0.5, width - 1, height - 1);
+    if (labelled) drawTag(ctx, unit.nodeName, left, top);
+  }
+};
+
+const drawOverdraw = (
+  ctx: CanvasRenderingContext2D,
+  units: RenderUnit[],
+  viewW: number,
+  viewH: number
+): { max: number; avg: number } => {
+  const cols = Math.ceil(viewW / HEAT_CELL);
+  const rows = Math.ceil(viewH / HEAT_CELL);
+  const grid = new Uint16Array(cols * rows);
+  for (const unit of units) {
+    if (!unit.rect) continue;
+    const c0 = Math.max(0, Math.floor(unit.rect.left / HEAT_CELL));
+    const r0 = Math.max(0, Math.floor(unit.rect.top / HEAT_CELL));
+    const c1 = Math.min(cols, Math.ceil((unit.rect.left + unit.rect.width) / HEAT_CELL));
+    const r1 = Math.min(rows, Math.ceil((unit.rect.top + unit.rect.height) / HEAT_CELL));
+    for (let r = r0; r < r1; r++) {
+      for (let c = c0; c < c1; c++) grid[r * cols + c] += 1;
+    }
+  }
+
+  let max = 0;
+  let sum = 0;
+  let covered = 0;
+  const image = ctx.createImageData(cols, rows);
+  for (let i = 0; i < grid.length; i++) {
+    const n = grid[i];
+    if (n === 0) continue;
+    max = Math.max(max, n);
+    sum += n;
+    covered += 1;
+    const [r, g, b] = HEAT_COLORS[Math.min(n, HEAT_COLORS.length - 1)];
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = 110;
+  }
+  if (!heatCanvas) heatCanvas = document.createElement('canvas');
+  const cells = heatCanvas;
+  if (cells.width !== cols) cells.width = cols;
+  if (cells.height !== rows) cells.height = rows;
+  cells.getContext('2d')?.putImageData(image, 0, 0);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(cells, 0, 0, cols * HEAT_CELL, rows * HEAT_CELL);
+  return { max, avg: covered > 0 ? Math.round((sum / covered) * 100) / 100 : 0 };
+};
+
+const drawBatches = (ctx: CanvasRenderingContext2D, units: RenderUnit[]): number => {
+  const indices = assignBatchIndices(units);
+  const labelled = units.length <= LABEL_LIMIT;
+  units.forEach((unit, i) => {
+    if (!unit.rect) return;
+    const { left, top, width, height } = unit.rect;
+    const hue = unit.batch.standalone ? 0 : hueOf(unit.batch.key);
+    const sat = unit.batch.standalone ? 0 : 80;
+    ctx.fillStyle = `hsla(${hue},${sat}%,55%,0.28)`;
+    ctx.fillRect(left, top, width, height);
+    ctx.strokeStyle = `hsl(${hue},${sat}%,60%)`;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(left + 0.5, top + 0.5, width - 1, height - 1);
+    // 每批第一个单元标批次号，断批处一目了然
+    const first = i === 0 || indices[i - 1] !== indices[i];
+    if (first && labelled) drawTag(ctx, `#${indices[i] + 1} ${unit.batch.textureName}`, left, top);
+  });
+  return units.length > 0 ? indices[indices.length - 1] + 1 : 0;
+};
+
+const LAYOUT_COLOR = '#ffb74d';
+const SPACING_FILL = 'rgba(186,104,200,0.35)';
+const WIDGET_OK = '#69f0ae';
+const WIDGET_BAD = '#ff5252';
+
+const right = (r: CssRect): number => r.left + r.width;
+const bottom = (r: CssRect): number => r.top + r.height;
+
+const dashedRect = (ctx: CanvasRenderingContext2D, r: CssRect, color: string): void => {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 3]);
+  ctx.strokeRect(r.left + 0.5, r.top + 0.5, r.width - 1, r.height - 1);
+  ctx.setLineDash([]);
+};
+
+/** 相邻两个槽位之间的 spacing 区域（沿排布方向） */
+const spacingRect = (a: CssRect, b: CssRect, horizontal: boolean): CssRect | null => {
+  const [first, second] = (horizontal ? a.left <= b.left : a.top <= b.top) ? [a, b] : [b, a];
+  if (horizontal) {
+    const top = Math.min(first.top, second.top);
+    const width = second.left - right(first);
+    const height = Math.max(bottom(first), bottom(second)) - top;
+    return width > 0 ? { left: right(first), top, width, height } : null;
+  }
+  const left = Math.min(first.left, second.left);
+  const height = second.top - bottom(first);
+  const width = Math.max(right(first), right(second)) - left;
+  return height > 0 ? { left, top: bottom(first), width, height } : null;
+};
+
+const drawLayoutBox = (ctx: CanvasRenderingContext2D, layout: LayoutConstraint): void => {
+  const { rect, contentRect } = layout;
+  if (!rect) return;
+  // padding：外框与排布区域之间
+  if (contentRect) {
+    ctx.fillStyle = 'rgba(255,183,77,0.22)';
+    ctx.beginPath();
+    ctx.rect(rect.left, rect.top, rect.width, rect.height);
+    ctx.rect(contentRect.left, contentRect.top, contentRect.width, contentRect.height);
+    ctx.fill('evenodd');
+    dashedRect(ctx, contentRect, LAYOUT_COLOR);
+  }
+  ctx.strokeStyle = LAYOUT_COLOR;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(rect.left, rect.top, rect.width, rect.height);
+
+  const slots = layout.slots.filter((s) => s.rect);
+  const horizontal = layout.type === 'HORIZONTAL';
+  if (horizontal || layout.type === 'VERTICAL') {
+    ctx.fillStyle = SPACING_FILL;
+    for (let i = 0; i + 1 < slots.length; i++) {
+      const gap = spacingRect(slots[i].rect!, slots[i + 1].rect!, horizontal);
+      if (gap) ctx.fillRect(gap.left, gap.top, gap.width, gap.height);
+    }
+  }
+  slots.forEach((slot, i) => {
+    const r = slot.rect!;
+    ctx.strokeStyle = 'rgba(255,183,77,0.8)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(r.left + 0.5, r.top + 0.5, r.width - 1, r.height - 1);
+    drawTag(ctx, `${i}`, r.left, r.top + 14);
+  });
+
+  const p = layout.padding;
+  drawTag(
+    ctx,
+    `${layout.name} · ${layout.type} · pad ${p.left}/${p.right}/${p.top}/${p.bottom} · ` +
+      `spacing ${layout.spacing.x},${layout.spacing.y}`,
+    rect.left,
+    rect.top
+  );
+};
+
+const drawWidget = (ctx: CanvasRenderingContext2D, widget: WidgetConstraint): void => {
+  const n = widget.nodeRect;
+  const t = widget.targetRect;
+  if (!n) return;
+  ctx.strokeStyle = '#4fc3f7';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(n.left + 0.5, n.top + 0.5, n.width - 1, n.height - 1);
+  if (!t) return;
+  dashedRect(ctx, t, 'rgba(224,224,224,0.7)');
+
+  const cx = n.left + n.width / 2;
+  const cy = n.top + n.height / 2;
+  for (const e of widget.edges) {
+    const bad = e.actual !== null && Math.abs(e.actual - e.expected) > WIDGET_MISMATCH;
+    // 线段两端：目标边 → 节点边（CSS 坐标，y 向下）
+    const segments: Record<WidgetEdge, [number, number, number, number]> = {
+      left: [t.left, cy, n.left, cy],
+      right: [right(n), cy, right(t), cy],
+      top: [cx, t.top, cx, n.top],
+      bottom: [cx, bottom(n), cx, bottom(t)],
+      horizontalCenter: [t.left + t.width / 2, cy, cx, cy],
+      verticalCenter: [cx, t.top + t.height / 2, cx, cy],
+    };
+    const seg = segments[e.edge];
+    ctx.strokeStyle = bad ? WIDGET_BAD : WIDGET_OK;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(seg[0], seg[1]);
+    ctx.lineTo(seg[2], seg[3]);
+    ctx.stroke();
+    const value = `${e.edge} ${e.value}${e.unit === '%' ? '%' : ''}`;
+    drawTag(
+      ctx,
+      bad ? `${value} ≠ ${e.actual}` : value,
+      (seg[0] + seg[2]) / 2 + 2,
+      (seg[1] + seg[3]) / 2 - 2
+    );
+  }
+};
+
+const drawLayout = (ctx: CanvasRenderingContext2D, report: LayoutConstraintReport): void => {
+  report.layouts.forEach((l) => drawLayoutBox(ctx, l));
+  report.widgets.forEach((w) => drawWidget(ctx, w));
+  const rects = new Map<string, CssRect | null>();
+  report.widgets.forEach((w) => rects.set(w.nodeId, w.nodeRect));
+  for (const c of report.conflicts) {
+    const r = rects.get(c.nodeId);
+    if (!r) continue;
+    ctx.strokeStyle = WIDGET_BAD;
+    ctx.lineWidth = 3;
+    ctx.strokeRect(r.left, r.top, r.width, r.height);
+    drawTag(ctx, `冲突 ${c.name}`, r.left, bottom(r) + 14);
+  }
+};
+
+const render = (): void => {
+  if (!mode) return;
+  const root = resolveRoot();
+  const el = ensureCanvas();
+  const dpr = window.devicePixelRatio || 1;
+  const viewW = window.innerWidth;
+  const viewH = window.innerHeight;
+  if (el.width !== Math.round(viewW * dpr) || el.height !== Math.round(viewH * dpr)) {
+    el.width = Math.round(viewW * dpr);
+    el.height = Math.round(viewH * dpr);
+  }
+  const ctx = el.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, viewW, viewH);
+
+  if (!root) {
+    status = { mode, rootId, rootName: '', units: 0 };
+    drawLegend(ctx, ['叠加根节点不存在']);
+    return;
+  }
+  if (mode === 'layout') {
+    const report = HookManager.getInstance().runSilently(() => analyzeLayoutConstraints(root));
+    const name = root.name || '(unnamed)';
+    drawLayout(ctx, report);
+    drawLegend(ctx, [
+      `约束 · ${name} · ${report.widgets.length} Widget · ${report.layouts.length} Layout · ` +
+        `${report.conflicts.length} 冲突`,
+      '绿线 Widget 边距（红色为与配置不符）· 橙色 Layout 内边距 · 紫色 spacing',
+      ...report.conflicts.slice(0, 3).map((c) => `⚠ ${c.name}：${c.message}`),
+    ]);
+    status = {
+      mode,
+      rootId: getNodeId(root),
+      rootName: name,
+      units: 0,
+      widgets: report.widgets.length,
+      layouts: report.layouts.length,
+      conflicts: report.conflicts.length,
+    };
+    return;
+  }
+
+  const units = HookManager.getInstance().runSilently(() => collectRenderUnits(root));
+  const next: SceneOverlayStatus = {
+    mode,
+    rootId: getNodeId(root),
+    rootName: root.name || '(unnamed)',
+    units: units.length,
+  };
+
+  if (mode === 'bounds') {
+    drawBounds(ctx, units);
+    drawLegend(ctx, [`包围盒 · ${next.rootName} · ${units.length} 个渲染节点`]);
+  } else if (mode === 'overdraw') {
+    const { max, avg } = drawOverdraw(ctx, units, viewW, viewH);
+    next.maxOverdraw = max;
+    next.avgOverdraw = avg;
+    drawLegend(ctx, [
+      `Overdraw · ${next.rootName}`,
+      `最大 ${max} 层 · 平均 ${avg} 层（按包围盒）`,
+      '蓝 1 · 绿 2 · 黄 3 · 橙 4 · 红 5+',
+    ]);
+  } else {
+    const batches = drawBatches(ctx, units);
+    next.batches = batches;
+    drawLegend(ctx, [
+      `合批 · ${next.rootName} · ${units.length} 个渲染节点 ≈ ${batches} 批`,
+      '同色相邻可合批；灰色单独提交（Spine / Graphics / Mask 等）',
+    ]);
+  }
+  status = next;
+};
+
+const startTimer = (): void => {
+  if (timer !== null) return;
+  timer = window.setInterval(() => {
+    try {
+      render();
+    } catch (error) {
+      console.warn('[画面叠加] 绘制失败', error);
+    }
+  }, REFRESH_MS);
+};
+
+/** 开启 / 切换叠加模式；nodeId / path 指定子树，省略为整个场景 */
+export const setSceneOverlayMode = (
+  next: SceneOverlayMode | null,
+  options?: { nodeId?: string; path?: string }
+): { ok: true; status: SceneOverlayStatus } | { ok: false; error: string } => {
+  if (!next) return { ok: true, status: hideSceneOverlay() };
+  const scene = getSceneRoot();
+  if (!scene) return { ok: false, error: '场景未就绪' };
+  if (options?.nodeId && !findNodeById(scene, options.nodeId)) {
+    return { ok: false, error: `未找到节点 ${options.nodeId}` };
+  }
+  if (!options?.nodeId && options?.path && !findNodeByPathSuffix(options.path)) {
+    return { ok: false, error: `未找到路径 ${options.path}` };
+  }
+  mode = next;
+  rootId = options?.nodeId ?? null;
+  rootPath = rootId ? null : options?.path ?? null;
+  render();
+  startTimer();
+  return { ok: true, status };
+};
+
+export const hideSceneOverlay = (): SceneOverlayStatus => {
+  mode = null;
+  rootId = null;
+  rootPath = null;
+  if (timer !== null) {
+    window.clearInterval(timer);
+    timer = null;
+  }
+  canvas?.remove();
+  canvas = null;
+  heatCanvas = null;
+  status = { mode: null, rootId: null, rootName: '', units: 0 };
+  return status;
+};
+
+export const getSceneOverlayStatus = (): SceneOverlayStatus => status;
@@ -1,10 +1,18 @@
+import { getNodeComponents } from './componentAccess';
+import { collectComponentProps, type SnapshotProps } from './componentProps';
+import { findNodeByPathSuffix } from './nodeBoundsOverlay';
+import { collectNodeWorldMetrics, type NodeWorldMetrics } from './nodeMetrics';
 import { collectNodeInspectorData } from './renderableInspector';
 import { collectSpriteInspectData } from './spriteInspector';
 import {
   buildNodePath,
   buildTreeInfo,
+  findNodeById,
+  getExtraRoots,
   getNodeId,
   getSceneRoot,
+  withExtraRoots,
+  type ExtraRootKind,
   type TreeNodeInfo,
 } from './sceneTree';
 
@@ -23,7 +31,10 @@ export interface SceneComponentSnapshot {
   typeName: string;
   shortName: string;
   enabled: boolean;
+  /** Inspector 展示行（人读；重建请用 props） */
   rows: Array<{ label: string; value: string }>;
+  /** 结构化属性（version 2）：数值 / 颜色 / 向量 / 枚举 / 资源 uuid 等带类型的值 */
+  props: SnapshotProps;
   flags: {
     isSprite: boolean;
     isSpine: boolean;
@@ -46,19 +57,29 @@ export interface SceneNodeSnapshot {
     contentSize: { width: number; height: number };
     anchorPoint: { x: number; y: number };
   };
+  /** 世界变换、包围盒、layer、兄弟序号、activeInHierarchy、生效透明度（旧快照无此字段） */
+  world?: SceneNodeWorld;
   /** Sprite 帧元数据（rect/offset/originalSize，供场景重建） */
   spriteFrame?: SceneSpriteFrameSnapshot;
+  /** 仅场景外根节点（extraRoots 各项）带此字段 */
+  rootKind?: ExtraRootKind;
   componentTypes: string[];
   components: SceneComponentSnapshot[];
   children: SceneNodeSnapshot[];
 }
 
+/** 快照中的世界信息：同 NodeWorldMetrics，透明度只保留相乘结果 */
+export type SceneNodeWorld = Omit<NodeWorldMetrics, 'opacityChain'>;
+
 export interface SceneSnapshot {
-  version: 1;
+  /** 2：组件带结构化 props（1 只有展示行 rows） */
+  version: 2;
   exportedAt: string;
   pageUrl: string;
   engineVersion: string;
   sceneName: string;
+  /** 子树导出时的根节点（root.path 仍为相对场景的完整路径） */
+  subtreeRoot?: { id: string; path: string };
   stats: {
     nodeCount: number;
     spriteCount: number;
@@ -67,11 +88,30 @@ export interface SceneSnapshot {
     truncated: boolean;
   };
   root: SceneNodeSnapshot;
+  /** 整场景导出时附带的场景外根节点（常驻 / 游离渲染），与 root 同级；旧快照无此字段 */
+  extraRoots?: SceneNodeSnapshot[];
 }
 
 export interface SceneSnapshotOptions {
   maxNodes?: number;
   includeComponents?: boolean;
+  /** 子树根节点 id（优先于 rootPath） */
+  rootId?: string;
+  /** 子树根节点路径后缀，同 findNodeByPathSuffix，如 Canvas/Popup/BigWin */
+  rootPath?: string;
+  /** 相对子树根的最大深度，0 只导出根节点；默认不限 */
+  maxDepth?: number;
+  /**
+   * 只保留这些类型的组件详情（短名或完整类名，如 ['Sprite', 'Label']）。
+   * componentTypes 字段仍列出节点全部组件类型。
+   */
+  componentTypes?: string[];
+}
+
+/** 节点采集参数（整树导出与分片导出共用） */
+export interface SceneNodeRecordOptions {
+  includeComponents: boolean;
+  componentTypes?: string[];
 }
 
 const readVec3 = (v: unknown): { x: number; y: number; z: number } => {
@@ -93,6 +133,19 @@ const collectTransform = (node: cc.Node): SceneNodeSnapshot['transform'] => {
   };
 };
 
+const collectWorld = (node: cc.Node): SceneNodeWorld | undefined => {
+  try {
+    const { opacityChain: _chain, ...world } = collectNodeWorldMetrics(node);
+    return world;
+  } catch (e) {
+    console.warn(
+      `[sceneSnapshot] world(${getNodeId(node)}) 采集失败`,
+      e instanceof Error ? e.message : e
+    );
+    return undefined;
+  }
+};
+
 const collectUiTransform = (
   node: cc.Node
 ): SceneNodeSnapshot['uiTransform'] | undefined => {
@@ -176,22 +229,30 @@ const countStats = (
   node.children.forEach((ch) => countStats(ch, acc));
 };
 
-const buildNodeSnapshot = (
+/** 快照中的节点路径（buildNodePath 为空时退回节点名 / id） */
+export const buildNodePathForSnapshot = (sceneRoot: cc.Node, node: cc.Node): string => {
+  const id = getNodeId(node);
+  return buildNodePath(sceneRoot, id) || node.name || id;
+};
+
+/** 单节点快照（children 为空），整树导出与分片导出共用 */
+export const buildNodeRecord = (
   node: cc.Node,
   sceneRoot: cc.Node,
-  state: { count: number; maxNodes: number; includeComponents: boolean }
-): SceneNodeSnapshot | null => {
-  if (state.count >= state.maxNodes) return null;
-  state.count += 1;
-
+  options: SceneNodeRecordOptions
+): SceneNodeSnapshot => {
+  const { includeComponents } = options;
   const id = getNodeId(node);
-  const inspector = state.includeComponents ? collectNodeInspectorData(id) : null;
-  const components: SceneComponentSnapshot[] = (inspector?.components ?? []).map(
-    (c) => ({
+  const inspector = includeComponents ? collectNodeInspectorData(id) : null;
+  // 与 collectNodeInspectorData 同序（均为 getNodeComponents）
+  const rawComponents = inspector ? getNodeComponents(node) : [];
+  const allComponents: SceneComponentSnapshot[] = (inspector?.components ?? []).map(
+    (c, i) => ({
       typeName: c.typeName,
       shortName: c.shortName,
       enabled: c.enabled,
-      rows: c.rows,
+      rows: c.rows.map((r) => ({ label: r.label, value: r.value })),
+      props: collectComponentProps(rawComponents[i], sceneRoot),
       flags: {
         isSprite: c.isSprite,
         isSpine: c.isSpine,
@@ -201,66 +262,127 @@ const buildNodeSnapshot = (
     })
   );
 
+  const wanted = (options.componentTypes ?? []).map((t) => t.replace(/^cc\./, '').toLowerCase());
+  const components = wanted.length
+    ? allComponents.filter(
+        (c) =>
+          wanted.indexOf(c.shortName.toLowerCase()) >= 0 ||
+          wanted.indexOf(c.typeName.replace(/^cc\./, '').toLowerCase()) >= 0
+      )
+    : allComponents;
+
   const hasSprite = components.some((c) => c.flags.isSprite);
   const spriteFrame =
-    state.includeComponents && hasSprite
-      ? collectSpriteFrameSnapshot(id)
-      : undefined;
-
-  const children: SceneNodeSnapshot[] = [];
-  for (const child of node.children ?? []) {
-    if (!child) continue;
-    if (state.count >= state.maxNodes) break;
-    const snap = buildNodeSnapshot(child, sceneRoot, state);
-    if (snap) children.push(snap);
-  }
+    includeComponents && hasSprite ? collectSpriteFrameSnapshot(id) : undefined;
 
   return {
     id,
     name: node.name || '(unnamed)',
     active: node.active !== false,
-    path: buildNodePath(sceneRoot, id) || node.name || id,
+    path: buildNodePathForSnapshot(sceneRoot, node),
     transform: collectTransform(node),
     uiTransform: collectUiTransform(node),
+    world: collectWorld(node),
     spriteFrame,
-    componentTypes: components.map((c) => c.typeName),
+    componentTypes: allComponents.map((c) => c.typeName),
     components,
-    children,
+    children: [],
   };
 };
 
+const buildNodeSnapshot = (
+  node: cc.Node,
+  sceneRoot: cc.Node,
+  depth: number,
+  state: { count: number; maxNodes: number; maxDepth: number; record: SceneNodeRecordOptions }
+): SceneNodeSnapshot | null => {
+  if (state.count >= state.maxNodes) return null;
+  state.count += 1;
+
+  const record = buildNodeRecord(node, sceneRoot, state.record);
+  if (depth >= state.maxDepth) return record;
+  for (const child of node.children ?? []) {
+    if (!child) continue;
+    if (state.count >= state.maxNodes) break;
+    const snap = buildNodeSnapshot(child, sceneRoot, depth + 1, state);
+    if (snap) record.children.push(snap);
+  }
+  return record;
+};
+
+/** 解析导出起点：rootId / rootPath 指定子树，否则为场景根 */
+export const resolveSnapshotRoot = (
+  options: Pick<SceneSnapshotOptions, 'rootId' | 'rootPath'>
+): { ok: true; scene: cc.Node; root: cc.Node } | { ok: false; error: string } => {
+  const scene = getSceneRoot();
+  if (!scene) return { ok: false, error: '场景未就绪' };
+  if (options.rootId) {
+    const root = findNodeById(scene, options.rootId);
+    return root ? { ok: true, scene, root } : { ok: false, error: `未找到节点 ${options.rootId}` };
+  }
+  if (options.rootPath) {
+    const root = findNodeByPathSuffix(options.rootPath);
+    return root
+      ? { ok: true, scene, root }
+      : { ok: false, error: `未找到路径 ${options.rootPath}` };
+  }
+  return { ok: true, scene, root: scene };
+};
+
 export const exportSceneSnapshot = (
   options: SceneSnapshotOptions = {}
 ): SceneSnapshot | null => {
-  const scene = getSceneRoot();
-  if (!scene) return null;
+  const resolved = resolveSnapshotRoot(options);
+  if (!resolved.ok) {
+    console.warn(`[sceneSnapshot] 导出失败: ${resolved.error}`);
+    return null;
+  }
+  const { scene } = resolved;
 
   const maxNodes = options.maxNodes ?? 3000;
-  const includeComponents = options.includeComponents !== false;
-  const state = { count: 0, maxNodes, includeComponents };
+  const state = {
+    count: 0,
+    maxNodes,
+    maxDepth: options.maxDepth ?? Infinity,
+    record: {
+      includeComponents: options.includeComponents !== false,
+      componentTypes: options.componentTypes,
+    },
+  };
 
-  const root = buildNodeSnapshot(scene, scene, state);
+  const root = buildNodeSnapshot(resolved.root, scene, 0, state);
   if (!root) return null;
 
+  const extraRoots: SceneNodeSnapshot[] = [];
+  if (resolved.root === scene) {
+    for (const extra of getExtraRoots(scene)) {
+      const snap = buildNodeSnapshot(extra.node, scene, 0, state);
+      if (snap) extraRoots.push({ ...snap, rootKind: extra.kind });
+    }
+  }
+
   const statsBase = { nodeCount: 0, spriteCount: 0, spineCount: 0, labelCount: 0 };
   countStats(root, statsBase);
+  extraRoots.forEach((extra) => countStats(extra, statsBase));
 
   return {
-    version: 1,
+    version: 2,
     exportedAt: new Date().toISOString(),
     pageUrl: window.location.href,
     engineVersion: String(window.cc?.ENGINE_VERSION ?? '3.x'),
     sceneName: scene.name || 'Scene',
+    subtreeRoot: resolved.root !== scene ? { id: root.id, path: root.path } : undefined,
     stats: {
       ...statsBase,
       truncated: state.count >= maxNodes,
     },
     root,
+    ...(extraRoots.length > 0 ? { extraRoots } : {}),
   };
 };
 
 export const getSceneTreeLite = (): TreeNodeInfo | null => {
   const scene = getSceneRoot();
   if (!scene) return null;
-  return buildTreeInfo(scene);
+  return withExtraRoots(buildTreeInfo(scene), scene);
 };
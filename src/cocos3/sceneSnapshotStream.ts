@@ -0,0 +1,205 @@
+import {
+  buildNodeRecord,
+  buildNodePathForSnapshot,
+  resolveSnapshotRoot,
+  type SceneNodeRecordOptions,
+  type SceneNodeSnapshot,
+  type SceneSnapshot,
+  type SceneSnapshotOptions,
+} from './sceneSnapshot';
+import { getExtraRoots, getNodeId, type ExtraRootKind } from './sceneTree';
+
+/** 分片中的节点：SceneNodeSnapshot 去掉 children，改用 parentId 还原树 */
+export type SceneSnapshotNodeRecord = Omit<SceneNodeSnapshot, 'children'> & {
+  /** 场景根与场景外根节点（带 rootKind）为 null */
+  parentId: string | null;
+  depth: number;
+};
+
+export interface SceneSnapshotStreamBegin {
+  exportId: string;
+  exportedAt: string;
+  pageUrl: string;
+  engineVersion: string;
+  sceneName: string;
+  /** 子树导出时的根节点 */
+  subtreeRoot?: { id: string; path: string };
+  /** 开始导出时的节点总数（深度优先顺序，cursor 即下标） */
+  totalNodes: number;
+  chunkSize: number;
+}
+
+export interface SceneSnapshotChunk {
+  exportId: string;
+  cursor: number;
+  /** 下一片的 cursor；null 表示已读完 */
+  nextCursor: number | null;
+  nodes: SceneSnapshotNodeRecord[];
+}
+
+export interface SceneSnapshotStreamOptions
+  extends Pick<
+    SceneSnapshotOptions,
+    'includeComponents' | 'rootId' | 'rootPath' | 'maxDepth' | 'componentTypes'
+  > {
+  /** 每片节点数，默认 200 */
+  chunkSize?: number;
+}
+
+type StreamEntry = {
+  node: cc.Node;
+  parentId: string | null;
+  depth: number;
+  rootKind?: ExtraRootKind;
+};
+
+type StreamSession = {
+  begin: SceneSnapshotStreamBegin;
+  scene: cc.Node;
+  entries: StreamEntry[];
+  record: SceneNodeRecordOptions;
+  stats: Omit<SceneSnapshot['stats'], 'truncated'>;
+  /** 已统计的节点下标；乱序或重复读取分片都按下标去重 */
+  counted: Set<number>;
+};
+
+const MAX_SESSIONS = 4;
+const sessions = new Map<string, StreamSession>();
+
+/** 整场景导出时场景外根节点（常驻 / 游离渲染）排在场景之后，parentId 同为 null */
+const collectEntries = (root: cc.Node, scene: cc.Node, maxDepth: number): StreamEntry[] => {
+  const out: StreamEntry[] = [];
+  const walk = (node: cc.Node, parentId: string | null, depth: number, kind?: ExtraRootKind) => {
+    out.push(kind ? { node, parentId, depth, rootKind: kind } : { node, parentId, depth });
+    if (depth >= maxDepth) return;
+    const id = getNodeId(node);
+    for (const child of node.children ?? []) {
+      if (child) walk(child, id, depth + 1);
+    }
+  };
+  walk(root, null, 0);
+  if (root === scene) {
+    for (const extra of getExtraRoots(scene)) walk(extra.node, null, 0, extra.kind);
+  }
+  return out;
+};
+
+/**
+ * 分片导出：先固定节点列表（深度优先），后续按 cursor 取片。
+ * 节点数据在取片时才采集，避免一次构建整棵树；取片期间被销毁的节点仍按名字输出。
+ */
+export const beginSceneSnapshotExport = (
+  options: SceneSnapshotStreamOptions = {}
+): { ok: true; data: SceneSnapshotStreamBegin } | { ok: false; error: string } => {
+  const resolved = resolveSnapshotRoot(options);
+  if (!resolved.ok) return resolved;
+  const { scene, root } = resolved;
+
+  try {
+    const entries = collectEntries(root, scene, options.maxDepth ?? Infinity);
+    const rand = Math.random().toString(36).slice(2, 6);
+    const exportId = `snap-${Date.now().toString(36)}-${rand}`;
+    const begin: SceneSnapshotStreamBegin = {
+      exportId,
+      exportedAt: new Date().toISOString(),
+      pageUrl: window.location.href,
+      engineVersion: String(window.cc?.ENGINE_VERSION ?? '3.x'),
+      sceneName: scene.name || 'Scene',
+      subtreeRoot:
+        root !== scene
+          ? { id: getNodeId(root), path: buildNodePathForSnapshot(scene, root) }
+          : undefined,
+      totalNodes: entries.length,
+      chunkSize: Math.max(1, Math.floor(options.chunkSize ?? 200)),
+    };
+
+    // 只保留最近几次会话，防止调用方忘记 end 导致节点引用常驻
+    while (sessions.size >= MAX_SESSIONS) {
+      const oldest = sessions.keys().next().value as string;
+      sessions.delete(oldest);
+    }
+    sessions.set(exportId, {
+      begin,
+      scene,
+      entries,
+      record: {
+        includeComponents: options.includeComponents !== false,
+        componentTypes: options.componentTypes,
+      },
+      stats: { nodeCount: 0, spriteCount: 0, spineCount: 0, labelCount: 0 },
+      counted: new Set<number>(),
+    });
+    console.log(`[sceneSnapshot] 分片导出开始 ${exportId} · ${entries.length} 节点`);
+    return { ok: true, data: begin };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+export const fetchSceneSnapshotChunk = (
+  exportId: string,
+  cursor = 0
+): { ok: true; data: SceneSnapshotChunk } | { ok: false; error: string } => {
+  const session = sessions.get(exportId);
+  if (!session) return { ok: false, error: `导出会话不存在或已结束: ${exportId}` };
+
+  const { entries, begin } = session;
+  const start = Math.max(0, Math.floor(cursor));
+  if (start >= entries.length) {
+    return { ok: true, data: { exportId, cursor: start, nextCursor: null, nodes: [] } };
+  }
+  const end = Math.min(entries.length, start + begin.chunkSize);
+
+  try {
+    const nodes: SceneSnapshotNodeRecord[] = [];
+    for (let i = start; i < end; i++) {
+      const entry = entries[i];
+      const { children: _children, ...record } = buildNodeRecord(
+        entry.node,
+        session.scene,
+        session.record
+      );
+      nodes.push({
+        ...record,
+        ...(entry.rootKind ? { rootKind: entry.rootKind } : {}),
+        parentId: entry.parentId,
+        depth: entry.depth,
+      });
+
+      if (!session.counted.has(i)) {
+        session.counted.add(i);
+        session.stats.nodeCount += 1;
+        for (const c of record.components) {
+          if (c.flags.isSprite) session.stats.spriteCount += 1;
+          if (c.flags.isSpine) session.stats.spineCount += 1;
+          if (/Label/.test(c.typeName)) session.stats.labelCount += 1;
+        }
+      }
+    }
+    return {
+      ok: true,
+      data: {
+        exportId,
+        cursor: start,
+        nextCursor: end < entries.length ? end : null,
+        nodes,
+      },
+    };
+  } catch (e) {
+    console.error(`[sceneSnapshot] 分片 ${exportId}@${start} 采集失败`, e);
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+/** 结束会话，返回与 SceneSnapshot.stats 相同结构的统计（未读完所有分片时 truncated 为 true） */
+export const endSceneSnapshotExport = (
+  exportId: string
+): { ok: true; stats: SceneSnapshot['stats'] } | { ok: false; error: string } => {
+  const session = sessions.get(exportId);
+  if (!session) return { ok: false, error: `导出会话不存在或已结束: ${exportId}` };
+  sessions.delete(exportId);
+  const { counted, entries } = session;
+  console.log(`[sceneSnapshot] 分片导出结束 ${exportId} · 已读 ${counted.size}/${entries.length}`);
+  const truncated = counted.size < entries.length;
+  return { ok: true, stats: { ...session.stats, truncated } };
+};
@@ -7,22 +7,50 @@ export interface TreeNodeInfo {
   hasSprite?: boolean;
   /** Sprite 贴图/状态摘要 */
   spriteHint?: string;
+  /** 场景外的根节点（作为场景根之后的额外顶层条目显示） */
+  rootKind?: ExtraRootKind;
 }
 
+/** persist：addPersistRootNode 登记但不在当前场景下；detached：不在场景下但仍在渲染 */
+export type ExtraRootKind = 'persist' | 'detached';
+
+export interface ExtraRoot {
+  node: cc.Node;
+  kind: ExtraRootKind;
+}
+
+type RootedNode = cc.Node & { isValid?: boolean };
+
+type RenderSceneLike = {
+  models?: Array<{ node?: cc.Node | null } | null>;
+  cameras?: Array<{ node?: cc.Node | null } | null>;
+};
+
 export function getNodeId(node: cc.Node): string {
   return node.uuid || (node as { _id?: string })._id || '';
 }
 
-export function findNodeById(root: cc.Node, id: string): cc.Node | null {
+function findInSubtree(root: cc.Node, id: string): cc.Node | null {
   if (getNodeId(root) === id) return root;
   for (const child of root.children ?? []) {
     if (!child) continue;
-    const found = findNodeById(child, id);
+    const found = findInSubtree(child, id);
     if (found) return found;
   }
   return null;
 }
 
+/** 以场景根查找时，场景中找不到会继续查场景外的根节点（常驻节点等） */
+export function findNodeById(root: cc.Node, id: string): cc.Node | null {
+  const found = findInSubtree(root, id);
+  if (found || root !== getSceneRoot()) return found;
+  for (const extra of getExtraRoots(root)) {
+    const hit = findInSubtree(extra.node, id);
+    if (hit) return hit;
+  }
+  return null;
+}
+
 /** 从场景根到目标节点的名称路径，如 Canvas › UI › btn */
 export function buildNodePath(root: cc.Node, targetId: string): string {
   const names: string[] = [];
@@ -37,14 +65,21 @@ export function buildNodePath(root: cc.Node, targetId: string): string {
     return false;
   };
   if (walk(root)) return names.join(' › ');
+  if (root !== getSceneRoot()) return '';
+  for (const extra of getExtraRoots(root)) {
+    names.length = 0;
+    if (walk(extra.node)) return names.join(' › ');
+  }
   return '';
 }
 
+/** 树视图中的子节点：引擎兄弟顺序（与渲染先后一致，拖放 / 上下移动按此顺序插入） */
+export function getTreeChildren(node: cc.Node): cc.Node[] {
+  return (node.children ?? []).filter(Boolean);
+}
+
 export function buildTreeInfo(root: cc.Node): TreeNodeInfo {
-  const children = [...(root.children ?? [])]
-    .filter(Boolean)
-    .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
-    .map((child) => buildTreeInfo(child));
+  const children = getTreeChildren(root).map((child) => buildTreeInfo(child));
 
   return {
     id: getNodeId(root),
@@ -90,3 +125,89 @@ export function hashTree(node: TreeNodeInfo): string {
 export function getSceneRoot(): cc.Node | null {
   return window.cc?.director?.getScene?.() ?? null;
 }
+
+const topAncestor = (node: cc.Node): cc.Node => {
+  let cur = node;
+  while (cur.parent) cur = cur.parent;
+  return cur;
+};
+
+const isLive = (node: cc.Node | null | undefined): node is cc.Node =>
+  !!node && (node as RootedNode).isValid !== false;
+
+/** game._persistRootNodes（3.x）或 director._persistRootNodes（旧版） */
+const readPersistRoots = (): cc.Node[] => {
+  const ccg = window.cc as {
+    game?: { _persistRootNodes?: Record<string, cc.Node> };
+    director?: { _persistRootNodes?: Record<string, cc.Node> };
+  };
+  const map = ccg.game?._persistRootNodes ?? ccg.director?._persistRootNodes ?? {};
+  return Object.keys(map)
+    .map((key) => map[key])
+    .filter(isLive);
+};
+
+/** 渲染场景中模型与相机所挂节点的最顶层祖先 */
+const readRenderingRoots = (): cc.Node[] => {
+  const director = window.cc?.director as { root?: { scenes?: RenderSceneLike[] } } | undefined;
+  const out: cc.Node[] = [];
+  for (const renderScene of director?.root?.scenes ?? []) {
+    const owners = [...(renderScene?.models ?? []), ...(renderScene?.cameras ?? [])];
+    for (const owner of owners) {
+      if (!isLive(owner?.node)) continue;
+      const top = topAncestor(owner.node);
+      if (out.indexOf(top) < 0) out.push(top);
+    }
+  }
+  return out;
+};
+
+let extraRootsCache: { key: string; scene: cc.Node; roots: ExtraRoot[] } | null = null;
+
+/** 同一帧内复用结果（findNodeById 可能在循环中被大量调用） */
+const extraRootsCacheKey = (): string => {
+  const director = window.cc?.director as { getTotalFrames?: () => number } | undefined;
+  const frames = director?.getTotalFrames?.();
+  return typeof frames === 'number' ? `f${frames}` : `t${Math.floor(Date.now() / 100)}`;
+};
+
+/**
+ * 不在当前场景树下的根节点：已登记常驻但未挂到场景的节点，以及仍在渲染场景中
+ * 有模型 / 相机的游离根节点。常驻节点通常在切场景时挂回新场景，此时不计入。
+ */
+export function getExtraRoots(scene: cc.Node | null = getSceneRoot()): ExtraRoot[] {
+  if (!scene) return [];
+  const key = extraRootsCacheKey();
+  if (extraRootsCache && extraRootsCache.key === key && extraRootsCache.scene === scene) {
+    return extraRootsCache.roots;
+  }
+  const roots: ExtraRoot[] = [];
+  const seen: cc.Node[] = [scene];
+  const add = (node: cc.Node, kind: ExtraRootKind): void => {
+    const top = topAncestor(node);
+    if (seen.indexOf(top) >= 0) return;
+    seen.push(top);
+    roots.push({ node: top, kind });
+  };
+  try {
+    readPersistRoots().forEach((node) => add(node, 'persist'));
+    readRenderingRoots().forEach((node) => add(node, 'detached'));
+  } catch (error) {
+    console.warn('[场景树] 读取场景外根节点失败', error);
+  }
+  extraRootsCache = { key, scene, roots };
+  return roots;
+}
+
+/** 场景树末尾追加场景外根节点（不修改传入的树） */
+export function withExtraRoots(tree: TreeNodeInfo, scene: cc.Node): TreeNodeInfo {
+  const extras = getExtraRoots(scene);
+  if (extras.length === 0) return tree;
+  return {
+    ...tree,
+    children: [
+      ...tree.children,
+      ...extras.map(({ node, kind }) => ({ ...buildTreeInfo(node), rootKind: kind })),
+    ],
+  };
+}
@@ -0,0 +1,284 @@
+import { HookManager } from './propertyHook';
+import {
+  buildTreeInfo,
+  getNodeId,
+  getSceneRoot,
+  getTreeChildren,
+  hashTree,
+  withExtraRoots,
+  type TreeNodeInfo,
+} from './sceneTree';
+
+type Rec = Record<string, unknown>;
+
+type EventNode = cc.Node & {
+  on?: (type: string, cb: (...args: unknown[]) => void, target?: unknown) => void;
+  targetOff?: (target: unknown) => void;
+  isValid?: boolean;
+};
+
+type EventDirector = {
+  on?: (type: string, cb: () => void) => void;
+  off?: (type: string, cb: () => void) => void;
+};
+
+/** 事件驱动模式下全量构建树核对的间隔（兜底改名等无事件的变化） */
+const TREE_FALLBACK_MS = 3000;
+
+/** 引擎 NodeEventType 字符串（3.x） */
+const CHILD_EVENTS = ['child-added', 'child-removed', 'sibling-order-changed'];
+const ACTIVE_EVENT = 'active-in-hierarchy-changed';
+
+/** node.on 的 target：回调里用 this 取回所属节点 id，节点移除时 targetOff 整体注销 */
+interface WatchTarget {
+  watcher: SceneTreeWatcher;
+  id: string;
+}
+
+function onChildrenEvent(this: WatchTarget): void {
+  this.watcher.markChildren(this.id);
+}
+
+function onActiveEvent(this: WatchTarget): void {
+  this.watcher.markActive(this.id);
+}
+
+/**
+ * 事件驱动的场景树：订阅每个节点的增删子节点、兄弟顺序、激活变化与场景切换，
+ * 在下一帧把变化合并进 TreeNodeInfo（只重建变化节点的子节点列表）。
+ * 引擎不支持节点事件时 attach 返回 false，由调用方退回轮询。
+ */
+export class SceneTreeWatcher {
+  private scene: cc.Node | null = null;
+  private tree: TreeNodeInfo | null = null;
+  private infos = new Map<string, TreeNodeInfo>();
+  private nodes = new Map<string, EventNode>();
+  private targets = new Map<string, WatchTarget>();
+  private dirtyChildren = new Set<string>();
+  private dirtyActive = new Set<string>();
+  private flushRaf = 0;
+  private directorOff: (() => void) | null = null;
+  private _version = 0;
+  private checkedAt = 0;
+
+  constructor(private readonly onChange: () => void) {}
+
+  /** 每次树结构或激活状态变化 +1 */
+  get version(): number {
+    return this._version;
+  }
+
+  get attached(): boolean {
+    return !!this.tree;
+  }
+
+  getScene(): cc.Node | null {
+    return this.scene;
+  }
+
+  getTree(): TreeNodeInfo | null {
+    this.flush();
+    return this.tree;
+  }
+
+  /**
+   * 读取场景树：优先用事件增量维护的树（key 为版本号），每隔 TREE_FALLBACK_MS
+   * 全量构建核对一次；引擎不支持节点事件时每次全量构建，key 为整树哈希。
+   * 场景外的根节点（常驻 / 游离渲染）不订阅事件，每次重新构建追加在末尾。
+   */
+  read(scene: cc.Node, force = false): { tree: TreeNodeInfo; key: string } {
+    const hooks = HookManager.getInstance();
+    if (this.scene !== scene) hooks.runSilently(() => this.attach());
+
+    const watched = this.attached ? this.getTree() : null;
+    if (!watched) {
+      const tree = hooks.runSilently(() => withExtraRoots(buildTreeInfo(scene), scene));
+      return { tree, key: hashTree(tree) };
+    }
+
+    const now = Date.now();
+    if (force || now - this.checkedAt >= TREE_FALLBACK_MS) {
+      this.checkedAt = now;
+      const polled = hooks.runSilently(() => buildTreeInfo(scene));
+      if (hashTree(polled) !== hashTree(watched)) {
+        hooks.runSilently(() => this.resync());
+      }
+    }
+    const base = this.getTree() ?? watched;
+    const tree = hooks.runSilently(() => withExtraRoots(base, scene));
+    if (tree === base) return { tree, key: `v${this._version}` };
+    const extras = tree.children.slice(base.children.length).map(hashTree).join('|');
+    return { tree, key: `v${this._version}+${extras}` };
+  }
+
+  /** 挂到当前场景；节点无 on / targetOff 时返回 false */
+  attach(): boolean {
+    const scene = getSceneRoot() as EventNode | null;
+    if (!scene) return false;
+    if (scene === this.scene && this.tree) return true;
+    this.detachNodes();
+    if (typeof scene.on !== 'function' || typeof scene.targetOff !== 'function') {
+      return false;
+    }
+    this.scene = scene;
+    this.tree = this.build(scene);
+    this._version += 1;
+    this.listenSceneLaunch();
+    return true;
+  }
+
+  detach(): void {
+    this.detachNodes();
+    this.directorOff?.();
+    this.directorOff = null;
+  }
+
+  /** 轮询兜底发现不一致（改名等无事件的变化）时整树重建 */
+  resync(): void {
+    this.detachNodes();
+    this.attach();
+  }
+
+  markChildren(id: string): void {
+    this.dirtyChildren.add(id);
+    this.scheduleFlush();
+  }
+
+  markActive(id: string): void {
+    this.dirtyActive.add(id);
+    this.scheduleFlush();
+  }
+
+  private listenSceneLaunch(): void {
+    if (this.directorOff) return;
+    const ccg = window.cc as unknown as Rec;
+    const director = ccg.director as EventDirector | undefined;
+    const Director = ccg.Director as { EVENT_AFTER_SCENE_LAUNCH?: string } | undefined;
+    const event = Director?.EVENT_AFTER_SCENE_LAUNCH ?? 'director_after_scene_launch';
+    if (typeof director?.on !== 'function' || typeof director.off !== 'function') return;
+
+    const handler = (): void => {
+      this.detachNodes();
+      this.attach();
+      this.onChange();
+    };
+    director.on(event, handler);
+    this.directorOff = () => director.off?.(event, handler);
+  }
+
+  private build(node: EventNode): TreeNodeInfo {
+    const id = getNodeId(node);
+    const info: TreeNodeInfo = {
+      id,
+      name: node.name || '(unnamed)',
+      active: node.active !== false,
+      children: getTreeChildren(node).map((child) => this.build(child as EventNode)),
+    };
+    this.infos.set(id, info);
+    this.nodes.set(id, node);
+    if (!this.targets.has(id)) {
+      const target: WatchTarget = { watcher: this, id };
+      for (const type of CHILD_EVENTS) node.on?.(type, onChildrenEvent, target);
+      node.on?.(ACTIVE_EVENT, onActiveEvent, target);
+      this.targets.set(id, target);
+    }
+    return info;
+  }
+
+  /** 注销子树；keepInScene 时跳过同一帧内已挂回场景的子孙（连同其子树） */
+  private unwatch(info: TreeNodeInfo, keepInScene = false): void {
+    const target = this.targets.get(info.id);
+    const node = this.nodes.get(info.id);
+    if (target && node?.isValid !== false) node?.targetOff?.(target);
+    this.targets.delete(info.id);
+    this.nodes.delete(info.id);
+    this.infos.delete(info.id);
+    for (const child of info.children) {
+      const childNode = keepInScene ? this.nodes.get(child.id) : undefined;
+      if (childNode && this.inScene(childNode)) continue;
+      this.unwatch(child, keepInScene);
+    }
+  }
+
+  private detachNodes(): void {
+    if (this.flushRaf) {
+      cancelAnimationFrame(this.flushRaf);
+      this.flushRaf = 0;
+    }
+    if (this.tree) this.unwatch(this.tree);
+    this.tree = null;
+    this.scene = null;
+    this.dirtyChildren.clear();
+    this.dirtyActive.clear();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushRaf) return;
+    this.flushRaf = requestAnimationFrame(() => {
+      this.flushRaf = 0;
+      if (this.flush()) this.onChange();
+    });
+  }
+
+  /** 合并积累的事件；返回是否有变化 */
+  private flush(): boolean {
+    if (!this.tree || (this.dirtyChildren.size === 0 && this.dirtyActive.size === 0)) {
+      return false;
+    }
+    let changed = false;
+
+    const removed: TreeNodeInfo[] = [];
+    for (const id of this.dirtyChildren) {
+      const info = this.infos.get(id);
+      const node = this.nodes.get(id);
+      if (!info || !node) continue;
+      const next = getTreeChildren(node).map((child) => {
+        const existing = this.infos.get(getNodeId(child));
+        return existing && this.nodes.get(existing.id) === child
+          ? existing
+          : this.build(child as EventNode);
+      });
+      const keep = new Set(next.map((c) => c.id));
+      for (const old of info.children) {
+        if (!keep.has(old.id)) removed.push(old);
+      }
+      if (
+        next.length !== info.children.length ||
+        next.some((c, i) => c !== info.children[i])
+      ) {
+        info.children = next;
+        changed = true;
+      }
+    }
+    // 移到其它父节点的仍在场景内，只注销真正离开场景的子树
+    for (const info of removed) {
+      const node = this.nodes.get(info.id);
+      if (!node || !this.inScene(node)) this.unwatch(info, true);
+    }
+
+    for (const id of this.dirtyActive) {
+      const info = this.infos.get(id);
+      const node = this.nodes.get(id);
+      if (!info || !node) continue;
+      const active = node.active !== false;
+      if (info.active !== active) {
+        info.active = active;
+        changed = true;
+      }
+    }
+
+    this.dirtyChildren.clear();
+    this.dirtyActive.clear();
+    if (changed) this._version += 1;
+    return changed;
+  }
+
+  private inScene(node: cc.Node): boolean {
+    let cur: cc.Node | null = node;
+    while (cur) {
+      if (cur === this.scene) return true;
+      cur = cur.parent;
+    }
+    return false;
+  }
+}
@@ -1,3 +1,5 @@
+import { analyzeSceneVisibility, formatVisibility } from './nodeVisibility';
+import { HookManager } from './propertyHook';
 import { buildNodePath, getNodeId } from './sceneTree';
 import { getSpriteMeta, nodeHasSprite } from './sprite';
 
@@ -8,6 +10,10 @@ export interface SpriteListItem {
   frameName: string;
   enabled: boolean;
   active: boolean;
+  /** 可见性分析结论：激活、透明度、Mask、画布范围、相机 layer 均通过；未分析时为 true */
+  visible: boolean;
+  /** 不可见原因（visible 为 true 时为空串） */
+  hiddenReason: string;
   searchText: string;
 }
 
@@ -18,9 +24,15 @@ export function nodeHasSpriteTexture(node: cc.Node): boolean {
   return !!meta && meta.frameName !== '(无贴图)';
 }
 
-/** 扁平收集场景中所有带贴图的 Sprite 节点 */
-export function collectSpriteList(scene: cc.Node): SpriteListItem[] {
+/**
+ * 扁平收集场景中所有带贴图的 Sprite 节点。
+ * withVisibility 时做整场景可见性分析（遍历取包围盒，较重），否则 visible 均为 true
+ */
+export function collectSpriteList(scene: cc.Node, withVisibility = false): SpriteListItem[] {
   const items: SpriteListItem[] = [];
+  const visibility = withVisibility
+    ? HookManager.getInstance().runSilently(() => analyzeSceneVisibility(scene))
+    : null;
 
   const walk = (node: cc.Node): void => {
     if (nodeHasSpriteTexture(node)) {
@@ -28,6 +40,7 @@ export function collectSpriteList(scene: cc.Node): SpriteListItem[] {
       const id = getNodeId(node);
       const path = buildNodePath(scene, id);
       const searchText = `${node.name} ${path} ${meta.frameName}`.toLowerCase();
+      const verdict = visibility?.get(id);
       items.push({
         id,
         name: node.name || '(unnamed)',
@@ -35,6 +48,8 @@ export function collectSpriteList(scene: cc.Node): SpriteListItem[] {
         frameName: meta.frameName,
         enabled: meta.enabled,
         active: node.active !== false,
+        visible: verdict ? verdict.visible : true,
+        hiddenReason: verdict && !verdict.visible ? formatVisibility(verdict) : '',
         searchText,
       });
     }
@@ -54,18 +69,20 @@ export function collectSpriteList(scene: cc.Node): SpriteListItem[] {
 
 export function filterSpriteList(
   items: SpriteListItem[],
-  query: string
+  query: string,
+  visibleOnly = false
 ): SpriteListItem[] {
   const q = query.trim().toLowerCase();
-  if (!q) return items;
-  return items.filter((it) => it.searchText.includes(q));
+  const shown = visibleOnly ? items.filter((it) => it.visible) : items;
+  if (!q) return shown;
+  return shown.filter((it) => it.searchText.includes(q));
 }
 
 export function hashSpriteList(items: SpriteListItem[]): string {
   return items
     .map(
       (it) =>
-        `${it.id}:${it.frameName}:${it.active ? 1 : 0}:${it.enabled ? 1 : 0}`
+        `${it.id}:${it.frameName}:${it.active ? 1 : 0}:${it.enabled ? 1 : 0}:${it.visible ? 1 : 0}`
     )
     .join('|');
 }
@@ -95,7 +112,11 @@ export function renderSpriteListHtml(
       const selected = it.id === selectedId ? ' selected' : '';
       const inactive = !it.active ? ' node-inactive' : '';
       const disabled = !it.enabled ? ' sprite-item-disabled' : '';
-      return `<li class="sprite-list-item${selected}${inactive}${disabled}" data-uuid="${escapeAttr(it.id)}">
+      const hidden = it.active && !it.visible ? ' sprite-item-hidden' : '';
+      const title = hidden ? ` title="${escapeAttr(it.hiddenReason)}"` : '';
+      return `<li class="sprite-list-item${selected}${inactive}${disabled}${hidden}" data-uuid="${escapeAttr(
+        it.id
+      )}"${title}>
   <span class="sprite-list-thumb" data-thumb-for="${escapeAttr(it.id)}" title="贴图预览"></span>
   <span class="sprite-list-body">
     <span class="sprite-list-title">
@@ -0,0 +1,306 @@
+import { escapeHtml, FloatingPanel } from './floatingPanel';
+import { triggerBlobDownload } from './texturePng';
+import {
+  applyTimelineFrame,
+  getLastTimeline,
+  getTimelineRecorderStatus,
+  loadTimeline,
+  restoreTimelinePlayback,
+  startTimelineRecording,
+  stopTimelineRecording,
+  type Timeline,
+  type TimelineNodeState,
+} from './timelineRecorder';
+
+const CHANGE_VIEW_LIMIT = 200;
+
+const formatChange = (changes: Partial<TimelineNodeState>): string =>
+  Object.keys(changes)
+    .map((k) => {
+      const v = (changes as Record<string, unknown>)[k];
+      return `${k}=${Array.isArray(v) ? `(${v.join(', ')})` : String(v)}`;
+    })
+    .join(' ');
+
+/** 时间轴录制 / 回放浮窗：录制选中子树，拖动滑条逐帧写回场景 */
+export class TimelineFloatingPanel extends FloatingPanel {
+  private bodyEl: HTMLElement | null = null;
+  private summaryEl: HTMLElement | null = null;
+  private recordBtn: HTMLButtonElement | null = null;
+  private playBtn: HTMLButtonElement | null = null;
+  private scrubber: HTMLInputElement | null = null;
+  private frameLabel: HTMLElement | null = null;
+  private statusTimer: number | null = null;
+  private playRaf = 0;
+
+  constructor(
+    private readonly getSelectedNodeId: () => string | null,
+    private readonly onFrameApplied?: () => void
+  ) {
+    super('timeline-panel', '时间轴录制');
+  }
+
+  protected onOpen(): void {
+    this.render();
+  }
+
+  /** 关闭时结束回放并恢复现场（录制不中断） */
+  protected onClose(): void {
+    this.stopPlay();
+    this.stopStatusTimer();
+    if (getTimelineRecorderStatus().playback) {
+      restoreTimelinePlayback();
+      this.onFrameApplied?.();
+    }
+  }
+
+  protected build(panel: HTMLElement): void {
+    this.summaryEl = document.createElement('div');
+    this.summaryEl.className = 'asset-float-summary';
+    panel.appendChild(this.summaryEl);
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'asset-float-toolbar';
+
+    this.recordBtn = document.createElement('button');
+    this.recordBtn.type = 'button';
+    this.recordBtn.className = 'asset-float-tab';
+    this.recordBtn.addEventListener('click', () => this.toggleRecording());
+    toolbar.appendChild(this.recordBtn);
+
+    const exportBtn = document.createElement('button');
+    exportBtn.type = 'button';
+    exportBtn.className = 'asset-float-tab';
+    exportBtn.textContent = '导出 JSON';
+    exportBtn.addEventListener('click', () => this.exportJson());
+    toolbar.appendChild(exportBtn);
+
+    const importBtn = document.createElement('button');
+    importBtn.type = 'button';
+    importBtn.className = 'asset-float-tab';
+    importBtn.textContent = '载入 JSON';
+    importBtn.addEventListener('click', () => this.importJson());
+    toolbar.appendChild(importBtn);
+
+    const restoreBtn = document.createElement('button');
+    restoreBtn.type = 'button';
+    restoreBtn.className = 'asset-float-tab';
+    restoreBtn.textContent = '恢复现场';
+    restoreBtn.title = '结束回放，恢复节点状态并继续运行引擎';
+    restoreBtn.addEventListener('click', () => {
+      this.stopPlay();
+      restoreTimelinePlayback();
+      this.onFrameApplied?.();
+      this.render();
+    });
+    toolbar.appendChild(restoreBtn);
+
+    panel.appendChild(toolbar);
+
+    const scrubRow = document.createElement('div');
+    scrubRow.className = 'asset-float-toolbar timeline-scrub-row';
+
+    this.playBtn = document.createElement('button');
+    this.playBtn.type = 'button';
+    this.playBtn.className = 'asset-float-icon-btn';
+    this.playBtn.textContent = '▶';
+    this.playBtn.title = '按录制速度播放';
+    this.playBtn.addEventListener('click', () => {
+      if (this.playRaf) {
+        this.stopPlay();
+      } else {
+        this.startPlay();
+      }
+    });
+    scrubRow.appendChild(this.playBtn);
+
+    this.scrubber = document.createElement('input');
+    this.scrubber.type = 'range';
+    this.scrubber.className = 'timeline-scrubber';
+    this.scrubber.min = '0';
+    this.scrubber.value = '0';
+    this.scrubber.addEventListener('input', () => {
+      this.stopPlay();
+      this.seek(Number(this.scrubber?.value ?? 0));
+    });
+    scrubRow.appendChild(this.scrubber);
+
+    this.frameLabel = document.createElement('span');
+    this.frameLabel.className = 'timeline-frame-label';
+    scrubRow.appendChild(this.frameLabel);
+
+    panel.appendChild(scrubRow);
+
+    this.bodyEl = document.createElement('div');
+    this.bodyEl.className = 'asset-float-body';
+    panel.appendChild(this.bodyEl);
+  }
+
+  private toggleRecording(): void {
+    if (getTimelineRecorderStatus().recording) {
+      stopTimelineRecording();
+      this.stopStatusTimer();
+      this.render();
+      return;
+    }
+    this.stopPlay();
+    const nodeId = this.getSelectedNodeId();
+    const res = startTimelineRecording(nodeId ? { rootId: nodeId } : {});
+    if (!res.ok) {
+      if (this.summaryEl) this.summaryEl.textContent = `录制失败: ${res.error}`;
+      return;
+    }
+    this.onFrameApplied?.();
+    this.startStatusTimer();
+    this.render();
+  }
+
+  private startStatusTimer(): void {
+    this.stopStatusTimer();
+    this.statusTimer = window.setInterval(() => {
+      if (!this.visible) return;
+      this.render();
+      if (!getTimelineRecorderStatus().recording) this.stopStatusTimer();
+    }, 250);
+  }
+
+  private stopStatusTimer(): void {
+    if (this.statusTimer !== null) {
+      window.clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+  }
+
+  private seek(frame: number): void {
+    const res = applyTimelineFrame(frame);
+    if (!res.ok) {
+      if (this.summaryEl) this.summaryEl.textContent = res.error;
+      return;
+    }
+    this.onFrameApplied?.();
+    this.renderFrame(res.frame);
+  }
+
+  private startPlay(): void {
+    const timeline = getLastTimeline();
+    if (!timeline || timeline.frameCount === 0) return;
+    let frame = Number(this.scrubber?.value ?? 0);
+    if (frame >= timeline.frameCount - 1) frame = 0;
+    const startAt = performance.now() - (timeline.frameTimes[frame] ?? 0);
+    if (this.playBtn) this.playBtn.textContent = '⏸';
+
+    const tick = () => {
+      const elapsed = performance.now() - startAt;
+      while (
+        frame < timeline.frameCount - 1 &&
+        (timeline.frameTimes[frame + 1] ?? Infinity) <= elapsed
+      ) {
+        frame += 1;
+      }
+      this.seek(frame);
+      if (frame >= timeline.frameCount - 1) {
+        this.stopPlay();
+        return;
+      }
+      this.playRaf = requestAnimationFrame(tick);
+    };
+    this.playRaf = requestAnimationFrame(tick);
+  }
+
+  private stopPlay(): void {
+    if (this.playRaf) cancelAnimationFrame(this.playRaf);
+    this.playRaf = 0;
+    if (this.playBtn) this.playBtn.textContent = '▶';
+  }
+
+  private exportJson(): void {
+    const timeline = getLastTimeline();
+    if (!timeline) return;
+    const stamp = timeline.recordedAt.replace(/[:.]/g, '-').slice(0, 19);
+    const blob = new Blob([JSON.stringify(timeline)], { type: 'application/json' });
+    triggerBlobDownload(blob, `timeline_${stamp}.json`);
+  }
+
+  private importJson(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      void file.text().then((text) => {
+        try {
+          const res = loadTimeline(JSON.parse(text) as Timeline);
+          if (!res.ok && this.summaryEl) this.summaryEl.textContent = res.error;
+        } catch (e) {
+          if (this.summaryEl) this.summaryEl.textContent = `解析失败: ${String(e)}`;
+        }
+        this.onFrameApplied?.();
+        this.render();
+      });
+    });
+    input.click();
+  }
+
+  private render(): void {
+    const status = getTimelineRecorderStatus();
+    if (this.recordBtn) {
+      this.recordBtn.textContent = status.recording ? '■ 停止' : '● 录制选中子树';
+      this.recordBtn.classList.toggle('active', status.recording);
+    }
+    if (this.summaryEl) {
+      const seconds = (status.durationMs / 1000).toFixed(2);
+      this.summaryEl.textContent = status.recording
+        ? `录制中 ${status.rootPath ?? ''} · ${status.frameCount} 帧 · ${seconds}s`
+        : status.hasTimeline
+          ? `${status.rootPath ?? ''} · ${status.frameCount} 帧 · ${seconds}s · ${
+              status.trackCount
+            } 轨道${status.playback ? ' · 回放中（引擎已暂停）' : ''}`
+          : '选中节点后点击录制（未选中则录制整个场景）';
+    }
+
+    const timeline = status.recording ? null : getLastTimeline();
+    if (this.scrubber) {
+      this.scrubber.disabled = !timeline;
+      this.scrubber.max = String(Math.max(0, (timeline?.frameCount ?? 1) - 1));
+    }
+    if (this.playBtn) this.playBtn.disabled = !timeline;
+    this.renderFrame(Number(this.scrubber?.value ?? 0));
+  }
+
+  /** 列出该帧发生变化的轨道 */
+  private renderFrame(frame: number): void {
+    if (this.scrubber && Number(this.scrubber.value) !== frame) {
+      this.scrubber.value = String(frame);
+    }
+    const timeline = getTimelineRecorderStatus().recording ? null : getLastTimeline();
+    if (!timeline) {
+      if (this.frameLabel) this.frameLabel.textContent = '';
+      if (this.bodyEl) this.bodyEl.innerHTML = '';
+      return;
+    }
+    const ms = timeline.frameTimes[frame] ?? 0;
+    if (this.frameLabel) {
+      this.frameLabel.textContent = `${frame}/${Math.max(0, timeline.frameCount - 1)} · ${(
+        ms / 1000
+      ).toFixed(2)}s`;
+    }
+    if (!this.bodyEl) return;
+
+    const rows: string[] = [];
+    for (const track of timeline.tracks) {
+      const key = track.keys.find(([f]) => f === frame);
+      if (!key) continue;
+      rows.push(`<tr>
+        <td class="asset-col-name" title="${escapeHtml(track.path)}">${escapeHtml(track.name)}</td>
+        <td class="timeline-change">${escapeHtml(formatChange(key[1]))}</td>
+      </tr>`);
+      if (rows.length >= CHANGE_VIEW_LIMIT) break;
+    }
+    this.bodyEl.innerHTML = rows.length
+      ? `<table class="asset-float-table"><thead><tr>
+          <th>节点</th><th>本帧变化</th>
+        </tr></thead><tbody>${rows.join('')}</tbody></table>`
+      : '<div class="asset-float-empty">本帧无变化</div>';
+  }
+}
@@ -0,0 +1,451 @@
+import { getComponentName, getNodeComponents, shortTypeName } from './componentAccess';
+import { buildNodePathForSnapshot, resolveSnapshotRoot } from './sceneSnapshot';
+import { findNodeById, getNodeId, getSceneRoot } from './sceneTree';
+
+type Vec3Tuple = [number, number, number];
+
+export interface TimelineNodeState {
+  position: Vec3Tuple;
+  scale: Vec3Tuple;
+  euler: Vec3Tuple;
+  active: boolean;
+  /** UIOpacity.opacity，无 UIOpacity 时取渲染组件 color.a；都没有为 null */
+  opacity: number | null;
+  /** Sprite.spriteFrame 名，无 Sprite 为 null */
+  spriteFrame: string | null;
+}
+
+export type TimelineKey = [frame: number, changes: Partial<TimelineNodeState>];
+
+export interface TimelineTrack {
+  id: string;
+  name: string;
+  path: string;
+  /** 首个关键帧为完整状态，之后只记录变化的字段 */
+  keys: TimelineKey[];
+}
+
+export interface Timeline {
+  version: 1;
+  recordedAt: string;
+  pageUrl: string;
+  sceneName: string;
+  root: { id: string; path: string };
+  frameCount: number;
+  durationMs: number;
+  /** 每帧相对录制开始的毫秒数 */
+  frameTimes: number[];
+  tracks: TimelineTrack[];
+  /** 达到 maxFrames 自动停止，或子树节点超过 maxNodes */
+  truncated: boolean;
+}
+
+export interface TimelineRecordOptions {
+  rootId?: string;
+  rootPath?: string;
+  /** 最多录制帧数，默认 3600（60fps 约 1 分钟） */
+  maxFrames?: number;
+  /** 每帧最多采样节点数，默认 300 */
+  maxNodes?: number;
+}
+
+export interface TimelineRecorderStatus {
+  recording: boolean;
+  frameCount: number;
+  durationMs: number;
+  trackCount: number;
+  rootPath: string | null;
+  hasTimeline: boolean;
+  /** 回放中（已暂停引擎并写入节点） */
+  playback: boolean;
+}
+
+type Rec = Record<string, unknown>;
+
+type TrackState = { track: TimelineTrack; last: TimelineNodeState };
+
+type RecorderSession = {
+  rootNode: cc.Node;
+  timeline: Timeline;
+  tracks: Map<string, TrackState>;
+  maxFrames: number;
+  maxNodes: number;
+  startedAt: number;
+  stopSampling: () => void;
+};
+
+type LiveRestore = { node: cc.Node; state: TimelineNodeState };
+
+const round = (v: unknown): number => Math.round(Number(v ?? 0) * 1000) / 1000;
+
+const readTuple = (v: unknown): Vec3Tuple => {
+  const o = v as { x?: number; y?: number; z?: number } | undefined;
+  return [round(o?.x), round(o?.y), round(o?.z)];
+};
+
+const findComponent = (node: cc.Node, shortName: string): Rec | null => {
+  const hit = getNodeComponents(node).find(
+    (c) => shortTypeName(getComponentName(c)) === shortName
+  );
+  return (hit as Rec | undefined) ?? null;
+};
+
+const readOpacity = (node: cc.Node): number | null => {
+  const uiOpacity = findComponent(node, 'UIOpacity');
+  if (uiOpacity && typeof uiOpacity.opacity === 'number') return uiOpacity.opacity;
+  const renderer = findComponent(node, 'Sprite') ?? findComponent(node, 'Label');
+  const color = renderer?.color as { a?: number } | undefined;
+  return typeof color?.a === 'number' ? color.a : null;
+};
+
+const readSpriteFrame = (node: cc.Node): { name: string | null; frame: unknown } => {
+  const sprite = findComponent(node, 'Sprite');
+  const frame = sprite?.spriteFrame as { name?: string; _name?: string } | null | undefined;
+  if (!frame) return { name: null, frame: null };
+  return { name: frame.name ?? frame._name ?? '(unnamed)', frame };
+};
+
+const readNodeState = (
+  node: cc.Node,
+  frameCache?: Map<string, unknown>
+): TimelineNodeState => {
+  const n = node as cc.Node & Rec;
+  const sf = readSpriteFrame(node);
+  if (sf.name && frameCache && !frameCache.has(sf.name)) frameCache.set(sf.name, sf.frame);
+  return {
+    position: readTuple(n.position),
+    scale: readTuple(n.scale),
+    euler: readTuple(n.eulerAngles),
+    active: node.active !== false,
+    opacity: readOpacity(node),
+    spriteFrame: sf.name,
+  };
+};
+
+const sameTuple = (a: Vec3Tuple, b: Vec3Tuple): boolean =>
+  a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+
+const diffState = (
+  prev: TimelineNodeState,
+  next: TimelineNodeState
+): Partial<TimelineNodeState> | null => {
+  const out: Partial<TimelineNodeState> = {};
+  let changed = false;
+  if (!sameTuple(prev.position, next.position)) {
+    out.position = next.position;
+    changed = true;
+  }
+  if (!sameTuple(prev.scale, next.scale)) {
+    out.scale = next.scale;
+    changed = true;
+  }
+  if (!sameTuple(prev.euler, next.euler)) {
+    out.euler = next.euler;
+    changed = true;
+  }
+  if (prev.active !== next.active) {
+    out.active = next.active;
+    changed = true;
+  }
+  if (prev.opacity !== next.opacity) {
+    out.opacity = next.opacity;
+    changed = true;
+  }
+  if (prev.spriteFrame !== next.spriteFrame) {
+    out.spriteFrame = next.spriteFrame;
+    changed = true;
+  }
+  return changed ? out : null;
+};
+
+/** 每帧在引擎更新后回调；无 director 事件时退回 rAF */
+export const subscribeAfterUpdate = (fn: () => void): (() => void) => {
+  const ccg = window.cc as unknown as Rec;
+  const director = ccg.director as
+    | { on?: (e: string, f: () => void) => void; off?: (e: string, f: () => void) => void }
+    | undefined;
+  const Director = ccg.Director as { EVENT_AFTER_UPDATE?: string } | undefined;
+  const event = Director?.EVENT_AFTER_UPDATE ?? 'director_after_update';
+
+  if (typeof director?.on === 'function' && typeof director.off === 'function') {
+    director.on(event, fn);
+    return () => director.off?.(event, fn);
+  }
+
+  let raf = 0;
+  const loop = () => {
+    fn();
+    raf = requestAnimationFrame(loop);
+  };
+  raf = requestAnimationFrame(loop);
+  return () => cancelAnimationFrame(raf);
+};
+
+let session: RecorderSession | null = null;
+let lastTimeline: Timeline | null = null;
+/** 录制期间见过的 SpriteFrame 对象（按名），回放时用于还原帧 */
+let frameCache = new Map<string, unknown>();
+let restoreStates: LiveRestore[] | null = null;
+let pausedDirector = false;
+
+const sampleFrame = (s: RecorderSession): void => {
+  if ((s.rootNode as cc.Node & Rec).isValid === false) {
+    console.warn('[时间轴] 根节点已销毁，停止录制');
+    stopTimelineRecording();
+    return;
+  }
+
+  const frame = s.timeline.frameCount;
+  s.timeline.frameTimes.push(Math.round(performance.now() - s.startedAt));
+  s.timeline.frameCount += 1;
+
+  let visited = 0;
+  const walk = (node: cc.Node) => {
+    if (visited >= s.maxNodes) {
+      s.timeline.truncated = true;
+      return;
+    }
+    visited += 1;
+    const id = getNodeId(node);
+    const state = readNodeState(node, frameCache);
+    const existing = s.tracks.get(id);
+    if (!existing) {
+      const scene = getSceneRoot();
+      const track: TimelineTrack = {
+        id,
+        name: node.name || '(unnamed)',
+        path: scene ? buildNodePathForSnapshot(scene, node) : node.name,
+        keys: [[frame, state]],
+      };
+      s.tracks.set(id, { track, last: state });
+      s.timeline.tracks.push(track);
+    } else {
+      const changes = diffState(existing.last, state);
+      if (changes) {
+        existing.track.keys.push([frame, changes]);
+        existing.last = state;
+      }
+    }
+    for (const child of node.children ?? []) {
+      if (child) walk(child);
+    }
+  };
+  walk(s.rootNode);
+
+  if (s.timeline.frameCount >= s.maxFrames) {
+    s.timeline.truncated = true;
+    console.log(`[时间轴] 达到 ${s.maxFrames} 帧上限，自动停止`);
+    stopTimelineRecording();
+  }
+};
+
+/** 开始录制子树（默认整个场景），每帧在 director after-update 后采样 */
+export const startTimelineRecording = (
+  options: TimelineRecordOptions = {}
+): { ok: true; rootPath: string } | { ok: false; error: string } => {
+  if (session) return { ok: false, error: '正在录制中' };
+  const resolved = resolveSnapshotRoot(options);
+  if (!resolved.ok) return resolved;
+  restoreTimelinePlayback();
+
+  const { scene, root } = resolved;
+  const rootPath = buildNodePathForSnapshot(scene, root);
+  frameCache = new Map();
+  const s: RecorderSession = {
+    rootNode: root,
+    tracks: new Map(),
+    maxFrames: Math.max(1, options.maxFrames ?? 3600),
+    maxNodes: Math.max(1, options.maxNodes ?? 300),
+    startedAt: performance.now(),
+    stopSampling: () => undefined,
+    timeline: {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      pageUrl: window.location.href,
+      sceneName: scene.name || 'Scene',
+      root: { id: getNodeId(root), path: rootPath },
+      frameCount: 0,
+      durationMs: 0,
+      frameTimes: [],
+      tracks: [],
+      truncated: false,
+    },
+  };
+  session = s;
+  s.stopSampling = subscribeAfterUpdate(() => {
+    if (session !== s) return;
+    try {
+      sampleFrame(s);
+    } catch (e) {
+      console.error('[时间轴] 采样失败，停止录制', e);
+      stopTimelineRecording();
+    }
+  });
+  console.log(`[时间轴] 开始录制 ${root.name}(${getNodeId(root)})`);
+  return { ok: true, rootPath };
+};
+
+/** 停止录制，返回时间轴（同时作为回放 / 导出的当前时间轴） */
+export const stopTimelineRecording = ():
+  | { ok: true; timeline: Timeline }
+  | { ok: false; error: string } => {
+  const s = session;
+  if (!s) return { ok: false, error: '没有正在进行的录制' };
+  s.stopSampling();
+  session = null;
+  const times = s.timeline.frameTimes;
+  s.timeline.durationMs = times.length ? times[times.length - 1] : 0;
+  lastTimeline = s.timeline;
+  console.log(
+    `[时间轴] 停止录制 · ${s.timeline.frameCount} 帧 · ${s.timeline.tracks.length} 轨道`
+  );
+  return { ok: true, timeline: s.timeline };
+};
+
+export const getTimelineRecorderStatus = (): TimelineRecorderStatus => {
+  const t = session?.timeline ?? lastTimeline;
+  const times = t?.frameTimes ?? [];
+  return {
+    recording: !!session,
+    frameCount: t?.frameCount ?? 0,
+    durationMs: times.length ? times[times.length - 1] : 0,
+    trackCount: t?.tracks.length ?? 0,
+    rootPath: t?.root.path ?? null,
+    hasTimeline: !!lastTimeline,
+    playback: !!restoreStates,
+  };
+};
+
+export const getLastTimeline = (): Timeline | null => lastTimeline;
+
+/** 载入外部时间轴 JSON（无录制期 SpriteFrame 缓存时回放不切帧） */
+export const loadTimeline = (
+  timeline: Timeline
+): { ok: true; frameCount: number } | { ok: false; error: string } => {
+  if (timeline?.version !== 1 || !Array.isArray(timeline.tracks)) {
+    return { ok: false, error: '不是有效的时间轴 JSON（version 1）' };
+  }
+  restoreTimelinePlayback();
+  lastTimeline = timeline;
+  return { ok: true, frameCount: timeline.frameCount };
+};
+
+/** 计算第 frame 帧各轨道的完整状态（节点尚未出现的轨道不返回） */
+export const resolveTimelineFrame = (
+  timeline: Timeline,
+  frame: number
+): Map<string, TimelineNodeState> => {
+  const out = new Map<string, TimelineNodeState>();
+  for (const track of timeline.tracks) {
+    let state: TimelineNodeState | null = null;
+    for (const [f, changes] of track.keys) {
+      if (f > frame) break;
+      state = Object.assign({}, state, changes) as TimelineNodeState;
+    }
+    if (state) out.set(track.id, state);
+  }
+  return out;
+};
+
+const writeNodeState = (node: cc.Node, state: TimelineNodeState): void => {
+  const n = node as cc.Node & Rec & {
+    setPosition?: (x: number, y: number, z: number) => void;
+    setScale?: (x: number, y: number, z: number) => void;
+    setRotationFromEuler?: (x: number, y: number, z: number) => void;
+  };
+  n.setPosition?.(...state.position);
+  n.setScale?.(...state.scale);
+  if (typeof n.setRotationFromEuler === 'function') {
+    n.setRotationFromEuler(...state.euler);
+  }
+  if (node.active !== state.active) node.active = state.active;
+
+  if (state.opacity !== null) {
+    const uiOpacity = findComponent(node, 'UIOpacity');
+    if (uiOpacity) {
+      uiOpacity.opacity = state.opacity;
+    } else {
+      const renderer = findComponent(node, 'Sprite') ?? findComponent(node, 'Label');
+      const color = renderer?.color as { clone?: () => Rec } | undefined;
+      if (renderer && color?.clone) {
+        const next = color.clone();
+        next.a = state.opacity;
+        renderer.color = next;
+      }
+    }
+  }
+
+  if (state.spriteFrame !== null) {
+    const sprite = findComponent(node, 'Sprite');
+    const frame = frameCache.get(state.spriteFrame);
+    if (sprite && frame && sprite.spriteFrame !== frame) sprite.spriteFrame = frame;
+  }
+};
+
+/**
+ * 把时间轴第 frame 帧写回场景节点（Inspector 随之显示该帧）。
+ * 首次调用时记录所有轨道节点的现场并暂停引擎，restoreTimelinePlayback 恢复。
+ */
+export const applyTimelineFrame = (
+  frame: number
+): { ok: true; frame: number; applied: number } | { ok: false; error: string } => {
+  const timeline = lastTimeline;
+  if (!timeline) return { ok: false, error: '没有可回放的时间轴' };
+  if (session) return { ok: false, error: '录制中不能回放' };
+  const scene = getSceneRoot();
+  if (!scene) return { ok: false, error: '场景未就绪' };
+
+  const target = Math.max(0, Math.min(timeline.frameCount - 1, Math.floor(frame)));
+  const states = resolveTimelineFrame(timeline, target);
+
+  if (!restoreStates) {
+    restoreStates = [];
+    // 记录全部轨道而不只是当前帧已出现的，之后拖到的帧同样能恢复
+    for (const track of timeline.tracks) {
+      const node = findNodeById(scene, track.id);
+      // 写入缓存，恢复时能找回当前 SpriteFrame 对象
+      if (node) restoreStates.push({ node, state: readNodeState(node, frameCache) });
+    }
+    const director = (window.cc as unknown as Rec).director as
+      | { pause?: () => void; isPaused?: () => boolean }
+      | undefined;
+    if (director?.pause && !director.isPaused?.()) {
+      director.pause();
+      pausedDirector = true;
+    }
+  }
+
+  let applied = 0;
+  states.forEach((state, id) => {
+    const node = findNodeById(scene, id);
+    if (!node) return;
+    try {
+      writeNodeState(node, state);
+      applied += 1;
+    } catch (e) {
+      console.warn(`[时间轴] ${node.name}(${id}) 回放写入失败`, e);
+    }
+  });
+  return { ok: true, frame: target, applied };
+};
+
+/** 结束回放：恢复回放前的节点状态并恢复引擎 */
+export const restoreTimelinePlayback = (): { ok: true; restored: number } => {
+  const list = restoreStates;
+  restoreStates = null;
+  let restored = 0;
+  (list ?? []).forEach(({ node, state }) => {
+    try {
+      writeNodeState(node, state);
+      restored += 1;
+    } catch {
+      /* 节点可能已销毁 */
+    }
+  });
+  if (pausedDirector) {
+    const director = (window.cc as unknown as Rec).director as { resume?: () => void };
+    director?.resume?.();
+    pausedDirector = false;
+  }
+  return { ok: true, restored };
+};
@@ -1,37 +1,60 @@
+import { escapeHtml } from './floatingPanel';
+
 export interface TreeRenderOptions {
   expanded: Set<string>;
   selectedId: string | null;
   searchQuery: string;
-  isRoot?: boolean;
+  /** 查询语言命中的节点 id；提供时代替节点名匹配 */
+  matchIds?: Set<string>;
   /** 场景根节点 id，不显示 active 勾选框 */
   sceneRootId?: string;
   /** DC 扫描：nodeId → 关子树减少的 DrawCall（或估算渲染单元） */
   perfDcByNodeId?: Map<string, number>;
   perfDcMax?: number;
+  /** 行可拖放（层级编辑）；场景根不可拖 */
+  draggable?: boolean;
+  /** 可见性分析：激活但看不见的渲染节点 id → 原因说明 */
+  hiddenById?: Map<string, string>;
 }
 
-export function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
+/** 展平后的一行：虚拟列表只渲染可视区内的行 */
+export interface TreeRow {
+  node: import('./sceneTree').TreeNodeInfo;
+  depth: number;
+  hasChildren: boolean;
+  expanded: boolean;
 }
 
-export function renderTreeHtml(
-  node: import('./sceneTree').TreeNodeInfo,
+/** 按展开状态与搜索过滤把树展平为行（根节点始终展开；场景外根节点与场景根同级） */
+export function flattenTree(
+  root: import('./sceneTree').TreeNodeInfo,
   opts: TreeRenderOptions
-): string {
-  if (opts.searchQuery && !nodeMatchesSearch(node, opts.searchQuery)) {
-    return '';
-  }
+): TreeRow[] {
+  const filtering = !!(opts.searchQuery || opts.matchIds);
+  const keep = filtering ? new Set<string>() : null;
+  if (keep) collectMatching(root, opts.searchQuery, keep, opts.matchIds);
+
+  const rows: TreeRow[] = [];
+  const walk = (node: import('./sceneTree').TreeNodeInfo, depth: number): void => {
+    if (keep && !keep.has(node.id)) return;
+    const hasChildren = node.children.length > 0;
+    const expanded = hasChildren && (node === root || opts.expanded.has(node.id));
+    rows.push({ node, depth, hasChildren, expanded });
+    if (!expanded) return;
+    for (const child of node.children) walk(child, child.rootKind ? 0 : depth + 1);
+  };
+  walk(root, 0);
+  return rows;
+}
 
-  const hasChildren = node.children.length > 0;
-  const isExpanded = opts.isRoot || opts.expanded.has(node.id);
+/** 单行 HTML；缩进由 depth 决定，不再嵌套 ul */
+export function renderTreeRowHtml(row: TreeRow, opts: TreeRenderOptions): string {
+  const { node } = row;
   const isSelected = opts.selectedId === node.id;
-  const toggle = hasChildren ? (isExpanded ? '▼' : '▶') : '';
-  const toggleClass = hasChildren ? 'node-toggle' : 'node-toggle-empty';
+  const toggle = row.hasChildren ? (row.expanded ? '▼' : '▶') : '';
+  const toggleClass = row.hasChildren ? 'node-toggle' : 'node-toggle-empty';
   const activeClass = node.active ? '' : ' node-inactive';
+  const queryHit = !!opts.matchIds?.has(node.id);
   const isSceneRoot = !!opts.sceneRootId && node.id === opts.sceneRootId;
   const activeToggle = isSceneRoot
     ? ''
@@ -45,48 +68,64 @@ export function renderTreeHtml(
       ? renderDcBadge(dcDrop, opts.perfDcMax ?? dcDrop)
       : '';
 
-  let html = `<li data-uuid="${node.id}" class="${activeClass.trim()}${
+  const dragAttr = opts.draggable && !isSceneRoot ? ' draggable="true"' : '';
+  const rootBadge = node.rootKind
+    ? `<span class="node-root-badge" title="${
+        node.rootKind === 'persist' ? '常驻节点（addPersistRootNode），不在当前场景下' : '不在场景下但仍在渲染'
+      }">${node.rootKind === 'persist' ? '常驻' : '场景外'}</span>`
+    : '';
+  const hiddenReason = opts.hiddenById?.get(node.id);
+  const visBadge = hiddenReason
+    ? `<span class="node-vis-badge" title="${escapeHtml(hiddenReason)}">隐</span>`
+    : '';
+
+  return `<li data-uuid="${node.id}"${dragAttr} class="${activeClass.trim()}${
     isSelected ? ' selected' : ''
-  }${dcDrop !== undefined && dcDrop > 0 ? ' node-perf-hot' : ''}">
-      <div class="node-tree-item">
+  }${dcDrop !== undefined && dcDrop > 0 ? ' node-perf-hot' : ''}${
+    queryHit ? ' node-query-hit' : ''
+  }"><div class="node-tree-item" style="padding-left:${8 + row.depth * 16}px">
         <span class="${toggleClass}">${toggle}</span>
         ${activeToggle}
         <span class="node-name${node.active ? '' : ' inactive-node'}">${escapeHtml(
           node.name
         )}</span>
-        ${perfBadge}
-      </div>`;
-
-  if (hasChildren) {
-    const style = isExpanded ? '' : ' style="display:none"';
-    html += `<ul class="node-children"${style}>`;
-    for (const child of node.children) {
-      html += renderTreeHtml(child, { ...opts, isRoot: false });
-    }
-    html += '</ul>';
-  }
+        ${rootBadge}${visBadge}${perfBadge}
+      </div></li>`;
+}
 
-  html += '</li>';
-  return html;
+/** 后序遍历一次，收集自身或子孙命中的节点 id */
+function collectMatching(
+  node: import('./sceneTree').TreeNodeInfo,
+  q: string,
+  out: Set<string>,
+  matchIds?: Set<string>
+): boolean {
+  let matched = selfMatches(node, q, matchIds);
+  for (const child of node.children) {
+    if (collectMatching(child, q, out, matchIds)) matched = true;
+  }
+  if (matched) out.add(node.id);
+  return matched;
 }
 
-function nodeMatchesSearch(
+function selfMatches(
   node: import('./sceneTree').TreeNodeInfo,
-  q: string
+  q: string,
+  matchIds?: Set<string>
 ): boolean {
-  if (node.name.toLowerCase().includes(q)) return true;
-  return node.children.some((c) => nodeMatchesSearch(c, q));
+  return matchIds ? matchIds.has(node.id) : node.name.toLowerCase().includes(q);
 }
 
 export function expandMatchingNodes(
   node: import('./sceneTree').TreeNodeInfo,
   q: string,
-  expanded: Set<string>
+  expanded: Set<string>,
+  matchIds?: Set<string>
 ): boolean {
-  let matched = node.name.toLowerCase().includes(q);
+  let matched = selfMatches(node, q, matchIds);
 
   for (const child of node.children) {
-    if (expandMatchingNodes(child, q, expanded)) {
+    if (expandMatchingNodes(child, q, expanded, matchIds)) {
       matched = true;
     }
   }
@@ -0,0 +1,152 @@
+import type { TreeNodeInfo } from './sceneTree';
+import {
+  flattenTree,
+  renderTreeRowHtml,
+  type TreeRenderOptions,
+  type TreeRow,
+} from './treeRender';
+
+/** 行高需与 .node-tree-virtual > li 的 CSS 一致 */
+const ROW_HEIGHT = 22;
+/** 可视区上下额外渲染的行数，快速滚动时不露白 */
+const OVERSCAN = 12;
+/** .node-tree-panel 上内边距 */
+const PANEL_PADDING_TOP = 8;
+
+interface MountedRow {
+  el: HTMLElement;
+  html: string;
+}
+
+/**
+ * 虚拟化节点树：只挂载可视区内的行。
+ * 刷新时按行比较 HTML，未变化的行保留原 DOM，滚动位置与展开状态跨刷新保持。
+ */
+export class VirtualTreeView {
+  private spacer: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private rows: TreeRow[] = [];
+  private opts: TreeRenderOptions | null = null;
+  private mounted = new Map<string, MountedRow>();
+  private scrollRaf = 0;
+  /** 收起面板时记下的滚动位置，重新挂载后恢复 */
+  private savedScrollTop = 0;
+
+  constructor(private readonly container: HTMLElement) {
+    container.addEventListener('scroll', () => {
+      if (this.scrollRaf) return;
+      this.scrollRaf = requestAnimationFrame(() => {
+        this.scrollRaf = 0;
+        this.renderWindow();
+      });
+    });
+  }
+
+  get rowCount(): number {
+    return this.rows.length;
+  }
+
+  update(tree: TreeNodeInfo, opts: TreeRenderOptions): void {
+    const restore = !this.list;
+    this.ensureMounted();
+    this.rows = flattenTree(tree, opts);
+    this.opts = opts;
+    if (this.spacer) {
+      this.spacer.style.height = `${this.rows.length * ROW_HEIGHT}px`;
+    }
+    if (restore && this.savedScrollTop > 0) {
+      this.container.scrollTop = this.savedScrollTop;
+    }
+    this.renderWindow();
+  }
+
+  /** 把指定节点所在行滚入可视区（需已展开祖先） */
+  scrollToId(id: string): void {
+    const index = this.rows.findIndex((r) => r.node.id === id);
+    if (index < 0) return;
+    const top = PANEL_PADDING_TOP + index * ROW_HEIGHT;
+    const view = this.container.clientHeight;
+    const cur = this.container.scrollTop;
+    if (top < cur) {
+      this.container.scrollTop = top;
+    } else if (top + ROW_HEIGHT > cur + view) {
+      this.container.scrollTop = top + ROW_HEIGHT - view;
+    }
+    this.renderWindow();
+  }
+
+  /** 清空树（可替换为占位 HTML），保留滚动位置供下次挂载 */
+  clear(placeholderHtml = ''): void {
+    if (this.list) this.savedScrollTop = this.container.scrollTop;
+    if (this.scrollRaf) {
+      cancelAnimationFrame(this.scrollRaf);
+      this.scrollRaf = 0;
+    }
+    this.container.innerHTML = placeholderHtml;
+    this.spacer = null;
+    this.list = null;
+    this.rows = [];
+    this.mounted.clear();
+  }
+
+  private ensureMounted(): void {
+    if (this.list) return;
+    this.container.innerHTML = '';
+    const spacer = document.createElement('div');
+    spacer.className = 'node-tree-spacer';
+    const list = document.createElement('ul');
+    list.className = 'node-tree node-tree-virtual';
+    spacer.appendChild(list);
+    this.container.appendChild(spacer);
+    this.spacer = spacer;
+    this.list = list;
+  }
+
+  private renderWindow(): void {
+    const list = this.list;
+    const opts = this.opts;
+    if (!list || !opts) return;
+
+    const scrollTop = Math.max(0, this.container.scrollTop - PANEL_PADDING_TOP);
+    const viewRows = Math.ceil((this.container.clientHeight || 600) / ROW_HEIGHT);
+    const first = Math.min(Math.floor(scrollTop / ROW_HEIGHT), this.rows.length - viewRows);
+    const start = Math.max(0, first - OVERSCAN);
+    const end = Math.min(this.rows.length, start + viewRows + OVERSCAN * 2);
+    list.style.transform = `translateY(${start * ROW_HEIGHT}px)`;
+
+    const next = new Map<string, MountedRow>();
+    let cursor = list.firstElementChild as HTMLElement | null;
+    for (let i = start; i < end; i++) {
+      const row = this.rows[i];
+      const html = renderTreeRowHtml(row, opts);
+      const prev = this.mounted.get(row.node.id);
+      let el: HTMLElement;
+      if (prev && prev.html === html) {
+        el = prev.el;
+      } else {
+        el = createRowElement(html);
+        if (prev) {
+          if (prev.el === cursor) cursor = cursor.nextElementSibling as HTMLElement | null;
+          prev.el.remove();
+        }
+      }
+      next.set(row.node.id, { el, html });
+      this.mounted.delete(row.node.id);
+
+      if (el === cursor) {
+        cursor = cursor.nextElementSibling as HTMLElement | null;
+      } else {
+        list.insertBefore(el, cursor);
+      }
+    }
+
+    for (const stale of this.mounted.values()) stale.el.remove();
+    this.mounted = next;
+  }
+}
+
+function createRowElement(html: string): HTMLElement {
+  const tpl = document.createElement('template');
+  tpl.innerHTML = html;
+  return tpl.content.firstElementChild as HTMLElement;
+}
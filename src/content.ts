@@ -1,10 +1,18 @@
 /// <reference path="./types/chrome.d.ts" />
 
+import {
+    pageStorageKey,
+    STORAGE_REQUEST_MESSAGE,
+    STORAGE_RESPONSE_MESSAGE,
+} from './cocos3/extensionStorage';
+
 const DEFAULT_API_CALL_TIMEOUT_MS = 120_000;
 const API_CALL_TIMEOUT_BY_METHOD: Record<string, number> = {
   downloadTexture: 300_000,
   listSprites: 180_000,
   exportSceneSnapshot: 300_000,
+  captureSceneDiffBaseline: 300_000,
+  diffSceneSnapshots: 300_000,
 };
 
 const getApiCallTimeoutMs = (method: string): number =>
@@ -145,5 +153,38 @@ window.addEventListener('message', (ev) => {
     }
 });
 
+// 页面侧书签 / 监视列表读写 chrome.storage.local（见 cocos3/extensionStorage.ts）
+// 任何网页都能发这条消息，键只认按本页 location 算出的那一个
+window.addEventListener('message', (ev) => {
+    if (ev.source !== window || ev.data?.type !== STORAGE_REQUEST_MESSAGE) return;
+    const { requestId, op, key, value } = ev.data as {
+        requestId: string;
+        op: 'get' | 'set';
+        key: string;
+        value?: unknown;
+    };
+    const reply = (payload: { value?: unknown; error?: string }) =>
+        window.postMessage({ type: STORAGE_RESPONSE_MESSAGE, requestId, ...payload }, '*');
+    if (key !== pageStorageKey() || (op !== 'get' && op !== 'set')) {
+        reply({ error: '只能读写当前页面的存储' });
+        return;
+    }
+    try {
+        if (op === 'get') {
+            chrome.storage.local.get(key, (items) => {
+                const err = chrome.runtime.lastError;
+                reply(err ? { error: err.message ?? '读取失败' } : { value: items[key] });
+            });
+        } else {
+            chrome.storage.local.set({ [key]: value }, () => {
+                const err = chrome.runtime.lastError;
+                reply(err ? { error: err.message ?? '写入失败' } : {});
+            });
+        }
+    } catch (e) {
+        reply({ error: e instanceof Error ? e.message : String(e) });
+    }
+});
+
 pollMcpStatus();
 window.setInterval(pollMcpStatus, 1500);
@@ -0,0 +1,4 @@
+/// <reference path="./types/chrome.d.ts" />
+
+// DevTools 页：只负责注册「Cocos」面板，面板逻辑见 devtoolsPanel.ts
+chrome.devtools.panels.create('Cocos', '', 'dist/devtools-panel.html');
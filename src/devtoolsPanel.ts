@@ -0,0 +1,622 @@
+/// <reference path="./types/chrome.d.ts" />
+
+import type { AssetInventory } from './cocos3/assetInventory';
+import {
+  formatAssetSummary,
+  renderAssetInventoryHtml,
+  type AssetInventoryTab,
+} from './cocos3/assetPanel';
+import type { NodeExportKind } from './cocos3/mcpBridge';
+import { isSelectorQuery } from './cocos3/nodeQuery';
+import type { NodeQueryResult } from './cocos3/nodeQuery';
+import type { PropertyEditResult } from './cocos3/propertyEdit';
+import type { HookInfo } from './cocos3/propertyHook';
+import {
+  createNodeInspectorElement,
+  hashNodeInspectorData,
+  inspectorHookKey,
+  readInspectorEditInput,
+  renderNodeInspectorHtml,
+  type NodeInspectorData,
+} from './cocos3/renderableInspector';
+import type { TreeNodeInfo } from './cocos3/sceneTree';
+import {
+  filterSpriteList,
+  hashSpriteList,
+  renderSpriteListHtml,
+  type SpriteListItem,
+} from './cocos3/spriteList';
+import { countNodes, expandMatchingNodes } from './cocos3/treeRender';
+import { VirtualTreeView } from './cocos3/treeView';
+
+/** 面板轮询间隔；树未变化时页面只回传 key，开销很小 */
+const POLL_MS = 1000;
+
+type PanelTab = 'tree' | 'sprites' | 'assets';
+
+type TreeInfoResult =
+  | {
+      ok: true;
+      key: string;
+      changed: boolean;
+      tree: TreeNodeInfo | null;
+      sceneName: string;
+      sceneRootId: string;
+      nodeCount: number;
+    }
+  | { ok: false; error: string };
+
+interface InspectorView {
+  data: NodeInspectorData | null;
+  undoDepth: number;
+  hooks: HookInfo[];
+}
+
+const EXPORT_BUTTONS: Array<{ selector: string; kind: NodeExportKind; idx: string }> = [
+  { selector: '.insp-export-spine-btn', kind: 'spine', idx: 'spineIdx' },
+  { selector: '.insp-export-bmfont-btn', kind: 'bmfont', idx: 'bmfontIdx' },
+  { selector: '.insp-export-anim-btn', kind: 'anim', idx: 'animIdx' },
+  { selector: '.insp-export-particle-btn', kind: 'particle', idx: 'particleIdx' },
+];
+
+/** 经 background → content → 页面 mcpBridge 调用 cocosInspectorMcpApi */
+const callApi = <T>(method: string, ...args: unknown[]): Promise<T> =>
+  new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(
+      {
+        type: 'cocos-devtools-call',
+        tabId: chrome.devtools.inspectedWindow.tabId,
+        method,
+        args,
+      },
+      (response) => {
+        const lastError = chrome.runtime.lastError;
+        if (lastError) {
+          reject(new Error(lastError.message ?? 'sendMessage 失败'));
+          return;
+        }
+        if (!response?.ok) {
+          reject(new Error(response?.error ?? `${method} 调用失败`));
+          return;
+        }
+        resolve(response.result as T);
+      }
+    );
+  });
+
+const errorText = (err: unknown): string =>
+  err instanceof Error ? err.message : String(err);
+
+/**
+ * DevTools「Cocos」面板：节点树 / Sprite / 资源 + Inspector。
+ * 数据全部来自页面内的 cocosInspectorMcpApi，
+ * 渲染复用页内面板的 HTML 生成函数与样式。
+ */
+class CocosDevtoolsPanel {
+  private tab: PanelTab = 'tree';
+  private treeView: VirtualTreeView | null = null;
+  private treeEl: HTMLElement | null = null;
+  private spritesEl: HTMLElement | null = null;
+  private assetsEl: HTMLElement | null = null;
+  private assetSummaryEl: HTMLElement | null = null;
+  private assetBodyEl: HTMLElement | null = null;
+  private inspectorEl: HTMLElement | null = null;
+  private searchInput: HTMLInputElement | null = null;
+  private statusEl: HTMLElement | null = null;
+  private overlayToggle: HTMLInputElement | null = null;
+  private highlightToggle: HTMLInputElement | null = null;
+  private visibleOnlyToggle: HTMLInputElement | null = null;
+  private markHiddenToggle: HTMLInputElement | null = null;
+
+  private tree: TreeNodeInfo | null = null;
+  private treeKey = '';
+  private sceneRootId = '';
+  private sceneName = '';
+  private expanded = new Set<string>();
+  private selectedId: string | null = null;
+  private searchRaw = '';
+  private searchQuery = '';
+  private matchIds: Set<string> | undefined;
+  private queryNote = '';
+  private inspectorHash = '';
+  private inspectorHooks: HookInfo[] = [];
+  private spritesHash = '';
+  private assetTab: AssetInventoryTab = 'assets';
+  private assetInv: AssetInventory | null = null;
+  private polling = false;
+  /** 轮询进行中收到的强制刷新（搜索、切换标签、操作后），结束后补一次 */
+  private pendingForce = false;
+
+  constructor(private readonly root: HTMLElement) {}
+
+  start(): void {
+    this.createUI();
+    chrome.devtools.network.onNavigated.addListener(() => this.reset());
+    void this.syncOverlayToggle();
+    window.setInterval(() => void this.poll(false), POLL_MS);
+  }
+
+  private createUI(): void {
+    this.root.innerHTML = `
+      <div class="devtools-toolbar">
+        <div class="devtools-tabs">
+          <button type="button" class="devtools-tab active" data-tab="tree">节点树</button>
+          <button type="button" class="devtools-tab" data-tab="sprites">Sprite</button>
+          <button type="button" class="devtools-tab" data-tab="assets">资源</button>
+        </div>
+        <input type="text" class="search-input devtools-search"
+          placeholder="搜索节点名，或查询如 Sprite[color.a<255]:active" />
+        <button type="button" class="refresh-btn devtools-refresh">刷新</button>
+        <label class="devtools-check" title="选中节点时在游戏画面上绘制包围框">
+          <input type="checkbox" class="devtools-highlight" checked />高亮选中
+        </label>
+        <label class="devtools-check"
+          title="Sprite 页只列可见节点（激活、透明度非 0、未被 Mask 裁掉、在画布内、相机可见）">
+          <input type="checkbox" class="devtools-visible-only" />仅可见
+        </label>
+        <label class="devtools-check"
+          title="Sprite 页把看不见的条目变淡并统计数量（每次刷新都要分析全场景可见性）">
+          <input type="checkbox" class="devtools-mark-hidden" />标记不可见
+        </label>
+        <label class="devtools-check" title="显示 / 隐藏页面内的 Inspector 浮层">
+          <input type="checkbox" class="devtools-overlay" checked />页内面板
+        </label>
+      </div>
+      <div class="devtools-main">
+        <div class="devtools-left">
+          <div class="node-tree-panel devtools-pane" data-pane="tree"></div>
+          <div class="sprite-list-panel devtools-pane" data-pane="sprites"></div>
+          <div class="devtools-pane devtools-assets" data-pane="assets">
+            <div class="asset-float-toolbar">
+              <button type="button" class="asset-float-tab active"
+                data-asset-tab="assets">资源</button>
+              <button type="button" class="asset-float-tab"
+                data-asset-tab="bundles">Bundle</button>
+              <span class="asset-float-summary"></span>
+            </div>
+            <div class="asset-float-body"></div>
+          </div>
+        </div>
+        <div class="devtools-right"></div>
+      </div>
+      <div class="inspector-status devtools-status">连接页面中…</div>
+    `;
+
+    const q = <T extends HTMLElement>(sel: string): T | null =>
+      this.root.querySelector(sel) as T | null;
+    this.treeEl = q('[data-pane="tree"]');
+    this.spritesEl = q('[data-pane="sprites"]');
+    this.assetsEl = q('[data-pane="assets"]');
+    this.assetSummaryEl = q('.asset-float-summary');
+    this.assetBodyEl = q('.asset-float-body');
+    this.searchInput = q('.devtools-search');
+    this.statusEl = q('.devtools-status');
+    this.overlayToggle = q('.devtools-overlay');
+    this.highlightToggle = q('.devtools-highlight');
+    this.visibleOnlyToggle = q('.devtools-visible-only');
+    this.markHiddenToggle = q('.devtools-mark-hidden');
+
+    const right = q('.devtools-right');
+    this.inspectorEl = createNodeInspectorElement();
+    right?.appendChild(this.inspectorEl);
+    if (this.treeEl) this.treeView = new VirtualTreeView(this.treeEl);
+
+    this.root.querySelectorAll('.devtools-tab').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        this.setTab(((btn as HTMLElement).dataset.tab ?? 'tree') as PanelTab);
+      });
+    });
+    this.root.querySelectorAll('[data-asset-tab]').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        this.assetTab = ((btn as HTMLElement).dataset.assetTab ?? 'assets') as AssetInventoryTab;
+        this.root.querySelectorAll('[data-asset-tab]').forEach((b) => {
+          b.classList.toggle('active', b === btn);
+        });
+        this.renderAssets();
+      });
+    });
+
+    q('.devtools-refresh')?.addEventListener('click', () => void this.poll(true));
+    this.searchInput?.addEventListener('input', () => {
+      this.searchRaw = this.searchInput?.value.trim() ?? '';
+      this.searchQuery = this.searchRaw.toLowerCase();
+      void this.poll(true);
+    });
+    this.overlayToggle?.addEventListener('change', () => {
+      const visible = !!this.overlayToggle?.checked;
+      void callApi('setOverlayVisible', visible).catch((err) =>
+        this.setStatus(`切换页内面板失败: ${errorText(err)}`)
+      );
+    });
+    this.highlightToggle?.addEventListener('change', () => void this.syncHighlight());
+    for (const toggle of [this.visibleOnlyToggle, this.markHiddenToggle]) {
+      toggle?.addEventListener('change', () => {
+        if (this.tab === 'sprites') void this.poll(true);
+      });
+    }
+
+    this.bindTreeEvents();
+    this.bindSpriteEvents();
+    this.bindInspectorEvents();
+    this.setTab('tree');
+  }
+
+  private setTab(tab: PanelTab): void {
+    this.tab = tab;
+    this.root.querySelectorAll('.devtools-tab').forEach((btn) => {
+      btn.classList.toggle('active', (btn as HTMLElement).dataset.tab === tab);
+    });
+    this.root.querySelectorAll('.devtools-pane').forEach((pane) => {
+      (pane as HTMLElement).style.display =
+        (pane as HTMLElement).dataset.pane === tab ? '' : 'none';
+    });
+    void this.poll(true);
+  }
+
+  /** 页面导航后清空缓存，等新场景加载 */
+  private reset(): void {
+    this.tree = null;
+    this.treeKey = '';
+    this.sceneRootId = '';
+    this.expanded.clear();
+    this.selectedId = null;
+    this.inspectorHash = '';
+    this.spritesHash = '';
+    this.assetInv = null;
+    this.treeView?.clear('<div class="empty-scene">等待场景加载…</div>');
+    this.renderInspector(null, 0, []);
+    void this.syncOverlayToggle();
+  }
+
+  private async poll(force: boolean): Promise<void> {
+    if (this.polling) {
+      if (force) this.pendingForce = true;
+      return;
+    }
+    this.polling = true;
+    try {
+      if (this.tab === 'tree') {
+        await this.refreshTree(force);
+      } else if (this.tab === 'sprites') {
+        await this.refreshSprites(force);
+      } else {
+        await this.refreshAssets();
+      }
+      await this.refreshInspector(force);
+    } catch (err) {
+      this.setStatus(`页面未响应: ${errorText(err)}（确认已注入 Cocos Inspector）`);
+    } finally {
+      this.polling = false;
+      if (this.pendingForce) {
+        this.pendingForce = false;
+        void this.poll(true);
+      }
+    }
+  }
+
+  private async refreshTree(force: boolean): Promise<void> {
+    const knownKey = force ? undefined : this.treeKey;
+    const res = await callApi<TreeInfoResult>('getTreeInfo', knownKey);
+    if (!res.ok) {
+      this.setStatus(res.error);
+      this.tree = null;
+      this.treeKey = '';
+      this.treeView?.clear('<div class="empty-scene">等待场景加载…</div>');
+      return;
+    }
+    if (res.sceneRootId !== this.sceneRootId) {
+      this.sceneRootId = res.sceneRootId;
+      this.expanded.clear();
+    }
+    this.sceneName = res.sceneName;
+    if (res.tree) {
+      this.tree = res.tree;
+      this.treeKey = res.key;
+      await this.updateMatchIds();
+      this.renderTree();
+    } else if (force) {
+      await this.updateMatchIds();
+      this.renderTree();
+    }
+  }
+
+  private async updateMatchIds(): Promise<void> {
+    this.matchIds = undefined;
+    this.queryNote = '';
+    if (!this.searchQuery || !isSelectorQuery(this.searchRaw)) return;
+    const res = await callApi<NodeQueryResult>('queryNodes', this.searchRaw, { limit: 100000 });
+    this.matchIds = new Set(res.ok ? res.matches.map((m) => m.id) : []);
+    this.queryNote = res.ok ? ` · 查询命中 ${res.total}` : ` · 查询语法错误: ${res.error}`;
+  }
+
+  private renderTree(): void {
+    const tree = this.tree;
+    if (!tree) return;
+    if (this.searchQuery) {
+      expandMatchingNodes(tree, this.searchQuery, this.expanded, this.matchIds);
+    }
+    this.treeView?.update(tree, {
+      expanded: this.expanded,
+      selectedId: this.selectedId,
+      searchQuery: this.searchQuery,
+      matchIds: this.matchIds,
+      sceneRootId: this.sceneRootId,
+    });
+    this.setStatus(
+      `场景树 · ${countNodes(tree)} 个节点 · ${this.sceneName || 'Scene'}${this.queryNote}`
+    );
+  }
+
+  private async refreshSprites(force: boolean): Promise<void> {
+    const visibleOnly = !!this.visibleOnlyToggle?.checked;
+    const markHidden = !!this.markHiddenToggle?.checked;
+    // 本地过滤以便统计总数；两者都关时页面侧跳过可见性分析
+    const items = await callApi<SpriteListItem[]>('listSprites', false, visibleOnly || markHidden);
+    const nextHash = `${hashSpriteList(items)}#${this.searchQuery}#${this.selectedId ?? ''}#${
+      visibleOnly ? 1 : 0
+    }${markHidden ? 1 : 0}`;
+    if (!force && nextHash === this.spritesHash) return;
+    this.spritesHash = nextHash;
+    const filtered = filterSpriteList(items, this.searchQuery, visibleOnly);
+    if (this.spritesEl) {
+      this.spritesEl.innerHTML = renderSpriteListHtml(filtered, this.selectedId);
+    }
+    const hidden = items.filter((it) => !it.visible).length;
+    this.setStatus(
+      `Sprite · ${filtered.length} / ${items.length}${hidden > 0 ? ` · 不可见 ${hidden}` : ''}`
+    );
+  }
+
+  private async refreshAssets(): Promise<void> {
+    const inv = await callApi<AssetInventory | null>('getAssetInventory');
+    this.assetInv = inv;
+    this.renderAssets();
+  }
+
+  private renderAssets(): void {
+    const inv = this.assetInv;
+    if (!this.assetBodyEl || !this.assetSummaryEl) return;
+    if (!inv) {
+      this.assetSummaryEl.textContent = '';
+      this.assetBodyEl.innerHTML =
+        '<div class="asset-float-empty">未找到 cc.assetManager</div>';
+      return;
+    }
+    this.assetSummaryEl.textContent = formatAssetSummary(inv);
+    // 资源表重绘会丢滚动位置，这里保存后恢复
+    const scrollTop = this.assetsEl?.scrollTop ?? 0;
+    this.assetBodyEl.innerHTML = renderAssetInventoryHtml(
+      inv,
+      this.assetTab,
+      this.searchQuery
+    );
+    if (this.assetsEl) this.assetsEl.scrollTop = scrollTop;
+    this.setStatus(formatAssetSummary(inv));
+  }
+
+  private async refreshInspector(force: boolean): Promise<void> {
+    // 正在编辑输入框时不重绘，避免打断输入
+    const editing = document.activeElement?.closest?.('.insp-edit');
+    if (!force && editing && this.inspectorEl?.contains(editing)) return;
+
+    if (!this.selectedId) {
+      if (force || this.inspectorHash) this.renderInspector(null, 0, []);
+      return;
+    }
+    const view = await callApi<InspectorView>('getInspectorView', this.selectedId);
+    const hookedKeys = view.hooks.map((h) => inspectorHookKey(h.compId, h.prop));
+    const nextHash =
+      `${hashNodeInspectorData(view.data)}#${view.undoDepth}#${hookedKeys.join(',')}`;
+    if (!force && nextHash === this.inspectorHash) return;
+    this.inspectorHash = nextHash;
+    this.renderInspector(view.data, view.undoDepth, view.hooks);
+  }
+
+  private renderInspector(
+    data: NodeInspectorData | null,
+    undoDepth: number,
+    hooks: HookInfo[]
+  ): void {
+    if (!data) this.inspectorHash = '';
+    this.inspectorHooks = hooks;
+    const title = this.inspectorEl?.querySelector('.node-inspector-title');
+    if (title) title.textContent = data ? `Inspector · ${data.nodeName}` : 'Inspector';
+    const body = this.inspectorEl?.querySelector('.node-inspector-body');
+    if (!body) return;
+    body.innerHTML = renderNodeInspectorHtml(data, {
+      undoDepth,
+      hookedKeys: new Set(hooks.map((h) => inspectorHookKey(h.compId, h.prop))),
+    });
+  }
+
+  private select(nodeId: string): void {
+    this.selectedId = nodeId;
+    this.spritesHash = '';
+    if (this.tab === 'tree') this.renderTree();
+    void this.syncHighlight();
+    void this.poll(true);
+  }
+
+  private async syncHighlight(): Promise<void> {
+    try {
+      if (this.highlightToggle?.checked && this.selectedId) {
+        await callApi('showNodeBounds', this.selectedId);
+      } else {
+        await callApi('hideNodeBounds');
+      }
+    } catch (err) {
+      this.setStatus(`高亮失败: ${errorText(err)}`);
+    }
+  }
+
+  private async syncOverlayToggle(): Promise<void> {
+    try {
+      const res = await callApi<{ visible: boolean }>('getOverlayVisible');
+      if (this.overlayToggle) this.overlayToggle.checked = res.visible;
+    } catch {
+      /* 页面尚未注入，下次导航或手动切换时再同步 */
+    }
+  }
+
+  private bindTreeEvents(): void {
+    this.treeEl?.addEventListener('change', (event: Event) => {
+      const toggle = (event.target as HTMLElement).closest(
+        '.node-active-toggle'
+      ) as HTMLInputElement | null;
+      if (!toggle || toggle.type !== 'checkbox') return;
+      event.stopPropagation();
+      const nodeId = toggle.dataset.uuid;
+      if (!nodeId) return;
+      const active = toggle.checked;
+      const call = callApi('setNodeActive', nodeId, active);
+      void this.run(call, () => `已设置 active=${active}`).then((ok) => {
+        if (!ok) toggle.checked = !active;
+      });
+    });
+
+    this.treeEl?.addEventListener('click', (event: Event) => {
+      const target = event.target as HTMLElement;
+      if (target.closest('.node-active-toggle')) return;
+      const id = (target.closest('li') as HTMLElement | null)?.dataset.uuid;
+      if (!id) return;
+
+      if (target.closest('.node-toggle')) {
+        if (this.expanded.has(id)) {
+          this.expanded.delete(id);
+        } else {
+          this.expanded.add(id);
+        }
+        this.renderTree();
+        return;
+      }
+      if (target.closest('.node-tree-item')) this.select(id);
+    });
+  }
+
+  private bindSpriteEvents(): void {
+    this.spritesEl?.addEventListener('click', (event: Event) => {
+      const li = (event.target as HTMLElement).closest('.sprite-list-item') as HTMLElement | null;
+      const id = li?.dataset.uuid;
+      if (id) this.select(id);
+    });
+  }
+
+  private bindInspectorEvents(): void {
+    this.inspectorEl?.addEventListener('change', (event: Event) => {
+      const wrapper = (event.target as HTMLElement).closest('.insp-edit') as HTMLElement | null;
+      if (!wrapper || !this.selectedId) return;
+      const input = readInspectorEditInput(wrapper);
+      if (!input) return;
+      const call = callApi<PropertyEditResult>(
+        'setInspectorProperty',
+        this.selectedId,
+        input.compId,
+        input.prop,
+        input.kind,
+        input.value
+      );
+      void this.run(call, () => `已修改 ${input.prop}`);
+    });
+
+    this.inspectorEl?.addEventListener('click', (event: Event) => {
+      const target = event.target as HTMLElement;
+      const nodeId = this.selectedId;
+      if (!nodeId) return;
+
+      if (target.closest('.insp-undo-btn')) {
+        event.stopPropagation();
+        void this.run(callApi<PropertyEditResult>('undoPropertyEdit'), (res) =>
+          res.ok ? `已撤销 ${res.component}.${res.prop}` : ''
+        );
+        return;
+      }
+
+      const hookBtn = target.closest('.insp-hook-btn') as HTMLButtonElement | null;
+      if (hookBtn) {
+        event.stopPropagation();
+        void this.toggleHook(nodeId, hookBtn.dataset.compId, hookBtn.dataset.prop);
+        return;
+      }
+
+      for (const exp of EXPORT_BUTTONS) {
+        const btn = target.closest(exp.selector) as HTMLButtonElement | null;
+        if (!btn) continue;
+        event.stopPropagation();
+        void this.exportNode(exp.kind, nodeId, Number(btn.dataset[exp.idx] ?? '0'));
+        return;
+      }
+
+      const recoverBtn = target.closest('.insp-recover-btn') as HTMLButtonElement | null;
+      if (recoverBtn?.dataset.class) {
+        event.stopPropagation();
+        void this.exportNode('script', nodeId, recoverBtn.dataset.class);
+      }
+    });
+  }
+
+  private async toggleHook(nodeId: string, compId?: string, prop?: string): Promise<void> {
+    if (!compId || !prop) return;
+    const existing = this.inspectorHooks.find((h) => h.compId === compId && h.prop === prop);
+    if (existing) {
+      await this.run(
+        callApi('removeHook', existing.id),
+        () => `已移除钩子 ${existing.component}.${prop}`
+      );
+      return;
+    }
+    await this.run(
+      callApi<{ ok: true; hook: HookInfo } | { ok: false; error: string }>('addHook', {
+        nodeId,
+        compId,
+        prop,
+        hookType: 'set',
+      }),
+      (res) =>
+        res.ok ? `已添加钩子 ${res.hook.component}.${prop}（日志见页内「钩子」浮窗）` : ''
+    );
+  }
+
+  private async exportNode(
+    kind: NodeExportKind,
+    nodeId: string,
+    arg: number | string
+  ): Promise<void> {
+    this.setStatus('导出中（文件由页面下载）…');
+    await this.run(
+      callApi<{ ok: true; fileName: string; fileCount: number } | { ok: false; error: string }>(
+        'downloadNodeExport',
+        kind,
+        nodeId,
+        arg
+      ),
+      (res) => (res.ok ? `已下载 ${res.fileName} · ${res.fileCount} 个文件` : '')
+    );
+  }
+
+  /** 执行写操作：失败显示错误，成功后强制刷新再显示提示；返回是否成功 */
+  private async run<T>(
+    call: Promise<T>,
+    describe: (res: T) => string
+  ): Promise<boolean> {
+    try {
+      const res = await call;
+      const failed = res as unknown as { ok?: boolean; error?: string };
+      if (failed && failed.ok === false) {
+        this.setStatus(`操作失败: ${failed.error ?? '未知错误'}`);
+        return false;
+      }
+      await this.poll(true);
+      this.setStatus(describe(res));
+      return true;
+    } catch (err) {
+      this.setStatus(`操作失败: ${errorText(err)}`);
+      return false;
+    }
+  }
+
+  private setStatus(text: string): void {
+    if (this.statusEl && text) this.statusEl.textContent = text;
+  }
+}
+
+new CocosDevtoolsPanel(document.body).start();
@@ -3,14 +3,43 @@
 declare const __INSPECTOR_VERSION__: string;
 
 import { AssetFloatingPanel } from './cocos3/assetPanel';
+import { HookFloatingPanel } from './cocos3/hookPanel';
+import { BookmarkFloatingPanel } from './cocos3/bookmarkPanel';
+import { BookmarkStore } from './cocos3/nodeBookmarks';
+import { SceneDiffFloatingPanel } from './cocos3/sceneDiffPanel';
+import { BatchBreakFloatingPanel } from './cocos3/batchBreakPanel';
+import { TimelineFloatingPanel } from './cocos3/timelinePanel';
 import { isCocos3, log, waitForCocos3 } from './cocos3/detect';
-import { installMcpBridge } from './cocos3/mcpBridge';
+import {
+  installMcpBridge,
+  OVERLAY_VISIBLE_MESSAGE,
+  readOverlayHidden,
+} from './cocos3/mcpBridge';
 import {
   collectNodeInspectorData,
   createNodeInspectorElement,
   hashNodeInspectorData,
+  inspectorHookKey,
+  readInspectorEditInput,
   renderNodeInspectorHtml,
 } from './cocos3/renderableInspector';
+import {
+  getPropertyUndoDepth,
+  setInspectorProperty,
+  undoPropertyEdit,
+} from './cocos3/propertyEdit';
+import { HookManager } from './cocos3/propertyHook';
+import {
+  deleteNode,
+  type DropPosition,
+  dropNode,
+  duplicateNode,
+  getHierarchyUndoDepth,
+  type HierarchyEditResult,
+  type HierarchyOp,
+  moveNodeBy,
+  undoHierarchyEdit,
+} from './cocos3/hierarchyEdit';
 import {
   expandSuspectPaths,
   type PerfScanMode,
@@ -24,33 +53,60 @@ import {
 } from './cocos3/scriptRecover';
 import { downloadSpineExport } from './cocos3/spineExport';
 import { downloadBmfontExport } from './cocos3/bmfontExport';
+import { downloadAnimClipExport } from './cocos3/animClipExport';
+import { downloadParticleExport } from './cocos3/particleExport';
+import { NodePickOverlay } from './cocos3/nodePickOverlay';
+import { NodeMeasureOverlay } from './cocos3/nodeMeasureOverlay';
+import {
+  formatInputTraceEntry,
+  getInputTraceStatus,
+  onInputTrace,
+  startInputTrace,
+  stopInputTrace,
+} from './cocos3/inputTrace';
+import { hideInputTraceOverlay, showInputTraceOverlay } from './cocos3/inputTraceOverlay';
+import {
+  analyzeSceneVisibility,
+  formatVisibility,
+  isActiveButHidden,
+} from './cocos3/nodeVisibility';
+import { isSelectorQuery, queryNodeIds } from './cocos3/nodeQuery';
 import {
   collectSpriteInspectData,
   drawSpriteTexture,
   enrichSpriteInspectData,
 } from './cocos3/spriteInspector';
+import { findNodeById, getNodeId, getSceneRoot, setNodeActive } from './cocos3/sceneTree';
+import { SceneTreeWatcher } from './cocos3/sceneTreeWatcher';
 import {
-  buildTreeInfo,
-  findNodeById,
-  getNodeId,
-  getSceneRoot,
-  hashTree,
-  setNodeActive,
-} from './cocos3/sceneTree';
+  hideSceneOverlay,
+  setSceneOverlayMode,
+  type SceneOverlayMode,
+} from './cocos3/sceneOverlay';
 import {
   countNodes,
   expandMatchingNodes,
   maxPerfDc,
-  renderTreeHtml,
 } from './cocos3/treeRender';
+import { VirtualTreeView } from './cocos3/treeView';
 
 const REFRESH_MS = 500;
+/** 可见性分析要遍历全场景取包围盒，比树刷新间隔稀 */
+const VISIBILITY_MS = 1000;
+
+const HIERARCHY_OP_LABELS: Record<HierarchyOp, string> = {
+  reparent: '移动',
+  reorder: '排序',
+  duplicate: '复制',
+  delete: '删除',
+};
 
 class CocosInspector3 {
   private root: HTMLElement | null = null;
   private panel: HTMLElement | null = null;
   private edgeTab: HTMLButtonElement | null = null;
   private sceneTreeContainer: HTMLElement | null = null;
+  private sceneTreeView: VirtualTreeView | null = null;
   private nodeInspectorContainer: HTMLElement | null = null;
   private searchInput: HTMLInputElement | null = null;
   private statusEl: HTMLElement | null = null;
@@ -58,22 +114,68 @@ class CocosInspector3 {
   private mcpStatusEl: HTMLElement | null = null;
   private scanBtn: HTMLButtonElement | null = null;
   private scanModeSelect: HTMLSelectElement | null = null;
+  private overlayModeSelect: HTMLSelectElement | null = null;
   private clearScanBtn: HTMLButtonElement | null = null;
+  private batchBreakBtn: HTMLButtonElement | null = null;
   private assetBtn: HTMLButtonElement | null = null;
+  private hookBtn: HTMLButtonElement | null = null;
+  private diffBtn: HTMLButtonElement | null = null;
+  private timelineBtn: HTMLButtonElement | null = null;
+  private bookmarkBtn: HTMLButtonElement | null = null;
+  private pickBtn: HTMLButtonElement | null = null;
+  private measureBtn: HTMLButtonElement | null = null;
+  private inputTraceBtn: HTMLButtonElement | null = null;
+  /** 面板开启的输入追踪：取消状态栏订阅 */
+  private inputTraceOff: (() => void) | null = null;
+  private visibilityBtn: HTMLButtonElement | null = null;
 
   private expandedScene = new Set<string>();
   private selectedId: string | null = null;
   private searchQuery = '';
+  /** 搜索框原文（查询语言的属性值区分大小写） */
+  private searchRaw = '';
+  /** 查询语言命中数 / 语法错误，附在状态栏 */
+  private queryNote = '';
   private isCollapsed = false;
   private sceneTreeHash = '';
   private inspectorHash = '';
   private spritePreviewToken = 0;
   private updateTimer: number | null = null;
+  /** 树面板拖拽中的节点 */
+  private dragNodeId: string | null = null;
+  /** 可见性分析开启时：激活但看不见的渲染节点 → 原因 */
+  private hiddenById: Map<string, string> | null = null;
+  private visibilityAt = 0;
 
   private scanRunning = false;
   private scanCancel = false;
   private perfReport: PerfScanReport | null = null;
   private assetPanel = new AssetFloatingPanel();
+  private hookPanel = new HookFloatingPanel();
+  private bookmarkPanel = new BookmarkFloatingPanel((id) => this.revealNode(id));
+  private diffPanel = new SceneDiffFloatingPanel((id) => this.revealNode(id));
+  private batchBreakPanel = new BatchBreakFloatingPanel(
+    () => this.selectedId,
+    (id) => this.revealNode(id)
+  );
+  private timelinePanel = new TimelineFloatingPanel(
+    () => this.selectedId,
+    () => this.refreshAll(true)
+  );
+  private treeWatcher = new SceneTreeWatcher(() => {
+    if (!this.scanRunning) this.refreshAll(false);
+  });
+  private pickOverlay = new NodePickOverlay(
+    (id) => this.revealNode(id),
+    (active, note) => {
+      this.pickBtn?.classList.toggle('is-active', active);
+      if (note) this.setStatus(note);
+    }
+  );
+  private measureOverlay = new NodeMeasureOverlay((active, note) => {
+    this.measureBtn?.classList.toggle('is-active', active);
+    if (note) this.setStatus(note);
+  });
 
   constructor() {
     if (isCocos3()) {
@@ -87,10 +189,22 @@ class CocosInspector3 {
     this.createUI();
     this.bindTreeEvents();
     this.bindInspectorEvents();
-    this.refreshAll(true);
-    this.startAutoRefresh();
+    this.bindOverlayVisibility();
+    if (readOverlayHidden()) {
+      this.setOverlayHidden(true);
+    } else {
+      this.refreshAll(true);
+      this.startAutoRefresh();
+    }
     installMcpBridge();
     window.postMessage({ type: 'cocos-inspector-ready' }, '*');
+    // 书签存储经 content script 读取，加载完成后重绘 Inspector 的 ☆ / ◉ 状态
+    void BookmarkStore.getInstance()
+      .load()
+      .then(() => {
+        this.inspectorHash = '';
+        this.bookmarkPanel.refresh(true);
+      });
     log('已启动（全量场景树 + Inspector + DC 扫描 + 资源面板）');
   }
 
@@ -196,6 +310,14 @@ class CocosInspector3 {
     this.clearScanBtn.addEventListener('click', () => this.clearPerfScan());
     controls.appendChild(this.clearScanBtn);
 
+    this.batchBreakBtn = document.createElement('button');
+    this.batchBreakBtn.type = 'button';
+    this.batchBreakBtn.className = 'asset-panel-btn';
+    this.batchBreakBtn.textContent = '断批';
+    this.batchBreakBtn.title = '按渲染顺序列出选中子树的断批点及原因（贴图 / 材质 / 字体 / Mask 等）';
+    this.batchBreakBtn.addEventListener('click', () => this.batchBreakPanel.toggle());
+    controls.appendChild(this.batchBreakBtn);
+
     this.assetBtn = document.createElement('button');
     this.assetBtn.type = 'button';
     this.assetBtn.className = 'asset-panel-btn';
@@ -204,12 +326,112 @@ class CocosInspector3 {
     this.assetBtn.addEventListener('click', () => this.assetPanel.toggle());
     controls.appendChild(this.assetBtn);
 
+    this.hookBtn = document.createElement('button');
+    this.hookBtn.type = 'button';
+    this.hookBtn.className = 'asset-panel-btn';
+    this.hookBtn.textContent = '钩子';
+    this.hookBtn.title = '打开属性钩子浮窗（读写调用日志）';
+    this.hookBtn.addEventListener('click', () => this.hookPanel.toggle());
+    controls.appendChild(this.hookBtn);
+
+    this.diffBtn = document.createElement('button');
+    this.diffBtn.type = 'button';
+    this.diffBtn.className = 'asset-panel-btn';
+    this.diffBtn.textContent = '对比';
+    this.diffBtn.title = '场景快照对比（记录基线后对比当前场景）';
+    this.diffBtn.addEventListener('click', () => this.diffPanel.toggle());
+    controls.appendChild(this.diffBtn);
+
+    this.timelineBtn = document.createElement('button');
+    this.timelineBtn.type = 'button';
+    this.timelineBtn.className = 'asset-panel-btn';
+    this.timelineBtn.textContent = '时间轴';
+    this.timelineBtn.title = '录制选中子树的逐帧状态，导出 JSON 或拖动回放';
+    this.timelineBtn.addEventListener('click', () => this.timelinePanel.toggle());
+    controls.appendChild(this.timelineBtn);
+
+    this.bookmarkBtn = document.createElement('button');
+    this.bookmarkBtn.type = 'button';
+    this.bookmarkBtn.className = 'asset-panel-btn';
+    this.bookmarkBtn.textContent = '书签';
+    this.bookmarkBtn.title = '节点书签与属性监视列表（按页面保存，刷新后保留）';
+    this.bookmarkBtn.addEventListener('click', () => this.bookmarkPanel.toggle());
+    controls.appendChild(this.bookmarkBtn);
+
+    this.visibilityBtn = document.createElement('button');
+    this.visibilityBtn.type = 'button';
+    this.visibilityBtn.className = 'asset-panel-btn';
+    this.visibilityBtn.textContent = '可见性';
+    this.visibilityBtn.title =
+      '标出激活但看不见的渲染节点（透明度 0、Mask 裁掉、画布外、相机不可见、尺寸为 0），悬停看原因';
+    this.visibilityBtn.addEventListener('click', () => this.toggleVisibility());
+    controls.appendChild(this.visibilityBtn);
+
+    this.overlayModeSelect = document.createElement('select');
+    this.overlayModeSelect.className = 'perf-scan-mode overlay-mode-select';
+    this.overlayModeSelect.title =
+      '画面叠加（作用于选中节点子树，未选中为整个场景）：全部包围盒 / Overdraw 热力图 / 按贴图与材质着色看断批 / Widget 与 Layout 约束';
+    [
+      ['', '叠加'],
+      ['bounds', '包围盒'],
+      ['overdraw', 'Overdraw'],
+      ['batch', '合批'],
+      ['layout', '约束'],
+    ].forEach(([value, label]) => {
+      const opt = document.createElement('option');
+      opt.value = value;
+      opt.textContent = label;
+      this.overlayModeSelect!.appendChild(opt);
+    });
+    this.overlayModeSelect.addEventListener('change', () => this.applyOverlayMode());
+    controls.appendChild(this.overlayModeSelect);
+
+    this.pickBtn = document.createElement('button');
+    this.pickBtn.type = 'button';
+    this.pickBtn.className = 'asset-panel-btn';
+    this.pickBtn.textContent = '拾取';
+    this.pickBtn.title = '在画布上点击选中节点；多个节点叠加时列出候选（Esc 退出）';
+    this.pickBtn.addEventListener('click', () => {
+      this.measureOverlay.stop();
+      this.pickOverlay.toggle();
+    });
+    controls.appendChild(this.pickBtn);
+
+    this.measureBtn = document.createElement('button');
+    this.measureBtn.type = 'button';
+    this.measureBtn.className = 'asset-panel-btn';
+    this.measureBtn.textContent = '测量';
+    this.measureBtn.title =
+      '测量两个节点的间距、对齐与坐标差：已选中节点为 A，在画布上点击 B（未选中时依次点两个）；Esc 退出';
+    this.measureBtn.addEventListener('click', () => {
+      if (this.measureOverlay.isActive) {
+        this.measureOverlay.stop();
+        return;
+      }
+      this.pickOverlay.stop();
+      this.measureOverlay.start(this.selectedId);
+    });
+    controls.appendChild(this.measureBtn);
+
+    this.inputTraceBtn = document.createElement('button');
+    this.inputTraceBtn.type = 'button';
+    this.inputTraceBtn.className = 'asset-panel-btn';
+    this.inputTraceBtn.textContent = '输入';
+    this.inputTraceBtn.title =
+      '追踪触摸 / 鼠标事件：画出命中节点与传播路径，标出执行的监听、停止传播与 BlockInputEvents 拦截';
+    this.inputTraceBtn.addEventListener('click', () => this.toggleInputTrace());
+    controls.appendChild(this.inputTraceBtn);
+
     this.searchInput = document.createElement('input');
     this.searchInput.type = 'search';
     this.searchInput.className = 'search-input';
-    this.searchInput.placeholder = '搜索节点名称…';
+    this.searchInput.placeholder = '搜索节点名称 / 查询 Canvas/** Sprite[spriteFrame~=x] :active';
+    this.searchInput.title =
+      '节点名包含匹配；含 / [ ] : * ? 时按查询语言：路径 glob、组件[属性 运算 值]、' +
+      ':active / :inactive / :visible / :hidden，条件之间为且';
     this.searchInput.addEventListener('input', () => {
-      this.searchQuery = this.searchInput?.value.trim().toLowerCase() ?? '';
+      this.searchRaw = this.searchInput?.value.trim() ?? '';
+      this.searchQuery = this.searchRaw.toLowerCase();
       this.refreshAll(true);
     });
     controls.appendChild(this.searchInput);
@@ -234,6 +456,7 @@ class CocosInspector3 {
 
     this.sceneTreeContainer = document.createElement('div');
     this.sceneTreeContainer.className = 'node-tree-panel';
+    this.sceneTreeView = new VirtualTreeView(this.sceneTreeContainer);
     this.mainBody.appendChild(this.sceneTreeContainer);
 
     this.nodeInspectorContainer = createNodeInspectorElement();
@@ -350,9 +573,7 @@ class CocosInspector3 {
 
   /** 收起：从 DOM 移除面板、清空树、停止定时刷新，仅保留边缘标签 */
   private detachPanel(): void {
-    if (this.sceneTreeContainer) {
-      this.sceneTreeContainer.innerHTML = '';
-    }
+    this.sceneTreeView?.clear();
     if (this.nodeInspectorContainer) {
       const body = this.nodeInspectorContainer.querySelector('.node-inspector-body');
       if (body) {
@@ -369,9 +590,35 @@ class CocosInspector3 {
     }
     this.sceneTreeHash = '';
     this.assetPanel.close();
+    this.hookPanel.close();
+    this.diffPanel.close();
+    this.batchBreakPanel.close();
+    this.timelinePanel.close();
+    this.bookmarkPanel.close();
+    this.pickOverlay.stop();
+    this.measureOverlay.stop();
+    if (this.inputTraceOff) this.toggleInputTrace();
+    hideSceneOverlay();
+    if (this.overlayModeSelect) this.overlayModeSelect.value = '';
+    this.treeWatcher.detach();
     this.panel?.remove();
   }
 
+  /** DevTools 面板可关闭页内面板（setOverlayVisible），避免占屏和进截图 */
+  private bindOverlayVisibility(): void {
+    window.addEventListener('message', (ev) => {
+      if (ev.source !== window || ev.data?.type !== OVERLAY_VISIBLE_MESSAGE) return;
+      this.setOverlayHidden(ev.data.visible === false);
+    });
+  }
+
+  /** 隐藏时整块不显示并按收起处理（停止刷新）；恢复后保持收起，点边缘标签展开 */
+  private setOverlayHidden(hidden: boolean): void {
+    if (!this.root) return;
+    this.root.style.display = hidden ? 'none' : '';
+    if (hidden) this.setCollapsed(true);
+  }
+
   private setCollapsed(collapsed: boolean): void {
     if (!this.root || this.isCollapsed === collapsed) return;
 
@@ -468,12 +715,167 @@ class CocosInspector3 {
         this.refreshAll(true);
       }
     });
+
+    this.bindTreeDragDrop();
+  }
+
+  /** 拖放改层级：落在行上沿 / 下沿插到其前后，落在中部挂为其子节点 */
+  private bindTreeDragDrop(): void {
+    const container = this.sceneTreeContainer;
+    if (!container) return;
+    const rowOf = (event: Event) =>
+      (event.target as HTMLElement).closest?.('li[data-uuid]') as HTMLElement | null;
+
+    container.addEventListener('dragstart', (event: DragEvent) => {
+      const id = rowOf(event)?.dataset.uuid;
+      if (!id) return;
+      this.dragNodeId = id;
+      if (event.dataTransfer) {
+        event.dataTransfer.effectAllowed = 'move';
+        event.dataTransfer.setData('text/plain', id);
+      }
+    });
+
+    container.addEventListener('dragover', (event: DragEvent) => {
+      const li = rowOf(event);
+      if (!this.dragNodeId || !li) return;
+      event.preventDefault();
+      this.markDropTarget(li, this.dropPositionAt(li, event.clientY));
+    });
+
+    container.addEventListener('drop', (event: DragEvent) => {
+      const li = rowOf(event);
+      const nodeId = this.dragNodeId;
+      this.dragNodeId = null;
+      this.markDropTarget(null, 'inside');
+      const targetId = li?.dataset.uuid;
+      if (!nodeId || !li || !targetId) return;
+      event.preventDefault();
+      this.applyHierarchyResult(dropNode(nodeId, targetId, this.dropPositionAt(li, event.clientY)));
+    });
+
+    container.addEventListener('dragend', () => {
+      this.dragNodeId = null;
+      this.markDropTarget(null, 'inside');
+    });
+  }
+
+  private dropPositionAt(li: HTMLElement, clientY: number): DropPosition {
+    const rect = li.getBoundingClientRect();
+    const ratio = rect.height > 0 ? (clientY - rect.top) / rect.height : 0.5;
+    if (ratio < 0.25) return 'before';
+    if (ratio > 0.75) return 'after';
+    return 'inside';
+  }
+
+  private markDropTarget(li: HTMLElement | null, position: DropPosition): void {
+    const classes = ['node-drop-before', 'node-drop-after', 'node-drop-inside'];
+    this.sceneTreeContainer?.querySelectorAll(`.${classes.join(', .')}`).forEach((el) => {
+      if (el !== li) el.classList.remove(...classes);
+    });
+    if (!li) return;
+    li.classList.toggle('node-drop-before', position === 'before');
+    li.classList.toggle('node-drop-after', position === 'after');
+    li.classList.toggle('node-drop-inside', position === 'inside');
+  }
+
+  private runHierarchyAction(action?: string): void {
+    if (action === 'undo') {
+      this.applyHierarchyResult(undoHierarchyEdit());
+      return;
+    }
+    const nodeId = this.selectedId;
+    if (!nodeId) return;
+    if (action === 'up') this.applyHierarchyResult(moveNodeBy(nodeId, -1));
+    else if (action === 'down') this.applyHierarchyResult(moveNodeBy(nodeId, 1));
+    else if (action === 'duplicate') this.applyHierarchyResult(duplicateNode(nodeId));
+    else if (action === 'delete') this.applyHierarchyResult(deleteNode(nodeId));
+  }
+
+  /** 层级编辑后选中结果节点（删除选中父节点）并展开到该处 */
+  private applyHierarchyResult(res: HierarchyEditResult): void {
+    if (!res.ok) {
+      this.setStatus(`层级编辑失败: ${res.error}`);
+      return;
+    }
+    const removed = res.undone ? res.op === 'duplicate' : res.op === 'delete';
+    this.revealNode(removed ? res.parentId : res.nodeId);
+    const label = HIERARCHY_OP_LABELS[res.op];
+    this.setStatus(
+      res.undone
+        ? `已撤销${label} ${res.nodeName}`
+        : `已${label} ${res.nodeName}（父节点中第 ${res.index + 1} 位）`
+    );
   }
 
   private bindInspectorEvents(): void {
+    this.nodeInspectorContainer?.addEventListener('change', (event: Event) => {
+      const target = event.target as HTMLElement;
+      const wrapper = target.closest('.insp-edit') as HTMLElement | null;
+      if (!wrapper || !this.selectedId) return;
+
+      event.stopPropagation();
+      const input = readInspectorEditInput(wrapper);
+      if (!input) return;
+      const res = setInspectorProperty(
+        this.selectedId,
+        input.compId,
+        input.prop,
+        input.kind,
+        input.value
+      );
+      this.setStatus(
+        res.ok
+          ? `已修改 ${res.component}.${res.prop}`
+          : `属性修改失败: ${res.error}`
+      );
+      (document.activeElement as HTMLElement | null)?.blur?.();
+      this.refreshAll(true);
+    });
+
     this.nodeInspectorContainer?.addEventListener('click', (event: Event) => {
       const target = event.target as HTMLElement;
 
+      const undoBtn = target.closest('.insp-undo-btn') as HTMLButtonElement | null;
+      if (undoBtn) {
+        event.stopPropagation();
+        const res = undoPropertyEdit();
+        this.setStatus(
+          res.ok
+            ? `已撤销 ${res.component}.${res.prop}`
+            : `撤销失败: ${res.error}`
+        );
+        this.refreshAll(true);
+        return;
+      }
+
+      const hookBtn = target.closest('.insp-hook-btn') as HTMLButtonElement | null;
+      if (hookBtn) {
+        event.stopPropagation();
+        this.toggleInspectorHook(hookBtn.dataset.compId, hookBtn.dataset.prop);
+        return;
+      }
+
+      const hierBtn = target.closest('.insp-hier-btn') as HTMLButtonElement | null;
+      if (hierBtn) {
+        event.stopPropagation();
+        this.runHierarchyAction(hierBtn.dataset.hierAction);
+        return;
+      }
+
+      const watchBtn = target.closest('.insp-watch-btn') as HTMLButtonElement | null;
+      if (watchBtn) {
+        event.stopPropagation();
+        this.toggleInspectorWatch(watchBtn.dataset.compId, watchBtn.dataset.prop);
+        return;
+      }
+
+      if (target.closest('.insp-bookmark-btn')) {
+        event.stopPropagation();
+        this.toggleBookmark();
+        return;
+      }
+
       const spineBtn = target.closest(
         '.insp-export-spine-btn'
       ) as HTMLButtonElement | null;
@@ -496,6 +898,28 @@ class CocosInspector3 {
         return;
       }
 
+      const animBtn = target.closest(
+        '.insp-export-anim-btn'
+      ) as HTMLButtonElement | null;
+      if (animBtn) {
+        event.stopPropagation();
+        if (!this.selectedId) return;
+        const idx = Number(animBtn.dataset.animIdx ?? '0');
+        void this.exportAnimClips(idx);
+        return;
+      }
+
+      const particleBtn = target.closest(
+        '.insp-export-particle-btn'
+      ) as HTMLButtonElement | null;
+      if (particleBtn) {
+        event.stopPropagation();
+        if (!this.selectedId) return;
+        const idx = Number(particleBtn.dataset.particleIdx ?? '0');
+        void this.exportParticle(idx);
+        return;
+      }
+
       const btn = target.closest('.insp-recover-btn') as HTMLButtonElement | null;
       if (!btn) return;
 
@@ -561,53 +985,101 @@ class CocosInspector3 {
     console.log('[BMFont导出]', result.log.join('\n'));
   }
 
+  private async exportAnimClips(animIndex: number): Promise<void> {
+    if (!this.selectedId) return;
+    this.setStatus('动画导出中（读取剪辑轨道，提取帧图）…');
+
+    const result = await downloadAnimClipExport(this.selectedId, animIndex);
+    if (!result.ok) {
+      this.setStatus(`动画导出失败: ${result.error ?? '未知错误'}`);
+      console.warn('[动画导出]', result.log.join('\n'));
+      return;
+    }
+
+    const animCount = result.files.filter((f) => /\.anim$/.test(f.path)).length;
+    const frameCount = result.files.filter((f) => /\.png$/i.test(f.path)).length;
+    const frameHint = frameCount > 0 ? ` · ${frameCount} 张帧图` : '';
+    this.setStatus(`已下载 ${result.zipName} · ${animCount} 个 .anim${frameHint}`);
+    console.log('[动画导出]', result.log.join('\n'));
+  }
+
+  private async exportParticle(particleIndex: number): Promise<void> {
+    if (!this.selectedId) return;
+    this.setStatus('粒子导出中（读取组件参数，提取贴图）…');
+
+    const result = await downloadParticleExport(this.selectedId, particleIndex);
+    if (!result.ok) {
+      this.setStatus(`粒子导出失败: ${result.error ?? '未知错误'}`);
+      console.warn('[粒子导出]', result.log.join('\n'));
+      return;
+    }
+
+    const format = result.kind === '2d' ? '.plist' : '3D 模块 JSON';
+    const texCount = result.files.filter((f) => /\.png$/i.test(f.path)).length;
+    const texHint = texCount > 0 ? ` · ${texCount} 张贴图` : '';
+    this.setStatus(`已下载 ${result.zipName} · ${format}${texHint}`);
+    console.log('[粒子导出]', result.log.join('\n'));
+  }
+
   private refreshAll(force: boolean): void {
     if (this.isCollapsed) return;
+    this.syncInputTrace();
 
     const scene = getSceneRoot();
     if (!scene) {
       this.setStatus('未找到场景（cc.director.getScene 为空）');
-      if (this.sceneTreeContainer) {
-        this.sceneTreeContainer.innerHTML =
-          '<div class="empty-scene">等待场景加载…</div>';
-      }
+      this.sceneTreeView?.clear('<div class="empty-scene">等待场景加载…</div>');
+      this.sceneTreeHash = '';
       return;
     }
 
-    const treeInfo = buildTreeInfo(scene);
+    const { tree: treeInfo, key: treeKey } = this.treeWatcher.read(scene, force);
     const perfDc = this.perfReport?.dcByNodeId;
     const perfHash = perfDc
       ? [...perfDc.entries()].map(([k, v]) => `${k}:${Math.round(v)}`).join(',')
       : '';
-    const nextSceneHash = `${hashTree(treeInfo)}|perf:${perfHash}|sel:${this.selectedId ?? ''}`;
 
-    const treeOnlyHash = `${hashTree(treeInfo)}|perf:${perfHash}`;
+    const hiddenById = this.readHiddenNodes(scene, force);
+    const hiddenHash = hiddenById
+      ? [...hiddenById.entries()].map(([id, why]) => `${id}:${why}`).join(',')
+      : '';
+
+    // 查询可能按属性 / 可见性过滤，树结构不变时命中也会变，每次刷新都重算
+    let matchIds: Set<string> | undefined;
+    this.queryNote = '';
+    if (this.searchQuery && isSelectorQuery(this.searchRaw)) {
+      const res = HookManager.getInstance().runSilently(() =>
+        queryNodeIds(scene, this.searchRaw)
+      );
+      matchIds = res.ok ? res.ids : new Set<string>();
+      this.queryNote = res.ok ? ` · 查询命中 ${res.ids.size}` : ` · 查询语法错误: ${res.error}`;
+    }
+    const queryHash = matchIds ? [...matchIds].join(',') : '';
+
+    const treeOnlyHash = `${treeKey}|perf:${perfHash}|vis:${hiddenHash}|query:${queryHash}`;
     const treeChanged = force || treeOnlyHash !== this.sceneTreeHash;
 
     if (treeChanged) {
       this.sceneTreeHash = treeOnlyHash;
 
       if (this.searchQuery) {
-        expandMatchingNodes(treeInfo, this.searchQuery, this.expandedScene);
+        expandMatchingNodes(treeInfo, this.searchQuery, this.expandedScene, matchIds);
       }
 
       const sceneRootId = getNodeId(scene);
       const perfDcMax = maxPerfDc(perfDc);
 
-      if (this.sceneTreeContainer) {
-        this.sceneTreeContainer.innerHTML = `<ul class="node-tree">${renderTreeHtml(
-          treeInfo,
-          {
-            expanded: this.expandedScene,
-            selectedId: this.selectedId,
-            searchQuery: this.searchQuery,
-            isRoot: true,
-            sceneRootId,
-            perfDcByNodeId: perfDc,
-            perfDcMax,
-          }
-        )}</ul>`;
-      }
+      this.sceneTreeView?.update(treeInfo, {
+        expanded: this.expandedScene,
+        selectedId: this.selectedId,
+        searchQuery: this.searchQuery,
+        matchIds,
+        sceneRootId,
+        perfDcByNodeId: perfDc,
+        perfDcMax,
+        draggable: true,
+        hiddenById: hiddenById ?? undefined,
+      });
     }
 
     this.refreshInspector(force || treeChanged);
@@ -626,17 +1098,117 @@ class CocosInspector3 {
           ? `基准 ${Math.round(this.perfReport.baselineDc)} DC`
           : '估算模式';
       this.setStatus(
-        `场景树 · ${nodeCount} 节点 · ${baseline}${topText}`
+        `场景树 · ${nodeCount} 节点 · ${baseline}${topText}${this.queryNote}`
       );
       return;
     }
 
-    this.setStatus(`场景树 · ${nodeCount} 个节点 · ${scene.name || 'Scene'}`);
+    const hiddenNote = hiddenById ? ` · 不可见渲染节点 ${hiddenById.size}` : '';
+    this.setStatus(
+      `场景树 · ${nodeCount} 个节点 · ${scene.name || 'Scene'}${hiddenNote}${this.queryNote}`
+    );
+  }
+
+  /** 叠加模式以切换时的选中节点为根；要换子树重新选择模式即可 */
+  private applyOverlayMode(): void {
+    const value = this.overlayModeSelect?.value ?? '';
+    if (!value) {
+      hideSceneOverlay();
+      this.setStatus('已关闭画面叠加');
+      return;
+    }
+    const res = setSceneOverlayMode(value as SceneOverlayMode, {
+      nodeId: this.selectedId ?? undefined,
+    });
+    if (!res.ok) {
+      if (this.overlayModeSelect) this.overlayModeSelect.value = '';
+      this.setStatus(`画面叠加失败: ${res.error}`);
+      return;
+    }
+    const { status } = res;
+    this.setStatus(
+      status.mode === 'layout'
+        ? `约束叠加：${status.rootName}（${status.widgets} Widget、${status.layouts} Layout、` +
+            `${status.conflicts} 处冲突）`
+        : `画面叠加：${status.rootName}（${status.units} 个渲染节点）`
+    );
+  }
+
+  private toggleVisibility(): void {
+    const on = !this.hiddenById;
+    this.hiddenById = on ? new Map() : null;
+    this.visibilityAt = 0;
+    this.visibilityBtn?.classList.toggle('is-active', on);
+    this.refreshAll(true);
+  }
+
+  /** 追踪状态是全局的（MCP 也能启停），按钮与状态栏订阅跟随 getInputTraceStatus */
+  private syncInputTrace(): void {
+    const tracing = getInputTraceStatus().tracing;
+    if (tracing && !this.inputTraceOff) {
+      this.inputTraceOff = onInputTrace((entry) => this.setStatus(formatInputTraceEntry(entry)));
+      this.inputTraceBtn?.classList.add('is-active');
+    } else if (!tracing && this.inputTraceOff) {
+      this.inputTraceOff();
+      this.inputTraceOff = null;
+      this.inputTraceBtn?.classList.remove('is-active');
+    }
+  }
+
+  private toggleInputTrace(): void {
+    if (getInputTraceStatus().tracing) {
+      stopInputTrace();
+      hideInputTraceOverlay();
+      this.syncInputTrace();
+      this.setStatus('输入追踪已停止');
+      return;
+    }
+    const res = startInputTrace();
+    if (!res.ok) {
+      this.setStatus(res.error);
+      return;
+    }
+    showInputTraceOverlay();
+    this.syncInputTrace();
+    this.setStatus('输入追踪中：在画布上点击，再点「输入」停止');
+  }
+
+  /** 开启时按 VISIBILITY_MS 节流重新分析；关闭返回 null */
+  private readHiddenNodes(scene: cc.Node, force: boolean): Map<string, string> | null {
+    if (!this.hiddenById) return null;
+    const now = Date.now();
+    if (!force && now - this.visibilityAt < VISIBILITY_MS) return this.hiddenById;
+    this.visibilityAt = now;
+    const verdicts = HookManager.getInstance().runSilently(() => analyzeSceneVisibility(scene));
+    const hidden = new Map<string, string>();
+    verdicts.forEach((v, id) => {
+      if (isActiveButHidden(v)) hidden.set(id, formatVisibility(v));
+    });
+    this.hiddenById = hidden;
+    return hidden;
   }
 
   private refreshInspector(force: boolean): void {
-    const data = collectNodeInspectorData(this.selectedId);
-    const nextHash = hashNodeInspectorData(data);
+    // 正在编辑输入框时不重绘，避免打断输入
+    const editing = document.activeElement?.closest?.('.insp-edit');
+    if (!force && editing && this.nodeInspectorContainer?.contains(editing)) {
+      return;
+    }
+
+    const hooks = HookManager.getInstance();
+    // Inspector 自身读取属性不计入钩子日志
+    const data = hooks.runSilently(() => collectNodeInspectorData(this.selectedId, true));
+    const hookedKeys = new Set(
+      hooks
+        .listHooks(this.selectedId ?? undefined)
+        .map((h) => inspectorHookKey(h.compId, h.prop))
+    );
+    const store = BookmarkStore.getInstance();
+    const watchedKeys = store.watchedKeysFor(this.selectedId);
+    const bookmarked = !!this.selectedId && store.isBookmarked(this.selectedId);
+    const nextHash = `${hashNodeInspectorData(data)}#${[...hookedKeys].join(',')}#${[
+      ...watchedKeys,
+    ].join(',')}#${bookmarked ? 1 : 0}`;
     if (!force && nextHash === this.inspectorHash) return;
     this.inspectorHash = nextHash;
 
@@ -654,7 +1226,13 @@ class CocosInspector3 {
     );
     if (!body) return;
 
-    body.innerHTML = renderNodeInspectorHtml(data);
+    body.innerHTML = renderNodeInspectorHtml(data, {
+      undoDepth: getPropertyUndoDepth(),
+      hookedKeys,
+      watchedKeys,
+      bookmarked,
+      hierarchyUndoDepth: getHierarchyUndoDepth(),
+    });
 
     const hasSprite = data?.components.some((c) => c.isSprite);
     if (hasSprite && this.selectedId) {
@@ -663,6 +1241,75 @@ class CocosInspector3 {
     }
   }
 
+  /** 选中节点并展开其所有祖先（浮窗条目点击定位用） */
+  private revealNode(nodeId: string): void {
+    const scene = getSceneRoot();
+    const node = scene ? findNodeById(scene, nodeId) : null;
+    if (!scene || !node) {
+      this.setStatus(`节点已不存在: ${nodeId}`);
+      return;
+    }
+    let parent = node.parent;
+    while (parent && parent !== scene) {
+      this.expandedScene.add(getNodeId(parent));
+      parent = parent.parent;
+    }
+    this.selectedId = nodeId;
+    this.refreshAll(true);
+    this.sceneTreeView?.scrollToId(nodeId);
+  }
+
+  private toggleInspectorHook(compId?: string, prop?: string): void {
+    if (!this.selectedId || !compId || !prop) return;
+    const manager = HookManager.getInstance();
+    const existing = manager.findHook(this.selectedId, compId, prop);
+    if (existing) {
+      manager.removeHook(existing.id);
+      this.setStatus(`已移除钩子 ${existing.component}.${prop}`);
+    } else {
+      const res = manager.addHook({
+        nodeId: this.selectedId,
+        compId,
+        prop,
+        ...this.hookPanel.getNewHookOptions(),
+      });
+      this.setStatus(
+        res.ok
+          ? `已添加钩子 ${res.hook.component}.${prop}（在「钩子」浮窗查看日志）`
+          : `添加钩子失败: ${res.error}`
+      );
+    }
+    this.hookPanel.refresh(true);
+    this.refreshAll(true);
+  }
+
+  private toggleInspectorWatch(compId?: string, prop?: string): void {
+    if (!this.selectedId || !compId || !prop) return;
+    const res = BookmarkStore.getInstance().toggleWatch(this.selectedId, compId, prop);
+    if (!res.ok) {
+      this.setStatus(`监视失败: ${res.error}`);
+      return;
+    }
+    const label = `${res.watch.component}.${prop}`;
+    this.setStatus(
+      res.watching ? `已监视 ${label}（在「书签」浮窗查看）` : `已取消监视 ${label}`
+    );
+    this.bookmarkPanel.refresh(true);
+    this.refreshAll(true);
+  }
+
+  private toggleBookmark(): void {
+    if (!this.selectedId) return;
+    const res = BookmarkStore.getInstance().toggleBookmark(this.selectedId);
+    if (!res.ok) {
+      this.setStatus(`书签失败: ${res.error}`);
+      return;
+    }
+    this.setStatus(res.bookmarked ? `已加入书签 ${res.path}` : `已取消书签 ${res.path}`);
+    this.bookmarkPanel.refresh(true);
+    this.refreshAll(true);
+  }
+
   private async loadSpritePreview(
     nodeId: string,
     token: number
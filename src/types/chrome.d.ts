@@ -9,6 +9,8 @@ declare namespace chrome {
         port?: number;
         wsUrl?: string;
         ok?: boolean;
+        result?: unknown;
+        error?: string;
       }) => void
     ): void;
     const onMessage: {
@@ -55,6 +57,16 @@ declare namespace chrome {
     };
   }
 
+  namespace storage {
+    namespace local {
+      function get(
+        keys: string | string[],
+        callback: (items: Record<string, unknown>) => void
+      ): void;
+      function set(items: Record<string, unknown>, callback?: () => void): void;
+    }
+  }
+
   namespace scripting {
     function executeScript(injection: {
       target: { tabId: number };
@@ -63,4 +75,27 @@ declare namespace chrome {
       args?: unknown[];
     }): Promise<Array<{ result?: unknown }>>;
   }
+
+  namespace devtools {
+    namespace inspectedWindow {
+      const tabId: number;
+    }
+    namespace panels {
+      interface ExtensionPanel {
+        onShown: { addListener: (callback: (win: Window) => void) => void };
+        onHidden: { addListener: (callback: () => void) => void };
+      }
+      function create(
+        title: string,
+        iconPath: string,
+        pagePath: string,
+        callback?: (panel: ExtensionPanel) => void
+      ): void;
+    }
+    namespace network {
+      const onNavigated: {
+        addListener: (callback: (url: string) => void) => void;
+      };
+    }
+  }
 }
@@ -7,9 +7,9 @@
  */
 
 import { spawn } from 'child_process';
-import { mkdirSync, writeFileSync, copyFileSync } from 'fs';
+import { mkdirSync, readFileSync, writeFileSync, copyFileSync } from 'fs';
 import { dirname, join, resolve } from 'path';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
@@ -28,6 +28,7 @@ import {
   getDaemonMeta,
 } from './bridge-server.mjs';
 import { writeReplacementPackToDisk } from './export-pack-lib.mjs';
+import { fetchSceneSnapshotStreamed } from './scene-snapshot-stream.mjs';
 import { startShareHttp } from './share-http.mjs';
 import {
   listBridgesWithHealth,
@@ -52,6 +53,16 @@ import {
 const repoRoot = resolve(join(dirname(fileURLToPath(import.meta.url)), '../..'));
 const useCdp = process.env.COCOS_USE_CDP === '1';
 
+/** 纯数据的快照对比（npm run build 生成 dist/scene-diff.mjs）；未构建时返回 null */
+async function loadLocalSceneDiff() {
+  try {
+    const mod = await import(pathToFileURL(join(repoRoot, 'dist/scene-diff.mjs')).href);
+    return mod.diffSceneSnapshots ?? null;
+  } catch {
+    return null;
+  }
+}
+
 function connOpts(args) {
   return {
     domain: args?.domain,
@@ -93,6 +104,12 @@ const BRIDGE_TIMEOUT_BY_METHOD = {
   downloadTexture: 300_000,
   listSprites: 180_000,
   exportSceneSnapshot: 300_000,
+  captureSceneDiffBaseline: 300_000,
+  diffSceneSnapshots: 300_000,
+  stopTimelineRecording: 120_000,
+  getTimeline: 120_000,
+  loadTimeline: 120_000,
+  exportParticle: 120_000,
 };
 
 async function apiCall(method, argList, opts) {
@@ -108,6 +125,35 @@ async function apiCall(method, argList, opts) {
   return callBridgeAtPort(target.wsPort, method, argList, callOpts);
 }
 
+/**
+ * 导出当前场景：给出 maxNodes 时单次导出（超出即截断），否则分片拉取完整场景。
+ * @returns {Promise<any>} SceneSnapshot；场景未就绪时为 null
+ */
+async function exportLiveSnapshot(opts, scopeOpts, { maxNodes, chunkSize } = {}) {
+  if (maxNodes != null) {
+    return apiCall('exportSceneSnapshot', [{ ...scopeOpts, maxNodes }], opts);
+  }
+  return fetchSceneSnapshotStreamed((method, argList) => apiCall(method, argList, opts), {
+    ...scopeOpts,
+    chunkSize,
+  });
+}
+
+/** cocos_diff_scene 的基线快照，保存在 MCP 进程内（与页面浮窗的基线互不影响） */
+let sceneDiffBaseline = null;
+
+/** 被截断的一侧：截断外的节点会被误报为新增 / 删除 */
+function sceneDiffWarnings(diff) {
+  const warnings = [];
+  if (diff.before?.truncated) {
+    warnings.push(`before 快照已截断（${diff.before.nodeCount} 节点），截断外的节点会显示为删除`);
+  }
+  if (diff.after?.truncated) {
+    warnings.push(`after 快照已截断（${diff.after.nodeCount} 节点），截断外的节点会显示为新增`);
+  }
+  return warnings;
+}
+
 function writeBase64File(outPath, base64) {
   const dir = dirname(outPath);
   mkdirSync(dir, { recursive: true });
@@ -169,10 +215,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'cocos_list_sprites',
       description:
-        '列出所有带贴图的 Sprite 节点（nodeId、名称、帧名、路径）。用于 Cursor 判断 UI 纹理',
+        '列出所有带贴图的 Sprite 节点（nodeId、名称、帧名、路径、是否可见）。用于 Cursor 判断 UI 纹理',
       inputSchema: {
         type: 'object',
         properties: {
+          visibleOnly: {
+            type: 'boolean',
+            description: '只列当前真正可见的（排除屏幕外、被 Mask 裁掉、透明度 0、相机不渲染的）',
+          },
           pageUrlMatch: { type: 'string' },
           domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
           wsPort: { type: 'number' },
@@ -183,7 +233,154 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'cocos_get_scene_tree',
       description:
-        '轻量场景树（id/name/active/children），不含组件详情。需试玩页扩展已连桥接',
+        '轻量场景树（id/name/active/children），不含组件详情；常驻节点等场景外根节点追加在场景根 children 末尾并带 rootKind。需试玩页扩展已连桥接',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+      },
+    },
+    {
+      name: 'cocos_query_nodes',
+      description:
+        '按查询语言筛选节点，返回 id / 路径 / 组件列表。语法：路径 glob（Canvas/Reels/**）、组件[属性 运算 值]（Sprite[spriteFrame~=symbol_]）、:active / :inactive / :visible / :hidden、其它词为节点名包含；空格分隔条件为且',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: '如 Canvas/Reels/** Sprite[spriteFrame~=symbol_] :active',
+          },
+          limit: { type: 'number', description: '最多返回条数，默认 500（total 为全部命中数）' },
+          rootId: { type: 'string', description: '只在该子树内查询' },
+          rootPath: { type: 'string', description: '子树根路径后缀' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+        required: ['query'],
+      },
+    },
+    {
+      name: 'cocos_analyze_visibility',
+      description:
+        '可见性分析：传 nodeId / path 时说明该节点为何（不）可见；都不传时汇总全场景激活但看不见的渲染节点。原因含 inactive / opacity / zeroScale / zeroSize / masked / offscreen / cameraLayer',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          path: { type: 'string', description: '节点路径后缀，如 Canvas/Popup/Title' },
+          limit: { type: 'number', description: '汇总时最多列出的节点数，默认 200' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+      },
+    },
+    {
+      name: 'cocos_measure_nodes',
+      description:
+        '测量两个节点：水平/垂直间距（设计分辨率单位与屏幕像素，负数为重叠）、对齐的边（左/右/上/下/居中）、各边差值、世界坐标差与 A 父节点空间中的本地坐标差',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          aId: { type: 'string' },
+          aPath: { type: 'string', description: 'A 的路径后缀，如 Canvas/Popup/Title' },
+          bId: { type: 'string' },
+          bPath: { type: 'string', description: 'B 的路径后缀' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+      },
+    },
+    {
+      name: 'cocos_scene_overlay',
+      description:
+        '在游戏画面上叠加绘制（配合截图查看）：bounds=子树全部渲染节点包围盒；overdraw=重叠层数热力图；batch=按贴图+材质着色，相邻异色即断批；layout=Widget 对齐边距与 Layout 内边距/间距/槽位，标出冲突；off 关闭。返回渲染节点数、最大/平均 overdraw、估算批次数、Widget/Layout/冲突数',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          mode: { type: 'string', enum: ['bounds', 'overdraw', 'batch', 'layout', 'off'] },
+          nodeId: { type: 'string', description: '子树根节点 id；省略为整个场景' },
+          path: { type: 'string', description: '子树根路径后缀，如 Canvas/Reels' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+        required: ['mode'],
+      },
+    },
+    {
+      name: 'cocos_layout_constraints',
+      description:
+        'Widget / Layout 约束分析：每个 Widget 的对齐目标、各边配置值（px 或 %）与当前实际距离，每个 Layout 的类型、resizeMode、padding、spacing 与子节点槽位，以及 Widget 与 Layout 同时控制同一节点的冲突',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string', description: '子树根节点 id；省略为整个场景' },
+          path: { type: 'string', description: '子树根路径后缀，如 Canvas/Popup' },
+          limit: { type: 'number', description: 'Widget / Layout 各最多返回数，默认 200' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+      },
+    },
+    {
+      name: 'cocos_batch_breaks',
+      description:
+        '断批分析：按渲染顺序遍历渲染单元，列出每个断批点（前后节点、新批次序号）及原因：texture 贴图不同 / material 材质或混合模式不同 / font Label 字体不同 / mask 进出 Mask 模板 / graphics / spine / standalone 单独提交；按子树分组并汇总各原因次数',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string', description: '子树根节点 id；省略为整个场景' },
+          path: { type: 'string', description: '子树根路径后缀，如 Canvas/Popup' },
+          limit: { type: 'number', description: '最多统计的渲染单元数，默认 5000' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+      },
+    },
+    {
+      name: 'cocos_pick_nodes',
+      description:
+        '画布点选：返回叠在 (x, y) 处的渲染节点（Sprite / Label / Spine 等世界包围盒命中），上层在前，含渲染顺序、路径、屏幕矩形、不透明度；被 Mask 裁掉或透明度 0 的默认不返回',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          space: {
+            type: 'string',
+            enum: ['client', 'canvas'],
+            description: 'client=页面 CSS 像素（默认）；canvas=画布像素、左上原点（对应 game 截图）',
+          },
+          includeHidden: { type: 'boolean', description: '包含被 Mask 裁掉 / 透明度 0 的节点' },
+          limit: { type: 'number', description: '最多返回条数，默认 50' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+        required: ['x', 'y'],
+      },
+    },
+    {
+      name: 'cocos_get_bookmarks',
+      description:
+        '读取页内「书签」浮窗保存的节点书签（稳定路径，解析为当前节点 id，失效为 null）与监视属性的当前值、变化次数；按页面存于扩展存储，刷新页面后保留',
       inputSchema: {
         type: 'object',
         properties: {
@@ -197,12 +394,27 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'cocos_export_scene_snapshot',
       description:
-        '导出完整场景快照 JSON（节点树+Transform+组件摘要）。可写 outPath 落盘，供 Creator 重建',
+        '导出完整场景快照 JSON（节点树+Transform+世界变换/包围盒/layer+组件摘要）。整场景导出时常驻节点等场景外根节点放在 extraRoots。默认分片拉取，不截断；可写 outPath 落盘，供 Creator 重建',
       inputSchema: {
         type: 'object',
         properties: {
           outPath: { type: 'string', description: '保存 .json 路径（可选）' },
-          maxNodes: { type: 'number', description: '最大节点数，默认 3000' },
+          maxNodes: {
+            type: 'number',
+            description: '传入时改用单次导出并在该节点数截断（旧行为）；默认分片导出全部节点',
+          },
+          chunkSize: { type: 'number', description: '分片导出每片节点数，默认 200' },
+          rootPath: {
+            type: 'string',
+            description: '只导出该路径后缀的子树，如 Canvas/Popup/BigWin',
+          },
+          rootId: { type: 'string', description: '只导出该节点 id 的子树（优先于 rootPath）' },
+          maxDepth: { type: 'number', description: '相对子树根的最大深度，0 只导出根节点' },
+          componentTypes: {
+            type: 'array',
+            items: { type: 'string' },
+            description: '只保留这些组件的详情，如 ["Sprite","Label"]',
+          },
           includeComponents: {
             type: 'boolean',
             description: '是否含组件详情，默认 true',
@@ -214,6 +426,203 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
         },
       },
     },
+    {
+      name: 'cocos_diff_scene',
+      description:
+        '场景快照对比：action=baseline 记录当前场景为基线（分片完整导出，保存在 MCP 进程）；action=diff 对比基线（或 beforePath 文件）与当前场景（或 afterPath 文件），返回新增/删除/移动/变换/尺寸/组件/帧变化；快照被截断时附 warnings',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['baseline', 'diff'], description: '默认 diff' },
+          beforePath: {
+            type: 'string',
+            description: '旧快照 .json（cocos_export_scene_snapshot 的 outPath）；省略则用页面基线',
+          },
+          afterPath: { type: 'string', description: '新快照 .json；省略则导出当前场景' },
+          matchBy: {
+            type: 'string',
+            enum: ['auto', 'id', 'path'],
+            description: '节点匹配方式，刷新页面后的快照请用 path，默认 auto',
+          },
+          epsilon: { type: 'number', description: '数值比较容差，默认 0.01' },
+          maxEntries: { type: 'number', description: '最多返回条目，默认 2000' },
+          maxNodes: {
+            type: 'number',
+            description: '导出当前场景时的最大节点数（单次导出，超出截断）；省略则分片导出完整场景',
+          },
+          outPath: { type: 'string', description: '对比结果保存 .json 路径（可选）' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+      },
+    },
+    {
+      name: 'cocos_set_property',
+      description:
+        '按节点路径后缀写组件属性（Label.string、Sprite.color、Widget.left 等），可 undo 撤销上一次',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: '节点路径后缀，如 Canvas/Reels/title' },
+          component: {
+            type: 'string',
+            description: '组件短名（Label / Sprite / Widget…），Node 表示节点自身',
+          },
+          prop: { type: 'string', description: '属性名，如 string / color / left' },
+          value: {
+            description:
+              '数字 / 布尔 / 字符串；颜色 "#rrggbbaa" 或 [r,g,b,a]（0-255）；向量 [x,y(,z)]',
+          },
+          undo: { type: 'boolean', description: '为 true 时忽略其他参数，撤销上一次编辑' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+      },
+    },
+    {
+      name: 'cocos_edit_hierarchy',
+      description:
+        '运行时改节点层级：reparent 换父节点 / reorder 调兄弟顺序 / duplicate 复制（cc.instantiate）/ delete 删除 / undo 撤销上一次（与页内面板共用撤销栈）',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          op: { type: 'string', enum: ['reparent', 'reorder', 'duplicate', 'delete', 'undo'] },
+          path: { type: 'string', description: '目标节点路径后缀，如 Canvas/Reels/title' },
+          nodeId: { type: 'string', description: '目标节点 id（与 path 二选一）' },
+          parentPath: { type: 'string', description: 'reparent：新父节点路径后缀' },
+          parentId: { type: 'string', description: 'reparent：新父节点 id' },
+          index: {
+            type: 'number',
+            description: 'reparent / reorder：在父节点 children 中的位置（引擎顺序），省略为末尾',
+          },
+          keepWorldTransform: {
+            type: 'boolean',
+            description: 'reparent：是否保持世界坐标，默认 true',
+          },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+        required: ['op'],
+      },
+    },
+    {
+      name: 'cocos_hooks',
+      description:
+        '属性读写钩子：list 列出 / add 添加 / remove 移除（不传 hookId 移除全部）/ log 调用日志（含调用栈）/ clear 清空日志',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['list', 'add', 'remove', 'log', 'clear'] },
+          path: { type: 'string', description: 'add：节点路径后缀' },
+          component: { type: 'string', description: 'add：组件短名，Node 表示节点自身' },
+          prop: { type: 'string', description: 'add：属性名，如 position / string' },
+          hookType: { type: 'string', enum: ['get', 'set', 'both'], description: '默认 set' },
+          breakOnWrite: { type: 'boolean', description: 'add：写入时触发 debugger' },
+          hookId: { type: 'string', description: 'remove / log：钩子 id（nodeId:compId:prop）' },
+          limit: { type: 'number', description: 'log：最多返回条数，默认 100' },
+          since: { type: 'number', description: 'log：只返回该毫秒时间戳之后的记录' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+        required: ['action'],
+      },
+    },
+    {
+      name: 'cocos_timeline',
+      description:
+        '时间轴录制：start 开始录制子树（逐帧采样变换/显隐/透明度/帧）/ stop 停止 / status 状态 / get 取时间轴 / load 载入 .json / seek 回放到某帧（暂停引擎）/ restore 恢复现场',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          action: {
+            type: 'string',
+            enum: ['start', 'stop', 'status', 'get', 'load', 'seek', 'restore'],
+          },
+          path: { type: 'string', description: 'start：子树根节点路径后缀，省略录制整个场景' },
+          nodeId: { type: 'string', description: 'start：子树根节点 id（优先于 path）' },
+          maxFrames: { type: 'number', description: 'start：最多录制帧数，默认 3600' },
+          maxNodes: { type: 'number', description: 'start：最多跟踪节点数，默认 300' },
+          frame: { type: 'number', description: 'seek：帧序号（从 0 开始）' },
+          inPath: { type: 'string', description: 'load：时间轴 .json 路径' },
+          outPath: { type: 'string', description: 'stop / get：保存时间轴 .json 路径（可选）' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+        required: ['action'],
+      },
+    },
+    {
+      name: 'cocos_input_trace',
+      description:
+        '输入事件追踪：start 开始（拦截节点事件分发，画布上画出命中与传播路径）/ stop 停止 / status 状态 / log 记录（每次 touch/mouse 分发的命中节点、传播路径、执行的监听、停止传播与 BlockInputEvents、下方被挡住的节点、Button 不可交互等提示）/ clear 清空',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['start', 'stop', 'status', 'log', 'clear'] },
+          includeMove: { type: 'boolean', description: 'start：同时记录 touch-move，默认 false' },
+          overlay: { type: 'boolean', description: 'start：在画布上画路径，默认 true' },
+          limit: { type: 'number', description: 'log：最多返回条数，默认 50' },
+          since: { type: 'number', description: 'log：只返回该毫秒时间戳之后的记录' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+        required: ['action'],
+      },
+    },
+    {
+      name: 'cocos_animation_graph',
+      description:
+        '动画状态图：extract 提取子树内 cc.Animation / AnimationController / sp.Skeleton 的剪辑、皮肤、轨道与状态机；start / stop 捕获运行时播放顺序（合并为转换计数）；status 捕获状态。返回 JSON + Mermaid',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['extract', 'start', 'stop', 'status'] },
+          path: { type: 'string', description: '子树根节点路径后缀，省略为整个场景' },
+          nodeId: { type: 'string', description: '子树根节点 id（优先于 path）' },
+          maxComponents: { type: 'number', description: '最多动画组件数，默认 200' },
+          maxEvents: { type: 'number', description: 'start：最多记录播放事件数，默认 5000' },
+          outPath: {
+            type: 'string',
+            description: 'extract / stop：保存状态图 .json，同名 .mmd 保存 Mermaid（可选）',
+          },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+        required: ['action'],
+      },
+    },
+    {
+      name: 'cocos_export_particle',
+      description:
+        '导出节点上的粒子 zip：ParticleSystem2D 重建 Particle Designer 兼容 .plist + 贴图 png；3D ParticleSystem 导出各模块配置 JSON + 材质贴图',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string', description: '粒子节点 id（优先于 path）' },
+          path: { type: 'string', description: '粒子节点路径后缀' },
+          particleIndex: { type: 'number', description: '节点上第几个粒子组件，默认 0' },
+          outZip: { type: 'string', description: '保存 .zip 路径，默认 tmp/<zipName>' },
+          pageUrlMatch: { type: 'string' },
+          domain: { type: 'string', description: '试玩页域名，如 play.godeebxp.com' },
+          wsPort: { type: 'number' },
+          cdpPort: { type: 'number' },
+        },
+      },
+    },
     {
       name: 'cocos_get_sprite',
       description: '获取单个 Sprite 元数据（frameRect、isRotated、尺寸等）',
@@ -513,7 +922,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     if (name === 'cocos_list_sprites') {
-      const list = await apiCall('listSprites', [], opts);
+      const list = await apiCall('listSprites', [!!args?.visibleOnly], opts);
       return {
         content: [{ type: 'text', text: JSON.stringify(list, null, 2) }],
       };
@@ -527,13 +936,140 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
+    if (name === 'cocos_query_nodes') {
+      if (!args?.query) throw new Error('cocos_query_nodes 需要 query');
+      await waitExt(opts);
+      const res = await apiCall(
+        'queryNodes',
+        [
+          String(args.query),
+          {
+            limit: args.limit != null ? Number(args.limit) : undefined,
+            rootId: args.rootId,
+            rootPath: args.rootPath,
+          },
+        ],
+        opts
+      );
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_get_bookmarks') {
+      await waitExt(opts);
+      const res = await apiCall('getBookmarks', [], opts);
+      return { content: [{ type: 'text', text: JSON.stringify(res, null, 2) }] };
+    }
+
+    if (name === 'cocos_analyze_visibility') {
+      await waitExt(opts);
+      const res = await apiCall(
+        'analyzeVisibility',
+        [
+          {
+            nodeId: args?.nodeId,
+            path: args?.path,
+            limit: args?.limit != null ? Number(args.limit) : undefined,
+          },
+        ],
+        opts
+      );
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_measure_nodes') {
+      await waitExt(opts);
+      const res = await apiCall(
+        'measureNodes',
+        [{ aId: args?.aId, aPath: args?.aPath, bId: args?.bId, bPath: args?.bPath }],
+        opts
+      );
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_scene_overlay') {
+      if (!args?.mode) throw new Error('cocos_scene_overlay 需要 mode');
+      await waitExt(opts);
+      const res = await apiCall(
+        'setSceneOverlay',
+        [args.mode === 'off' ? null : args.mode, { nodeId: args.nodeId, path: args.path }],
+        opts
+      );
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_layout_constraints') {
+      await waitExt(opts);
+      const res = await apiCall(
+        'analyzeLayoutConstraints',
+        [{ nodeId: args?.nodeId, path: args?.path, limit: args?.limit }],
+        opts
+      );
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_batch_breaks') {
+      await waitExt(opts);
+      const res = await apiCall(
+        'analyzeBatchBreaks',
+        [{ nodeId: args?.nodeId, path: args?.path, limit: args?.limit }],
+        opts
+      );
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_pick_nodes') {
+      if (args?.x == null || args?.y == null) throw new Error('cocos_pick_nodes 需要 x、y');
+      await waitExt(opts);
+      const res = await apiCall(
+        'pickNodesAt',
+        [
+          Number(args.x),
+          Number(args.y),
+          {
+            space: args.space,
+            includeHidden: !!args.includeHidden,
+            limit: args.limit != null ? Number(args.limit) : undefined,
+          },
+        ],
+        opts
+      );
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
     if (name === 'cocos_export_scene_snapshot') {
       await waitExt(opts);
-      const snapOpts = {
-        maxNodes: args?.maxNodes != null ? Number(args.maxNodes) : undefined,
+      const scopeOpts = {
         includeComponents: args?.includeComponents !== false,
+        rootId: args?.rootId,
+        rootPath: args?.rootPath,
+        maxDepth: args?.maxDepth != null ? Number(args.maxDepth) : undefined,
+        componentTypes: Array.isArray(args?.componentTypes) ? args.componentTypes : undefined,
       };
-      const snapshot = await apiCall('exportSceneSnapshot', [snapOpts], opts);
+      const snapshot = await exportLiveSnapshot(opts, scopeOpts, {
+        maxNodes: args?.maxNodes != null ? Number(args.maxNodes) : undefined,
+        chunkSize: args?.chunkSize != null ? Number(args.chunkSize) : undefined,
+      });
       if (!snapshot) {
         return {
           content: [{ type: 'text', text: '场景未就绪或 exportSceneSnapshot 返回空' }],
@@ -562,6 +1098,309 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
+    if (name === 'cocos_diff_scene') {
+      // 当前场景默认分片完整导出；给出 maxNodes 时单次导出并可能截断
+      const exportLive = async () => {
+        await waitExt(opts);
+        return exportLiveSnapshot(
+          opts,
+          { includeComponents: true },
+          { maxNodes: args?.maxNodes != null ? Number(args.maxNodes) : undefined }
+        );
+      };
+      let res;
+      if (args?.action === 'baseline') {
+        const snap = await exportLive();
+        if (snap) sceneDiffBaseline = snap;
+        res = snap
+          ? {
+              ok: true,
+              sceneName: snap.sceneName,
+              nodeCount: snap.stats.nodeCount,
+              truncated: snap.stats.truncated,
+            }
+          : { ok: false, error: '场景未就绪' };
+      } else {
+        // 两侧都在本进程对比（dist/scene-diff.mjs），快照不上传到页面
+        const localDiff = await loadLocalSceneDiff();
+        const readSnap = (p) => JSON.parse(readFileSync(resolve(p), 'utf8'));
+        const before = args?.beforePath ? readSnap(args.beforePath) : sceneDiffBaseline;
+        if (!localDiff) {
+          res = { ok: false, error: '缺少 dist/scene-diff.mjs，先运行 npm run build' };
+        } else if (!before) {
+          res = { ok: false, error: '没有基线快照：先 action=baseline 或传入 beforePath' };
+        } else {
+          const after = args?.afterPath ? readSnap(args.afterPath) : await exportLive();
+          if (!after) {
+            res = { ok: false, error: '场景未就绪' };
+          } else if (!before.root || !after.root) {
+            res = { ok: false, error: '快照缺少 root' };
+          } else {
+            const diff = localDiff(before, after, {
+              matchBy: args?.matchBy,
+              epsilon: args?.epsilon != null ? Number(args.epsilon) : undefined,
+              maxEntries: args?.maxEntries != null ? Number(args.maxEntries) : undefined,
+            });
+            const warnings = sceneDiffWarnings(diff);
+            res = { ok: true, ...(warnings.length > 0 ? { warnings } : {}), diff };
+          }
+        }
+        if (res?.ok && args?.outPath) {
+          const outPath = resolve(args.outPath);
+          mkdirSync(dirname(outPath), { recursive: true });
+          writeFileSync(outPath, JSON.stringify(res.diff, null, 2), 'utf8');
+          res = {
+            ok: true,
+            ...(res.warnings ? { warnings: res.warnings } : {}),
+            saved: outPath,
+            before: res.diff.before,
+            after: res.diff.after,
+            summary: res.diff.summary,
+          };
+        }
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_set_property') {
+      const res = args?.undo
+        ? await apiCall('undoPropertyEdit', [], opts)
+        : await apiCall(
+            'setComponentProperty',
+            [args?.path, args?.component ?? 'Node', args?.prop, args?.value],
+            opts
+          );
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_edit_hierarchy') {
+      if (!args?.op) throw new Error('cocos_edit_hierarchy 需要 op');
+      await waitExt(opts);
+      const res = await apiCall(
+        'editHierarchy',
+        [
+          {
+            op: args.op,
+            path: args.path,
+            nodeId: args.nodeId,
+            parentPath: args.parentPath,
+            parentId: args.parentId,
+            index: args.index == null ? undefined : Number(args.index),
+            keepWorldTransform: args.keepWorldTransform,
+          },
+        ],
+        opts
+      );
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_hooks') {
+      const action = args?.action ?? 'list';
+      let res;
+      if (action === 'add') {
+        res = await apiCall(
+          'addHook',
+          [
+            {
+              path: args?.path,
+              component: args?.component ?? 'Node',
+              prop: args?.prop,
+              hookType: args?.hookType ?? 'set',
+              breakOnWrite: !!args?.breakOnWrite,
+            },
+          ],
+          opts
+        );
+      } else if (action === 'remove') {
+        res = await apiCall('removeHook', [args?.hookId], opts);
+      } else if (action === 'log') {
+        res = await apiCall(
+          'getHookLog',
+          [{ limit: args?.limit, since: args?.since, hookId: args?.hookId }],
+          opts
+        );
+      } else if (action === 'clear') {
+        res = await apiCall('clearHookLog', [], opts);
+      } else {
+        res = await apiCall('listHooks', [], opts);
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_input_trace') {
+      await waitExt(opts);
+      const action = args?.action ?? 'status';
+      let res;
+      if (action === 'start') {
+        res = await apiCall(
+          'startInputTrace',
+          [{ includeMove: !!args?.includeMove, overlay: args?.overlay !== false }],
+          opts
+        );
+      } else if (action === 'stop') {
+        res = await apiCall('stopInputTrace', [], opts);
+      } else if (action === 'log') {
+        res = await apiCall('getInputTraceLog', [{ limit: args?.limit, since: args?.since }], opts);
+      } else if (action === 'clear') {
+        res = await apiCall('clearInputTraceLog', [], opts);
+      } else {
+        res = await apiCall('getInputTraceStatus', [], opts);
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_timeline') {
+      const action = args?.action ?? 'status';
+      let res;
+      if (action === 'start') {
+        res = await apiCall(
+          'startTimelineRecording',
+          [
+            {
+              rootId: args?.nodeId,
+              rootPath: args?.path,
+              maxFrames: args?.maxFrames != null ? Number(args.maxFrames) : undefined,
+              maxNodes: args?.maxNodes != null ? Number(args.maxNodes) : undefined,
+            },
+          ],
+          opts
+        );
+      } else if (action === 'stop' || action === 'get') {
+        res = await apiCall(
+          action === 'stop' ? 'stopTimelineRecording' : 'getTimeline',
+          [],
+          opts
+        );
+        if (res?.ok && args?.outPath) {
+          const outPath = resolve(args.outPath);
+          mkdirSync(dirname(outPath), { recursive: true });
+          writeFileSync(outPath, JSON.stringify(res.timeline), 'utf8');
+          const { frameCount, durationMs, tracks, truncated } = res.timeline;
+          res = {
+            ok: true,
+            saved: outPath,
+            frameCount,
+            durationMs,
+            tracks: tracks.length,
+            truncated,
+          };
+        }
+      } else if (action === 'load') {
+        if (!args?.inPath) throw new Error('load 需要 inPath');
+        const timeline = JSON.parse(readFileSync(resolve(args.inPath), 'utf8'));
+        res = await apiCall('loadTimeline', [timeline], opts);
+      } else if (action === 'seek') {
+        res = await apiCall('applyTimelineFrame', [Number(args?.frame ?? 0)], opts);
+      } else if (action === 'restore') {
+        res = await apiCall('restoreTimelinePlayback', [], opts);
+      } else {
+        res = await apiCall('getTimelineStatus', [], opts);
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_animation_graph') {
+      const action = args?.action ?? 'extract';
+      const graphOpts = {
+        rootId: args?.nodeId,
+        rootPath: args?.path,
+        maxComponents: args?.maxComponents != null ? Number(args.maxComponents) : undefined,
+      };
+      let res;
+      if (action === 'start') {
+        res = await apiCall(
+          'startAnimationCapture',
+          [
+            {
+              ...graphOpts,
+              maxEvents: args?.maxEvents != null ? Number(args.maxEvents) : undefined,
+            },
+          ],
+          opts
+        );
+      } else if (action === 'status') {
+        res = await apiCall('getAnimationCaptureStatus', [], opts);
+      } else {
+        res = await apiCall(
+          action === 'stop' ? 'stopAnimationCapture' : 'getAnimationStateGraph',
+          action === 'stop' ? [] : [graphOpts],
+          opts
+        );
+        if (res?.ok && args?.outPath) {
+          const outPath = resolve(args.outPath);
+          const mmdPath = outPath.replace(/\.json$/i, '') + '.mmd';
+          mkdirSync(dirname(outPath), { recursive: true });
+          writeFileSync(outPath, JSON.stringify(res.graph, null, 2), 'utf8');
+          writeFileSync(mmdPath, res.mermaid + '\n', 'utf8');
+          res = {
+            ok: true,
+            saved: outPath,
+            mermaidSaved: mmdPath,
+            components: res.graph.components.length,
+            events: res.graph.events.length,
+          };
+        }
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+        isError: res?.ok === false,
+      };
+    }
+
+    if (name === 'cocos_export_particle') {
+      if (!args?.nodeId && !args?.path) {
+        throw new Error('cocos_export_particle 需要 nodeId 或 path');
+      }
+      const res = await apiCall(
+        'exportParticle',
+        [
+          {
+            nodeId: args.nodeId,
+            path: args.path,
+            particleIndex: args.particleIndex != null ? Number(args.particleIndex) : 0,
+          },
+        ],
+        opts
+      );
+      if (!res?.ok) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(res, null, 2) }],
+          isError: true,
+        };
+      }
+      const outZip = args?.outZip
+        ? resolve(args.outZip)
+        : resolve(repoRoot, 'tmp', res.data.zipName);
+      writeBase64File(outZip, res.data.zipBase64);
+      const summary = {
+        savedZip: outZip,
+        kind: res.data.kind,
+        files: res.data.files,
+        log: res.data.log,
+      };
+      return {
+        content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }],
+      };
+    }
+
     if (name === 'cocos_get_sprite') {
       const res = await apiCall('getSpriteDetail', [args.nodeId], opts);
       return {
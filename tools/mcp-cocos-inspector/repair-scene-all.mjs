@@ -16,6 +16,7 @@ import {
 import {
   collectUiSizeBindings,
   indexSnapshotNodes,
+  parseMaskType,
   parseSpriteSizeMode,
 } from './scene-snapshot-parse.mjs';
 
@@ -42,14 +43,13 @@ const collectMaskTargets = (snapshotRoot, pathMap) => {
   const walk = (n) => {
     const maskComp = (n.components || []).find((c) => /Mask/.test(c.typeName || ''));
     if (maskComp) {
-      const typeRow = maskComp.rows?.find((r) => r.label === '类型');
-      const maskType = parseInt(String(typeRow?.value ?? '0'), 10);
+      const maskType = parseMaskType(maskComp);
       const paths = [n.path?.replace(/^main › /, ''), n.path].filter(Boolean);
       for (const p of paths) {
         if (pathMap.has(p)) {
           targets.push({
             nodeUuid: pathMap.get(p),
-            maskType: Number.isFinite(maskType) ? maskType : 0,
+            maskType,
           });
           break;
         }
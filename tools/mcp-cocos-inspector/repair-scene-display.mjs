@@ -9,6 +9,7 @@ import {
   patchMasksOnDisk,
   patchSpriteFramesOnDisk,
 } from './scene-patch-disk.mjs';
+import { parseMaskType, parseSpriteSizeMode } from './scene-snapshot-parse.mjs';
 
 const BRIDGE = process.env.COCOSMCP_BRIDGE ?? 'http://127.0.0.1:3921';
 const PROJECT = process.env.COCOS_PROJECT ?? 'D:/workspace/testAutoCopy';
@@ -28,13 +29,6 @@ const execEval = async (code) => {
   return body.result;
 };
 
-const parseSpriteSizeMode = (ch) => {
-  const sp = ch.components?.find((c) => c.flags?.isSprite);
-  const row = sp?.rows?.find((r) => r.label === '尺寸模式');
-  const v = parseInt(String(row?.value ?? ''), 10);
-  return Number.isFinite(v) ? v : null;
-};
-
 const indexSnapshot = (root) => {
   const byId = {};
   const walk = (n) => {
@@ -50,14 +44,13 @@ const collectMaskTargets = (root, pathMap) => {
   const walk = (n) => {
     const maskComp = n.components?.find((c) => /Mask/.test(c.typeName || ''));
     if (maskComp) {
-      const typeRow = maskComp.rows?.find((r) => r.label === '类型');
-      const maskType = parseInt(String(typeRow?.value ?? '0'), 10);
+      const maskType = parseMaskType(maskComp);
       const paths = [n.path?.replace(/^main › /, ''), n.path].filter(Boolean);
       for (const p of paths) {
         if (pathMap.has(p)) {
           targets.push({
             nodeUuid: pathMap.get(p),
-            maskType: Number.isFinite(maskType) ? maskType : 0,
+            maskType,
             path: p,
           });
           break;
@@ -1,7 +1,19 @@
 /**
- * 从快照节点解析 UITransform 尺寸（允许 0 宽/高，如 0×56、0×0）
+ * 快照解析：version 2 优先读组件结构化 props，version 1 快照回退解析展示行 rows。
  */
 
+/** 组件结构化属性（SceneSnapshot v2 `props`）；v1 快照或无该属性返回 undefined */
+export const getComponentProp = (comp, key) => comp?.props?.[key];
+
+/** 数值或枚举 props 值 → number */
+export const propNumber = (value) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (value?.type === 'enum' && Number.isFinite(value.value)) return value.value;
+  return null;
+};
+
+/** 从快照节点解析 UITransform 尺寸（允许 0 宽/高，如 0×56、0×0） */
+
 export const parseSizePair = (value) => {
   const m = String(value ?? '').match(/(\d+(?:\.\d+)?)\s*[×x]\s*(\d+(?:\.\d+)?)/);
   if (!m) return null;
@@ -21,6 +33,15 @@ export const parseUiFromSnapshotNode = (ch) => {
   }
 
   const uiComp = (ch.components || []).find((c) => /UITransform/.test(c.typeName || ''));
+  const sizeProp = getComponentProp(uiComp, 'contentSize');
+  if (sizeProp?.type === 'size' && isValidUiSize(sizeProp.width, sizeProp.height)) {
+    const anchor = getComponentProp(uiComp, 'anchorPoint');
+    return {
+      contentSize: { width: sizeProp.width, height: sizeProp.height },
+      anchorPoint: anchor?.type === 'vec2' ? { x: anchor.x, y: anchor.y } : { x: 0.5, y: 0.5 },
+    };
+  }
+
   const sizeRow = uiComp?.rows?.find((r) => r.label === '内容尺寸');
   const size = parseSizePair(sizeRow?.value);
   if (size && isValidUiSize(size.width, size.height)) {
@@ -40,8 +61,7 @@ export const parseUiFromSnapshotNode = (ch) => {
   }
 
   const sp = (ch.components || []).find((c) => c.flags?.isSprite);
-  const sizeModeRow = sp?.rows?.find((r) => r.label === '尺寸模式');
-  const sizeMode = parseInt(String(sizeModeRow?.value ?? ''), 10);
+  const sizeMode = parseSpriteSizeMode(ch);
   // CUSTOM(2) 必须用 UITransform，不能用图集纹理尺寸
   if (sp?.rows && sizeMode !== 2) {
     const texRow = sp.rows.find((r) => r.label === '纹理');
@@ -59,11 +79,22 @@ export const parseSpriteSizeMode = (ch) => {
   if (sf != null && Number.isFinite(sf)) return sf;
 
   const sp = (ch.components || []).find((c) => c.flags?.isSprite);
+  const fromProps = propNumber(getComponentProp(sp, 'sizeMode'));
+  if (fromProps !== null) return fromProps;
   const row = sp?.rows?.find((r) => r.label === '尺寸模式');
   const v = parseInt(String(row?.value ?? ''), 10);
   return Number.isFinite(v) ? v : null;
 };
 
+/** Mask 类型（cc.Mask.Type），缺省 0 */
+export const parseMaskType = (maskComp) => {
+  const fromProps = propNumber(getComponentProp(maskComp, 'type'));
+  if (fromProps !== null) return fromProps;
+  const typeRow = maskComp?.rows?.find((r) => r.label === '类型');
+  const v = parseInt(String(typeRow?.value ?? '0'), 10);
+  return Number.isFinite(v) ? v : 0;
+};
+
 /** 从快照节点或 downloadTexture detail 归一化 spriteFrame 元数据 */
 export const normalizeSpriteFrameMeta = (ch, detail) => {
   const sf = ch?.spriteFrame;
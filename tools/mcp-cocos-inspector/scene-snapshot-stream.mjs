@@ -0,0 +1,69 @@
+/**
+ * 分片拉取场景快照并还原为 SceneSnapshot（version 2）结构。
+ * 页面侧见 src/cocos3/sceneSnapshotStream.ts：begin → fetch(cursor)… → end。
+ *
+ * @param {(method: string, argList: unknown[]) => Promise<any>} call 页面 API 调用
+ * @param {{
+ *   chunkSize?: number;
+ *   includeComponents?: boolean;
+ *   rootId?: string;
+ *   rootPath?: string;
+ *   maxDepth?: number;
+ *   componentTypes?: string[];
+ *   onProgress?: (done: number, total: number) => void;
+ * }} [options] rootId / rootPath 指定子树
+ */
+export async function fetchSceneSnapshotStreamed(call, options = {}) {
+  const { onProgress, ...beginOpts } = options;
+  const begin = await call('beginSceneSnapshotExport', [
+    { ...beginOpts, includeComponents: options.includeComponents !== false },
+  ]);
+  if (!begin?.ok) throw new Error(begin?.error ?? 'beginSceneSnapshotExport 失败');
+  const meta = begin.data;
+
+  const byId = new Map();
+  let root = null;
+  /** 场景外根节点（常驻 / 游离渲染），排在场景之后 */
+  const extraRoots = [];
+  let cursor = 0;
+  try {
+    while (cursor !== null) {
+      const chunk = await call('fetchSceneSnapshotChunk', [meta.exportId, cursor]);
+      if (!chunk?.ok) throw new Error(chunk?.error ?? `fetchSceneSnapshotChunk@${cursor} 失败`);
+      for (const rec of chunk.data.nodes) {
+        const { parentId, depth: _depth, ...rest } = rec;
+        const node = { ...rest, children: [] };
+        byId.set(node.id, node);
+        if (parentId === null && node.rootKind) {
+          extraRoots.push(node);
+        } else if (parentId === null) {
+          root = node;
+        } else {
+          // 深度优先顺序保证父节点先到
+          byId.get(parentId)?.children.push(node);
+        }
+      }
+      cursor = chunk.data.nextCursor;
+      onProgress?.(cursor ?? meta.totalNodes, meta.totalNodes);
+    }
+  } catch (e) {
+    await call('endSceneSnapshotExport', [meta.exportId]).catch(() => {});
+    throw e;
+  }
+
+  const end = await call('endSceneSnapshotExport', [meta.exportId]);
+  if (!end?.ok) throw new Error(end?.error ?? 'endSceneSnapshotExport 失败');
+  if (!root) throw new Error('分片导出未返回场景根节点');
+
+  return {
+    version: 2,
+    exportedAt: meta.exportedAt,
+    pageUrl: meta.pageUrl,
+    engineVersion: meta.engineVersion,
+    sceneName: meta.sceneName,
+    ...(meta.subtreeRoot ? { subtreeRoot: meta.subtreeRoot } : {}),
+    stats: end.stats,
+    root,
+    ...(extraRoots.length > 0 ? { extraRoots } : {}),
+  };
+}
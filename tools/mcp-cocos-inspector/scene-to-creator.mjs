@@ -29,6 +29,7 @@ const inspectorCall = (wsPort, method, argList, opts = {}) =>
       (method === 'downloadTexture' ? 300_000 : undefined),
   });
 import { resolveSharePath } from './shared-fs.mjs';
+import { fetchSceneSnapshotStreamed } from './scene-snapshot-stream.mjs';
 import {
   buildBindingsFromManifest,
   buildPathToNodeUuidMap,
@@ -41,8 +42,10 @@ import {
 } from './scene-patch-disk.mjs';
 import {
   collectUiSizeBindings,
+  getComponentProp,
   indexSnapshotNodes,
   normalizeSpriteFrameMeta,
+  parseMaskType,
   parseSpriteSizeMode,
   parseUiFromSnapshotNode,
 } from './scene-snapshot-parse.mjs';
@@ -573,6 +576,14 @@ function parseUiFromNode(ch) {
   const ut = ch.uiTransform?.contentSize;
   if (ut && Number.isFinite(ut.width) && Number.isFinite(ut.height)) return ch.uiTransform;
   const uiComp = (ch.components || []).find((c) => /UITransform/.test(c.typeName || ''));
+  const sizeProp = getComponentProp(uiComp, 'contentSize');
+  if (sizeProp?.type === 'size') {
+    const anchor = getComponentProp(uiComp, 'anchorPoint');
+    return {
+      contentSize: { width: sizeProp.width, height: sizeProp.height },
+      anchorPoint: anchor?.type === 'vec2' ? { x: anchor.x, y: anchor.y } : { x: 0.5, y: 0.5 },
+    };
+  }
   if (uiComp?.rows) {
     const sizeRow = uiComp.rows.find((r) => r.label === '内容尺寸');
     const anchorRow = uiComp.rows.find((r) => r.label === '锚点');
@@ -591,8 +602,7 @@ function parseUiFromNode(ch) {
     }
   }
   const sp = (ch.components || []).find((c) => c.flags?.isSprite);
-  const sizeModeRow = sp?.rows?.find((r) => r.label === '尺寸模式');
-  const sizeMode = parseInt(String(sizeModeRow?.value ?? ''), 10);
+  const sizeMode = parseSpriteSizeMode(ch);
   if (sp?.rows && sizeMode !== 2) {
     const texRow = sp.rows.find((r) => r.label === '纹理');
     const m = String(texRow?.value ?? '').match(/(\\d+(?:\\.\\d+)?)\\s*[×x]\\s*(\\d+(?:\\.\\d+)?)/);
@@ -612,6 +622,8 @@ function parseSpriteSizeMode(ch) {
     return ch.spriteFrame.sizeMode;
   }
   const sp = (ch.components || []).find((c) => c.flags?.isSprite);
+  const fromProps = getComponentProp(sp, 'sizeMode');
+  if (fromProps?.type === 'enum') return fromProps.value;
   if (!sp?.rows) return null;
   const row = sp.rows.find((r) => r.label === '尺寸模式');
   const v = parseInt(String(row?.value ?? ''), 10);
@@ -808,14 +820,13 @@ const collectMaskTargets = (snapshotRoot, pathMap) => {
   const walk = (n) => {
     const maskComp = (n.components || []).find((c) => /Mask/.test(c.typeName || ''));
     if (maskComp) {
-      const typeRow = maskComp.rows?.find((r) => r.label === '类型');
-      const maskType = parseInt(String(typeRow?.value ?? '0'), 10);
+      const maskType = parseMaskType(maskComp);
       const paths = [n.path?.replace(/^main › /, ''), n.path].filter(Boolean);
       for (const p of paths) {
         if (pathMap.has(p)) {
           targets.push({
             nodeUuid: pathMap.get(p),
-            maskType: Number.isFinite(maskType) ? maskType : 0,
+            maskType,
           });
           break;
         }
@@ -828,13 +839,13 @@ const collectMaskTargets = (snapshotRoot, pathMap) => {
 };
 
 const refreshSnapshotFromPage = async (args, outPath) => {
-  const snap = await inspectorCall(
-    args.wsPort,
-    'exportSceneSnapshot',
-    [{ maxNodes: args.maxNodes, includeComponents: true }],
-    { pageUrlMatch: args.pageUrlMatch }
+  // 分片拉取完整场景；maxNodes 只限制 Creator 侧建树数量
+  const snap = await fetchSceneSnapshotStreamed(
+    (method, argList) =>
+      inspectorCall(args.wsPort, method, argList, { pageUrlMatch: args.pageUrlMatch }),
+    { includeComponents: true }
   );
-  if (!snap?.root) throw new Error('exportSceneSnapshot 返回空');
+  if (!snap?.root) throw new Error('分片导出场景快照返回空');
   fs.mkdirSync(path.dirname(outPath), { recursive: true });
   fs.writeFileSync(outPath, JSON.stringify(snap, null, 2), 'utf8');
   return snap;